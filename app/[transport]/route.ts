@@ -1,7 +1,16 @@
 import { createMcpHandler } from "@vercel/mcp-adapter";
 import { z } from "zod";
 import { env } from "../config/env";
-import { analyzeRepositorySecurity, scanMultipleRepositories } from "../utils/githubSecurityClient";
+import { analyzeRepositorySecurity, generateRepositorySbom, listOrganizationRepositories, scanMultipleRepositories } from "../utils/githubSecurityClient";
+import { HtmlReportGenerator, SecurityReport } from "../utils/htmlReportGenerator";
+import { SarifExporter } from "../utils/sarifExporter";
+import { McpProgressNotifier } from "../utils/mcpProgress";
+import { getScanJobQueue } from "../utils/scanJobQueue";
+import { AIAnalysis, createEmptyAIAnalysis, validateAIAnalysis } from "../utils/aiAnalysisSchema";
+
+// Vercel function limit for this route; multi-repo scans stop early to leave time to respond
+const MAX_DURATION_SECONDS = 60;
+const SCAN_DEADLINE_MARGIN_MS = 8000;
 
 const handler = createMcpHandler(
   async (server) => {
@@ -14,21 +23,28 @@ const handler = createMcpHandler(
         repo: z.string(),
         analysisType: z.enum(["secrets", "vulnerabilities", "dependencies", "code-patterns"]).optional(),
         timeframe: z.enum(["day", "week", "month", "all"]).optional(),
+        rulePacks: z.array(z.string()).optional(),
       },
-      async ({ owner, repo, analysisType = "secrets", timeframe = "week" }) => {
+      async ({ owner, repo, analysisType = "secrets", timeframe = "week", rulePacks }, extra) => {
         try {
           // Use real GitHub MCP server
           const serverUrl = "https://server.smithery.ai/@smithery-ai/github";
           const apiKey = env.SMITHERY_GITHUB_API_KEY;
           const profile = "radical-hawk-AyMmPj";
           
+          // Report progress when the client sent a progress token; extra.signal is aborted
+          // when the client sends notifications/cancelled for this call
+          const progress = McpProgressNotifier.fromRequest(extra);
+          progress?.notify(`Collecting security files from ${owner}/${repo}`);
+          
           const result = await analyzeRepositorySecurity(
             serverUrl,
             apiKey,
             profile,
             owner,
             repo,
-            analysisType
+            analysisType,
+            { timeframe, rulePacks, progress: progress?.streamingCallbacks(`${owner}/${repo}`), signal: extra.signal }
           );
           
           return {
@@ -56,17 +72,44 @@ const handler = createMcpHandler(
         organizations: z.array(z.string()).optional(),
         repositories: z.array(z.string()).optional(),
         scanTypes: z.array(z.enum(["secrets", "vulnerabilities", "dependencies", "code-patterns"])).optional(),
+        includeArchived: z.boolean().optional(),
+        includeForks: z.boolean().optional(),
+        visibility: z.enum(["all", "public", "private", "internal"]).optional(),
+        topics: z.array(z.string()).optional(),
+        languages: z.array(z.string()).optional(),
+        concurrency: z.number().int().min(1).max(10).optional(),
+        rulePacks: z.array(z.string()).optional(),
       },
-      async ({ organizations = [], repositories = [], scanTypes = ["secrets", "vulnerabilities"] }) => {
+      async ({
+        organizations = [],
+        repositories = [],
+        scanTypes = ["secrets", "vulnerabilities"],
+        includeArchived = false,
+        includeForks = false,
+        visibility = "all",
+        topics = [],
+        languages = [],
+        concurrency = 4,
+        rulePacks,
+      }, extra) => {
+        const startedAt = Date.now();
         try {
           // Use real GitHub MCP server
           const serverUrl = "https://server.smithery.ai/@smithery-ai/github";
           const apiKey = env.SMITHERY_GITHUB_API_KEY;
           const profile = "radical-hawk-AyMmPj";
           
-          // Scan the provided repositories
-          // TODO: Add organization scanning when we understand the available tools
-          const reposToScan = repositories.length > 0 ? repositories : [];
+          // Expand organizations into their repositories and merge with the explicit list
+          const orgRepositories = organizations.length > 0
+            ? await listOrganizationRepositories(serverUrl, apiKey, profile, organizations, {
+                includeArchived,
+                includeForks,
+                visibility,
+                topics,
+                languages,
+              })
+            : undefined;
+          const reposToScan = [...new Set([...repositories, ...(orgRepositories?.repositories || [])])];
           
           if (reposToScan.length === 0) {
             return {
@@ -74,25 +117,44 @@ const handler = createMcpHandler(
                 type: "text", 
                 text: JSON.stringify({
                   error: "No repositories provided for scanning",
-                  message: "Please provide a list of repositories to scan",
+                  message: organizations.length > 0
+                    ? "No repositories in the given organizations matched the filters"
+                    : "Please provide a list of repositories or organizations to scan",
                   example: ["owner/repo1", "owner/repo2"]
                 }, null, 2)
               }],
             };
           }
           
+          const progress = McpProgressNotifier.fromRequest(extra);
           const result = await scanMultipleRepositories(
             serverUrl,
             apiKey,
             profile,
             reposToScan,
-            scanTypes
+            scanTypes,
+            {
+              concurrency,
+              // Organization enumeration already used part of the budget
+              deadlineMs: MAX_DURATION_SECONDS * 1000 - SCAN_DEADLINE_MARGIN_MS - (Date.now() - startedAt),
+              rulePacks,
+              onRepositoryScanned: (repository, completed, total) =>
+                progress?.notify(`Scanned ${repository} (${completed}/${total})`),
+              progress: progress ? repository => progress.streamingCallbacks(repository) : undefined,
+              signal: extra.signal,
+            }
           );
           
           return {
             content: [{ 
               type: "text", 
-              text: JSON.stringify(result, null, 2)
+              text: JSON.stringify({
+                ...result,
+                ...(orgRepositories?.note && {
+                  truncated_organizations: orgRepositories.truncatedOrganizations,
+                  organizations_note: orgRepositories.note
+                })
+              }, null, 2)
             }],
           };
         } catch (error) {
@@ -113,16 +175,19 @@ const handler = createMcpHandler(
       {
         owner: z.string(),
         repo: z.string(),
-        reportFormat: z.enum(["markdown", "json", "html"]).optional(),
+        reportFormat: z.enum(["markdown", "json", "html", "sarif"]).optional(),
         includeRecommendations: z.boolean().optional(),
       },
-      async ({ owner, repo, reportFormat = "markdown", includeRecommendations = true }) => {
+      async ({ owner, repo, reportFormat = "markdown", includeRecommendations = true }, extra) => {
         try {
           // Use real GitHub MCP server and AI analysis
           const serverUrl = "https://server.smithery.ai/@smithery-ai/github";
           const apiKey = env.SMITHERY_GITHUB_API_KEY;
           const profile = "radical-hawk-AyMmPj";
           
+          const progress = McpProgressNotifier.fromRequest(extra);
+          progress?.notify(`Collecting security files from ${owner}/${repo}`);
+          
           // Perform comprehensive security analysis
           const result = await analyzeRepositorySecurity(
             serverUrl,
@@ -130,39 +195,44 @@ const handler = createMcpHandler(
             profile,
             owner,
             repo,
-            "dependencies" // Get comprehensive data for report
+            "dependencies", // Get comprehensive data for report
+            { progress: progress?.streamingCallbacks(`${owner}/${repo}`), signal: extra.signal }
           );
           
-          // Extract AI analysis for report generation
-          const aiAnalysis = result.ai_analysis?.ai_analysis || {};
+          // Extract AI analysis for report generation; an unusable response yields an empty analysis
+          const validated = validateAIAnalysis(result.ai_analysis?.ai_analysis);
+          const aiAnalysis: AIAnalysis = validated.success ? validated.data : createEmptyAIAnalysis();
+          const validationErrors: string[] = [
+            ...(validated.success ? [] : validated.errors),
+            ...(result.ai_analysis?.validation?.errors || []),
+          ];
           
           // Generate real report based on actual findings
-          const realReport = {
+          const realReport: SecurityReport = {
             repository: `${owner}/${repo}`,
             scan_date: result.scan_date,
             summary: {
-              total_issues: aiAnalysis.critical_findings?.length || 0,
-              critical: aiAnalysis.critical_findings?.filter((f: any) => f.severity === "Critical").length || 0,
-              high: aiAnalysis.critical_findings?.filter((f: any) => f.severity === "High").length || 0,
-              medium: aiAnalysis.critical_findings?.filter((f: any) => f.severity === "Medium").length || 0,
-              low: aiAnalysis.critical_findings?.filter((f: any) => f.severity === "Low").length || 0,
-              security_score: aiAnalysis.security_score?.score || 0,
-              overall_risk: aiAnalysis.executive_summary?.overall_risk || null
+              total_issues: aiAnalysis.critical_findings.length,
+              critical: aiAnalysis.critical_findings.filter(f => f.severity === "Critical").length,
+              high: aiAnalysis.critical_findings.filter(f => f.severity === "High").length,
+              medium: aiAnalysis.critical_findings.filter(f => f.severity === "Medium").length,
+              low: aiAnalysis.critical_findings.filter(f => f.severity === "Low").length,
+              security_score: aiAnalysis.security_score.score,
+              overall_risk: validated.success ? aiAnalysis.executive_summary.overall_risk : null
             },
-            findings: aiAnalysis.critical_findings?.map((finding: any, index: number) => ({
+            findings: aiAnalysis.critical_findings.map((finding, index) => ({
               id: `SEC-${String(index + 1).padStart(3, '0')}`,
-              type: finding.type || null,
-              severity: finding.severity || null,
-              title: finding.finding || null,
-              description: finding.impact || finding.description || null,
+              type: finding.type || (typeof finding.chunk_type === "string" ? finding.chunk_type : null),
+              severity: finding.severity,
+              title: finding.finding,
+              description: finding.impact || null,
               location: finding.location || null,
               recommendation: finding.recommendation || null
-            })).filter((finding: any) =>  
-              finding.type && finding.severity && finding.title && finding.description
-            ) || [],
+            })),
             recommendations: includeRecommendations ? 
-              (aiAnalysis.recommendations?.map((rec: any) => rec.recommendation) || []) : [],
+              aiAnalysis.recommendations.map(rec => rec.recommendation) : [],
             ai_analysis: aiAnalysis,
+            validation_errors: validationErrors,
             github_data: result.findings
           };
           
@@ -182,11 +252,11 @@ const handler = createMcpHandler(
 - **Low**: ${realReport.summary.low}
 
 ## AI Analysis Summary
-${aiAnalysis.executive_summary?.security_posture || "No security posture analysis available."}
+${aiAnalysis.executive_summary.security_posture || "No security posture analysis available."}
 
 ## Findings
 ${realReport.findings.length > 0 ? 
-  realReport.findings.map((f: any) => `### ${f.title} (${f.severity})
+  realReport.findings.map(f => `### ${f.title} (${f.severity})
 - **Type**: ${f.type}
 - **Location**: ${f.location}
 - **Description**: ${f.description}
@@ -196,15 +266,23 @@ ${realReport.findings.length > 0 ?
 }
 
 ${includeRecommendations && realReport.recommendations.length > 0 ? `## Recommendations
-${realReport.recommendations.map((r: any) => `- ${r}`).join('\n')}` : ''}
+${realReport.recommendations.map(r => `- ${r}`).join('\n')}` : ''}
 
 ## Risk Analysis
-- **High Risk Items**: ${aiAnalysis.risk_analysis?.high_risk_items?.join(', ') || 'None identified'}
-- **Medium Risk Items**: ${aiAnalysis.risk_analysis?.medium_risk_items?.join(', ') || 'None identified'}
-- **Low Risk Items**: ${aiAnalysis.risk_analysis?.low_risk_items?.join(', ') || 'None identified'}
+- **High Risk Items**: ${aiAnalysis.risk_analysis.high_risk_items.join(', ') || 'None identified'}
+- **Medium Risk Items**: ${aiAnalysis.risk_analysis.medium_risk_items.join(', ') || 'None identified'}
+- **Low Risk Items**: ${aiAnalysis.risk_analysis.low_risk_items.join(', ') || 'None identified'}
+${validationErrors.length > 0 ? `
+## AI Response Validation
+${validationErrors.map(e => `- ${e}`).join('\n')}
+` : ''}
 
 ---
 *Report generated on ${realReport.scan_date} using real GitHub data and AI-powered security analysis*`;
+          } else if (reportFormat === "html") {
+            reportContent = HtmlReportGenerator.generate(realReport, includeRecommendations);
+          } else if (reportFormat === "sarif") {
+            reportContent = JSON.stringify(SarifExporter.fromAnalysisResult(result), null, 2);
           } else {
             reportContent = JSON.stringify(realReport, null, 2);
           }
@@ -225,6 +303,240 @@ ${realReport.recommendations.map((r: any) => `- ${r}`).join('\n')}` : ''}
         }
       }
     );
+
+    // SBOM Generator Tool
+    server.tool(
+      "generate-sbom",
+      "Generate a CycloneDX 1.5 or SPDX 2.3 SBOM from a repository's dependency manifests and lockfiles",
+      {
+        owner: z.string(),
+        repo: z.string(),
+        format: z.enum(["cyclonedx", "spdx"]).optional(),
+      },
+      async ({ owner, repo, format = "cyclonedx" }) => {
+        try {
+          // Use real GitHub MCP server
+          const serverUrl = "https://server.smithery.ai/@smithery-ai/github";
+          const apiKey = env.SMITHERY_GITHUB_API_KEY;
+          const profile = "radical-hawk-AyMmPj";
+          
+          const sbom = await generateRepositorySbom(serverUrl, apiKey, profile, owner, repo, { format });
+          
+          return {
+            content: [{ 
+              type: "text", 
+              text: JSON.stringify(sbom, null, 2)
+            }],
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: "text", 
+              text: `❌ Error generating SBOM for ${owner}/${repo}: ${error instanceof Error ? error.message : 'Unknown error'}\n\n💡 Note: This may be due to authentication or repository access issues.` 
+            }],
+          };
+        }
+      }
+    );
+
+    // Asynchronous Scan Job Tools
+    server.tool(
+      "start-security-scan",
+      "Queue a security scan of GitHub repositories that runs in the background; poll it with get-scan-status",
+      {
+        organizations: z.array(z.string()).optional(),
+        repositories: z.array(z.string()).optional(),
+        scanTypes: z.array(z.enum(["secrets", "vulnerabilities", "dependencies", "code-patterns"])).optional(),
+        includeArchived: z.boolean().optional(),
+        includeForks: z.boolean().optional(),
+        visibility: z.enum(["all", "public", "private", "internal"]).optional(),
+        topics: z.array(z.string()).optional(),
+        languages: z.array(z.string()).optional(),
+        concurrency: z.number().int().min(1).max(10).optional(),
+        rulePacks: z.array(z.string()).optional(),
+      },
+      async ({
+        organizations = [],
+        repositories = [],
+        scanTypes = ["secrets", "vulnerabilities"],
+        includeArchived = false,
+        includeForks = false,
+        visibility = "all",
+        topics = [],
+        languages = [],
+        concurrency = 4,
+        rulePacks,
+      }) => {
+        if (organizations.length === 0 && repositories.length === 0) {
+          return {
+            content: [{ 
+              type: "text", 
+              text: JSON.stringify({
+                error: "No repositories provided for scanning",
+                message: "Please provide a list of repositories or organizations to scan",
+                example: ["owner/repo1", "owner/repo2"]
+              }, null, 2)
+            }],
+          };
+        }
+        
+        try {
+          // Organizations are expanded by the worker so this call returns right away
+          const queue = await getScanJobQueue();
+          const job = await queue.enqueue({
+            organizations,
+            repositories,
+            scanTypes,
+            filters: { includeArchived, includeForks, visibility, topics, languages },
+            concurrency,
+            rulePacks,
+          });
+          
+          return {
+            content: [{ 
+              type: "text", 
+              text: JSON.stringify({
+                job_id: job.id,
+                status: job.status,
+                created_at: job.created_at,
+                message: "Scan queued; poll get-scan-status with the job_id and fetch the report with get-scan-result once it has completed"
+              }, null, 2)
+            }],
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: "text", 
+              text: `❌ Error starting security scan: ${error instanceof Error ? error.message : 'Unknown error'}\n\n💡 Note: This may be due to the Redis instance at REDIS_URL being unreachable.` 
+            }],
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "get-scan-status",
+      "Get the status and progress of a security scan started with start-security-scan",
+      {
+        jobId: z.string(),
+      },
+      async ({ jobId }) => {
+        try {
+          const queue = await getScanJobQueue();
+          const job = await queue.getJob(jobId);
+          
+          return {
+            content: [{ 
+              type: "text", 
+              text: job
+                ? JSON.stringify(job, null, 2)
+                : `❌ Scan job ${jobId} was not found; it may have expired` 
+            }],
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: "text", 
+              text: `❌ Error getting status of scan job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}` 
+            }],
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "cancel-security-scan",
+      "Cancel a security scan started with start-security-scan; a running scan keeps the results of the repositories it finished",
+      {
+        jobId: z.string(),
+      },
+      async ({ jobId }) => {
+        try {
+          const queue = await getScanJobQueue();
+          const job = await queue.cancel(jobId);
+          if (!job) {
+            return {
+              content: [{ 
+                type: "text", 
+                text: `❌ Scan job ${jobId} was not found; it may have expired` 
+              }],
+            };
+          }
+          
+          const response = {
+            job_id: job.id,
+            status: job.status,
+            message: job.status === "cancelled"
+              ? "The scan was cancelled"
+              : job.status === "running"
+                ? "Cancellation requested; the scan stops at its worker's next heartbeat, poll get-scan-status"
+                : `The scan has already ${job.status === "completed" ? "completed" : "failed"}`,
+          };
+          
+          return {
+            content: [{ 
+              type: "text", 
+              text: JSON.stringify(response, null, 2)
+            }],
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: "text", 
+              text: `❌ Error cancelling scan job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}` 
+            }],
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "get-scan-result",
+      "Get the result of a security scan started with start-security-scan once it has finished",
+      {
+        jobId: z.string(),
+      },
+      async ({ jobId }) => {
+        try {
+          const queue = await getScanJobQueue();
+          const job = await queue.getJob(jobId);
+          if (!job) {
+            return {
+              content: [{ 
+                type: "text", 
+                text: `❌ Scan job ${jobId} was not found; it may have expired` 
+              }],
+            };
+          }
+          
+          // Cancelled jobs keep the partial result of the repositories scanned before they stopped
+          const result = await queue.getResult(jobId);
+          const response = result
+            ? { job_id: job.id, status: job.status, finished_at: job.finished_at, result }
+            : {
+                job_id: job.id,
+                status: job.status,
+                message: job.status === "failed" ? "The scan failed" : "The scan has not finished yet",
+                ...(job.error && { error: job.error }),
+                progress: job.progress,
+              };
+          
+          return {
+            content: [{ 
+              type: "text", 
+              text: JSON.stringify(response, null, 2)
+            }],
+          };
+        } catch (error) {
+          return {
+            content: [{ 
+              type: "text", 
+              text: `❌ Error getting result of scan job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}` 
+            }],
+          };
+        }
+      }
+    );
   },
   {
     capabilities: {
@@ -236,6 +548,7 @@ ${realReport.recommendations.map((r: any) => `- ${r}`).join('\n')}` : ''}
             repo: z.string(),
             analysisType: z.enum(["secrets", "vulnerabilities", "dependencies", "code-patterns"]).optional(),
             timeframe: z.enum(["day", "week", "month", "all"]).optional(),
+            rulePacks: z.array(z.string()).optional(),
           }),
         },
         "scan-github-repos": {
@@ -244,6 +557,13 @@ ${realReport.recommendations.map((r: any) => `- ${r}`).join('\n')}` : ''}
             organizations: z.array(z.string()).optional(),
             repositories: z.array(z.string()).optional(),
             scanTypes: z.array(z.enum(["secrets", "vulnerabilities", "dependencies", "code-patterns"])).optional(),
+            includeArchived: z.boolean().optional(),
+            includeForks: z.boolean().optional(),
+            visibility: z.enum(["all", "public", "private", "internal"]).optional(),
+            topics: z.array(z.string()).optional(),
+            languages: z.array(z.string()).optional(),
+            concurrency: z.number().int().min(1).max(10).optional(),
+            rulePacks: z.array(z.string()).optional(),
           }),
         },
         "generate-security-report": {
@@ -251,10 +571,51 @@ ${realReport.recommendations.map((r: any) => `- ${r}`).join('\n')}` : ''}
           parameters: z.object({
             owner: z.string(),
             repo: z.string(),
-            reportFormat: z.enum(["markdown", "json", "html"]).optional(),
+            reportFormat: z.enum(["markdown", "json", "html", "sarif"]).optional(),
             includeRecommendations: z.boolean().optional(),
           }),
         },
+        "generate-sbom": {
+          description: "Generate a CycloneDX 1.5 or SPDX 2.3 SBOM from a repository's dependency manifests and lockfiles",
+          parameters: z.object({
+            owner: z.string(),
+            repo: z.string(),
+            format: z.enum(["cyclonedx", "spdx"]).optional(),
+          }),
+        },
+        "start-security-scan": {
+          description: "Queue a security scan of GitHub repositories that runs in the background; poll it with get-scan-status",
+          parameters: z.object({
+            organizations: z.array(z.string()).optional(),
+            repositories: z.array(z.string()).optional(),
+            scanTypes: z.array(z.enum(["secrets", "vulnerabilities", "dependencies", "code-patterns"])).optional(),
+            includeArchived: z.boolean().optional(),
+            includeForks: z.boolean().optional(),
+            visibility: z.enum(["all", "public", "private", "internal"]).optional(),
+            topics: z.array(z.string()).optional(),
+            languages: z.array(z.string()).optional(),
+            concurrency: z.number().int().min(1).max(10).optional(),
+            rulePacks: z.array(z.string()).optional(),
+          }),
+        },
+        "get-scan-status": {
+          description: "Get the status and progress of a security scan started with start-security-scan",
+          parameters: z.object({
+            jobId: z.string(),
+          }),
+        },
+        "cancel-security-scan": {
+          description: "Cancel a security scan started with start-security-scan; a running scan keeps the results of the repositories it finished",
+          parameters: z.object({
+            jobId: z.string(),
+          }),
+        },
+        "get-scan-result": {
+          description: "Get the result of a security scan started with start-security-scan once it has finished",
+          parameters: z.object({
+            jobId: z.string(),
+          }),
+        },
       },
     },
   },
@@ -262,7 +623,7 @@ ${realReport.recommendations.map((r: any) => `- ${r}`).join('\n')}` : ''}
     basePath: "",
     redisUrl: env.REDIS_URL,
     verboseLogs: true,
-    maxDuration: 60,
+    maxDuration: MAX_DURATION_SECONDS,
   }
 );
 
@@ -8,7 +8,26 @@ const envSchema = z.object({
   NODE_ENV: z.string(),
   REDIS_URL: z.string(),
   SMITHERY_GITHUB_API_KEY: z.string(),
-  GOOGLE_API_KEY: z.string(),
+  // AI provider selection; only the key of the selected provider is required
+  AI_PROVIDER: z.enum(["gemini", "openai", "anthropic", "local"]).default("gemini"),
+  AI_MODEL: z.string().optional(),
+  AI_BASE_URL: z.string().optional(),
+  GOOGLE_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  LOCAL_AI_API_KEY: z.string().optional(),
+  // Context window of AI_MODEL in tokens; defaults to the window of the provider's default model, so set it when AI_MODEL has a smaller one
+  AI_CONTEXT_WINDOW: z.coerce.number().int().positive().optional(),
+  // Chunks analyzed by the AI provider at the same time
+  AI_MAX_CONCURRENCY: z.coerce.number().int().positive().optional(),
+  // OSV advisory snapshot (directory of JSON files, zip archive or JSON file) for offline dependency matching
+  OSV_DATABASE_PATH: z.string().optional(),
+  // YAML rule pack file, or a directory of them, applied to every scan
+  RULE_PACKS_PATH: z.string().optional(),
+  // How long scan job records and results are kept in Redis
+  SCAN_JOB_TTL_SECONDS: z.coerce.number().int().positive().default(86400),
+  // Run the scan job worker in this server process (needs a long-running server, not a serverless function)
+  SCAN_WORKER_ENABLED: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
 });
 
 // Function to validate environment variables
@@ -19,7 +38,19 @@ const validateEnv = () => {
       NODE_ENV: process.env.NODE_ENV,
       REDIS_URL: process.env.REDIS_URL,
       SMITHERY_GITHUB_API_KEY: process.env.SMITHERY_GITHUB_API_KEY,
+      AI_PROVIDER: process.env.AI_PROVIDER,
+      AI_MODEL: process.env.AI_MODEL,
+      AI_BASE_URL: process.env.AI_BASE_URL,
       GOOGLE_API_KEY: process.env.GOOGLE_API_KEY,
+      OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+      LOCAL_AI_API_KEY: process.env.LOCAL_AI_API_KEY,
+      AI_CONTEXT_WINDOW: process.env.AI_CONTEXT_WINDOW,
+      AI_MAX_CONCURRENCY: process.env.AI_MAX_CONCURRENCY,
+      OSV_DATABASE_PATH: process.env.OSV_DATABASE_PATH,
+      RULE_PACKS_PATH: process.env.RULE_PACKS_PATH,
+      SCAN_JOB_TTL_SECONDS: process.env.SCAN_JOB_TTL_SECONDS,
+      SCAN_WORKER_ENABLED: process.env.SCAN_WORKER_ENABLED,
     };
     const parsed = envSchema.parse(env);
     logger.info("Environment variables validated successfully");
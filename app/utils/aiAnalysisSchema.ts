@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+const SEVERITY_LEVELS = ['Critical', 'High', 'Medium', 'Low'] as const;
+const PRIORITY_LEVELS = ['Immediate', 'High', 'Medium', 'Low'] as const;
+const EFFORT_LEVELS = ['Low', 'Medium', 'High'] as const;
+
+// Spellings models commonly use instead of the requested levels
+const LEVEL_SYNONYMS: Record<string, string> = {
+  moderate: 'Medium',
+  info: 'Low',
+  informational: 'Low',
+  minor: 'Low',
+  major: 'High',
+  urgent: 'Immediate'
+};
+
+/**
+ * Normalize casing and common synonyms so "HIGH", "high" and "High" all validate
+ */
+function normalizeLevel(levels: readonly string[]) {
+  return (value: unknown) => {
+    if (typeof value !== 'string') return value;
+    const normalized = value.trim().toLowerCase();
+    const match = levels.find(level => level.toLowerCase() === normalized);
+    if (match) return match;
+    const synonym = LEVEL_SYNONYMS[normalized];
+    return synonym && levels.includes(synonym) ? synonym : value;
+  };
+}
+
+const severitySchema = z.preprocess(normalizeLevel(SEVERITY_LEVELS), z.enum(SEVERITY_LEVELS));
+const prioritySchema = z.preprocess(normalizeLevel(PRIORITY_LEVELS), z.enum(PRIORITY_LEVELS));
+const effortSchema = z.preprocess(normalizeLevel(EFFORT_LEVELS), z.enum(EFFORT_LEVELS));
+const stringListSchema = z.array(z.string()).default([]);
+
+export const criticalFindingSchema = z.object({
+  finding: z.string().min(1),
+  severity: severitySchema,
+  impact: z.string().default(''),
+  location: z.string().default(''),
+  type: z.string().optional(),
+  recommendation: z.string().optional()
+}).passthrough();
+
+export const vulnerabilitySchema = z.object({
+  vulnerability: z.string().min(1),
+  type: z.string().default(''),
+  risk_level: severitySchema,
+  description: z.string().default('')
+}).passthrough();
+
+export const recommendationSchema = z.object({
+  recommendation: z.string().min(1),
+  priority: prioritySchema,
+  effort: effortSchema.optional(),
+  impact: z.string().default('')
+}).passthrough();
+
+export const aiAnalysisSchema = z.object({
+  executive_summary: z.object({
+    overall_risk: severitySchema,
+    security_posture: z.string().default(''),
+    key_concerns: stringListSchema
+  }),
+  critical_findings: z.array(criticalFindingSchema).default([]),
+  vulnerability_assessment: z.array(vulnerabilitySchema).default([]),
+  risk_analysis: z.object({
+    high_risk_items: stringListSchema,
+    medium_risk_items: stringListSchema,
+    low_risk_items: stringListSchema,
+    risk_factors: stringListSchema
+  }).default({}),
+  recommendations: z.array(recommendationSchema).default([]),
+  security_score: z.object({
+    score: z.coerce.number().min(0).max(10),
+    justification: z.string().default(''),
+    factors: stringListSchema
+  })
+});
+
+export type AIAnalysis = z.infer<typeof aiAnalysisSchema>;
+export type CriticalFinding = z.infer<typeof criticalFindingSchema>;
+
+export type AIAnalysisValidation =
+  | { success: true; data: AIAnalysis }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate and normalize a parsed AI response
+ */
+export function validateAIAnalysis(value: unknown): AIAnalysisValidation {
+  const result = aiAnalysisSchema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(err => `${err.path.join('.') || '(root)'}: ${err.message}`)
+  };
+}
+
+/**
+ * Analysis with no findings, used when the AI response could not be validated
+ */
+export function createEmptyAIAnalysis(): AIAnalysis {
+  return {
+    executive_summary: {
+      overall_risk: 'Low',
+      security_posture: '',
+      key_concerns: []
+    },
+    critical_findings: [],
+    vulnerability_assessment: [],
+    risk_analysis: {
+      high_risk_items: [],
+      medium_risk_items: [],
+      low_risk_items: [],
+      risk_factors: []
+    },
+    recommendations: [],
+    security_score: {
+      score: 0,
+      justification: '',
+      factors: []
+    }
+  };
+}
@@ -0,0 +1,303 @@
+import { OpenAI } from "openai";
+import { env } from "../config/env";
+import { delay } from "./concurrency";
+
+export type AIProviderName = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+export interface AICompletionRequest {
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model to answer with a single JSON object
+  jsonMode?: boolean;
+  // Aborts the request when the scan is cancelled
+  signal?: AbortSignal;
+}
+
+export interface AICompletionResponse {
+  content: string;
+  model: string;
+  tokensUsed?: number;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  complete(request: AICompletionRequest): Promise<AICompletionResponse>;
+}
+
+export class RateLimitError extends Error {
+  // How long the provider asked us to wait, when it said
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface BackoffOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1'
+};
+
+// Context windows of the default models; local servers are often started with a small one
+const DEFAULT_CONTEXT_WINDOWS: Record<AIProviderName, number> = {
+  gemini: 1048576,
+  openai: 128000,
+  anthropic: 200000,
+  local: 8192
+};
+
+// Rate-limited requests wait 1s, 2s, 4s ... unless the provider says how long
+const DEFAULT_BACKOFF: Required<BackoffOptions> = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<AIProviderName, string>> = {
+  gemini: 'https://generativelanguage.googleapis.com/v1beta/openai/',
+  anthropic: 'https://api.anthropic.com/v1',
+  // Ollama's OpenAI-compatible endpoint; llama.cpp and vLLM servers work the same way
+  local: 'http://localhost:11434/v1'
+};
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API (OpenAI, Gemini, Ollama, llama.cpp)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(name: AIProviderName, model: string, apiKey: string, baseURL?: string) {
+    this.name = name;
+    this.model = model;
+    // completeWithBackoff owns retries; the SDK's own would multiply its attempts
+    this.client = new OpenAI({ apiKey, maxRetries: 0, ...(baseURL && { baseURL }) });
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt
+        }
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode && { response_format: { type: "json_object" as const } })
+    }, request.signal && { signal: request.signal });
+
+    return {
+      content: response.choices[0]?.message?.content || "",
+      model: this.model,
+      tokensUsed: response.usage?.total_tokens
+    };
+  }
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly name: AIProviderName = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private baseURL: string;
+
+  constructor(model: string, apiKey: string, baseURL: string = DEFAULT_BASE_URLS.anthropic!) {
+    this.model = model;
+    this.apiKey = apiKey;
+    this.baseURL = baseURL.replace(/\/+$/, '');
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+    const response = await fetch(`${this.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens ?? 2000,
+        temperature: request.temperature,
+        // The Messages API has no JSON response mode, so constrain the output with a system prompt
+        ...(request.jsonMode && { system: 'Respond with a single valid JSON object and nothing else.' }),
+        messages: [{ role: 'user', content: request.prompt }]
+      })
+    });
+
+    if (response.status === 429) {
+      throw new RateLimitError(
+        `Anthropic API request failed with status 429: ${await response.text()}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    if (!response.ok) {
+      throw new Error(`Anthropic API request failed with status ${response.status}: ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    const content = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      content,
+      model: this.model,
+      tokensUsed: data.usage ? (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0) : undefined
+    };
+  }
+}
+
+// When each provider may be called again, so concurrent requests share one cool-down
+const rateLimitedUntil = new WeakMap<AIProvider, number>();
+
+/**
+ * Complete a request, waiting and retrying with exponential backoff while the provider answers 429
+ */
+export async function completeWithBackoff(
+  provider: AIProvider,
+  request: AICompletionRequest,
+  options: BackoffOptions = {}
+): Promise<AICompletionResponse> {
+  const { maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_BACKOFF, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    const wait = (rateLimitedUntil.get(provider) || 0) - Date.now();
+    if (wait > 0) {
+      await delay(wait, request.signal);
+    }
+
+    try {
+      return await provider.complete(request);
+    } catch (error) {
+      const retryAfterMs = getRetryAfter(error);
+      if (retryAfterMs === null || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const waitMs = Math.min(retryAfterMs ?? baseDelayMs * 2 ** attempt, maxDelayMs);
+      rateLimitedUntil.set(provider, Math.max(rateLimitedUntil.get(provider) || 0, Date.now() + waitMs));
+      console.warn(`⚠️ ${provider.name} rate limit reached, retrying in ${waitMs}ms (retry ${attempt + 1}/${maxRetries})`);
+    }
+  }
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Requested wait for a rate limit error (undefined when unspecified), or null for any other error
+ */
+function getRetryAfter(error: any): number | undefined | null {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs;
+  }
+  // The OpenAI SDK's APIError carries the status and response headers
+  if (error?.status === 429) {
+    return parseRetryAfter(error.headers?.['retry-after']);
+  }
+  return null;
+}
+
+/**
+ * Create an AI provider from explicit configuration
+ */
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+  const baseURL = config.baseURL || DEFAULT_BASE_URLS[config.provider];
+
+  switch (config.provider) {
+    case 'gemini':
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error(`❌ Missing API key for the ${config.provider} AI provider`);
+      }
+      return new OpenAICompatibleProvider(config.provider, model, config.apiKey, baseURL);
+    case 'anthropic':
+      if (!config.apiKey) {
+        throw new Error(`❌ Missing API key for the anthropic AI provider`);
+      }
+      return new AnthropicProvider(model, config.apiKey, baseURL);
+    case 'local':
+      // Local servers usually ignore the key, but the OpenAI client requires one
+      return new OpenAICompatibleProvider('local', model, config.apiKey || 'local', baseURL);
+    default:
+      throw new Error(`❌ Unknown AI provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Resolve provider configuration from environment variables
+ */
+export function getAIProviderConfigFromEnv(): AIProviderConfig {
+  const provider = (env.AI_PROVIDER || 'gemini') as AIProviderName;
+  const apiKeys: Record<AIProviderName, string | undefined> = {
+    gemini: env.GOOGLE_API_KEY,
+    openai: env.OPENAI_API_KEY,
+    anthropic: env.ANTHROPIC_API_KEY,
+    local: env.LOCAL_AI_API_KEY
+  };
+
+  return {
+    provider,
+    model: env.AI_MODEL,
+    apiKey: apiKeys[provider],
+    baseURL: env.AI_BASE_URL
+  };
+}
+
+/**
+ * Context window in tokens for a provider, overridden by AI_CONTEXT_WINDOW
+ */
+export function getContextWindow(provider?: AIProvider): number {
+  if (env.AI_CONTEXT_WINDOW) {
+    return env.AI_CONTEXT_WINDOW;
+  }
+  return DEFAULT_CONTEXT_WINDOWS[provider?.name || getAIProviderConfigFromEnv().provider] || DEFAULT_CONTEXT_WINDOWS.local;
+}
+
+let defaultProvider: AIProvider | null = null;
+
+/**
+ * Get the provider selected by the environment, created on first use
+ */
+export function getAIProvider(): AIProvider {
+  if (!defaultProvider) {
+    defaultProvider = createAIProvider(getAIProviderConfigFromEnv());
+  }
+  return defaultProvider;
+}
@@ -1,14 +1,49 @@
-import { SecurityFile } from './securityFileFilter';
+import { FilePart, SecurityFile } from './securityFileFilter';
+import { TokenCounter, Tokenizer } from './tokenCounter';
 
 export interface AnalysisChunk {
   id: string;
-  type: 'secret' | 'dependency' | 'config' | 'security' | 'deployment';
+  // "mixed" chunks pack several small groups of different types together
+  type: 'secret' | 'dependency' | 'config' | 'security' | 'deployment' | 'workflow' | 'source' | 'mixed';
   files: SecurityFile[];
   priority: 'high' | 'medium' | 'low';
   description: string;
   estimatedTokens: number;
 }
 
+export interface ChunkBudgetOptions {
+  // Context window of the model that analyzes the chunks
+  contextWindow?: number;
+  // Tokens kept free for the prompt instructions and the model's response
+  reservedTokens?: number;
+  // Upper bound per chunk, even when the context window is much larger
+  maxChunkTokens?: number;
+  // Lines repeated at the start of each piece of a split file
+  overlapLines?: number;
+  tokenizer?: Tokenizer;
+  // Called for files that do not fit a chunk even when split, which are then left out; without it chunking throws
+  onOversizedFile?: (file: SecurityFile, error: Error) => void;
+}
+
+interface ChunkBin {
+  files: SecurityFile[];
+  tokens: number;
+}
+
+interface BudgetContext {
+  budget: number;
+  overlapLines: number;
+  tokenizer: Tokenizer;
+}
+
+// Small local models are the tightest context windows in common use
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// The analysis prompt's instructions take about 1,000 tokens and responses are capped at 2,000
+const DEFAULT_RESERVED_TOKENS = 3500;
+// Long prompts dilute the model's attention, so stay well below very large context windows
+const DEFAULT_MAX_CHUNK_TOKENS = 16000;
+const DEFAULT_OVERLAP_LINES = 20;
+
 export class AnalysisChunker {
   /**
    * Basic chunking strategy: Group files by their security type
@@ -44,6 +79,200 @@ export class AnalysisChunker {
     return chunks;
   }
 
+  /**
+   * Budget chunking strategy: measure files with a tokenizer, split large groups and files
+   * across chunks and pack groups that fit in one chunk together
+   */
+  chunkByBudget(securityFiles: SecurityFile[], options: ChunkBudgetOptions = {}): AnalysisChunk[] {
+    const contextWindow = options.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    const reservedTokens = options.reservedTokens ?? DEFAULT_RESERVED_TOKENS;
+    const context: BudgetContext = {
+      budget: Math.min(options.maxChunkTokens ?? DEFAULT_MAX_CHUNK_TOKENS, contextWindow - reservedTokens),
+      overlapLines: options.overlapLines ?? DEFAULT_OVERLAP_LINES,
+      tokenizer: options.tokenizer ?? (text => TokenCounter.count(text))
+    };
+
+    if (context.budget <= 0) {
+      throw new Error(`❌ A ${contextWindow} token context window leaves no room for files after reserving ${reservedTokens} tokens`);
+    }
+
+    const bins: ChunkBin[] = [];
+    const smallGroups: ChunkBin[] = [];
+
+    const split = (file: SecurityFile): ChunkBin[] => {
+      try {
+        return this.splitFile(file, context);
+      } catch (error) {
+        if (!options.onOversizedFile) throw error;
+        options.onOversizedFile(file, error as Error);
+        return [];
+      }
+    };
+
+    for (const files of this.groupByType(securityFiles).values()) {
+      const pieces = files.flatMap(split);
+      if (pieces.length === 0) continue;
+      const groupBins = this.pack(pieces, context.budget);
+      if (groupBins.length === 1) {
+        smallGroups.push(groupBins[0]);
+      } else {
+        bins.push(...groupBins);
+      }
+    }
+
+    bins.push(...this.pack(smallGroups, context.budget));
+
+    return bins.map((bin, index) => this.createChunk(bin, index + 1));
+  }
+
+  /**
+   * Group files by type, keeping the order in which types first appear
+   */
+  private groupByType(files: SecurityFile[]): Map<SecurityFile['type'], SecurityFile[]> {
+    const groups = new Map<SecurityFile['type'], SecurityFile[]>();
+    for (const file of files) {
+      if (!groups.has(file.type)) {
+        groups.set(file.type, []);
+      }
+      groups.get(file.type)!.push(file);
+    }
+    return groups;
+  }
+
+  /**
+   * Place each item in the first bin with room left for it
+   */
+  private pack(items: ChunkBin[], budget: number): ChunkBin[] {
+    const bins: ChunkBin[] = [];
+    for (const item of items) {
+      let bin = bins.find(candidate => candidate.tokens + item.tokens <= budget);
+      if (!bin) {
+        bin = { files: [], tokens: 0 };
+        bins.push(bin);
+      }
+      bin.files.push(...item.files);
+      bin.tokens += item.tokens;
+    }
+    return bins;
+  }
+
+  /**
+   * Measure a file as it is sent to the model, splitting its content by lines when it exceeds the budget
+   */
+  private splitFile(file: SecurityFile, context: BudgetContext): ChunkBin[] {
+    const { budget, overlapLines, tokenizer } = context;
+    const measure = (piece: SecurityFile) => tokenizer(JSON.stringify(piece, null, 2));
+
+    const tokens = measure(file);
+    if (tokens <= budget) {
+      return [{ files: [file], tokens }];
+    }
+
+    const lines = (file.content || '').split('\n');
+    const placeholder: FilePart = { index: lines.length, total: lines.length, startLine: lines.length, endLine: lines.length, overlapLines };
+    const overhead = measure({ ...file, content: '', part: placeholder });
+    if (!file.content || overhead >= budget) {
+      throw new Error(`❌ ${file.path} needs ${tokens} tokens, more than the ${budget} token chunk budget allows`);
+    }
+
+    // Lines are measured JSON-escaped, the way they appear in the prompt
+    const lineTokens = lines.map(line => tokenizer(JSON.stringify(`${line}\n`)));
+    const pieces: { content: string; startLine: number; endLine: number; overlapLines: number }[] = [];
+    let previousEnd = 0;
+    let start = 0;
+
+    while (start < lines.length) {
+      let end = start;
+      let used = overhead;
+      while (end < lines.length && used + lineTokens[end] <= budget) {
+        used += lineTokens[end++];
+      }
+
+      if (end === start) {
+        // Minified code or embedded data on one line is cut into character slices
+        for (const slice of this.sliceLine(lines[start], budget - overhead, tokenizer)) {
+          pieces.push({ content: slice, startLine: start + 1, endLine: start + 1, overlapLines: 0 });
+        }
+        previousEnd = ++start;
+        continue;
+      }
+
+      // Per-line counts can miss merges across line breaks, so confirm the assembled piece fits
+      while (end - start > 1 && measure({ ...file, content: lines.slice(start, end).join('\n'), part: placeholder }) > budget) {
+        end--;
+      }
+
+      pieces.push({
+        content: lines.slice(start, end).join('\n'),
+        startLine: start + 1,
+        endLine: end,
+        overlapLines: Math.max(previousEnd - start, 0)
+      });
+      if (end >= lines.length) break;
+
+      // Never repeat more than half a piece, or pieces of long lines would barely advance
+      previousEnd = end;
+      start = Math.max(end - Math.min(overlapLines, Math.floor((end - start) / 2)), start + 1);
+    }
+
+    return pieces.map((piece, index) => {
+      const part: SecurityFile = {
+        ...file,
+        content: piece.content,
+        part: {
+          index: index + 1,
+          total: pieces.length,
+          startLine: piece.startLine,
+          endLine: piece.endLine,
+          overlapLines: piece.overlapLines
+        }
+      };
+      return { files: [part], tokens: measure(part) };
+    });
+  }
+
+  /**
+   * Cut a line into the longest slices that stay within a token allowance
+   */
+  private sliceLine(line: string, allowance: number, tokenizer: Tokenizer): string[] {
+    const slices: string[] = [];
+    let rest = line;
+
+    while (rest.length > 0) {
+      let low = 1;
+      let high = rest.length;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (tokenizer(JSON.stringify(rest.slice(0, middle))) <= allowance) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      slices.push(rest.slice(0, low));
+      rest = rest.slice(low);
+    }
+
+    return slices;
+  }
+
+  private createChunk(bin: ChunkBin, index: number): AnalysisChunk {
+    const groups = this.groupByType(bin.files);
+    const type = groups.size === 1 ? bin.files[0].type : 'mixed';
+    const description = groups.size === 1
+      ? `${bin.files.length} ${type} files`
+      : `${bin.files.length} files (${[...groups].map(([groupType, files]) => `${files.length} ${groupType}`).join(', ')})`;
+
+    return {
+      id: `chunk-${type}-${index}-${Date.now()}`,
+      type,
+      files: bin.files,
+      priority: this.getChunkPriority(bin.files),
+      description,
+      estimatedTokens: bin.tokens
+    };
+  }
+
   /**
    * Get the highest priority from files in the chunk
    */
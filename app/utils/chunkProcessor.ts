@@ -1,5 +1,15 @@
 import { AnalysisChunk } from './analysisChunker';
 import { SecurityFile } from './securityFileFilter';
+import { SecretDetector } from './secretDetector';
+import { DependencyInventory, DependencyPackage, LockfileParser } from './lockfileParser';
+import { OsvDatabase } from './osvDatabase';
+import { DockerfileLinter } from './dockerfileLinter';
+import { KubernetesManifestAnalyzer } from './kubernetesManifestAnalyzer';
+import { TerraformAnalyzer } from './terraformAnalyzer';
+import { WorkflowAnalyzer } from './workflowAnalyzer';
+import { CodePatternEngine } from './codePatternEngine';
+import { CodePatternRule } from './codePatternRules';
+import { RulePack, RulePackLoader } from './rulePackLoader';
 
 export interface ChunkResult {
   chunkId: string;
@@ -9,6 +19,8 @@ export interface ChunkResult {
   summary: ChunkSummary;
   processingTime: number;
   tokensUsed: number;
+  // Packages parsed from lockfiles in a dependency chunk
+  dependencies?: DependencyPackage[];
 }
 
 export interface ChunkFinding {
@@ -19,6 +31,22 @@ export interface ChunkFinding {
   filePath?: string;
   lineNumber?: number;
   recommendation?: string;
+  // Set by rule-based detectors
+  ruleId?: string;
+  confidence?: 'high' | 'medium' | 'low';
+  match?: string;
+  // Kind and name of the manifest resource the finding applies to, e.g. "Deployment/api"
+  resource?: string;
+  // Set for dependencies matched against a known advisory
+  vulnerability?: {
+    id: string;
+    aliases: string[];
+    package: string;
+    version: string;
+    ecosystem: string;
+    affectedRange: string;
+    fixedVersion?: string;
+  };
 }
 
 export interface ChunkSummary {
@@ -34,10 +62,23 @@ export interface ChunkSummary {
 export class ChunkProcessor {
   private analysisType: string;
   private repository: string;
-
-  constructor(analysisType: string, repository: string) {
+  private vulnerabilityDatabase: OsvDatabase | null;
+  private codeRules: CodePatternRule[];
+  // Built from the whole files before they were split into chunks
+  private dependencyInventory?: DependencyInventory;
+
+  constructor(
+    analysisType: string,
+    repository: string,
+    vulnerabilityDatabase: OsvDatabase | null = null,
+    rulePacks: RulePack[] = [],
+    dependencyInventory?: DependencyInventory
+  ) {
     this.analysisType = analysisType;
     this.repository = repository;
+    this.vulnerabilityDatabase = vulnerabilityDatabase;
+    this.codeRules = RulePackLoader.mergeRules(CodePatternEngine.RULES, rulePacks);
+    this.dependencyInventory = dependencyInventory;
   }
 
   /**
@@ -48,8 +89,14 @@ export class ChunkProcessor {
     
     console.log(`🔍 Processing chunk: ${chunk.type} (${chunk.files.length} files)`);
     
+    // Parse lockfiles up front so dependency findings and the inventory agree
+    const inventory = chunk.type === 'dependency' || chunk.type === 'mixed'
+      ? this.chunkInventory(chunk.files.filter(file => chunk.type === 'dependency' || file.type === 'dependency'))
+      : undefined;
+
     // Analyze the chunk based on its type
-    const findings = await this.analyzeChunkByType(chunk);
+    const files = chunk.files.map(file => this.alignFilePart(file));
+    const findings = this.dropOverlapFindings(await this.analyzeChunkByType({ ...chunk, files }, inventory), chunk.files);
     
     // Generate summary
     const summary = this.generateSummary(findings);
@@ -68,37 +115,104 @@ export class ChunkProcessor {
       findings,
       summary,
       processingTime,
-      tokensUsed
+      tokensUsed,
+      ...(inventory && inventory.files.length > 0 && { dependencies: inventory.packages })
     };
   }
 
   /**
    * Analyze chunk based on its type and the overall analysis type
    */
-  private async analyzeChunkByType(chunk: AnalysisChunk): Promise<ChunkFinding[]> {
+  private async analyzeChunkByType(chunk: AnalysisChunk, inventory?: DependencyInventory): Promise<ChunkFinding[]> {
     const findings: ChunkFinding[] = [];
 
-    switch (chunk.type) {
-      case 'secret':
-        findings.push(...this.analyzeSecretFiles(chunk.files));
-        break;
-      case 'dependency':
-        findings.push(...this.analyzeDependencyFiles(chunk.files));
-        break;
-      case 'config':
-        findings.push(...this.analyzeConfigFiles(chunk.files));
-        break;
-      case 'security':
-        findings.push(...this.analyzeSecurityFiles(chunk.files));
-        break;
-      case 'deployment':
-        findings.push(...this.analyzeDeploymentFiles(chunk.files));
-        break;
+    // Mixed chunks pack several small groups, so each group goes to its own analyzers
+    const groups: [AnalysisChunk['type'], SecurityFile[]][] = chunk.type === 'mixed'
+      ? this.groupFilesByType(chunk.files)
+      : [[chunk.type, chunk.files]];
+
+    for (const [type, files] of groups) {
+      switch (type) {
+        case 'secret':
+          findings.push(...this.analyzeSecretFiles(files));
+          break;
+        case 'dependency':
+          findings.push(...this.analyzeDependencyFiles(files, inventory));
+          break;
+        case 'config':
+          findings.push(...this.analyzeConfigFiles(files));
+          break;
+        case 'security':
+          findings.push(...this.analyzeSecurityFiles(files));
+          break;
+        case 'deployment':
+          findings.push(...this.analyzeDeploymentFiles(files));
+          break;
+        case 'workflow':
+          findings.push(...this.analyzeWorkflowFiles(files));
+          break;
+      }
     }
 
+    // Code can land in any category (src/auth/session.ts is a secret match), so check it wherever it is
+    findings.push(...this.analyzeSourceFiles(chunk.files));
+
     return findings;
   }
 
+  /**
+   * The part of the dependency inventory for the chunk's files. A lockfile split across chunks
+   * cannot be parsed piece by piece, so its packages come from the inventory built before chunking
+   * and belong to the chunk holding its first piece.
+   */
+  private chunkInventory(files: SecurityFile[]): DependencyInventory {
+    const wholeFiles = files.filter(file => !file.part || file.part.index === 1);
+    if (!this.dependencyInventory) {
+      return LockfileParser.buildInventory(wholeFiles.filter(file => !file.part));
+    }
+
+    const paths = new Set(wholeFiles.map(file => file.path));
+    const packages = this.dependencyInventory.packages.filter(pkg => paths.has(pkg.sourceFile));
+    return {
+      packages,
+      files: this.dependencyInventory.files.filter(path => paths.has(path)),
+      errors: this.dependencyInventory.errors.filter(error => paths.has(error.file)),
+      totals: LockfileParser.totals(packages)
+    };
+  }
+
+  private groupFilesByType(files: SecurityFile[]): [SecurityFile['type'], SecurityFile[]][] {
+    const groups = new Map<SecurityFile['type'], SecurityFile[]>();
+    for (const file of files) {
+      groups.set(file.type, [...(groups.get(file.type) || []), file]);
+    }
+    return [...groups];
+  }
+
+  /**
+   * Pad a piece of a split file with the lines before it so detectors report whole-file line numbers
+   */
+  private alignFilePart(file: SecurityFile): SecurityFile {
+    if (!file.part || file.content === undefined) return file;
+    return { ...file, content: '\n'.repeat(file.part.startLine - 1) + file.content };
+  }
+
+  /**
+   * Drop findings the previous piece of a split file already reported: file-level findings,
+   * and line findings inside the lines repeated as overlap
+   */
+  private dropOverlapFindings(findings: ChunkFinding[], files: SecurityFile[]): ChunkFinding[] {
+    const laterParts = new Map(files.filter(file => file.part && file.part.index > 1).map(file => [file.path, file.part!]));
+    if (laterParts.size === 0) return findings;
+
+    return findings.filter(finding => {
+      const part = finding.filePath ? laterParts.get(finding.filePath) : undefined;
+      if (!part) return true;
+      if (finding.lineNumber === undefined) return false;
+      return finding.lineNumber >= part.startLine + part.overlapLines;
+    });
+  }
+
   /**
    * Analyze secret files for potential exposures
    */
@@ -128,6 +242,11 @@ export class ChunkProcessor {
           recommendation: 'Use a secrets management service instead of storing secrets in files.'
         });
       }
+
+      // Scan the contents for known credential formats when they were fetched
+      if (file.content) {
+        findings.push(...SecretDetector.detect(file.content, file.path));
+      }
     }
 
     return findings;
@@ -136,10 +255,40 @@ export class ChunkProcessor {
   /**
    * Analyze dependency files for vulnerabilities
    */
-  private analyzeDependencyFiles(files: SecurityFile[]): ChunkFinding[] {
+  private analyzeDependencyFiles(files: SecurityFile[], inventory?: DependencyInventory): ChunkFinding[] {
     const findings: ChunkFinding[] = [];
 
     for (const file of files) {
+      if (inventory?.files.includes(file.path)) {
+        findings.push(this.createInventoryFinding(file.path, inventory.packages.filter(p => p.sourceFile === file.path)));
+        continue;
+      }
+
+      if (file.contentSkipped && LockfileParser.canParse(file.path)) {
+        findings.push({
+          type: 'dependency',
+          severity: 'low',
+          title: 'Lockfile could not be read',
+          description: `${file.path} was not fetched (${file.contentSkipped}${file.size !== undefined ? `, ${file.size} bytes` : ''}), so its dependencies were not checked for known vulnerabilities.`,
+          filePath: file.path,
+          recommendation: 'Check this lockfile with a local dependency audit tool.'
+        });
+        continue;
+      }
+
+      const parseError = inventory?.errors.find(e => e.file === file.path);
+      if (parseError) {
+        findings.push({
+          type: 'dependency',
+          severity: 'low',
+          title: 'Lockfile could not be parsed',
+          description: `Failed to parse ${file.path}: ${parseError.error}`,
+          filePath: file.path,
+          recommendation: 'Regenerate the lockfile with the package manager so dependencies can be inventoried.'
+        });
+        continue;
+      }
+
       if (file.path.includes('package.json')) {
         findings.push({
           type: 'dependency',
@@ -147,7 +296,7 @@ export class ChunkProcessor {
           title: 'Dependency file detected',
           description: `Dependency file found: ${file.path}. Review dependencies for known vulnerabilities.`,
           filePath: file.path,
-          recommendation: 'Run npm audit regularly and keep dependencies updated.'
+          recommendation: 'Commit a lockfile so resolved dependency versions can be checked against known advisories.'
         });
       }
 
@@ -163,9 +312,34 @@ export class ChunkProcessor {
       }
     }
 
+    // Match resolved versions against the offline advisory snapshot
+    if (inventory && this.vulnerabilityDatabase) {
+      const matches = this.vulnerabilityDatabase.matchAll(inventory.packages);
+      findings.push(...matches.map(match => OsvDatabase.toFinding(match)));
+    }
+
     return findings;
   }
 
+  /**
+   * Summarize the packages a lockfile resolves
+   */
+  private createInventoryFinding(filePath: string, packages: DependencyPackage[]): ChunkFinding {
+    const totals = LockfileParser.totals(packages);
+    const breakdown = totals.direct + totals.transitive > 0
+      ? ` (${totals.direct} direct, ${totals.transitive} transitive)`
+      : '';
+
+    return {
+      type: 'dependency',
+      severity: 'info',
+      title: 'Dependency inventory',
+      description: `${filePath} resolves ${totals.packages} packages${breakdown}.`,
+      filePath,
+      recommendation: 'Keep the lockfile committed and review dependency updates for known vulnerabilities.'
+    };
+  }
+
   /**
    * Analyze configuration files for security issues
    */
@@ -181,6 +355,11 @@ export class ChunkProcessor {
         filePath: file.path,
         recommendation: 'Ensure configuration files have appropriate security settings.'
       });
+
+      // Configuration often carries credentials (config.yml, application.properties), so scan it like secret files
+      if (file.content) {
+        findings.push(...SecretDetector.detect(file.content, file.path));
+      }
     }
 
     return findings;
@@ -213,7 +392,9 @@ export class ChunkProcessor {
     const findings: ChunkFinding[] = [];
 
     for (const file of files) {
-      if (file.path.toLowerCase().includes('dockerfile')) {
+      if (file.path.toLowerCase().includes('dockerfile') && file.content) {
+        findings.push(...DockerfileLinter.lint(file.content, file.path));
+      } else if (file.path.toLowerCase().includes('dockerfile')) {
         findings.push({
           type: 'security',
           severity: 'medium',
@@ -224,6 +405,14 @@ export class ChunkProcessor {
         });
       }
 
+      if (/\.ya?ml$/i.test(file.path) && file.content && KubernetesManifestAnalyzer.isManifest(file.content)) {
+        findings.push(...KubernetesManifestAnalyzer.analyze(file.content, file.path));
+      }
+
+      if (/\.tf$/i.test(file.path) && file.content) {
+        findings.push(...TerraformAnalyzer.analyze(file.content, file.path));
+      }
+
       if (file.path.toLowerCase().includes('docker-compose')) {
         findings.push({
           type: 'security',
@@ -239,6 +428,40 @@ export class ChunkProcessor {
     return findings;
   }
 
+  /**
+   * Analyze GitHub Actions workflows for CI supply-chain issues
+   */
+  private analyzeWorkflowFiles(files: SecurityFile[]): ChunkFinding[] {
+    const findings: ChunkFinding[] = [];
+
+    for (const file of files) {
+      if (file.content) {
+        findings.push(...WorkflowAnalyzer.analyze(file.content, file.path));
+        continue;
+      }
+
+      findings.push({
+        type: 'security',
+        severity: 'low',
+        title: 'GitHub Actions workflow detected',
+        description: `Workflow found: ${file.path}. Review triggers, permissions and third-party actions.`,
+        filePath: file.path,
+        recommendation: 'Pin third-party actions to commit SHAs and restrict GITHUB_TOKEN permissions.'
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Check fetched files against the built-in code pattern rules and any custom rule packs
+   */
+  private analyzeSourceFiles(files: SecurityFile[]): ChunkFinding[] {
+    return files
+      .filter(file => file.content)
+      .flatMap(file => CodePatternEngine.analyze(file.content!, file.path, this.codeRules));
+  }
+
   /**
    * Generate summary from findings
    */
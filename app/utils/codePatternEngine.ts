@@ -0,0 +1,111 @@
+import { ChunkFinding } from './chunkProcessor';
+import { BUILT_IN_CODE_RULES, CodeLanguage, CodePatternRule } from './codePatternRules';
+
+export interface CodePatternMatch {
+  rule: CodePatternRule;
+  lineNumber: number;
+  snippet: string;
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, CodeLanguage> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'javascript', tsx: 'javascript', mts: 'javascript', cts: 'javascript',
+  py: 'python',
+  go: 'go',
+  java: 'java',
+  rb: 'ruby', rake: 'ruby',
+  php: 'php', phtml: 'php'
+};
+
+// Line comment markers per language; block comment bodies are tracked separately
+const LINE_COMMENT_PATTERNS: Record<CodeLanguage, RegExp> = {
+  javascript: /^\s*(?:\/\/|\*)/,
+  go: /^\s*(?:\/\/|\*)/,
+  java: /^\s*(?:\/\/|\*)/,
+  php: /^\s*(?:\/\/|#|\*)/,
+  python: /^\s*#/,
+  ruby: /^\s*#/
+};
+
+// Keep reported snippets short so minified or generated lines do not bloat reports
+const MAX_SNIPPET_LENGTH = 200;
+
+export class CodePatternEngine {
+  static readonly RULES: CodePatternRule[] = BUILT_IN_CODE_RULES;
+
+  /**
+   * Language of a source file from its extension, or null when no rules apply
+   */
+  static languageOf(filePath: string): CodeLanguage | null {
+    const fileName = filePath.toLowerCase().split('/').pop() || '';
+    if (/\.min\.js$/.test(fileName)) return null;
+    const extension = fileName.includes('.') ? fileName.split('.').pop() || '' : '';
+    return LANGUAGE_EXTENSIONS[extension] || null;
+  }
+
+  /**
+   * Run the rules for a language over every non-comment line
+   */
+  static scan(content: string, language: CodeLanguage | null, rules: CodePatternRule[] = this.RULES): CodePatternMatch[] {
+    const applicable = rules.filter(rule => rule.languages.length === 0 || (language !== null && rule.languages.includes(language)));
+    if (applicable.length === 0) return [];
+
+    const matches: CodePatternMatch[] = [];
+    let inBlockComment = false;
+
+    content.split('\n').forEach((line, index) => {
+      if (language) {
+        const comment = this.isComment(line, language, inBlockComment);
+        inBlockComment = this.endsInBlockComment(line, language, inBlockComment);
+        if (comment) return;
+      }
+
+      for (const rule of applicable) {
+        if (!rule.pattern.test(line) || rule.exclude?.test(line)) continue;
+        matches.push({ rule, lineNumber: index + 1, snippet: line.trim().slice(0, MAX_SNIPPET_LENGTH) });
+      }
+    });
+
+    return matches;
+  }
+
+  /**
+   * Check a source file against the rules for its language
+   */
+  static analyze(content: string, filePath: string, rules: CodePatternRule[] = this.RULES): ChunkFinding[] {
+    const language = this.languageOf(filePath);
+    const applicable = rules.filter(rule => this.matchesFile(rule, filePath));
+
+    return this.scan(content, language, applicable).map(({ rule, lineNumber, snippet }) => ({
+      type: 'security',
+      severity: rule.severity,
+      title: rule.title,
+      description: `${rule.message} (${filePath}:${lineNumber})`,
+      filePath,
+      lineNumber,
+      recommendation: rule.recommendation,
+      ruleId: rule.id,
+      confidence: rule.confidence,
+      match: snippet
+    }));
+  }
+
+  private static matchesFile(rule: CodePatternRule, filePath: string): boolean {
+    if (rule.files && !rule.files.some(glob => glob.test(filePath))) return false;
+    return !rule.excludeFiles?.some(glob => glob.test(filePath));
+  }
+
+  private static isComment(line: string, language: CodeLanguage, inBlockComment: boolean): boolean {
+    if (inBlockComment) return true;
+    if (LINE_COMMENT_PATTERNS[language].test(line)) return true;
+    return language !== 'python' && language !== 'ruby' && /^\s*\/\*/.test(line);
+  }
+
+  private static endsInBlockComment(line: string, language: CodeLanguage, inBlockComment: boolean): boolean {
+    if (language === 'python' || language === 'ruby') return false;
+    const open = line.lastIndexOf('/*');
+    const close = line.lastIndexOf('*/');
+    if (open === -1 && close === -1) return inBlockComment;
+    return open > close;
+  }
+}
@@ -0,0 +1,389 @@
+import { ChunkFinding } from './chunkProcessor';
+
+export type CodeLanguage = 'javascript' | 'python' | 'go' | 'java' | 'ruby' | 'php';
+
+export type CodePatternCategory =
+  | 'sql-injection'
+  | 'command-injection'
+  | 'unsafe-deserialization'
+  | 'weak-crypto'
+  | 'tls-verification-disabled'
+  | 'xss'
+  | 'custom';
+
+export interface CodePatternRule {
+  id: string;
+  category: CodePatternCategory;
+  // Empty applies the rule to every file, whatever its language
+  languages: CodeLanguage[];
+  // Path globs compiled to expressions; the rule only runs on matching files when set
+  files?: RegExp[];
+  excludeFiles?: RegExp[];
+  title: string;
+  // Matched against each source line with comments removed
+  pattern: RegExp;
+  // Lines matching this are treated as safe, e.g. sanitised or parameterised calls
+  exclude?: RegExp;
+  severity: ChunkFinding['severity'];
+  confidence: 'high' | 'medium' | 'low';
+  message: string;
+  recommendation: string;
+}
+
+// A string literal that starts with a SQL statement keyword
+const SQL = String.raw`(?:SELECT\s+[\w*]|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)`;
+
+const SQL_RECOMMENDATION = 'Use parameterised queries or the query builder\'s placeholders instead of building SQL from strings.';
+const COMMAND_RECOMMENDATION = 'Pass arguments as an array to an API that does not invoke a shell, and validate input against an allow-list.';
+const DESERIALIZATION_RECOMMENDATION = 'Never deserialize untrusted data with native object serializers; use JSON or a safe loader with an explicit schema.';
+const WEAK_HASH_RECOMMENDATION = 'Use SHA-256 or stronger for integrity, and bcrypt, scrypt or Argon2 for passwords.';
+const ECB_RECOMMENDATION = 'Use an authenticated mode such as AES-GCM with a unique nonce per message.';
+const TLS_RECOMMENDATION = 'Keep certificate verification enabled; trust a private CA explicitly instead of disabling checks.';
+
+export const BUILT_IN_CODE_RULES: CodePatternRule[] = [
+  // SQL built by string concatenation or interpolation
+  {
+    id: 'js-sql-injection',
+    category: 'sql-injection',
+    languages: ['javascript'],
+    title: 'SQL query built from strings',
+    pattern: new RegExp(String.raw`(['"])\s*${SQL}(?:(?!\1).)*\1\s*\+|\`\s*${SQL}[^\`]*\$\{`, 'i'),
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A SQL statement is concatenated or interpolated with runtime values',
+    recommendation: SQL_RECOMMENDATION
+  },
+  {
+    id: 'python-sql-injection',
+    category: 'sql-injection',
+    languages: ['python'],
+    title: 'SQL query built from strings',
+    pattern: new RegExp(String.raw`\b[fF](['"])\s*${SQL}(?:(?!\1).)*\{|(['"])\s*${SQL}(?:(?!\2).)*\2\s*(?:%\s*[\w(]|\+|\.format\()`, 'i'),
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A SQL statement is formatted or concatenated with runtime values',
+    recommendation: SQL_RECOMMENDATION
+  },
+  {
+    id: 'go-sql-injection',
+    category: 'sql-injection',
+    languages: ['go'],
+    title: 'SQL query built from strings',
+    pattern: new RegExp(String.raw`fmt\.Sprintf\(\s*["\`]\s*${SQL}|["\`]\s*${SQL}[^"\`]*["\`]\s*\+`, 'i'),
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A SQL statement is formatted or concatenated with runtime values',
+    recommendation: SQL_RECOMMENDATION
+  },
+  {
+    id: 'java-sql-injection',
+    category: 'sql-injection',
+    languages: ['java'],
+    title: 'SQL query built from strings',
+    pattern: new RegExp(String.raw`"\s*${SQL}[^"]*"\s*\+|String\.format\(\s*"\s*${SQL}`, 'i'),
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A SQL statement is concatenated or formatted with runtime values',
+    recommendation: SQL_RECOMMENDATION
+  },
+  {
+    id: 'ruby-sql-injection',
+    category: 'sql-injection',
+    languages: ['ruby'],
+    title: 'SQL query built from strings',
+    pattern: new RegExp(String.raw`"\s*${SQL}[^"]*#\{|\.(?:where|order|group|having|joins|find_by_sql|exec_query|execute)\(\s*"[^"]*#\{`, 'i'),
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A SQL fragment interpolates runtime values',
+    recommendation: SQL_RECOMMENDATION
+  },
+  {
+    id: 'php-sql-injection',
+    category: 'sql-injection',
+    languages: ['php'],
+    title: 'SQL query built from strings',
+    pattern: new RegExp(String.raw`"\s*${SQL}[^"]*\$\w|(['"])\s*${SQL}(?:(?!\1).)*\1\s*\.\s*\$`, 'i'),
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A SQL statement interpolates or concatenates PHP variables',
+    recommendation: SQL_RECOMMENDATION
+  },
+
+  // Shell commands built from runtime values
+  {
+    id: 'js-command-injection',
+    category: 'command-injection',
+    languages: ['javascript'],
+    title: 'Shell command built from runtime values',
+    pattern: /\b(?:exec|execSync)\s*\(\s*(?:`[^`]*\$\{|(['"])[^'"]*\1\s*\+)|\bspawn(?:Sync)?\s*\([^)]*shell\s*:\s*true|\beval\s*\(\s*(?!['"`][^'"`]*['"`]\s*\))[^)]/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A command or script is assembled from runtime values and executed',
+    recommendation: COMMAND_RECOMMENDATION
+  },
+  {
+    id: 'python-command-injection',
+    category: 'command-injection',
+    languages: ['python'],
+    title: 'Shell command built from runtime values',
+    pattern: /\bos\.(?:system|popen)\s*\(\s*(?:[fF]['"]|[^'")\s]|(['"])[^'"]*\1\s*(?:%|\+|\.format))|\bsubprocess\.\w+\(.*shell\s*=\s*True|\b(?:eval|exec)\s*\(\s*(?:input|request)\b/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A shell command is built from runtime values or run with shell=True',
+    recommendation: COMMAND_RECOMMENDATION
+  },
+  {
+    id: 'go-command-injection',
+    category: 'command-injection',
+    languages: ['go'],
+    title: 'Shell command built from runtime values',
+    pattern: /exec\.Command(?:Context)?\((?:ctx,\s*)?"(?:\/bin\/)?(?:ba|z)?sh"\s*,\s*"-c"\s*,\s*(?!"[^"]*"\s*\))/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A shell is invoked with a command string assembled at runtime',
+    recommendation: COMMAND_RECOMMENDATION
+  },
+  {
+    id: 'java-command-injection',
+    category: 'command-injection',
+    languages: ['java'],
+    title: 'Shell command built from runtime values',
+    pattern: /\bRuntime\.getRuntime\(\)\.exec\(\s*(?!"[^"]*"\s*\))|new\s+ProcessBuilder\([^)]*"-c"\s*,\s*(?!"[^"]*"\s*\))/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A process is started with a command assembled at runtime',
+    recommendation: COMMAND_RECOMMENDATION
+  },
+  {
+    id: 'ruby-command-injection',
+    category: 'command-injection',
+    languages: ['ruby'],
+    title: 'Shell command built from runtime values',
+    pattern: /\b(?:system|exec|spawn|IO\.popen|Open3\.\w+)\s*\(?\s*"[^"]*#\{|`[^`]*#\{|%x[({[][^)}\]]*#\{/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A shell command interpolates runtime values',
+    recommendation: COMMAND_RECOMMENDATION
+  },
+  {
+    id: 'php-command-injection',
+    category: 'command-injection',
+    languages: ['php'],
+    title: 'Shell command built from runtime values',
+    pattern: /\b(?:system|exec|shell_exec|passthru|popen|proc_open|pcntl_exec)\s*\(\s*(?:\$|"[^"]*\$\w|(['"])[^'"]*\1\s*\.\s*\$)|`[^`]*\$\w|\beval\s*\(\s*\$/,
+    exclude: /escapeshellarg\(|escapeshellcmd\(/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'A shell command is built from PHP variables',
+    recommendation: COMMAND_RECOMMENDATION
+  },
+
+  // Native object deserialization
+  {
+    id: 'js-unsafe-deserialization',
+    category: 'unsafe-deserialization',
+    languages: ['javascript'],
+    title: 'Unsafe deserialization',
+    pattern: /\b(?:serialize|nodeSerialize)\.unserialize\s*\(|\brequire\(\s*['"]node-serialize['"]\s*\)/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'node-serialize can execute functions embedded in the serialized payload',
+    recommendation: DESERIALIZATION_RECOMMENDATION
+  },
+  {
+    id: 'python-unsafe-deserialization',
+    category: 'unsafe-deserialization',
+    languages: ['python'],
+    title: 'Unsafe deserialization',
+    pattern: /\b(?:c?[Pp]ickle|dill|marshal|shelve|jsonpickle)\.(?:loads?|open|decode)\s*\(|\byaml\.(?:load|load_all)\s*\((?![^)]*Loader\s*=\s*(?:yaml\.)?(?:Safe|CSafe)Loader)|\byaml\.unsafe_load\s*\(/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'This loader can construct arbitrary objects and execute code from its input',
+    recommendation: DESERIALIZATION_RECOMMENDATION
+  },
+  {
+    id: 'java-unsafe-deserialization',
+    category: 'unsafe-deserialization',
+    languages: ['java'],
+    title: 'Unsafe deserialization',
+    pattern: /new\s+ObjectInputStream\s*\(|new\s+XMLDecoder\s*\(|\.fromXML\s*\(|enableDefaultTyping\s*\(/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'Java native deserialization of untrusted data can lead to remote code execution',
+    recommendation: DESERIALIZATION_RECOMMENDATION
+  },
+  {
+    id: 'ruby-unsafe-deserialization',
+    category: 'unsafe-deserialization',
+    languages: ['ruby'],
+    title: 'Unsafe deserialization',
+    pattern: /\bMarshal\.(?:load|restore)\s*\(|\b(?:YAML|Psych)\.(?:load|unsafe_load)\s*\((?![^)]*permitted_classes)|\bOj\.load\s*\((?![^)]*mode:\s*:strict)/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'This loader can instantiate arbitrary Ruby objects from its input',
+    recommendation: DESERIALIZATION_RECOMMENDATION
+  },
+  {
+    id: 'php-unsafe-deserialization',
+    category: 'unsafe-deserialization',
+    languages: ['php'],
+    title: 'Unsafe deserialization',
+    pattern: /\bunserialize\s*\(\s*\$/,
+    exclude: /allowed_classes['"]\s*=>\s*false/,
+    severity: 'high',
+    confidence: 'medium',
+    message: 'unserialize() on user data enables PHP object injection',
+    recommendation: DESERIALIZATION_RECOMMENDATION
+  },
+
+  // Weak hashes and ECB mode
+  {
+    id: 'js-weak-crypto',
+    category: 'weak-crypto',
+    languages: ['javascript'],
+    title: 'Weak cryptographic algorithm',
+    pattern: /createHash\(\s*['"](?:md5|sha1|md4)['"]|\bCryptoJS\.(?:MD5|SHA1)\b|create(?:Cipher|Decipher)iv\(\s*['"][\w-]*-ecb['"]|create(?:Cipher|Decipher)iv\(\s*['"](?:des|rc4)[\w-]*['"]/i,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'MD5, SHA-1, DES, RC4 and ECB mode are broken for security purposes',
+    recommendation: WEAK_HASH_RECOMMENDATION
+  },
+  {
+    id: 'python-weak-crypto',
+    category: 'weak-crypto',
+    languages: ['python'],
+    title: 'Weak cryptographic algorithm',
+    pattern: /\bhashlib\.(?:md5|sha1)\s*\((?![^)]*usedforsecurity\s*=\s*False)|\bhashlib\.new\(\s*['"](?:md5|sha1)['"]|\bMODE_ECB\b|modes\.ECB\(|\b(?:DES|ARC4|Blowfish)\.new\(/,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'MD5, SHA-1, DES, RC4 and ECB mode are broken for security purposes',
+    recommendation: WEAK_HASH_RECOMMENDATION
+  },
+  {
+    id: 'go-weak-crypto',
+    category: 'weak-crypto',
+    languages: ['go'],
+    title: 'Weak cryptographic algorithm',
+    pattern: /\b(?:md5|sha1)\.(?:New|Sum)\s*\(|\bdes\.New(?:TripleDES)?Cipher\s*\(|\brc4\.NewCipher\s*\(/,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'MD5, SHA-1, DES and RC4 are broken for security purposes',
+    recommendation: WEAK_HASH_RECOMMENDATION
+  },
+  {
+    id: 'java-weak-crypto',
+    category: 'weak-crypto',
+    languages: ['java'],
+    title: 'Weak cryptographic algorithm',
+    // Cipher.getInstance("AES") defaults to ECB mode
+    pattern: /MessageDigest\.getInstance\(\s*"(?:MD5|MD2|SHA-?1)"|Cipher\.getInstance\(\s*"(?:[^"]*\/ECB\/[^"]*|AES|DES[^"]*|RC4|Blowfish)"/i,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'MD5, SHA-1, DES, RC4 and ECB mode are broken for security purposes',
+    recommendation: ECB_RECOMMENDATION
+  },
+  {
+    id: 'ruby-weak-crypto',
+    category: 'weak-crypto',
+    languages: ['ruby'],
+    title: 'Weak cryptographic algorithm',
+    pattern: /\bDigest::(?:MD5|SHA1)\b|OpenSSL::Digest::(?:MD5|SHA1)\b|OpenSSL::Cipher\.new\(\s*['"][^'"]*-ecb['"]|OpenSSL::Cipher\.new\(\s*['"](?:des|rc4)/i,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'MD5, SHA-1, DES, RC4 and ECB mode are broken for security purposes',
+    recommendation: WEAK_HASH_RECOMMENDATION
+  },
+  {
+    id: 'php-weak-crypto',
+    category: 'weak-crypto',
+    languages: ['php'],
+    title: 'Weak cryptographic algorithm',
+    pattern: /\b(?:md5|sha1)\s*\(|hash\(\s*['"](?:md5|sha1)['"]|openssl_(?:en|de)crypt\([^)]*['"][\w-]*-ecb['"]|MCRYPT_MODE_ECB|MCRYPT_DES/i,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'MD5, SHA-1, DES and ECB mode are broken for security purposes',
+    recommendation: WEAK_HASH_RECOMMENDATION
+  },
+
+  // Disabled certificate verification
+  {
+    id: 'js-tls-verification-disabled',
+    category: 'tls-verification-disabled',
+    languages: ['javascript'],
+    title: 'TLS certificate verification disabled',
+    pattern: /rejectUnauthorized\s*:\s*false|NODE_TLS_REJECT_UNAUTHORIZED\s*=\s*['"]?0|checkServerIdentity\s*:\s*\(\)\s*=>\s*undefined/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'TLS connections accept any certificate, allowing man-in-the-middle attacks',
+    recommendation: TLS_RECOMMENDATION
+  },
+  {
+    id: 'python-tls-verification-disabled',
+    category: 'tls-verification-disabled',
+    languages: ['python'],
+    title: 'TLS certificate verification disabled',
+    pattern: /\bverify\s*=\s*False\b|ssl\._create_unverified_context|\bcert_reqs\s*=\s*(?:ssl\.)?CERT_NONE|\.verify_mode\s*=\s*(?:ssl\.)?CERT_NONE|check_hostname\s*=\s*False/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'TLS connections accept any certificate, allowing man-in-the-middle attacks',
+    recommendation: TLS_RECOMMENDATION
+  },
+  {
+    id: 'go-tls-verification-disabled',
+    category: 'tls-verification-disabled',
+    languages: ['go'],
+    title: 'TLS certificate verification disabled',
+    pattern: /InsecureSkipVerify\s*:\s*true/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'TLS connections accept any certificate, allowing man-in-the-middle attacks',
+    recommendation: TLS_RECOMMENDATION
+  },
+  {
+    id: 'java-tls-verification-disabled',
+    category: 'tls-verification-disabled',
+    languages: ['java'],
+    title: 'TLS certificate verification disabled',
+    pattern: /NoopHostnameVerifier|ALLOW_ALL_HOSTNAME_VERIFIER|setHostnameVerifier\(\s*\([^)]*\)\s*->\s*true|TrustAllStrategy|new\s+TrustSelfSignedStrategy/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'TLS connections accept any certificate or host name, allowing man-in-the-middle attacks',
+    recommendation: TLS_RECOMMENDATION
+  },
+  {
+    id: 'ruby-tls-verification-disabled',
+    category: 'tls-verification-disabled',
+    languages: ['ruby'],
+    title: 'TLS certificate verification disabled',
+    pattern: /OpenSSL::SSL::VERIFY_NONE|ssl_verify_mode:\s*:none|verify_ssl:\s*false/,
+    severity: 'high',
+    confidence: 'high',
+    message: 'TLS connections accept any certificate, allowing man-in-the-middle attacks',
+    recommendation: TLS_RECOMMENDATION
+  },
+  {
+    id: 'php-tls-verification-disabled',
+    category: 'tls-verification-disabled',
+    languages: ['php'],
+    title: 'TLS certificate verification disabled',
+    pattern: /CURLOPT_SSL_VERIFY(?:PEER|HOST)\s*,\s*(?:false|0)\b|['"]verify_peer(?:_name)?['"]\s*=>\s*false|['"]verify['"]\s*=>\s*false/i,
+    severity: 'high',
+    confidence: 'high',
+    message: 'TLS connections accept any certificate, allowing man-in-the-middle attacks',
+    recommendation: TLS_RECOMMENDATION
+  },
+
+  // Raw HTML rendering
+  {
+    id: 'js-dangerously-set-inner-html',
+    category: 'xss',
+    languages: ['javascript'],
+    title: 'dangerouslySetInnerHTML with unsanitised content',
+    pattern: /dangerouslySetInnerHTML\s*=\s*\{\s*\{?\s*__html\s*:|dangerouslySetInnerHTML\s*=\s*\{\s*\w/,
+    exclude: /DOMPurify\.sanitize\(|sanitizeHtml\(|xss\(/,
+    severity: 'medium',
+    confidence: 'medium',
+    message: 'Raw HTML is injected into the page without visible sanitisation',
+    recommendation: 'Render text through JSX, or sanitise the HTML with DOMPurify before passing it to dangerouslySetInnerHTML.'
+  }
+];
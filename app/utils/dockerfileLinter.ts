@@ -0,0 +1,331 @@
+import { ChunkFinding } from './chunkProcessor';
+import { SecretDetector } from './secretDetector';
+
+export interface DockerfileInstruction {
+  instruction: string;
+  args: string;
+  lineNumber: number;
+  // Index of the build stage (FROM) the instruction belongs to
+  stage: number;
+}
+
+export interface DockerfileStage {
+  index: number;
+  image: string;
+  alias?: string;
+  lineNumber: number;
+  instructions: DockerfileInstruction[];
+}
+
+const PIPE_TO_SHELL_PATTERN = /\b(curl|wget)\b[^|;&]*\|\s*(?:sudo\s+)?(?:\/(?:usr\/)?bin\/)?(sh|bash|zsh|ash|dash|ksh|python[0-9.]*|perl|ruby|node)\b/;
+
+// Options whose next token is a value rather than a package
+const VALUED_OPTIONS = new Set([
+  '-r', '--requirement', '-c', '--constraint', '-i', '--index-url', '--extra-index-url', '-t', '--target',
+  '-f', '--find-links', '-o', '--option', '--repository', '-X', '--virtual', '--cache-dir', '--root', '--prefix',
+  '--registry'
+]);
+
+type InstallerFamily = 'apt' | 'apk' | 'pip' | 'npm' | 'gem' | 'yum';
+
+export class DockerfileLinter {
+  /**
+   * Lint a Dockerfile and return findings carrying the rule id and offending line number
+   */
+  static lint(content: string, filePath: string): ChunkFinding[] {
+    const stages = this.parse(content);
+    if (stages.length === 0) return [];
+
+    const findings: ChunkFinding[] = [];
+    const aliases = new Set(stages.map(stage => stage.alias?.toLowerCase()).filter(Boolean));
+    const finding = (
+      ruleId: string,
+      severity: ChunkFinding['severity'],
+      title: string,
+      description: string,
+      lineNumber: number,
+      recommendation: string
+    ): ChunkFinding => ({
+      type: 'security',
+      severity,
+      title,
+      description: `${description} (${filePath}:${lineNumber})`,
+      filePath,
+      lineNumber,
+      recommendation,
+      ruleId
+    });
+
+    for (const stage of stages) {
+      const baseImageFinding = this.checkBaseImage(stage, aliases);
+      if (baseImageFinding) {
+        findings.push(finding(...baseImageFinding));
+      }
+
+      for (const instruction of stage.instructions) {
+        const { args, lineNumber } = instruction;
+
+        if (instruction.instruction === 'ADD' && /(^|\s)https?:\/\//i.test(this.stripFlags(args))) {
+          findings.push(finding(
+            'dockerfile-add-remote-url', 'high', 'ADD downloads a remote URL',
+            'ADD fetches a remote file without checksum verification', lineNumber,
+            'Download with curl or wget, verify the checksum, or use ADD --checksum; use COPY for local files.'
+          ));
+        }
+
+        if (instruction.instruction === 'RUN' && PIPE_TO_SHELL_PATTERN.test(args)) {
+          findings.push(finding(
+            'dockerfile-curl-pipe-shell', 'high', 'Remote script piped to a shell',
+            'A downloaded script is executed directly without verification', lineNumber,
+            'Download the script, verify its checksum or signature, then execute it.'
+          ));
+        }
+
+        if (instruction.instruction === 'ENV' || instruction.instruction === 'ARG') {
+          for (const { name, value } of this.parseAssignments(instruction)) {
+            const knownFormat = value ? SecretDetector.scan(value)[0] : undefined;
+            if (!SecretDetector.isSecretName(name) && !knownFormat) continue;
+            if (value && /^\$\{?\w+\}?$/.test(value)) continue;
+
+            const masked = value ? `=${SecretDetector.mask(value)}` : '';
+            findings.push(finding(
+              `dockerfile-secret-in-${instruction.instruction.toLowerCase()}`,
+              knownFormat ? 'critical' : instruction.instruction === 'ENV' && value ? 'high' : 'medium',
+              `Secret passed through ${instruction.instruction}`,
+              `${instruction.instruction} ${name}${masked} is stored in the image metadata and build history`,
+              lineNumber,
+              'Use BuildKit secret mounts (RUN --mount=type=secret) or inject secrets at runtime.'
+            ));
+          }
+        }
+
+        if (instruction.instruction === 'RUN') {
+          for (const unpinned of this.findUnpinnedPackages(args)) {
+            findings.push(finding(
+              'dockerfile-unpinned-package', 'low', 'Package installed without a version pin',
+              `${unpinned.installer} installs ${unpinned.packages.join(', ')} without pinned versions`,
+              lineNumber,
+              'Pin package versions so builds are reproducible and upgrades are reviewed.'
+            ));
+          }
+        }
+      }
+    }
+
+    // Only the final stage ends up in the shipped image
+    const finalStage = stages[stages.length - 1];
+    const users = finalStage.instructions.filter(i => i.instruction === 'USER');
+    const lastUser = users[users.length - 1];
+    if (!lastUser) {
+      findings.push(finding(
+        'dockerfile-runs-as-root', 'medium', 'Container runs as root',
+        'The final stage never switches to a non-root USER', finalStage.lineNumber,
+        'Create an unprivileged user and switch to it with USER before the entrypoint.'
+      ));
+    } else if (/^(root|0)(:.*)?$/.test(lastUser.args.trim())) {
+      findings.push(finding(
+        'dockerfile-runs-as-root', 'medium', 'Container runs as root',
+        `The final USER instruction switches to ${lastUser.args.trim()}`, lastUser.lineNumber,
+        'Switch to an unprivileged user with USER before the entrypoint.'
+      ));
+    }
+
+    if (!finalStage.instructions.some(i => i.instruction === 'HEALTHCHECK')) {
+      findings.push(finding(
+        'dockerfile-missing-healthcheck', 'low', 'No HEALTHCHECK defined',
+        'The final stage does not define a HEALTHCHECK', finalStage.lineNumber,
+        'Add a HEALTHCHECK so orchestrators can detect and restart unhealthy containers.'
+      ));
+    }
+
+    return findings;
+  }
+
+  /**
+   * Split a Dockerfile into build stages of instructions, joining continuation lines and heredocs
+   */
+  static parse(content: string): DockerfileStage[] {
+    const lines = content.split(/\r?\n/);
+    const escapeDirective = lines.slice(0, 5).map(l => l.match(/^#\s*escape\s*=\s*(\S)/i)).find(Boolean);
+    const escapeChar = escapeDirective ? escapeDirective[1] : '\\';
+
+    const stages: DockerfileStage[] = [];
+    let i = 0;
+    while (i < lines.length) {
+      const startLine = i + 1;
+      let line = lines[i].trim();
+      i++;
+      if (!line || line.startsWith('#')) continue;
+
+      // Join continuation lines, skipping comments inside the continued instruction
+      while (line.endsWith(escapeChar) && i < lines.length) {
+        line = line.slice(0, -1);
+        const next = lines[i].trim();
+        i++;
+        if (next.startsWith('#')) {
+          line += escapeChar;
+          continue;
+        }
+        line += ' ' + next;
+      }
+
+      // Heredoc bodies (RUN <<EOF ... EOF) belong to the instruction; here-strings (<<<) and
+      // shifts inside $(( )) arithmetic are not heredocs
+      const heredoc = line.replace(/\$\(\([\s\S]*?\)\)/g, '').match(/(?:^|[^<])<<-?\s*(["']?)([A-Za-z_]\w*)\1(?!\w)/);
+      if (heredoc) {
+        while (i < lines.length && lines[i].trim() !== heredoc[2]) {
+          line += '\n' + lines[i];
+          i++;
+        }
+        i++;
+      }
+
+      const match = line.match(/^(\w+)\s*([\s\S]*)$/);
+      if (!match) continue;
+      const instruction = match[1].toUpperCase();
+      const args = match[2].trim();
+
+      if (instruction === 'FROM') {
+        const parts = this.stripFlags(args).split(/\s+/);
+        const asIndex = parts.findIndex(part => part.toLowerCase() === 'as');
+        stages.push({
+          index: stages.length,
+          image: parts[0] || '',
+          ...(asIndex > 0 && parts[asIndex + 1] && { alias: parts[asIndex + 1] }),
+          lineNumber: startLine,
+          instructions: []
+        });
+        continue;
+      }
+
+      // Instructions before the first FROM (global ARGs) do not belong to a stage
+      const stage = stages[stages.length - 1];
+      if (stage) {
+        stage.instructions.push({ instruction, args, lineNumber: startLine, stage: stage.index });
+      }
+    }
+
+    return stages;
+  }
+
+  private static checkBaseImage(
+    stage: DockerfileStage,
+    aliases: Set<string | undefined>
+  ): [string, ChunkFinding['severity'], string, string, number, string] | null {
+    const image = stage.image;
+    // scratch, earlier stages and build-arg images cannot be pinned here
+    if (!image || image === 'scratch' || aliases.has(image.toLowerCase()) || image.includes('$')) return null;
+    if (image.includes('@sha256:')) return null;
+
+    const lastSegment = image.split('/').pop() || image;
+    const tag = lastSegment.includes(':') ? lastSegment.split(':').pop() : undefined;
+
+    if (tag === 'latest') {
+      return [
+        'dockerfile-latest-base-image', 'medium', 'Base image uses the latest tag',
+        `FROM ${image} resolves to whatever image was published last`, stage.lineNumber,
+        'Pin the base image to a specific version tag, ideally with an @sha256 digest.'
+      ];
+    }
+    if (!tag) {
+      return [
+        'dockerfile-unpinned-base-image', 'medium', 'Base image is not pinned',
+        `FROM ${image} has no tag or digest and implicitly uses latest`, stage.lineNumber,
+        'Pin the base image to a specific version tag, ideally with an @sha256 digest.'
+      ];
+    }
+    return null;
+  }
+
+  private static parseAssignments(instruction: DockerfileInstruction): { name: string; value?: string }[] {
+    const args = instruction.args;
+    // Legacy "ENV KEY value" form
+    if (instruction.instruction === 'ENV' && !/^[^\s=]+=/.test(args)) {
+      const [name, ...rest] = args.split(/\s+/);
+      return name ? [{ name, value: this.unquote(rest.join(' ')) }] : [];
+    }
+
+    const assignments: { name: string; value?: string }[] = [];
+    const pattern = /([^\s=]+)(?:=("(?:[^"\\]|\\.)*"|'[^']*'|\S*))?/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(args)) !== null) {
+      assignments.push({ name: match[1], value: match[2] !== undefined ? this.unquote(match[2]) : undefined });
+    }
+    return assignments.map(a => (a.value === '' ? { name: a.name } : a));
+  }
+
+  private static findUnpinnedPackages(command: string): { installer: string; packages: string[] }[] {
+    const results: { installer: string; packages: string[] }[] = [];
+
+    for (const segment of command.split(/&&|\|\||;|\n/)) {
+      const tokens = segment.trim().split(/\s+/).filter(Boolean).map(t => this.unquote(t));
+      const detected = this.detectInstaller(tokens);
+      if (!detected) continue;
+
+      const packages: string[] = [];
+      for (let j = detected.argsStart; j < tokens.length; j++) {
+        const token = tokens[j];
+        if (VALUED_OPTIONS.has(token)) {
+          j++;
+          continue;
+        }
+        if (token.startsWith('-') || token.includes('$') || token === '\\') continue;
+        if (!this.isPinned(detected.family, token)) packages.push(token);
+      }
+
+      if (packages.length > 0) results.push({ installer: detected.name, packages });
+    }
+
+    return results;
+  }
+
+  private static detectInstaller(tokens: string[]): { family: InstallerFamily; name: string; argsStart: number } | null {
+    const words = tokens[0] === 'sudo' ? tokens.slice(1) : tokens;
+    const offset = tokens.length - words.length;
+    const [command, subcommand] = words;
+    const install = (family: InstallerFamily, name: string, index: number) => ({ family, name, argsStart: offset + index });
+
+    if ((command === 'apt-get' || command === 'apt') && words.includes('install')) {
+      return install('apt', command, words.indexOf('install') + 1);
+    }
+    if (command === 'apk' && subcommand === 'add') return install('apk', 'apk', 2);
+    if ((command === 'yum' || command === 'dnf' || command === 'microdnf') && words.includes('install')) {
+      return install('yum', command, words.indexOf('install') + 1);
+    }
+    if (/^pip[0-9.]*$/.test(command || '') && subcommand === 'install') return install('pip', command, 2);
+    if (/^python[0-9.]*$/.test(command || '') && words[1] === '-m' && words[2] === 'pip' && words[3] === 'install') {
+      return install('pip', 'pip', 4);
+    }
+    if (command === 'npm' && (subcommand === 'install' || subcommand === 'i') && words.length > 2) return install('npm', 'npm', 2);
+    if (command === 'gem' && subcommand === 'install' && !words.includes('-v') && !words.includes('--version')) {
+      return install('gem', 'gem', 2);
+    }
+    return null;
+  }
+
+  private static isPinned(family: InstallerFamily, pkg: string): boolean {
+    switch (family) {
+      case 'apt':
+      case 'apk':
+        return pkg.includes('=');
+      case 'pip':
+        // Local paths, archives and URLs are not index packages
+        return /==|===|@|^[./]|\.(whl|tar\.gz|zip)$/.test(pkg) || pkg.includes('://');
+      case 'npm':
+        // Only exact versions pin; tags (@latest) and ranges (@^4) resolve differently over time
+        return /^@?[^@]+@=?v?\d+\.\d+\.\d+(?:[-+][\w.-]+)?$/.test(pkg) || /^[./]|:\/\//.test(pkg);
+      case 'yum':
+        return /-\d/.test(pkg) || pkg.endsWith('.rpm');
+      case 'gem':
+        return pkg.includes(':');
+    }
+  }
+
+  private static stripFlags(args: string): string {
+    return args.replace(/^(\s*--\S+\s*)+/, '').trim();
+  }
+
+  private static unquote(value: string): string {
+    return value.replace(/^(["'])([\s\S]*)\1$/, '$2');
+  }
+}
@@ -0,0 +1,204 @@
+import { LockfileParser } from './lockfileParser';
+import { SecurityFile } from './securityFileFilter';
+
+export interface ToolCaller {
+  callTool(toolName: string, arguments_: any): Promise<any>;
+}
+
+export interface FileContentOptions {
+  maxFileBytes?: number;
+  // Per-file limit for lockfiles, which only help when they are read whole
+  maxLockfileBytes?: number;
+  maxTotalBytes?: number;
+  ref?: string;
+}
+
+export interface FileContentSummary {
+  fetched: number;
+  skipped: Record<NonNullable<SecurityFile['contentSkipped']>, number>;
+  totalBytes: number;
+}
+
+// Bytes inspected when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+export class FileContentFetcher {
+  static readonly DEFAULT_MAX_FILE_BYTES = 100 * 1024;
+  // GitHub's contents API returns no content for files above 1 MB
+  static readonly DEFAULT_MAX_LOCKFILE_BYTES = 1024 * 1024;
+  static readonly DEFAULT_MAX_TOTAL_BYTES = 1024 * 1024;
+
+  private client: ToolCaller;
+  private owner: string;
+  private repo: string;
+  private maxFileBytes: number;
+  private maxLockfileBytes: number;
+  private maxTotalBytes: number;
+  private ref?: string;
+
+  constructor(client: ToolCaller, owner: string, repo: string, options: FileContentOptions = {}) {
+    this.client = client;
+    this.owner = owner;
+    this.repo = repo;
+    this.maxFileBytes = options.maxFileBytes ?? FileContentFetcher.DEFAULT_MAX_FILE_BYTES;
+    this.maxLockfileBytes = Math.max(options.maxLockfileBytes ?? FileContentFetcher.DEFAULT_MAX_LOCKFILE_BYTES, this.maxFileBytes);
+    this.maxTotalBytes = options.maxTotalBytes ?? FileContentFetcher.DEFAULT_MAX_TOTAL_BYTES;
+    this.ref = options.ref;
+  }
+
+  /**
+   * Fetch the contents of each file in priority order until the total budget is spent.
+   * Lockfiles are left out of the budget: they are parsed locally and a partial one matches nothing.
+   * Files that cannot be used keep no content and record why in contentSkipped.
+   */
+  async fetchAll(files: SecurityFile[]): Promise<SecurityFile[]> {
+    const results: SecurityFile[] = [];
+    let totalBytes = 0;
+
+    for (const file of files) {
+      const lockfile = LockfileParser.canParse(file.path);
+      if (!lockfile && totalBytes >= this.maxTotalBytes) {
+        results.push({ ...file, contentSkipped: 'budget-exceeded' });
+        continue;
+      }
+
+      const fetched = await this.fetchFile(file);
+      if (fetched.content !== undefined && !lockfile) {
+        const size = fetched.size ?? Buffer.byteLength(fetched.content, 'utf8');
+        if (totalBytes + size > this.maxTotalBytes) {
+          results.push({ ...file, size, contentSkipped: 'budget-exceeded' });
+          continue;
+        }
+        totalBytes += size;
+      }
+      results.push(fetched);
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch and decode a single file through the GitHub MCP get_file_contents tool
+   */
+  async fetchFile(file: SecurityFile): Promise<SecurityFile> {
+    let response: any;
+    try {
+      response = await this.client.callTool("get_file_contents", {
+        owner: this.owner,
+        repo: this.repo,
+        path: file.path,
+        ...(this.ref && { branch: this.ref })
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not fetch ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { ...file, contentSkipped: 'unavailable' };
+    }
+
+    const payload = FileContentFetcher.unwrap(response);
+    const maxBytes = LockfileParser.canParse(file.path) ? this.maxLockfileBytes : this.maxFileBytes;
+    const declaredSize = typeof payload?.size === 'number' ? payload.size : undefined;
+    if (declaredSize !== undefined && declaredSize > maxBytes) {
+      return { ...file, size: declaredSize, contentSkipped: 'too-large' };
+    }
+
+    const bytes = FileContentFetcher.decodeContent(payload);
+    if (!bytes) {
+      return { ...file, contentSkipped: 'unavailable' };
+    }
+    if (bytes.length > maxBytes) {
+      return { ...file, size: bytes.length, contentSkipped: 'too-large' };
+    }
+    if (FileContentFetcher.isBinary(bytes)) {
+      return { ...file, size: bytes.length, contentSkipped: 'binary' };
+    }
+
+    return { ...file, size: bytes.length, content: bytes.toString('utf8') };
+  }
+
+  /**
+   * Count fetched and skipped files for reporting
+   */
+  static summarize(files: SecurityFile[]): FileContentSummary {
+    const summary: FileContentSummary = {
+      fetched: 0,
+      skipped: { 'too-large': 0, binary: 0, unavailable: 0, 'budget-exceeded': 0 },
+      totalBytes: 0
+    };
+
+    for (const file of files) {
+      if (file.content !== undefined) {
+        summary.fetched++;
+        summary.totalBytes += file.size ?? 0;
+      } else if (file.contentSkipped) {
+        summary.skipped[file.contentSkipped]++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Copies of the files without their bodies, for anything returned to clients or stored
+   */
+  static withoutContent(files: SecurityFile[]): SecurityFile[] {
+    return files.map(({ content, ...file }) => file);
+  }
+
+  /**
+   * Heuristic binary check: NUL bytes or a high share of control characters near the start
+   */
+  static isBinary(bytes: Buffer): boolean {
+    const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+    if (sample.length === 0) return false;
+
+    let suspicious = 0;
+    for (const byte of sample) {
+      if (byte === 0) return true;
+      // Control characters other than tab, newline, form feed and carriage return
+      if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 12 && byte !== 13) suspicious++;
+    }
+    return suspicious / sample.length > 0.1;
+  }
+
+  /**
+   * Extract raw file bytes from the different shapes get_file_contents responds with
+   */
+  static decodeContent(payload: any): Buffer | null {
+    if (typeof payload === 'string') return Buffer.from(payload, 'utf8');
+    if (!payload || Array.isArray(payload) || (payload.type && payload.type !== 'file')) return null;
+    if (typeof payload.content !== 'string') return null;
+
+    if (payload.encoding === 'base64') {
+      return Buffer.from(payload.content.replace(/\s/g, ''), 'base64');
+    }
+    return Buffer.from(payload.content, 'utf8');
+  }
+
+  /**
+   * Unwrap the MCP tool result envelope (JSON text or embedded resource)
+   */
+  private static unwrap(result: any): any {
+    if (!result || !Array.isArray(result.content)) return result;
+    if (result.isError) return null;
+
+    const resource = result.content.find((c: any) => c?.type === 'resource')?.resource;
+    if (resource) {
+      if (typeof resource.text === 'string') return resource.text;
+      if (typeof resource.blob === 'string') return { type: 'file', encoding: 'base64', content: resource.blob };
+    }
+
+    const text = result.content.find((c: any) => c?.type === 'text')?.text;
+    if (typeof text !== 'string') return null;
+    try {
+      const parsed = JSON.parse(text);
+      // Only treat it as an API payload if it looks like one; a JSON file body is returned as-is
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && typeof parsed.content === 'string') {
+        return parsed;
+      }
+      return Array.isArray(parsed) ? parsed : text;
+    } catch (parseError) {
+      // Plain text responses are the file body itself
+      return text;
+    }
+  }
+}
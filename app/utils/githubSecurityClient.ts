@@ -1,16 +1,20 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { createSmitheryUrl } from "@smithery/sdk";
-import { OpenAI } from "openai";
-import { env } from "../config/env";
-import { SecurityFileFilter, SecurityFile } from "./securityFileFilter";
+import { FileFilterOptions, FilePatternConfig, REPOSITORY_CONFIG_FILE, SecurityFileFilter, SecurityFile } from "./securityFileFilter";
 import { AnalysisChunker } from './analysisChunker';
-import { StreamingAnalyzer } from './streamingAnalyzer';
-
-const geminiClient = new OpenAI({ 
-  apiKey: env.GOOGLE_API_KEY,
-  baseURL: "https://generativelanguage.googleapis.com/v1beta/openai/"
-});
+import { AggregatedAnalysis, StreamingAnalyzer, StreamingCallbacks } from './streamingAnalyzer';
+import { ChunkFinding } from './chunkProcessor';
+import { SarifExporter } from './sarifExporter';
+import { isAbortError, mapWithConcurrency, throwIfAborted, withTimeout } from './concurrency';
+import { AIProvider, completeWithBackoff, getAIProvider, getContextWindow } from './aiProvider';
+import { AIAnalysis, CriticalFinding, createEmptyAIAnalysis, validateAIAnalysis } from './aiAnalysisSchema';
+import { FileContentFetcher } from './fileContentFetcher';
+import { OsvDatabase, loadOsvDatabase } from './osvDatabase';
+import { RulePack, RulePackLoader, loadRulePacks } from './rulePackLoader';
+import { LockfileParser } from './lockfileParser';
+import { SbomFormat, SbomGenerator } from './sbomGenerator';
+import { env } from '../config/env';
 
 export class GitHubSecurityClient {
   private client: Client | null = null;
@@ -18,11 +22,14 @@ export class GitHubSecurityClient {
   private serverUrl: string;
   private apiKey: string;
   private profile: string;
+  // Cancels every tool call made through this client
+  private signal?: AbortSignal;
 
-  constructor(serverUrl: string, apiKey: string, profile: string) {
+  constructor(serverUrl: string, apiKey: string, profile: string, signal?: AbortSignal) {
     this.serverUrl = serverUrl;
     this.apiKey = apiKey;
     this.profile = profile;
+    this.signal = signal;
   }
 
   async connect(): Promise<void> {
@@ -47,6 +54,16 @@ export class GitHubSecurityClient {
     }
   }
 
+  /**
+   * Client sharing this connection whose tool calls are cancelled by the given signal instead
+   */
+  withSignal(signal: AbortSignal): GitHubSecurityClient {
+    const scoped = new GitHubSecurityClient(this.serverUrl, this.apiKey, this.profile, signal);
+    scoped.client = this.client;
+    scoped.transport = this.transport;
+    return scoped;
+  }
+
   async disconnect(): Promise<void> {
     if (this.client) {
       this.client.close();
@@ -66,7 +83,8 @@ export class GitHubSecurityClient {
     if (!this.client) {
       throw new Error("Client not connected. Call connect() first.");
     }
-    return await this.client.callTool({ name: toolName, arguments: arguments_ });
+    throwIfAborted(this.signal);
+    return await this.client.callTool({ name: toolName, arguments: arguments_ }, undefined, { signal: this.signal });
   }
 
   async listResources(): Promise<any> {
@@ -95,17 +113,163 @@ export class GitHubSecurityClient {
   }
 }
 
+export type AnalysisTimeframe = 'day' | 'week' | 'month' | 'all';
+
+// Upper bound on commits inspected for changed files, each costs one get_commit call
+const MAX_COMMITS_FOR_CHANGED_FILES = 100;
+// get_commit calls made at the same time
+const COMMIT_LOOKUP_CONCURRENCY = 5;
+// Commits listed per list_commits page, and pages read before giving up on older commits
+const COMMITS_PER_PAGE = 100;
+const MAX_COMMIT_PAGES = 5;
+
+/**
+ * Get the start of the analysis window, or null when the whole history should be analyzed
+ */
+export function getTimeframeStart(timeframe: AnalysisTimeframe, now: Date = new Date()): Date | null {
+  const dayMs = 24 * 60 * 60 * 1000;
+  switch (timeframe) {
+    case 'day': return new Date(now.getTime() - dayMs);
+    case 'week': return new Date(now.getTime() - 7 * dayMs);
+    case 'month': return new Date(now.getTime() - 30 * dayMs);
+    default: return null;
+  }
+}
+
+/**
+ * Unwrap an MCP tool result, parsing the JSON text content the GitHub server responds with
+ */
+function parseToolResult(result: any): any {
+  if (!result || !Array.isArray(result.content)) return result;
+  const text = result.content.find((c: any) => c?.type === 'text')?.text;
+  if (typeof text !== 'string') return result;
+  try {
+    return JSON.parse(text);
+  } catch (parseError) {
+    return text;
+  }
+}
+
+/**
+ * Collect commits made since the given date and the files they touched that still exist.
+ * `inspected` is the number of commits whose files were looked up, the newest ones first.
+ */
+async function collectRecentChanges(
+  client: GitHubSecurityClient,
+  owner: string,
+  repo: string,
+  since: Date
+): Promise<{ commits: any[]; changedFiles: Set<string>; inspected: number }> {
+  const isRecent = (commit: any) => {
+    const date = commit?.commit?.committer?.date || commit?.commit?.author?.date;
+    return date && new Date(date) >= since;
+  };
+
+  // Commits come newest first, so stop at the first page that reaches past the window
+  const commits: any[] = [];
+  for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+    const listed = parseToolResult(await client.callTool("list_commits", {
+      owner, repo, since: since.toISOString(), page, perPage: COMMITS_PER_PAGE
+    }));
+    const pageCommits = Array.isArray(listed) ? listed : [];
+    const recent = pageCommits.filter(isRecent);
+    commits.push(...recent);
+    if (pageCommits.length < COMMITS_PER_PAGE || recent.length < pageCommits.length) break;
+  }
+
+  const inspected = commits.slice(0, MAX_COMMITS_FOR_CHANGED_FILES);
+  const details = await mapWithConcurrency(inspected, COMMIT_LOOKUP_CONCURRENCY, async commit =>
+    parseToolResult(await client.callTool("get_commit", { owner, repo, sha: commit.sha }))
+  );
+
+  const changedFiles = new Set<string>();
+  for (const commit of details) {
+    for (const file of commit?.files || []) {
+      // Deleted files cannot be fetched or scanned
+      if (file?.filename && file.status !== 'removed') changedFiles.add(file.filename);
+    }
+  }
+
+  return { commits, changedFiles, inspected: inspected.length };
+}
+
+// Workflows searched for in addition to dependency files when looking for vulnerabilities
+const MAX_WORKFLOW_FILES = 20;
+
+// File names searched for when looking for secrets; qualifiers without OR would all have to match
+const SECRET_FILE_SEARCH_TERMS = ['filename:.env', 'filename:secrets', 'filename:credentials', 'filename:keys'];
+
+// Dangerous sinks covered by the code pattern rules; the search only finds candidates, the rules decide
+const CODE_PATTERN_SEARCH_TERMS = [
+  'SELECT', 'exec', 'system', 'subprocess', 'Runtime', 'pickle', 'unserialize', 'ObjectInputStream',
+  'Marshal', 'md5', 'sha1', 'ECB', 'rejectUnauthorized', 'verify=False', 'InsecureSkipVerify',
+  'VERIFY_NONE', 'CURLOPT_SSL_VERIFYPEER', 'dangerouslySetInnerHTML'
+];
+
+// GitHub code search rejects queries with more than five AND/OR/NOT operators
+const MAX_SEARCH_TERMS_PER_QUERY = 5;
+
+/**
+ * Search the repository's code for any of the terms, split into queries GitHub accepts, merging the items by path
+ */
+async function searchCodeForAny(
+  client: GitHubSecurityClient,
+  owner: string,
+  repo: string,
+  terms: string[],
+  perPage: number
+): Promise<{ items: any[] }> {
+  const items = new Map<string, any>();
+  for (let i = 0; i < terms.length; i += MAX_SEARCH_TERMS_PER_QUERY) {
+    const batch = terms.slice(i, i + MAX_SEARCH_TERMS_PER_QUERY);
+    const response = parseToolResult(await client.callTool("search_code", {
+      q: `repo:${owner}/${repo} ${batch.join(' OR ')}`,
+      per_page: perPage
+    }));
+    for (const item of response?.items || []) {
+      if (item?.path && !items.has(item.path)) items.set(item.path, item);
+    }
+  }
+  return { items: [...items.values()] };
+}
+
+/**
+ * Read file pattern overrides from the repository's .daily-dev-mcp.yml, if it has one
+ */
+async function loadRepositoryFilterConfig(
+  client: GitHubSecurityClient,
+  owner: string,
+  repo: string
+): Promise<FilePatternConfig | null> {
+  const fetcher = new FileContentFetcher(client, owner, repo);
+  const file = await fetcher.fetchFile({
+    path: REPOSITORY_CONFIG_FILE,
+    type: 'config',
+    priority: 'high',
+    reason: 'Repository scan configuration'
+  });
+  return file.content === undefined ? null : SecurityFileFilter.parseRepositoryConfig(file.content);
+}
+
 // New function for targeted data collection using SecurityFileFilter
 async function collectTargetedSecurityData(
   client: GitHubSecurityClient,
   owner: string,
   repo: string,
-  analysisType: 'secrets' | 'vulnerabilities' | 'dependencies' | 'code-patterns'
+  analysisType: 'secrets' | 'vulnerabilities' | 'dependencies' | 'code-patterns',
+  timeframe: AnalysisTimeframe = 'all',
+  fetchContents: boolean = true
 ): Promise<any> {
+  const since = getTimeframeStart(timeframe);
   const results: {
     repository: string;
     analysis_type: string;
     scan_date: string;
+    timeframe: AnalysisTimeframe;
+    since: string | null;
+    // Whether the scan covers the files changed within the timeframe or the whole repository
+    scope: 'changed_files' | 'repository';
+    scope_note?: string;
     targeted_files: SecurityFile[];
     findings: Array<{
       type: string;
@@ -117,6 +281,9 @@ async function collectTargetedSecurityData(
     repository: `${owner}/${repo}`,
     analysis_type: analysisType,
     scan_date: new Date().toISOString(),
+    timeframe,
+    since: since ? since.toISOString() : null,
+    scope: since ? 'changed_files' : 'repository',
     targeted_files: [],
     findings: []
   };
@@ -135,25 +302,76 @@ async function collectTargetedSecurityData(
 
     // Step 2: Get file listing (this would need to be implemented based on available GitHub API tools)
     // For now, we'll use targeted searches based on analysis type
-    const filterOptions = SecurityFileFilter.getAnalysisFilters(analysisType);
+    const filterOptions: FileFilterOptions = SecurityFileFilter.getAnalysisFilters(analysisType);
+
+    // Repositories can adjust which files are scanned with a .daily-dev-mcp.yml
+    if (fetchContents) {
+      try {
+        const patterns = await loadRepositoryFilterConfig(client, owner, repo);
+        if (patterns) {
+          filterOptions.patterns = patterns;
+          results.findings.push({
+            type: "REPOSITORY_CONFIG",
+            data: patterns,
+            description: `File patterns from ${REPOSITORY_CONFIG_FILE}`
+          });
+        }
+      } catch (error) {
+        console.warn(`⚠️ Ignoring invalid ${REPOSITORY_CONFIG_FILE} in ${owner}/${repo}:`, error instanceof Error ? error.message : 'Unknown error');
+        results.findings.push({
+          type: "REPOSITORY_CONFIG_ERROR",
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    // Restrict the analysis to commits and files changed within the timeframe
+    let changedFiles: Set<string> | null = null;
+    if (since) {
+      try {
+        const recentChanges = await collectRecentChanges(client, owner, repo, since);
+        changedFiles = recentChanges.changedFiles;
+        results.findings.push({
+          type: "RECENT_COMMITS",
+          data: recentChanges.commits,
+          description: `${recentChanges.commits.length} commits since ${since.toISOString()}`
+        });
+        // Commits beyond the lookup limit are left out, which the result should say
+        const inspectedCommits = recentChanges.inspected < recentChanges.commits.length
+          ? ` in the latest ${recentChanges.inspected} of ${recentChanges.commits.length} commits`
+          : '';
+        results.findings.push({
+          type: "RECENT_CHANGED_FILES",
+          data: [...recentChanges.changedFiles],
+          description: `${recentChanges.changedFiles.size} files changed since ${since.toISOString()}${inspectedCommits}`
+        });
+        if (inspectedCommits) {
+          results.scope_note = `Only files changed${inspectedCommits} since ${since.toISOString()} were analyzed`;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results.scope = 'repository';
+        results.scope_note = `Changes since ${since.toISOString()} could not be listed (${message}), so the whole repository was analyzed`;
+        results.findings.push({
+          type: "RECENT_CHANGES_ERROR",
+          error: message
+        });
+      }
+    }
+    const issueWindow = since ? ` updated:>=${since.toISOString().slice(0, 10)}` : '';
     
     // Step 3: Perform targeted searches based on analysis type
     switch (analysisType) {
       case 'secrets':
         // Search for secret-related files specifically
         try {
-          const secretFiles = await client.callTool("search_code", {
-            q: `repo:${owner}/${repo} filename:.env filename:secrets filename:credentials filename:keys`,
-            per_page: filterOptions.maxFiles || 20
-          });
+          const secretFiles = await searchCodeForAny(
+            client, owner, repo, SECRET_FILE_SEARCH_TERMS, filterOptions.maxFiles || 20
+          );
           
           // Filter the results to only include security-relevant files
-          let securityFiles: SecurityFile[] = [];
-          if (secretFiles.items) {
-            const filePaths = secretFiles.items.map((item: any) => item.path);
-            securityFiles = SecurityFileFilter.filterFiles(filePaths, filterOptions);
-            results.targeted_files = securityFiles;
-          }
+          const securityFiles = SecurityFileFilter.filterFiles(secretFiles.items.map((item: any) => item.path), filterOptions);
+          results.targeted_files = securityFiles;
           
           results.findings.push({
             type: "TARGETED_SECRET_SEARCH",
@@ -173,22 +391,26 @@ async function collectTargetedSecurityData(
         try {
           // Get security issues
           const securityIssues = await client.callTool("search_issues", {
-            q: `repo:${owner}/${repo} security vulnerability CVE`,
+            q: `repo:${owner}/${repo} security vulnerability CVE${issueWindow}`,
             per_page: 10
           });
           
-          // Get dependency files
-          const dependencyFiles = await client.callTool("search_code", {
-            q: `repo:${owner}/${repo} filename:package.json filename:requirements.txt filename:pom.xml`,
-            per_page: filterOptions.maxFiles || 15
-          });
+          // Get manifests and lockfiles anywhere in the repository
+          const dependencyPaths = await discoverDependencyFiles(client, owner, repo, DEPENDENCY_ANALYSIS_FILES);
           
-          let securityFiles: SecurityFile[] = [];
-          if (dependencyFiles.items) {
-            const filePaths = dependencyFiles.items.map((item: any) => item.path);
-            securityFiles = SecurityFileFilter.filterFiles(filePaths, filterOptions);
-            results.targeted_files = securityFiles;
+          // CI workflows are part of the supply chain
+          const workflowFiles = parseToolResult(await client.callTool("search_code", {
+            q: `repo:${owner}/${repo} path:.github/workflows`,
+            per_page: MAX_WORKFLOW_FILES
+          }));
+          
+          const securityFiles = SecurityFileFilter.filterFiles(dependencyPaths, { ...filterOptions, includeWorkflowFiles: false });
+          if (workflowFiles?.items) {
+            const workflowPaths = workflowFiles.items.map((item: any) => item.path);
+            securityFiles.push(...SecurityFileFilter.filterFiles(workflowPaths, { ...filterOptions, maxFiles: MAX_WORKFLOW_FILES })
+              .filter(file => file.type === 'workflow'));
           }
+          results.targeted_files = securityFiles;
           
           results.findings.push({
             type: "SECURITY_ISSUES",
@@ -198,8 +420,14 @@ async function collectTargetedSecurityData(
           
           results.findings.push({
             type: "TARGETED_DEPENDENCY_SEARCH",
-            data: dependencyFiles,
-            description: `Targeted search for ${securityFiles.length} dependency files`
+            data: dependencyPaths,
+            description: `Targeted search for ${securityFiles.filter(file => file.type !== 'workflow').length} dependency files`
+          });
+
+          results.findings.push({
+            type: "TARGETED_WORKFLOW_SEARCH",
+            data: workflowFiles,
+            description: `Targeted search for ${securityFiles.filter(file => file.type === 'workflow').length} GitHub Actions workflows`
           });
         } catch (error) {
           results.findings.push({
@@ -212,21 +440,13 @@ async function collectTargetedSecurityData(
       case 'dependencies':
         // Focus on dependency files
         try {
-          const dependencyFiles = await client.callTool("search_code", {
-            q: `repo:${owner}/${repo} filename:package.json filename:requirements.txt filename:pom.xml filename:Gemfile filename:Cargo.toml`,
-            per_page: filterOptions.maxFiles || 10
-          });
-          
-          let securityFiles: SecurityFile[] = [];
-          if (dependencyFiles.items) {
-            const filePaths = dependencyFiles.items.map((item: any) => item.path);
-            securityFiles = SecurityFileFilter.filterFiles(filePaths, filterOptions);
-            results.targeted_files = securityFiles;
-          }
+          const dependencyPaths = await discoverDependencyFiles(client, owner, repo, DEPENDENCY_ANALYSIS_FILES);
+          const securityFiles = SecurityFileFilter.filterFiles(dependencyPaths, filterOptions);
+          results.targeted_files = securityFiles;
           
           results.findings.push({
             type: "TARGETED_DEPENDENCY_SEARCH",
-            data: dependencyFiles,
+            data: dependencyPaths,
             description: `Targeted search for ${securityFiles.length} dependency files`
           });
         } catch (error) {
@@ -238,19 +458,14 @@ async function collectTargetedSecurityData(
         break;
 
       case 'code-patterns':
-        // Search for security-relevant code patterns in targeted files
+        // Search for source files using dangerous sinks; the rule engine checks their contents
         try {
-          const codePatterns = await client.callTool("search_code", {
-            q: `repo:${owner}/${repo} "SQL injection" "eval(" "exec(" "dangerous" filename:config filename:security`,
-            per_page: filterOptions.maxFiles || 25
-          });
+          const codePatterns = await searchCodeForAny(
+            client, owner, repo, CODE_PATTERN_SEARCH_TERMS.map(term => `"${term}"`), filterOptions.maxFiles || 25
+          );
           
-          let securityFiles: SecurityFile[] = [];
-          if (codePatterns.items) {
-            const filePaths = codePatterns.items.map((item: any) => item.path);
-            securityFiles = SecurityFileFilter.filterFiles(filePaths, filterOptions);
-            results.targeted_files = securityFiles;
-          }
+          const securityFiles = SecurityFileFilter.filterFiles(codePatterns.items.map((item: any) => item.path), filterOptions);
+          results.targeted_files = securityFiles;
           
           results.findings.push({
             type: "TARGETED_CODE_PATTERNS",
@@ -266,6 +481,33 @@ async function collectTargetedSecurityData(
         break;
     }
 
+    // Only keep files changed in the window, including ones the searches did not surface
+    if (changedFiles) {
+      results.targeted_files = SecurityFileFilter.filterFiles([...changedFiles], filterOptions);
+    }
+
+    // Step 4: Fetch the bodies of the targeted files so analysis is based on real code
+    if (fetchContents && results.targeted_files.length > 0) {
+      const fetcher = new FileContentFetcher(client, owner, repo);
+      results.targeted_files = await fetcher.fetchAll(results.targeted_files);
+      const contentSummary = FileContentFetcher.summarize(results.targeted_files);
+      results.findings.push({
+        type: "FILE_CONTENTS",
+        data: contentSummary,
+        description: `Fetched contents of ${contentSummary.fetched}/${results.targeted_files.length} targeted files`
+      });
+
+      // Without their contents these lockfiles add no packages to the inventory or to OSV matching
+      const unreadLockfiles = results.targeted_files.filter(file => file.contentSkipped && LockfileParser.canParse(file.path));
+      if (unreadLockfiles.length > 0) {
+        results.findings.push({
+          type: "LOCKFILES_NOT_FETCHED",
+          data: unreadLockfiles.map(file => ({ path: file.path, size: file.size, reason: file.contentSkipped })),
+          description: `${unreadLockfiles.length} lockfiles could not be read, so their dependencies were not checked for known vulnerabilities`
+        });
+      }
+    }
+
     console.log(`✅ Targeted data collection completed. Found ${results.targeted_files.length} security-relevant files.`);
     return results;
   } catch (error) {
@@ -295,11 +537,48 @@ export async function callGitHubTool(
   }
 }
 
-// AI-powered security analysis using Gemini
+// Number of times an invalid AI response is sent back to the model for correction
+const MAX_AI_REPAIR_ATTEMPTS = 2;
+
+// Chunks sent to the AI provider at once unless AI_MAX_CONCURRENCY says otherwise
+const DEFAULT_AI_CONCURRENCY = 3;
+
+/**
+ * Build a follow-up prompt asking the model to fix a response that failed validation
+ */
+function buildRepairPrompt(originalPrompt: string, previousResponse: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous response did not match the required JSON structure.
+
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${previousResponse}
+
+Return the corrected JSON object only.`;
+}
+
+/**
+ * Analysis input with the file bodies removed, so raw secrets are never returned or persisted
+ */
+function withoutFileContents(data: any): any {
+  if (!data || typeof data !== 'object') return data;
+  return {
+    ...data,
+    ...(Array.isArray(data.targeted_files) && { targeted_files: FileContentFetcher.withoutContent(data.targeted_files) }),
+    ...(Array.isArray(data.files) && { files: FileContentFetcher.withoutContent(data.files) })
+  };
+}
+
+// AI-powered security analysis using the configured AI provider
 export async function analyzeSecurityWithAI(
   githubData: any,
   analysisType: string,
-  repository: string
+  repository: string,
+  provider?: AIProvider,
+  signal?: AbortSignal
 ): Promise<any> {
   const securityExpertPrompt = `You are a Senior Security Software Engineer with 15+ years of experience in application security, vulnerability assessment, and secure code review. You specialize in identifying security vulnerabilities, code weaknesses, and potential attack vectors in software projects.
 
@@ -314,6 +593,8 @@ Your expertise includes:
 - Security misconfigurations
 
 Analyze the following GitHub repository data for security vulnerabilities and provide a comprehensive security assessment.
+Files that include a "content" field contain the actual file body; base your findings on that code and include the file path and line number in each finding's location.
+Files that include a "part" field hold only lines part.startLine to part.endLine of a larger file; number lines from part.startLine.
 
 Repository: ${repository}
 Analysis Type: ${analysisType}
@@ -367,59 +648,139 @@ IMPORTANT: If no security issues are found, return empty arrays for findings. Do
   }
 }`;
 
+  let aiProvider: AIProvider | undefined = provider;
   try {
-    const response = await geminiClient.chat.completions.create({
-      model: "gemini-2.0-flash",
-      messages: [
-        {
-          role: "user",
-          content: securityExpertPrompt
-        }
-      ],
-      temperature: 0.1,
-      max_tokens: 2000,
-      response_format: { type: "json_object" }
-    });
+    aiProvider = aiProvider || getAIProvider();
 
-    const aiResponse = response.choices[0]?.message?.content || "{}";
-    
-    // Parse the JSON response from Gemini (guaranteed to be valid JSON)
-    let parsedAnalysis;
-    try {
-      parsedAnalysis = JSON.parse(aiResponse);
-    } catch (parseError) {
-      console.error('Unexpected error parsing JSON response:', parseError);
-      parsedAnalysis = {
-        error: "Failed to parse AI response",
-        raw_response: aiResponse
-      };
+    let prompt = securityExpertPrompt;
+    let aiResponse = "";
+    let validationErrors: string[] = [];
+    let analysis: AIAnalysis | null = null;
+    let tokensUsed = 0;
+    let attempts = 0;
+    let model = aiProvider.model;
+
+    // Re-prompt with the validation errors until the response matches the schema
+    while (attempts <= MAX_AI_REPAIR_ATTEMPTS) {
+      attempts++;
+      const completion = await completeWithBackoff(aiProvider, {
+        prompt,
+        temperature: 0.1,
+        maxTokens: 2000,
+        jsonMode: true,
+        signal
+      });
+      tokensUsed += completion.tokensUsed || 0;
+      model = completion.model;
+
+      // Some providers wrap JSON in a markdown code fence despite the instructions
+      aiResponse = completion.content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') || "{}";
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(aiResponse);
+      } catch (parseError) {
+        validationErrors = [`Response is not valid JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`];
+        prompt = buildRepairPrompt(securityExpertPrompt, aiResponse, validationErrors);
+        continue;
+      }
+
+      const validation = validateAIAnalysis(parsed);
+      if (validation.success) {
+        analysis = validation.data;
+        validationErrors = [];
+        break;
+      }
+
+      validationErrors = validation.errors;
+      console.warn(`⚠️ AI response failed validation (attempt ${attempts}): ${validationErrors.join('; ')}`);
+      prompt = buildRepairPrompt(securityExpertPrompt, aiResponse, validationErrors);
     }
     
     return {
-      ai_analysis: parsedAnalysis,
-      model_used: "gemini-2.0-flash",
+      ai_analysis: analysis || createEmptyAIAnalysis(),
+      validation: {
+        valid: analysis !== null,
+        attempts,
+        errors: validationErrors
+      },
+      ...(analysis === null && { raw_response: aiResponse }),
+      model_used: model,
+      provider: aiProvider.name,
+      tokens_used: tokensUsed,
       analysis_timestamp: new Date().toISOString(),
-      original_data: githubData
+      original_data: withoutFileContents(githubData)
     };
   } catch (error) {
+    // Cancellation is not an analysis failure, callers stop on it
+    if (isAbortError(error, signal)) throw error;
     console.error('Error performing AI security analysis:', error);
     return {
       ai_analysis: `Error performing AI analysis: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      model_used: "gemini-2.0-flash",
+      model_used: aiProvider?.model || null,
+      provider: aiProvider?.name || null,
       analysis_timestamp: new Date().toISOString(),
-      original_data: githubData
+      original_data: withoutFileContents(githubData)
     };
   }
 }
 
+// Analysis types that match dependencies against the offline advisory snapshot
+const VULNERABILITY_MATCHING_TYPES = ['vulnerabilities', 'dependencies'];
+
+/**
+ * Load the OSV snapshot configured by OSV_DATABASE_PATH; scans continue without it on failure
+ */
+async function getVulnerabilityDatabase(analysisType: string): Promise<OsvDatabase | null> {
+  if (!env.OSV_DATABASE_PATH || !VULNERABILITY_MATCHING_TYPES.includes(analysisType)) {
+    return null;
+  }
+
+  try {
+    return await loadOsvDatabase(env.OSV_DATABASE_PATH);
+  } catch (error) {
+    console.warn(`⚠️ Could not load OSV database from ${env.OSV_DATABASE_PATH}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+}
+
+/**
+ * Rule packs from RULE_PACKS_PATH followed by packs sent with the request.
+ * A broken configured pack only logs a warning, but an invalid request pack fails the scan.
+ */
+async function getRulePacks(inlinePacks: string[] = []): Promise<RulePack[]> {
+  const requestPacks = inlinePacks.map((content, index) => RulePackLoader.parse(content, `rulePacks[${index}]`));
+  if (!env.RULE_PACKS_PATH) {
+    return requestPacks;
+  }
+
+  try {
+    return [...await loadRulePacks(env.RULE_PACKS_PATH), ...requestPacks];
+  } catch (error) {
+    console.warn(`⚠️ Could not load rule packs from ${env.RULE_PACKS_PATH}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return requestPacks;
+  }
+}
+
+export interface ChunkedAnalysisOptions {
+  // Notified as chunks are analyzed
+  progress?: StreamingCallbacks;
+  // Stops starting new chunks and aborts AI requests in flight
+  signal?: AbortSignal;
+}
+
 /**
  * Analyze security with AI using chunked processing for better efficiency
  */
 export async function analyzeSecurityWithAIChunked(
   githubData: any,
   analysisType: string,
-  repository: string
+  repository: string,
+  provider?: AIProvider,
+  rulePacks: RulePack[] = [],
+  options: ChunkedAnalysisOptions = {}
 ): Promise<any> {
+  const { progress: callbacks = {}, signal } = options;
   console.log(`🔧 Starting chunked AI analysis for ${repository}...`);
   
   // Extract targeted files from the GitHub data
@@ -427,37 +788,69 @@ export async function analyzeSecurityWithAIChunked(
   
   if (targetedFiles.length === 0) {
     console.log(`📝 No targeted files found for ${repository}, using basic AI analysis`);
-    return await analyzeSecurityWithAI(githubData, analysisType, repository);
+    return await analyzeSecurityWithAI(githubData, analysisType, repository, provider, signal);
   }
   
-  // Create chunks from the targeted files
+  // Create chunks from the targeted files; files too large for any chunk are reported instead of failing the analysis
   const chunker = new AnalysisChunker();
-  const chunks = chunker.chunkByType(targetedFiles);
+  const unanalyzedFiles: ChunkFinding[] = [];
+  const chunks = chunker.chunkByBudget(targetedFiles, {
+    contextWindow: getContextWindow(provider),
+    onOversizedFile: (file, error) => {
+      console.warn(`⚠️ Skipping ${file.path} in ${repository}: ${error.message}`);
+      unanalyzedFiles.push({
+        type: 'security',
+        severity: 'info',
+        title: `${file.path} was not analyzed`,
+        description: error.message.replace(/^❌ /, ''),
+        filePath: file.path,
+        recommendation: 'Review this file manually or configure a model with a larger AI_CONTEXT_WINDOW',
+        ruleId: 'unanalyzed-file'
+      });
+    }
+  });
   
   console.log(`📦 Created ${chunks.length} chunks: ${chunker.getChunkSummary(chunks)}`);
   
-  if (chunks.length === 0) {
+  if (chunks.length === 0 && unanalyzedFiles.length === 0) {
     console.log(`📝 No chunks created for ${repository}, using basic AI analysis`);
-    return await analyzeSecurityWithAI(githubData, analysisType, repository);
+    return await analyzeSecurityWithAI(githubData, analysisType, repository, provider, signal);
   }
   
-  // Create streaming analyzer with console callbacks
+  const concurrency = env.AI_MAX_CONCURRENCY || DEFAULT_AI_CONCURRENCY;
+
+  // Create streaming analyzer with console callbacks, followed by the caller's
+  const consoleProgress = StreamingAnalyzer.createConsoleProgressCallback();
+  const consoleChunk = StreamingAnalyzer.createConsoleChunkCallback();
   const streamingAnalyzer = new StreamingAnalyzer(analysisType, repository, {
-    onProgress: StreamingAnalyzer.createConsoleProgressCallback(),
-    onChunkComplete: StreamingAnalyzer.createConsoleChunkCallback()
+    onProgress: progress => {
+      consoleProgress(progress);
+      callbacks.onProgress?.(progress);
+    },
+    onChunkComplete: result => {
+      consoleChunk(result);
+      callbacks.onChunkComplete?.(result);
+    },
+    maxConcurrentChunks: concurrency,
+    signal,
+    vulnerabilityDatabase: await getVulnerabilityDatabase(analysisType),
+    rulePacks,
+    dependencyInventory: LockfileParser.buildInventory(targetedFiles.filter((file: SecurityFile) => file.type === 'dependency'))
   });
   
   // Process chunks with streaming analysis
-  const aggregatedResults = await streamingAnalyzer.processChunks(chunks);
+  const aggregatedResults = recordUnanalyzedFiles(await streamingAnalyzer.processChunks(chunks), unanalyzedFiles, analysisType);
+  // Failed chunks have no result, so pair results with chunks by id rather than position
+  const processingStats = (chunkId: string) => aggregatedResults.chunkResults.find(result => result.chunkId === chunkId);
   
-  // Now perform AI analysis on each chunk individually
-  const chunkAIResults = [];
-  let totalTokensUsed = 0;
+  // Now perform AI analysis on each chunk individually, several at a time
+  console.log(`🤖 Performing AI analysis on ${chunks.length} chunks (${concurrency} at a time)...`);
   
-  console.log(`🤖 Performing AI analysis on ${chunks.length} chunks...`);
-  
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
+  let aiChunksCompleted = 0;
+  const reportAIChunk = (chunkType: string, failed: boolean) =>
+    callbacks.onAIChunkComplete?.({ chunkType, completed: ++aiChunksCompleted, total: chunks.length, failed });
+
+  const pooled = await mapWithConcurrency(chunks, concurrency, async (chunk, i) => {
     console.log(`🧠 Analyzing chunk ${i + 1}/${chunks.length}: ${chunk.type}`);
     
     try {
@@ -475,32 +868,40 @@ export async function analyzeSecurityWithAIChunked(
       const chunkAIResult = await analyzeSecurityWithAI(
         chunkData, 
         analysisType, 
-        `${repository} (${chunk.type} chunk)`
+        `${repository} (${chunk.type} chunk)`,
+        provider,
+        signal
       );
       
-      chunkAIResults.push({
+      console.log(`✅ AI analysis completed for ${chunk.type} chunk`);
+      reportAIChunk(chunk.type, false);
+      
+      return {
         chunk_id: chunk.id,
         chunk_type: chunk.type,
         chunk_priority: chunk.priority,
         ai_analysis: chunkAIResult,
-        processing_stats: aggregatedResults.chunkResults[i]
-      });
-      
-      totalTokensUsed += chunkAIResult.tokens_used || 0;
-      
-      console.log(`✅ AI analysis completed for ${chunk.type} chunk`);
+        processing_stats: processingStats(chunk.id)
+      };
       
     } catch (error) {
+      // A cancelled chunk is left out like the chunks that were never started
+      if (isAbortError(error, signal)) return undefined;
       console.error(`❌ AI analysis failed for ${chunk.type} chunk:`, error);
-      chunkAIResults.push({
+      reportAIChunk(chunk.type, true);
+      return {
         chunk_id: chunk.id,
         chunk_type: chunk.type,
         chunk_priority: chunk.priority,
         ai_analysis: { error: `AI analysis failed: ${error}` },
-        processing_stats: aggregatedResults.chunkResults[i]
-      });
+        processing_stats: processingStats(chunk.id)
+      };
     }
-  }
+  }, () => !signal?.aborted);
+  
+  // Results keep chunk order whichever request finished first
+  const chunkAIResults = pooled.filter(result => result !== undefined);
+  const totalTokensUsed = chunkAIResults.reduce((total, result) => total + (result.ai_analysis.tokens_used || 0), 0);
   
   // Aggregate AI results into a comprehensive analysis
   const aggregatedAI = aggregateChunkAIResults(chunkAIResults, repository, analysisType);
@@ -516,11 +917,48 @@ export async function analyzeSecurityWithAIChunked(
       failed_chunks: aggregatedResults.failedChunks,
       chunk_results: chunkAIResults,
       streaming_results: aggregatedResults,
-      total_tokens_used: totalTokensUsed
+      total_tokens_used: totalTokensUsed,
+      // Cancelled scans only include the chunks analyzed before the cancellation
+      cancelled: Boolean(signal?.aborted)
+    },
+    validation: {
+      valid: chunkAIResults.every(r => r.ai_analysis?.validation?.valid),
+      errors: chunkAIResults.flatMap(r =>
+        (r.ai_analysis?.validation?.errors || []).map((error: string) => `${r.chunk_type}: ${error}`)
+      )
     },
-    model_used: "gemini-2.0-flash",
+    model_used: chunkAIResults.find(r => r.ai_analysis?.model_used)?.ai_analysis.model_used || null,
     analysis_timestamp: new Date().toISOString(),
-    original_data: githubData
+    original_data: withoutFileContents(githubData)
+  };
+}
+
+/**
+ * Add the findings for files left out of every chunk to the streaming results, as a result of their own
+ */
+function recordUnanalyzedFiles(results: AggregatedAnalysis, findings: ChunkFinding[], analysisType: string): AggregatedAnalysis {
+  if (findings.length === 0) return results;
+  return {
+    ...results,
+    totalFindings: results.totalFindings + findings.length,
+    infoFindings: results.infoFindings + findings.length,
+    chunkResults: [...results.chunkResults, {
+      chunkId: 'unanalyzed-files',
+      chunkType: 'unanalyzed',
+      analysisType,
+      findings,
+      summary: {
+        totalFindings: findings.length,
+        criticalFindings: 0,
+        highFindings: 0,
+        mediumFindings: 0,
+        lowFindings: 0,
+        infoFindings: findings.length,
+        overallRisk: 'safe'
+      },
+      processingTime: 0,
+      tokensUsed: 0
+    }]
   };
 }
 
@@ -531,26 +969,29 @@ function aggregateChunkAIResults(
   chunkAIResults: any[], 
   repository: string, 
   analysisType: string
-): any {
-  const allFindings = [];
-  const allRecommendations = [];
-  const allRiskFactors = [];
+): AIAnalysis {
+  const allFindings: CriticalFinding[] = [];
+  const allVulnerabilities: AIAnalysis['vulnerability_assessment'] = [];
+  const allRecommendations: AIAnalysis['recommendations'] = [];
+  const allRiskFactors: string[] = [];
   let totalScore = 0;
   let validScores = 0;
   
   // Collect all findings and recommendations from chunks
   for (const chunkResult of chunkAIResults) {
-    const aiAnalysis = chunkResult.ai_analysis?.ai_analysis;
-    if (!aiAnalysis) continue;
+    // Skip chunks whose AI response failed or never validated
+    if (!chunkResult.ai_analysis?.validation?.valid) continue;
+    const aiAnalysis: AIAnalysis = chunkResult.ai_analysis.ai_analysis;
     
     // Aggregate critical findings
-    if (aiAnalysis.critical_findings) {
-      allFindings.push(...aiAnalysis.critical_findings.map((f: any) => ({
-        ...f,
-        chunk_type: chunkResult.chunk_type,
-        chunk_priority: chunkResult.chunk_priority
-      })));
-    }
+    allFindings.push(...aiAnalysis.critical_findings.map(f => ({
+      ...f,
+      chunk_type: chunkResult.chunk_type,
+      chunk_priority: chunkResult.chunk_priority
+    })));
+
+    // Aggregate vulnerability assessments
+    allVulnerabilities.push(...aiAnalysis.vulnerability_assessment);
     
     // Aggregate recommendations
     if (aiAnalysis.recommendations) {
@@ -570,12 +1011,12 @@ function aggregateChunkAIResults(
   }
   
   // Calculate overall risk based on findings
-  let overallRisk = 'Low';
-  if (allFindings.some((f: any) => f.severity === 'Critical')) {
+  let overallRisk: AIAnalysis['executive_summary']['overall_risk'] = 'Low';
+  if (allFindings.some(f => f.severity === 'Critical')) {
     overallRisk = 'Critical';
-  } else if (allFindings.some((f: any) => f.severity === 'High')) {
+  } else if (allFindings.some(f => f.severity === 'High')) {
     overallRisk = 'High';
-  } else if (allFindings.some((f: any) => f.severity === 'Medium')) {
+  } else if (allFindings.some(f => f.severity === 'Medium')) {
     overallRisk = 'Medium';
   }
   
@@ -586,14 +1027,14 @@ function aggregateChunkAIResults(
     executive_summary: {
       overall_risk: overallRisk,
       security_posture: `Comprehensive security analysis of ${repository} using chunked processing. Found ${allFindings.length} security issues across ${chunkAIResults.length} file type categories.`,
-      key_concerns: allFindings.filter((f: any) => f.severity === 'Critical' || f.severity === 'High').map((f: any) => f.finding || f.title)
+      key_concerns: allFindings.filter(f => f.severity === 'Critical' || f.severity === 'High').map(f => f.finding)
     },
-    critical_findings: allFindings.filter((f: any) => f.severity === 'Critical' || f.severity === 'High'),
-    vulnerability_assessment: allFindings,
+    critical_findings: allFindings.filter(f => f.severity === 'Critical' || f.severity === 'High'),
+    vulnerability_assessment: allVulnerabilities,
     risk_analysis: {
-      high_risk_items: allFindings.filter((f: any) => f.severity === 'High').map((f: any) => f.finding || f.title),
-      medium_risk_items: allFindings.filter((f: any) => f.severity === 'Medium').map((f: any) => f.finding || f.title),
-      low_risk_items: allFindings.filter((f: any) => f.severity === 'Low').map((f: any) => f.finding || f.title),
+      high_risk_items: allFindings.filter(f => f.severity === 'High').map(f => f.finding),
+      medium_risk_items: allFindings.filter(f => f.severity === 'Medium').map(f => f.finding),
+      low_risk_items: allFindings.filter(f => f.severity === 'Low').map(f => f.finding),
       risk_factors: [...new Set(allRiskFactors)] // Remove duplicates
     },
     recommendations: allRecommendations.slice(0, 10), // Limit to top 10 recommendations
@@ -609,6 +1050,23 @@ function aggregateChunkAIResults(
   };
 }
 
+export interface RepositoryAnalysisOptions {
+  // 'sarif' returns a SARIF 2.1.0 log instead of the raw analysis results
+  outputFormat?: 'json' | 'sarif';
+  // Only analyze commits, issues and files changed within this window
+  timeframe?: AnalysisTimeframe;
+  // Reuse an already connected client instead of opening a new connection
+  client?: GitHubSecurityClient;
+  // Fetch the bodies of targeted files (defaults to true)
+  fetchContents?: boolean;
+  // YAML rule packs applied in addition to the configured ones
+  rulePacks?: string[];
+  // Notified as chunks are analyzed, e.g. to send MCP progress notifications
+  progress?: StreamingCallbacks;
+  // Cancels the scan; whatever was collected and analyzed so far is returned
+  signal?: AbortSignal;
+}
+
 // Security-specific helper functions
 export async function analyzeRepositorySecurity(
   serverUrl: string,
@@ -616,30 +1074,56 @@ export async function analyzeRepositorySecurity(
   profile: string,
   owner: string,
   repo: string,
-  analysisType: 'secrets' | 'vulnerabilities' | 'dependencies' | 'code-patterns' = 'secrets'
+  analysisType: 'secrets' | 'vulnerabilities' | 'dependencies' | 'code-patterns' = 'secrets',
+  options: RepositoryAnalysisOptions = {}
 ): Promise<any> {
-  const client = new GitHubSecurityClient(serverUrl, apiKey, profile);
+  const ownsClient = !options.client;
+  const client = options.client || new GitHubSecurityClient(serverUrl, apiKey, profile, options.signal);
   
   try {
-    await client.connect();
+    // Reject invalid rule packs before doing any work
+    const rulePacks = await getRulePacks(options.rulePacks);
+    if (ownsClient) await client.connect();
     
     // Use targeted data collection instead of broad searches
     console.log(`🎯 Starting targeted security analysis for ${owner}/${repo} (${analysisType})...`);
-    const targetedData = await collectTargetedSecurityData(client, owner, repo, analysisType);
+    const targetedData = await collectTargetedSecurityData(
+      client,
+      owner,
+      repo,
+      analysisType,
+      options.timeframe,
+      options.fetchContents ?? true
+    );
     
-    await client.disconnect();
+    if (ownsClient) await client.disconnect();
     
     // Perform AI-powered security analysis using chunked processing
-    console.log(`🤖 Performing chunked AI security analysis for ${owner}/${repo}...`);
-    const aiAnalysis = await analyzeSecurityWithAIChunked(targetedData, analysisType, `${owner}/${repo}`);
+    let aiAnalysis = null;
+    if (!options.signal?.aborted) {
+      console.log(`🤖 Performing chunked AI security analysis for ${owner}/${repo}...`);
+      try {
+        aiAnalysis = await analyzeSecurityWithAIChunked(
+          targetedData, analysisType, `${owner}/${repo}`, undefined, rulePacks, { progress: options.progress, signal: options.signal }
+        );
+      } catch (error) {
+        if (!isAbortError(error, options.signal)) throw error;
+      }
+    }
     
     // Combine targeted data with AI analysis
+    const cancelled = Boolean(options.signal?.aborted);
+    if (cancelled) console.log(`🛑 Security analysis of ${owner}/${repo} was cancelled, returning partial results`);
     const enhancedResults = {
-      ...targetedData,
-      ai_analysis: aiAnalysis
+      ...withoutFileContents(targetedData),
+      ai_analysis: aiAnalysis,
+      ...(cancelled && { cancelled: true })
     };
     
     console.log(`✅ Targeted security analysis completed for ${owner}/${repo}`);
+    if (options.outputFormat === 'sarif') {
+      return SarifExporter.fromAnalysisResult(enhancedResults);
+    }
     return enhancedResults;
   } catch (error) {
     console.error('Error analyzing repository security:', error);
@@ -647,37 +1131,437 @@ export async function analyzeRepositorySecurity(
   }
 }
 
+// Manifests and lockfiles an SBOM is built from
+const SBOM_DEPENDENCY_FILES = [
+  'package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'requirements.txt', 'poetry.lock',
+  'go.sum', 'Cargo.lock', 'Gemfile.lock', 'composer.lock',
+  'package.json', 'go.mod', 'Cargo.toml', 'composer.json'
+];
+const MAX_SBOM_FILES = 50;
+// An SBOM is only complete when every dependency file is read whole, so it gets more room than a scan
+const SBOM_MAX_FILE_BYTES = 1024 * 1024;
+const SBOM_MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+
+// Dependency and vulnerability analysis also reads manifests without a lockfile parser
+const DEPENDENCY_ANALYSIS_FILES = [...SBOM_DEPENDENCY_FILES, 'Pipfile', 'pom.xml', 'build.gradle', 'Gemfile'];
+
+/**
+ * Find dependency manifests and lockfiles with the given names in the repository root and, through code search, in subdirectories
+ */
+async function discoverDependencyFiles(
+  client: GitHubSecurityClient,
+  owner: string,
+  repo: string,
+  fileNames: string[] = SBOM_DEPENDENCY_FILES
+): Promise<string[]> {
+  const paths = new Set<string>();
+
+  try {
+    const root = parseToolResult(await client.callTool("get_file_contents", { owner, repo, path: "" }));
+    if (Array.isArray(root)) {
+      root.filter((entry: any) => entry?.type === 'file' && entry.path).forEach((entry: any) => paths.add(entry.path));
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not list the root of ${owner}/${repo}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    const search = await searchCodeForAny(client, owner, repo, fileNames.map(name => `filename:${name}`), 100);
+    search.items.forEach((item: any) => paths.add(item.path));
+  } catch (error) {
+    console.warn(`⚠️ Dependency file search failed for ${owner}/${repo}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return [...paths].filter(path => fileNames.includes(path.split('/').pop() || ''));
+}
+
+/**
+ * Dependency files an SBOM is built from
+ */
+async function discoverSbomFiles(client: GitHubSecurityClient, owner: string, repo: string): Promise<SecurityFile[]> {
+  return SecurityFileFilter.filterFiles(await discoverDependencyFiles(client, owner, repo), {
+    includeDependencyFiles: true,
+    includeConfigFiles: false,
+    includeSecretFiles: false,
+    includeSecurityFiles: false,
+    includeDeploymentFiles: false,
+    includeWorkflowFiles: false,
+    maxFiles: MAX_SBOM_FILES
+  });
+}
+
+export interface SbomOptions {
+  format?: SbomFormat;
+  // Reuse an already connected client instead of opening a new connection
+  client?: GitHubSecurityClient;
+}
+
+/**
+ * Build a CycloneDX 1.5 (default) or SPDX 2.3 SBOM from a repository's dependency manifests and lockfiles
+ */
+export async function generateRepositorySbom(
+  serverUrl: string,
+  apiKey: string,
+  profile: string,
+  owner: string,
+  repo: string,
+  options: SbomOptions = {}
+): Promise<any> {
+  const ownsClient = !options.client;
+  const client = options.client || new GitHubSecurityClient(serverUrl, apiKey, profile);
+
+  try {
+    if (ownsClient) await client.connect();
+
+    console.log(`📦 Collecting dependency files for ${owner}/${repo} SBOM...`);
+    const dependencyFiles = await discoverSbomFiles(client, owner, repo);
+    const fetcher = new FileContentFetcher(client, owner, repo, {
+      maxFileBytes: SBOM_MAX_FILE_BYTES,
+      maxTotalBytes: SBOM_MAX_TOTAL_BYTES
+    });
+    const files = await fetcher.fetchAll(dependencyFiles);
+
+    if (ownsClient) await client.disconnect();
+
+    // Repositories without lockfiles still get the requirements their manifests declare
+    const inventory = LockfileParser.buildInventory(files, { manifestFallback: true });
+    const skippedFiles = [
+      ...files.filter(file => file.contentSkipped).map(file => ({ path: file.path, reason: file.contentSkipped! })),
+      ...inventory.errors.map(error => ({ path: error.file, reason: error.error }))
+    ];
+    skippedFiles.forEach(file => console.warn(`⚠️ Skipped ${file.path}: ${file.reason}`));
+    console.log(`✅ Inventoried ${inventory.totals.packages} packages from ${inventory.files.length} lockfiles in ${owner}/${repo}`);
+
+    return SbomGenerator.generate(inventory, { repository: `${owner}/${repo}`, skippedFiles }, options.format);
+  } catch (error) {
+    console.error('Error generating SBOM:', error);
+    throw error;
+  }
+}
+
+export interface OrganizationRepositoryFilters {
+  includeArchived?: boolean;
+  includeForks?: boolean;
+  visibility?: 'all' | 'public' | 'private' | 'internal';
+  // Keep repositories tagged with any of these topics
+  topics?: string[];
+  // Keep repositories whose primary language is any of these
+  languages?: string[];
+}
+
+// GitHub search returns at most 1000 results per query
+const MAX_SEARCH_RESULTS = 1000;
+const REPOSITORY_PAGE_SIZE = 100;
+
+export interface OrganizationRepositories {
+  repositories: string[];
+  // Organizations with more matching repositories than GitHub search returns, so some were not listed
+  truncatedOrganizations: string[];
+  note?: string;
+}
+
+/**
+ * Check a repository returned by the GitHub API against the organization filters
+ */
+export function matchesRepositoryFilters(repository: any, filters: OrganizationRepositoryFilters = {}): boolean {
+  if (!filters.includeArchived && repository.archived) return false;
+  if (!filters.includeForks && repository.fork) return false;
+
+  const visibility = repository.visibility || (repository.private ? 'private' : 'public');
+  if (filters.visibility && filters.visibility !== 'all' && visibility !== filters.visibility) return false;
+
+  if (filters.topics && filters.topics.length > 0) {
+    const topics: string[] = (repository.topics || []).map((t: string) => t.toLowerCase());
+    if (!filters.topics.some(topic => topics.includes(topic.toLowerCase()))) return false;
+  }
+
+  if (filters.languages && filters.languages.length > 0) {
+    const language = (repository.language || '').toLowerCase();
+    if (!filters.languages.some(l => l.toLowerCase() === language)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Enumerate the repositories of an organization through the GitHub MCP search_repositories tool,
+ * which lists no more than the first 1000 matches
+ */
+async function listOrganizationRepositoriesWithClient(
+  client: GitHubSecurityClient,
+  organization: string,
+  filters: OrganizationRepositoryFilters
+): Promise<{ repositories: string[]; truncated: boolean }> {
+  const qualifiers = [`org:${organization}`];
+  if (!filters.includeArchived) qualifiers.push('archived:false');
+  if (filters.includeForks) qualifiers.push('fork:true');
+  if (filters.visibility && filters.visibility !== 'all') qualifiers.push(`is:${filters.visibility}`);
+
+  const repositories: string[] = [];
+  let truncated = false;
+  for (let page = 1; page * REPOSITORY_PAGE_SIZE <= MAX_SEARCH_RESULTS; page++) {
+    const response = parseToolResult(await client.callTool("search_repositories", {
+      query: qualifiers.join(' '),
+      page,
+      perPage: REPOSITORY_PAGE_SIZE
+    }));
+    const items: any[] = response?.items || [];
+
+    for (const item of items) {
+      if (item?.full_name && matchesRepositoryFilters(item, filters)) {
+        repositories.push(item.full_name);
+      }
+    }
+
+    const totalCount = typeof response?.total_count === 'number' ? response.total_count : 0;
+    truncated = totalCount > MAX_SEARCH_RESULTS;
+    if (items.length < REPOSITORY_PAGE_SIZE || page * REPOSITORY_PAGE_SIZE >= totalCount) break;
+  }
+
+  return { repositories, truncated };
+}
+
+export async function listOrganizationRepositories(
+  serverUrl: string,
+  apiKey: string,
+  profile: string,
+  organizations: string[],
+  filters: OrganizationRepositoryFilters = {}
+): Promise<OrganizationRepositories> {
+  const client = new GitHubSecurityClient(serverUrl, apiKey, profile);
+  const repositories = new Set<string>();
+  const truncatedOrganizations: string[] = [];
+
+  try {
+    await client.connect();
+    for (const organization of organizations) {
+      console.log(`🏢 Enumerating repositories for organization ${organization}...`);
+      const orgRepositories = await listOrganizationRepositoriesWithClient(client, organization, filters);
+      orgRepositories.repositories.forEach(repo => repositories.add(repo));
+      console.log(`✅ Found ${orgRepositories.repositories.length} repositories in ${organization}`);
+      if (orgRepositories.truncated) {
+        console.warn(`⚠️ ${organization} has more than ${MAX_SEARCH_RESULTS} matching repositories, only the first ${MAX_SEARCH_RESULTS} were listed`);
+        truncatedOrganizations.push(organization);
+      }
+    }
+    return {
+      repositories: [...repositories],
+      truncatedOrganizations,
+      ...(truncatedOrganizations.length > 0 && {
+        note: `GitHub search lists at most ${MAX_SEARCH_RESULTS} repositories per organization, so some repositories in ${truncatedOrganizations.join(', ')} were not scanned; narrow the filters to reach them`
+      })
+    };
+  } catch (error) {
+    console.error('Error listing organization repositories:', error);
+    throw error;
+  } finally {
+    await client.disconnect();
+  }
+}
+
+export type AnalysisType = 'secrets' | 'vulnerabilities' | 'dependencies' | 'code-patterns';
+
+export interface SeveritySummary {
+  total_findings: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  info: number;
+  overall_risk: 'critical' | 'high' | 'medium' | 'low' | 'safe';
+}
+
+/**
+ * Merge local chunk findings and AI critical findings of several scans into one severity summary
+ */
+export function summarizeScanSeverity(scanResults: any[]): SeveritySummary {
+  const counts = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+
+  for (const result of scanResults) {
+    const streaming = result?.ai_analysis?.chunked_analysis?.streaming_results;
+    if (streaming) {
+      counts.critical += streaming.criticalFindings || 0;
+      counts.high += streaming.highFindings || 0;
+      counts.medium += streaming.mediumFindings || 0;
+      counts.low += streaming.lowFindings || 0;
+      counts.info += streaming.infoFindings || 0;
+    }
+
+    const aiFindings = result?.ai_analysis?.ai_analysis?.critical_findings;
+    for (const finding of Array.isArray(aiFindings) ? aiFindings : []) {
+      const severity = String(finding?.severity || '').toLowerCase();
+      if (severity in counts) counts[severity as keyof typeof counts]++;
+    }
+  }
+
+  let overallRisk: SeveritySummary['overall_risk'] = 'safe';
+  if (counts.critical > 0) overallRisk = 'critical';
+  else if (counts.high > 0) overallRisk = 'high';
+  else if (counts.medium > 0) overallRisk = 'medium';
+  else if (counts.low > 0) overallRisk = 'low';
+
+  return {
+    total_findings: counts.critical + counts.high + counts.medium + counts.low + counts.info,
+    ...counts,
+    overall_risk: overallRisk
+  };
+}
+
+export interface MultiRepositoryScanOptions {
+  // Maximum number of repositories scanned at the same time
+  concurrency?: number;
+  // Time allowed for all scan types of a single repository
+  repoTimeoutMs?: number;
+  // Total time budget; repositories not started by then are reported as skipped
+  deadlineMs?: number;
+  // YAML rule packs applied to every repository
+  rulePacks?: string[];
+  // Called as each repository finishes, in completion order
+  onRepositoryScanned?: (repository: string, completed: number, total: number) => void;
+  // Chunk progress callbacks for each repository's analysis
+  progress?: (repository: string) => StreamingCallbacks;
+  // Cancels the scan; repositories finished by then are still reported
+  signal?: AbortSignal;
+}
+
+type RepositoryScanStatus = 'success' | 'partial' | 'error' | 'timeout' | 'skipped' | 'cancelled';
+
+/**
+ * Callbacks that stop reporting once the signal is aborted, so work left running after a timeout stays quiet
+ */
+function silenceOnAbort(callbacks: StreamingCallbacks, signal: AbortSignal): StreamingCallbacks {
+  return {
+    onProgress: progress => {
+      if (!signal.aborted) callbacks.onProgress?.(progress);
+    },
+    onChunkComplete: result => {
+      if (!signal.aborted) callbacks.onChunkComplete?.(result);
+    },
+    onAIChunkComplete: progress => {
+      if (!signal.aborted) callbacks.onAIChunkComplete?.(progress);
+    }
+  };
+}
+
 export async function scanMultipleRepositories(
   serverUrl: string,
   apiKey: string,
   profile: string,
   repositories: string[],
-  scanTypes: string[] = ['secrets', 'vulnerabilities']
+  scanTypes: AnalysisType[] = ['secrets', 'vulnerabilities'],
+  options: MultiRepositoryScanOptions = {}
 ): Promise<any> {
-  const results = [];
-  
-  for (const repo of repositories) {
+  const {
+    concurrency = 4,
+    repoTimeoutMs = 20000,
+    deadlineMs = 50000,
+    rulePacks,
+    onRepositoryScanned,
+    progress,
+    signal
+  } = options;
+  const startTime = Date.now();
+  const deadlineAt = startTime + deadlineMs;
+
+  // One connection shared by all workers
+  const client = new GitHubSecurityClient(serverUrl, apiKey, profile, signal);
+  await client.connect();
+
+  let scannedRepositories = 0;
+  const scanRepository = async (repo: string) => {
     const [owner, repoName] = repo.split('/');
+    const scans: Record<string, { status: 'success' | 'error'; data?: any; error?: string }> = {};
+    let status: RepositoryScanStatus = 'partial';
+    let timeoutError: string | undefined;
+
+    // Stopped when the whole scan is cancelled or this repository times out
+    const repoController = new AbortController();
+    const repoSignal = repoController.signal;
+    const abortRepo = () => repoController.abort();
+    if (signal?.aborted) abortRepo();
+    signal?.addEventListener('abort', abortRepo, { once: true });
+    const repoClient = client.withSignal(repoSignal);
+    const callbacks = progress && silenceOnAbort(progress(repo), repoSignal);
+
+    const runScans = async () => {
+      // Run every requested scan type; one failing type does not discard the others
+      for (const scanType of scanTypes) {
+        if (repoSignal.aborted) break;
+        try {
+          const result = await analyzeRepositorySecurity(serverUrl, apiKey, profile, owner, repoName, scanType, { client: repoClient, rulePacks, progress: callbacks, signal: repoSignal });
+          scans[scanType] = { status: 'success', data: result };
+        } catch (error) {
+          scans[scanType] = {
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      }
+    };
+
+    // Never let a single repository run past the overall deadline
+    const timeoutMs = Math.min(repoTimeoutMs, deadlineAt - Date.now());
     try {
-      const result = await analyzeRepositorySecurity(serverUrl, apiKey, profile, owner, repoName);
-      results.push({
-        repository: repo,
-        status: 'success',
-        data: result
-      });
+      await withTimeout(runScans(), timeoutMs, `Scan of ${repo} timed out after ${timeoutMs}ms`);
     } catch (error) {
-      results.push({
-        repository: repo,
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      status = 'timeout';
+      timeoutError = error instanceof Error ? error.message : 'Unknown error';
+      // Stop the GitHub and AI calls still running for this repository
+      abortRepo();
+    } finally {
+      signal?.removeEventListener('abort', abortRepo);
+    }
+
+    // Snapshot the scans so work finishing after a timeout does not alter the reported result
+    const scanSnapshot = { ...scans };
+    const scanEntries = Object.values(scanSnapshot);
+    const succeeded = scanEntries.filter(scan => scan.status === 'success');
+    if (signal?.aborted) {
+      status = 'cancelled';
+    } else if (status !== 'timeout') {
+      if (succeeded.length === scanEntries.length) status = 'success';
+      else if (succeeded.length === 0) status = 'error';
     }
+    onRepositoryScanned?.(repo, ++scannedRepositories, repositories.length);
+
+    return {
+      repository: repo,
+      status,
+      scans: scanSnapshot,
+      severity_summary: summarizeScanSeverity(succeeded.map(scan => scan.data)),
+      ...(status === 'error' && { error: scanEntries.map(scan => scan.error).join('; ') }),
+      ...(timeoutError && { error: timeoutError })
+    };
+  };
+
+  let pooled;
+  try {
+    pooled = await mapWithConcurrency(repositories, concurrency, scanRepository, () => Date.now() < deadlineAt && !signal?.aborted);
+  } finally {
+    await client.disconnect();
   }
+
+  const results = pooled.map((result, index) => result || (signal?.aborted
+    ? { repository: repositories[index], status: 'cancelled' as RepositoryScanStatus, error: 'Not started before the scan was cancelled' }
+    : { repository: repositories[index], status: 'skipped' as RepositoryScanStatus, error: 'Not started before the scan deadline' }
+  ));
+  const skippedScans = results.filter(r => r.status === 'skipped').length;
+  const timedOutScans = results.filter(r => r.status === 'timeout').length;
+  const cancelledScans = results.filter(r => r.status === 'cancelled').length;
   
   return {
     total_repos_scanned: repositories.length,
+    scan_types: scanTypes,
     successful_scans: results.filter(r => r.status === 'success').length,
+    partial_scans: results.filter(r => r.status === 'partial').length,
     failed_scans: results.filter(r => r.status === 'error').length,
+    timed_out_scans: timedOutScans,
+    skipped_scans: skippedScans,
+    cancelled_scans: cancelledScans,
+    partial: skippedScans > 0 || timedOutScans > 0 || cancelledScans > 0,
+    cancelled: Boolean(signal?.aborted),
+    concurrency,
+    elapsed_ms: Date.now() - startTime,
     results
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,371 @@
+// An expression that is kept as source text rather than evaluated, e.g. var.region or jsonencode({...})
+export interface HclExpression {
+  expression: string;
+}
+
+export interface HclBody {
+  attributes: Record<string, any>;
+  // 1-based line of each attribute
+  attributeLines: Record<string, number>;
+  blocks: HclBlock[];
+}
+
+export interface HclBlock extends HclBody {
+  type: string;
+  labels: string[];
+  lineNumber: number;
+}
+
+export class HclParseError extends Error {
+  lineNumber: number;
+
+  constructor(message: string, lineNumber: number) {
+    super(`${message} at line ${lineNumber}`);
+    this.name = 'HclParseError';
+    this.lineNumber = lineNumber;
+  }
+}
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Parser for the HCL2 native syntax used by Terraform: blocks, attributes, literals, lists, objects
+ * and heredocs. Anything else (references, function calls, operators) is kept as an HclExpression.
+ */
+export class HclParser {
+  private source: string;
+  private pos = 0;
+  private lineStarts: number[];
+
+  private constructor(source: string) {
+    this.source = source;
+    this.lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Parse a .tf file into its top-level attributes and blocks
+   */
+  static parse(content: string): HclBody {
+    return new HclParser(content.replace(/\r\n/g, '\n')).parseBody(null);
+  }
+
+  /**
+   * Parse a single HCL expression, e.g. the argument of jsonencode(...)
+   */
+  static parseExpression(text: string): any {
+    return new HclParser(text.trim()).parseExpression([]);
+  }
+
+  static isExpression(value: unknown): value is HclExpression {
+    return typeof value === 'object' && value !== null && typeof (value as HclExpression).expression === 'string';
+  }
+
+  /**
+   * All blocks of a type (and optionally a first label) anywhere below a body
+   */
+  static findBlocks(body: HclBody, type: string, firstLabel?: string): HclBlock[] {
+    const found: HclBlock[] = [];
+    for (const block of body.blocks) {
+      if (block.type === type && (firstLabel === undefined || block.labels[0] === firstLabel)) {
+        found.push(block);
+      }
+      found.push(...this.findBlocks(block, type, firstLabel));
+    }
+    return found;
+  }
+
+  private parseBody(closing: string | null): HclBody {
+    const body: HclBody = { attributes: {}, attributeLines: {}, blocks: [] };
+
+    while (true) {
+      this.skipTrivia(true);
+      if (this.pos >= this.source.length) {
+        if (closing) throw new HclParseError(`Expected "${closing}"`, this.lineAt(this.pos));
+        return body;
+      }
+      if (closing && this.source[this.pos] === closing) {
+        this.pos++;
+        return body;
+      }
+
+      const start = this.pos;
+      const name = this.readIdentifier();
+      if (!name) throw new HclParseError(`Unexpected "${this.source[this.pos]}"`, this.lineAt(this.pos));
+
+      this.skipTrivia(false);
+      if (this.source[this.pos] === '=' && this.source[this.pos + 1] !== '=') {
+        this.pos++;
+        body.attributes[name] = this.parseExpression(['\n', '}']);
+        body.attributeLines[name] = this.lineAt(start);
+        continue;
+      }
+
+      const labels: string[] = [];
+      while (this.source[this.pos] !== '{') {
+        if (this.source[this.pos] === '"') {
+          labels.push(this.readString());
+        } else {
+          const label = this.readIdentifier();
+          if (!label) throw new HclParseError(`Expected "{" after block "${name}"`, this.lineAt(this.pos));
+          labels.push(label);
+        }
+        this.skipTrivia(false);
+      }
+      this.pos++;
+
+      const block = this.parseBody('}');
+      body.blocks.push({ type: name, labels, lineNumber: this.lineAt(start), ...block });
+    }
+  }
+
+  /**
+   * Parse an expression ending at one of the terminators (outside brackets and strings).
+   * Literals are returned as values; anything else as an HclExpression with its source text.
+   */
+  private parseExpression(terminators: string[]): any {
+    this.skipTrivia(false);
+    const start = this.pos;
+    const char = this.source[this.pos];
+
+    let literal: any;
+    let isLiteral = true;
+    if (char === '"') {
+      literal = this.readString();
+    } else if (char === '[') {
+      literal = this.parseList();
+    } else if (char === '{') {
+      literal = this.parseObject();
+    } else if (this.source.startsWith('<<', this.pos)) {
+      literal = this.readHeredoc();
+    } else {
+      isLiteral = false;
+    }
+
+    if (isLiteral) {
+      this.skipTrivia(false);
+      if (this.atTerminator(terminators)) return literal;
+      // The literal is only the start of a larger expression
+      this.pos = start;
+    }
+
+    const text = this.skipExpression(terminators).trim();
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    if (text === 'null') return null;
+    if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(text)) return Number(text);
+    return { expression: text };
+  }
+
+  private parseList(): any[] {
+    const list: any[] = [];
+    this.pos++;
+
+    while (true) {
+      this.skipTrivia(true);
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        return list;
+      }
+      if (this.pos >= this.source.length) throw new HclParseError('Unterminated list', this.lineAt(this.pos));
+
+      list.push(this.parseExpression([',', ']', '\n']));
+      this.skipTrivia(true);
+      if (this.source[this.pos] === ',') this.pos++;
+    }
+  }
+
+  private parseObject(): Record<string, any> {
+    const object: Record<string, any> = {};
+    this.pos++;
+
+    while (true) {
+      this.skipTrivia(true);
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        return object;
+      }
+      if (this.pos >= this.source.length) throw new HclParseError('Unterminated object', this.lineAt(this.pos));
+
+      let key: string;
+      if (this.source[this.pos] === '"') {
+        key = this.readString();
+      } else if (this.source[this.pos] === '(') {
+        key = this.skipExpression(['=', ':']).trim();
+      } else {
+        key = this.readIdentifier();
+        if (!key) throw new HclParseError(`Unexpected "${this.source[this.pos]}" in object`, this.lineAt(this.pos));
+      }
+
+      this.skipTrivia(false);
+      if (this.source[this.pos] !== '=' && this.source[this.pos] !== ':') {
+        throw new HclParseError(`Expected "=" after object key "${key}"`, this.lineAt(this.pos));
+      }
+      this.pos++;
+      object[key] = this.parseExpression([',', '}', '\n']);
+      this.skipTrivia(false);
+      if (this.source[this.pos] === ',') this.pos++;
+    }
+  }
+
+  /**
+   * Advance over an expression and return its source text
+   */
+  private skipExpression(terminators: string[]): string {
+    const start = this.pos;
+    const stack: string[] = [];
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (stack.length === 0 && this.atTerminator(terminators)) break;
+
+      if (char === '"') {
+        this.readString();
+        continue;
+      }
+      if (this.source.startsWith('<<', this.pos) && /^<<-?[A-Za-z_]/.test(this.source.slice(this.pos, this.pos + 4))) {
+        this.readHeredoc();
+        continue;
+      }
+      if (this.atComment()) {
+        this.skipTrivia(stack.length > 0);
+        continue;
+      }
+
+      if (CLOSING[char]) {
+        stack.push(CLOSING[char]);
+      } else if (char === stack[stack.length - 1]) {
+        stack.pop();
+      } else if ((char === ')' || char === ']' || char === '}') && stack.length === 0) {
+        break;
+      }
+      this.pos++;
+    }
+
+    if (stack.length > 0) throw new HclParseError(`Expected "${stack[stack.length - 1]}"`, this.lineAt(start));
+    return this.source.slice(start, this.pos);
+  }
+
+  /**
+   * Read a quoted template string, keeping ${...} interpolations as written
+   */
+  private readString(): string {
+    const start = this.pos;
+    let value = '';
+    this.pos++;
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '\n') break;
+      if (char === '"') {
+        this.pos++;
+        return value;
+      }
+      if (char === '\\') {
+        const next = this.source[this.pos + 1];
+        value += next === 'n' ? '\n' : next === 't' ? '\t' : next === 'r' ? '\r' : next;
+        this.pos += 2;
+        continue;
+      }
+      if ((char === '$' || char === '%') && this.source[this.pos + 1] === '{') {
+        // Interpolations may contain quotes and braces of their own
+        const interpolationStart = this.pos;
+        this.pos += 2;
+        let depth = 1;
+        while (this.pos < this.source.length && depth > 0) {
+          if (this.source[this.pos] === '"') {
+            this.readString();
+            continue;
+          }
+          if (this.source[this.pos] === '{') depth++;
+          if (this.source[this.pos] === '}') depth--;
+          this.pos++;
+        }
+        value += this.source.slice(interpolationStart, this.pos);
+        continue;
+      }
+      value += char;
+      this.pos++;
+    }
+
+    throw new HclParseError('Unterminated string', this.lineAt(start));
+  }
+
+  private readHeredoc(): string {
+    const start = this.pos;
+    const header = this.source.slice(this.pos).match(/^<<(-?)([A-Za-z_][A-Za-z0-9_-]*)[ \t]*\n/);
+    if (!header) throw new HclParseError('Invalid heredoc', this.lineAt(start));
+    this.pos += header[0].length;
+
+    const lines: string[] = [];
+    while (this.pos < this.source.length) {
+      const end = this.source.indexOf('\n', this.pos);
+      const line = this.source.slice(this.pos, end === -1 ? this.source.length : end);
+      if (line.trim() === header[2]) {
+        this.pos += line.length;
+        if (header[1] !== '-') return lines.join('\n') + '\n';
+
+        // <<- strips the common leading whitespace
+        const indent = Math.min(...lines.filter(l => l.trim()).map(l => l.length - l.trimStart().length));
+        return lines.map(l => l.slice(Number.isFinite(indent) ? indent : 0)).join('\n') + '\n';
+      }
+      lines.push(line);
+      this.pos = end === -1 ? this.source.length : end + 1;
+    }
+
+    throw new HclParseError(`Unterminated heredoc "${header[2]}"`, this.lineAt(start));
+  }
+
+  private readIdentifier(): string {
+    const match = this.source.slice(this.pos).match(/^[A-Za-z_][A-Za-z0-9_-]*/);
+    if (!match) return '';
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private atTerminator(terminators: string[]): boolean {
+    if (this.pos >= this.source.length) return true;
+    const char = this.source[this.pos];
+    // A line comment ends the expression just like the newline after it
+    return terminators.includes(char) || (terminators.includes('\n') && (char === '#' || this.source.startsWith('//', this.pos)));
+  }
+
+  private atComment(): boolean {
+    const char = this.source[this.pos];
+    return char === '#' || this.source.startsWith('//', this.pos) || this.source.startsWith('/*', this.pos);
+  }
+
+  /**
+   * Skip spaces and comments, and newlines too when allowed
+   */
+  private skipTrivia(newlines: boolean): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === ' ' || char === '\t' || char === '\r' || (newlines && char === '\n')) {
+        this.pos++;
+      } else if (char === '#' || this.source.startsWith('//', this.pos)) {
+        const end = this.source.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.source.length : end;
+      } else if (this.source.startsWith('/*', this.pos)) {
+        const end = this.source.indexOf('*/', this.pos + 2);
+        if (end === -1) throw new HclParseError('Unterminated comment', this.lineAt(this.pos));
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private lineAt(position: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+}
@@ -0,0 +1,251 @@
+export interface SecurityReportFinding {
+  id: string;
+  type: string | null;
+  severity: string | null;
+  title: string | null;
+  description: string | null;
+  location: string | null;
+  recommendation: string | null;
+}
+
+export interface SecurityReport {
+  repository: string;
+  scan_date: string;
+  summary: {
+    total_issues: number;
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+    security_score: number;
+    overall_risk: string | null;
+  };
+  findings: SecurityReportFinding[];
+  recommendations: string[];
+  ai_analysis: any;
+  // Problems found validating the AI response, empty when it matched the schema
+  validation_errors?: string[];
+  github_data?: any;
+}
+
+export class HtmlReportGenerator {
+  private static readonly SEVERITY_ORDER: Record<string, number> = {
+    critical: 4,
+    high: 3,
+    medium: 2,
+    low: 1
+  };
+
+  private static readonly SEVERITY_COLORS: Record<string, string> = {
+    critical: '#b91c1c',
+    high: '#c2410c',
+    medium: '#a16207',
+    low: '#15803d'
+  };
+
+  /**
+   * Render a self-contained HTML document (inline CSS and script, no external assets)
+   */
+  static generate(report: SecurityReport, includeRecommendations: boolean = true): string {
+    const aiAnalysis = report.ai_analysis || {};
+    const posture = aiAnalysis.executive_summary?.security_posture || 'No security posture analysis available.';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Security Report: ${this.escape(report.repository)}</title>
+<style>
+${this.styles()}
+</style>
+</head>
+<body>
+<header>
+<h1>Security Report: ${this.escape(report.repository)}</h1>
+<p class="meta">Scan date: ${this.escape(report.scan_date)}</p>
+</header>
+<section id="summary">
+<h2>Executive Summary</h2>
+${this.renderSummary(report)}
+</section>
+<section id="ai-summary">
+<h2>AI Analysis Summary</h2>
+<p>${this.escape(posture)}</p>
+</section>
+<section id="findings">
+<h2>Findings</h2>
+${this.renderFindingsTable(report.findings)}
+${this.renderFindingDetails(report.findings)}
+</section>
+${includeRecommendations && report.recommendations.length > 0 ? this.renderRecommendations(report.recommendations) : ''}
+<section id="risk-analysis">
+<h2>Risk Analysis</h2>
+${this.renderRiskAnalysis(aiAnalysis.risk_analysis)}
+</section>
+${report.validation_errors && report.validation_errors.length > 0 ? this.renderValidationErrors(report.validation_errors) : ''}
+<footer>
+<p>Report generated on ${this.escape(report.scan_date)} using real GitHub data and AI-powered security analysis</p>
+</footer>
+<script>
+${this.sortScript()}
+</script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Escape text for safe inclusion in HTML element content and attribute values
+   */
+  static escape(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static renderSummary(report: SecurityReport): string {
+    const { summary } = report;
+    const cards = [
+      { label: 'Critical', value: summary.critical, severity: 'critical' },
+      { label: 'High', value: summary.high, severity: 'high' },
+      { label: 'Medium', value: summary.medium, severity: 'medium' },
+      { label: 'Low', value: summary.low, severity: 'low' }
+    ];
+
+    return `<dl class="overview">
+<dt>Overall Risk</dt><dd>${this.escape(summary.overall_risk ?? 'Unknown')}</dd>
+<dt>Security Score</dt><dd>${this.escape(summary.security_score)}/10</dd>
+<dt>Total Issues</dt><dd>${this.escape(summary.total_issues)}</dd>
+</dl>
+<div class="severity-cards">
+${cards.map(card => `<div class="card sev-${card.severity}"><span class="count">${card.value}</span><span class="label">${card.label}</span></div>`).join('\n')}
+</div>`;
+  }
+
+  private static renderFindingsTable(findings: SecurityReportFinding[]): string {
+    if (findings.length === 0) {
+      return '<p>No critical findings identified in this analysis.</p>';
+    }
+
+    const rows = findings.map(f => {
+      const severity = (f.severity || '').toLowerCase();
+      return `<tr>
+<td><a href="#${this.escape(f.id)}">${this.escape(f.id)}</a></td>
+<td data-sort="${this.SEVERITY_ORDER[severity] || 0}"><span class="badge sev-${this.escape(severity)}">${this.escape(f.severity)}</span></td>
+<td>${this.escape(f.type)}</td>
+<td>${this.escape(f.title)}</td>
+<td>${this.escape(f.location)}</td>
+</tr>`;
+    }).join('\n');
+
+    return `<table class="sortable" id="findings-table">
+<thead>
+<tr><th data-type="text">ID</th><th data-type="number">Severity</th><th data-type="text">Type</th><th data-type="text">Title</th><th data-type="text">Location</th></tr>
+</thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  }
+
+  private static renderFindingDetails(findings: SecurityReportFinding[]): string {
+    return findings.map(f => `<article class="finding" id="${this.escape(f.id)}">
+<h3>${this.escape(f.title)} <span class="badge sev-${this.escape((f.severity || '').toLowerCase())}">${this.escape(f.severity)}</span></h3>
+<dl>
+<dt>Type</dt><dd>${this.escape(f.type)}</dd>
+<dt>Location</dt><dd><code>${this.escape(f.location || 'Not specified')}</code></dd>
+<dt>Description</dt><dd>${this.escape(f.description)}</dd>
+<dt>Recommendation</dt><dd>${this.escape(f.recommendation || 'No recommendation provided')}</dd>
+</dl>
+</article>`).join('\n');
+  }
+
+  private static renderRecommendations(recommendations: string[]): string {
+    return `<section id="recommendations">
+<h2>Recommendations</h2>
+<ul>
+${recommendations.map(r => `<li>${this.escape(r)}</li>`).join('\n')}
+</ul>
+</section>`;
+  }
+
+  private static renderValidationErrors(errors: string[]): string {
+    return `<section id="validation">
+<h2>AI Response Validation</h2>
+<ul>
+${errors.map(e => `<li>${this.escape(e)}</li>`).join('\n')}
+</ul>
+</section>`;
+  }
+
+  private static renderRiskAnalysis(riskAnalysis: any): string {
+    const groups = [
+      { label: 'High Risk Items', items: riskAnalysis?.high_risk_items },
+      { label: 'Medium Risk Items', items: riskAnalysis?.medium_risk_items },
+      { label: 'Low Risk Items', items: riskAnalysis?.low_risk_items }
+    ];
+
+    return groups.map(group => {
+      const items: any[] = Array.isArray(group.items) ? group.items : [];
+      const body = items.length > 0
+        ? `<ul>\n${items.map(item => `<li>${this.escape(item)}</li>`).join('\n')}\n</ul>`
+        : '<p>None identified</p>';
+      return `<h3>${group.label}</h3>\n${body}`;
+    }).join('\n');
+  }
+
+  private static styles(): string {
+    const severityRules = Object.entries(this.SEVERITY_COLORS)
+      .map(([severity, color]) => `.sev-${severity} { background: ${color}; color: #fff; }`)
+      .join('\n');
+
+    return `body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0 auto; max-width: 1100px; padding: 24px; color: #1f2937; line-height: 1.5; }
+h1 { margin-bottom: 4px; }
+h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 32px; }
+.meta { color: #6b7280; margin-top: 0; }
+dl.overview { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+.severity-cards { display: flex; gap: 12px; margin-top: 16px; }
+.card { flex: 1; border-radius: 6px; padding: 12px; text-align: center; }
+.card .count { display: block; font-size: 28px; font-weight: 700; }
+.badge { border-radius: 4px; padding: 2px 8px; font-size: 12px; font-weight: 600; }
+table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+th, td { border: 1px solid #e5e7eb; padding: 8px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; cursor: pointer; user-select: none; }
+th[aria-sort="ascending"]::after { content: " \\25B2"; }
+th[aria-sort="descending"]::after { content: " \\25BC"; }
+.finding { border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px 16px; margin: 12px 0; }
+.finding dl { display: grid; grid-template-columns: max-content auto; gap: 4px 16px; }
+code { background: #f3f4f6; padding: 1px 4px; border-radius: 3px; }
+footer { margin-top: 40px; color: #6b7280; font-size: 13px; }
+${severityRules}`;
+  }
+
+  private static sortScript(): string {
+    return `document.querySelectorAll('table.sortable').forEach(function (table) {
+  var headers = table.querySelectorAll('th');
+  headers.forEach(function (th, column) {
+    th.addEventListener('click', function () {
+      var ascending = th.getAttribute('aria-sort') !== 'ascending';
+      headers.forEach(function (h) { h.removeAttribute('aria-sort'); });
+      th.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+      var numeric = th.getAttribute('data-type') === 'number';
+      var tbody = table.tBodies[0];
+      var rows = Array.prototype.slice.call(tbody.rows);
+      rows.sort(function (a, b) {
+        var x = a.cells[column].getAttribute('data-sort') || a.cells[column].textContent;
+        var y = b.cells[column].getAttribute('data-sort') || b.cells[column].textContent;
+        var cmp = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+        return ascending ? cmp : -cmp;
+      });
+      rows.forEach(function (row) { tbody.appendChild(row); });
+    });
+  });
+});`;
+  }
+}
@@ -0,0 +1,205 @@
+import { ChunkFinding } from './chunkProcessor';
+import { SecretDetector } from './secretDetector';
+import { YamlParser } from './yamlParser';
+
+interface PodSpecLocation {
+  kind: string;
+  // Path from the resource root to its pod spec
+  path: string[];
+}
+
+// Workload kinds and where each keeps its pod spec
+const POD_SPEC_PATHS: PodSpecLocation[] = [
+  { kind: 'Pod', path: ['spec'] },
+  { kind: 'Deployment', path: ['spec', 'template', 'spec'] },
+  { kind: 'StatefulSet', path: ['spec', 'template', 'spec'] },
+  { kind: 'DaemonSet', path: ['spec', 'template', 'spec'] },
+  { kind: 'ReplicaSet', path: ['spec', 'template', 'spec'] },
+  { kind: 'ReplicationController', path: ['spec', 'template', 'spec'] },
+  { kind: 'Job', path: ['spec', 'template', 'spec'] },
+  { kind: 'CronJob', path: ['spec', 'jobTemplate', 'spec', 'template', 'spec'] },
+  { kind: 'PodTemplate', path: ['template', 'spec'] }
+];
+
+const CONTAINER_GROUPS = ['initContainers', 'containers', 'ephemeralContainers'];
+const HOST_NAMESPACE_FIELDS = ['hostNetwork', 'hostPID', 'hostIPC'];
+
+export class KubernetesManifestAnalyzer {
+  /**
+   * Whether a YAML file looks like a Kubernetes manifest or Helm template
+   */
+  static isManifest(content: string): boolean {
+    return /^\s*apiVersion\s*:/m.test(content) && /^\s*kind\s*:/m.test(content);
+  }
+
+  /**
+   * Check every workload in a manifest and report findings with the resource name and line number
+   */
+  static analyze(content: string, filePath: string): ChunkFinding[] {
+    let documents;
+    try {
+      documents = YamlParser.parseDocuments(this.stripTemplateDirectives(content));
+    } catch (error) {
+      console.warn(`⚠️ Could not parse manifest ${filePath}:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+
+    const findings: ChunkFinding[] = [];
+    for (const document of documents) {
+      for (const resource of this.expandLists(document.value)) {
+        findings.push(...this.analyzeResource(resource, filePath));
+      }
+    }
+    return findings;
+  }
+
+  private static analyzeResource(resource: any, filePath: string): ChunkFinding[] {
+    const location = POD_SPEC_PATHS.find(l => l.kind === resource.kind);
+    if (!location) return [];
+
+    const podSpec = location.path.reduce((node: any, key) => node?.[key], resource);
+    if (!podSpec || typeof podSpec !== 'object') return [];
+
+    const name = resource.metadata?.name || '<unnamed>';
+    const namespace = resource.metadata?.namespace;
+    const resourceName = `${resource.kind}/${namespace ? `${namespace}/` : ''}${name}`;
+
+    const findings: ChunkFinding[] = [];
+    const finding = (
+      ruleId: string,
+      severity: ChunkFinding['severity'],
+      title: string,
+      description: string,
+      lineNumber: number | undefined,
+      recommendation: string
+    ): ChunkFinding => ({
+      type: 'security',
+      severity,
+      title,
+      description: `${description} in ${resourceName} (${filePath}${lineNumber ? `:${lineNumber}` : ''})`,
+      filePath,
+      lineNumber,
+      recommendation,
+      ruleId,
+      resource: resourceName
+    });
+
+    for (const field of HOST_NAMESPACE_FIELDS) {
+      if (podSpec[field] === true) {
+        findings.push(finding(
+          'k8s-host-namespace', 'high', `Pod shares the host ${field.slice(4)} namespace`,
+          `${field} is enabled`, YamlParser.lineOf(podSpec, field),
+          `Remove ${field} unless the workload genuinely needs access to the node.`
+        ));
+      }
+    }
+
+    for (const group of CONTAINER_GROUPS) {
+      const containers = podSpec[group];
+      if (!Array.isArray(containers)) continue;
+
+      containers.forEach((container: any, index: number) => {
+        if (!container || typeof container !== 'object') return;
+        const label = `container "${container.name || index}"`;
+        const containerLine = YamlParser.lineOf(containers, index);
+        const securityContext = container.securityContext || {};
+        const contextLine = (key: string) => YamlParser.lineOf(securityContext, key)
+          ?? YamlParser.lineOf(container, 'securityContext')
+          ?? containerLine;
+
+        if (securityContext.privileged === true) {
+          findings.push(finding(
+            'k8s-privileged-container', 'critical', 'Privileged container',
+            `${label} runs privileged with full access to the host`, contextLine('privileged'),
+            'Remove privileged: true and grant only the specific capabilities the container needs.'
+          ));
+        }
+
+        if (securityContext.allowPrivilegeEscalation !== false) {
+          const explicit = securityContext.allowPrivilegeEscalation === true;
+          findings.push(finding(
+            'k8s-allow-privilege-escalation', explicit ? 'high' : 'medium', 'Privilege escalation allowed',
+            `${label} ${explicit ? 'sets' : 'does not disable'} allowPrivilegeEscalation`,
+            contextLine('allowPrivilegeEscalation'),
+            'Set securityContext.allowPrivilegeEscalation: false.'
+          ));
+        }
+
+        if (securityContext.readOnlyRootFilesystem !== true) {
+          findings.push(finding(
+            'k8s-writable-root-filesystem', 'low', 'Writable root filesystem',
+            `${label} can write to its root filesystem`, contextLine('readOnlyRootFilesystem'),
+            'Set securityContext.readOnlyRootFilesystem: true and mount writable volumes only where needed.'
+          ));
+        }
+
+        const limits = container.resources?.limits || {};
+        const missingLimits = ['cpu', 'memory'].filter(limit => limits[limit] === undefined || limits[limit] === null);
+        if (group !== 'ephemeralContainers' && missingLimits.length > 0) {
+          findings.push(finding(
+            'k8s-missing-resource-limits', 'medium', 'Missing resource limits',
+            `${label} has no ${missingLimits.join(' or ')} limit`,
+            YamlParser.lineOf(container, 'resources') ?? containerLine,
+            'Set resources.limits for cpu and memory so one workload cannot exhaust the node.'
+          ));
+        }
+
+        if (typeof container.image === 'string' && this.isUnpinnedImage(container.image)) {
+          findings.push(finding(
+            'k8s-latest-image', 'medium', 'Image uses the latest tag',
+            `${label} uses image ${container.image} without a fixed version`,
+            YamlParser.lineOf(container, 'image'),
+            'Pin the image to a specific version tag, ideally with an @sha256 digest.'
+          ));
+        }
+
+        if (Array.isArray(container.env)) {
+          container.env.forEach((variable: any, envIndex: number) => {
+            if (!variable?.name || typeof variable.value !== 'string' || !variable.value) return;
+            if (/^\$\(|\{\{/.test(variable.value)) return;
+
+            const knownFormat = SecretDetector.scan(variable.value)[0];
+            if (!SecretDetector.isSecretName(variable.name) && !knownFormat) return;
+
+            findings.push(finding(
+              'k8s-secret-in-env', knownFormat ? 'critical' : 'high', 'Secret in plain environment value',
+              `${label} sets ${variable.name}=${SecretDetector.mask(variable.value)} as a literal value`,
+              YamlParser.lineOf(variable, 'value') ?? YamlParser.lineOf(container.env, envIndex),
+              'Store the value in a Secret and reference it with valueFrom.secretKeyRef.'
+            ));
+          });
+        }
+      });
+    }
+
+    return findings;
+  }
+
+  private static isUnpinnedImage(image: string): boolean {
+    // Templated images are resolved at render time
+    if (image.includes('{{') || image.includes('$')) return false;
+    if (image.includes('@sha256:')) return false;
+
+    const lastSegment = image.split('/').pop() || image;
+    if (!lastSegment.includes(':')) return true;
+    return lastSegment.split(':').pop() === 'latest';
+  }
+
+  private static expandLists(value: any): any[] {
+    if (!value || typeof value !== 'object') return [];
+    if (value.kind === 'List' || /List$/.test(value.kind || '')) {
+      return Array.isArray(value.items) ? value.items.flatMap((item: any) => this.expandLists(item)) : [];
+    }
+    return [value];
+  }
+
+  /**
+   * Blank out Helm control lines ({{- if }}, {{ end }}, ...) so templates parse as YAML, keeping line numbers
+   */
+  private static stripTemplateDirectives(content: string): string {
+    return content
+      .split('\n')
+      .map(line => (/^\s*\{\{.*\}\}\s*$/.test(line) ? '' : line))
+      .join('\n');
+  }
+}
@@ -0,0 +1,596 @@
+import { SecurityFile } from './securityFileFilter';
+
+// Ecosystem names follow the OSV schema so inventories can be matched against advisories
+export type DependencyEcosystem = 'npm' | 'PyPI' | 'Go' | 'crates.io' | 'RubyGems' | 'Packagist';
+
+export interface DependencyPackage {
+  name: string;
+  version: string;
+  ecosystem: DependencyEcosystem;
+  // Undefined when the lockfile does not record which packages are direct
+  direct?: boolean;
+  dev?: boolean;
+  sourceFile: string;
+  // The version is the requirement a manifest declares, because no lockfile resolved it
+  declared?: boolean;
+}
+
+export interface ManifestDependencies {
+  ecosystem: DependencyEcosystem;
+  names: Set<string>;
+  // Requirements with a registry version, as declared by the manifest
+  packages: DependencyPackage[];
+}
+
+export interface InventoryOptions {
+  // Inventory the declared requirements of manifests that have no lockfile next to them
+  manifestFallback?: boolean;
+}
+
+export interface DependencyInventory {
+  packages: DependencyPackage[];
+  files: string[];
+  errors: { file: string; error: string }[];
+  totals: {
+    packages: number;
+    direct: number;
+    transitive: number;
+    byEcosystem: Partial<Record<DependencyEcosystem, number>>;
+  };
+}
+
+const PNPM_DEPENDENCY_GROUPS = ['dependencies', 'devDependencies', 'optionalDependencies'];
+
+type LockfileFormat = (content: string, sourceFile: string) => DependencyPackage[];
+
+export class LockfileParser {
+  private static readonly PARSERS: Record<string, LockfileFormat> = {
+    'package-lock.json': (c, f) => LockfileParser.parsePackageLock(c, f),
+    'pnpm-lock.yaml': (c, f) => LockfileParser.parsePnpmLock(c, f),
+    'yarn.lock': (c, f) => LockfileParser.parseYarnLock(c, f),
+    'requirements.txt': (c, f) => LockfileParser.parseRequirements(c, f),
+    'poetry.lock': (c, f) => LockfileParser.parsePoetryLock(c, f),
+    'go.sum': (c, f) => LockfileParser.parseGoSum(c, f),
+    'Cargo.lock': (c, f) => LockfileParser.parseCargoLock(c, f),
+    'Gemfile.lock': (c, f) => LockfileParser.parseGemfileLock(c, f),
+    'composer.lock': (c, f) => LockfileParser.parseComposerLock(c, f)
+  };
+
+  /**
+   * Check whether a path names a supported lockfile
+   */
+  static canParse(filePath: string): boolean {
+    return this.fileName(filePath) in this.PARSERS;
+  }
+
+  /**
+   * Parse a lockfile into packages; throws when the content is malformed
+   */
+  static parse(filePath: string, content: string): DependencyPackage[] {
+    const parser = this.PARSERS[this.fileName(filePath)];
+    if (!parser) {
+      throw new Error(`Unsupported lockfile: ${filePath}`);
+    }
+    return this.dedupe(parser(content, filePath));
+  }
+
+  /**
+   * Build a normalized inventory from every fetched lockfile
+   */
+  static buildInventory(files: SecurityFile[], options: InventoryOptions = {}): DependencyInventory {
+    const packages: DependencyPackage[] = [];
+    const parsedFiles: string[] = [];
+    const errors: { file: string; error: string }[] = [];
+
+    for (const file of files) {
+      if (file.content === undefined || !this.canParse(file.path)) continue;
+
+      try {
+        packages.push(...this.parse(file.path, file.content));
+        parsedFiles.push(file.path);
+      } catch (error) {
+        errors.push({ file: file.path, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    // Lockfiles that do not record direct dependencies learn them from the manifest next to them
+    const manifestPackages: DependencyPackage[] = [];
+    for (const file of files) {
+      if (file.content === undefined) continue;
+
+      let manifest: ManifestDependencies | null = null;
+      try {
+        manifest = this.parseManifest(file.path, file.content);
+      } catch (error) {
+        errors.push({ file: file.path, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      if (!manifest) continue;
+
+      const directory = this.directoryName(file.path);
+      const resolved = packages.filter(pkg => pkg.ecosystem === manifest!.ecosystem && this.directoryName(pkg.sourceFile) === directory);
+      for (const pkg of resolved) {
+        if (pkg.direct === undefined) {
+          pkg.direct = manifest.names.has(pkg.name);
+        }
+      }
+
+      if (options.manifestFallback && resolved.length === 0 && manifest.packages.length > 0) {
+        manifestPackages.push(...manifest.packages);
+        parsedFiles.push(file.path);
+      }
+    }
+    packages.push(...manifestPackages);
+
+    return { packages, files: parsedFiles, errors, totals: this.totals(packages) };
+  }
+
+  /**
+   * Read the direct dependencies declared by a manifest (package.json, go.mod, composer.json,
+   * Cargo.toml); returns null for other files
+   */
+  static parseManifest(filePath: string, content: string): ManifestDependencies | null {
+    const requirements: { name: string; version?: string; dev: boolean }[] = [];
+    let ecosystem: DependencyEcosystem;
+
+    switch (this.fileName(filePath)) {
+      case 'package.json': {
+        const manifest = JSON.parse(content);
+        ecosystem = 'npm';
+        for (const group of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+          for (const [name, version] of Object.entries<any>(manifest[group] || {})) {
+            requirements.push({ name, version, dev: group === 'devDependencies' });
+          }
+        }
+        break;
+      }
+      case 'composer.json': {
+        const manifest = JSON.parse(content);
+        ecosystem = 'Packagist';
+        for (const group of ['require', 'require-dev']) {
+          for (const [name, version] of Object.entries<any>(manifest[group] || {})) {
+            // Platform requirements are not installable packages
+            if (name === 'php' || name.startsWith('ext-') || name.startsWith('lib-')) continue;
+            requirements.push({ name, version, dev: group === 'require-dev' });
+          }
+        }
+        break;
+      }
+      case 'go.mod': {
+        ecosystem = 'Go';
+        let inRequireBlock = false;
+        for (const rawLine of content.split(/\r?\n/)) {
+          const line = rawLine.trim();
+          if (line.startsWith('require (') || (inRequireBlock && line === ')')) {
+            inRequireBlock = !inRequireBlock;
+            continue;
+          }
+
+          const requirement = inRequireBlock ? line : line.startsWith('require ') ? line.slice(8).trim() : '';
+          if (requirement && !requirement.startsWith('//') && !requirement.includes('// indirect')) {
+            const [name, version] = requirement.split(/\s+/);
+            requirements.push({ name, version, dev: false });
+          }
+        }
+        break;
+      }
+      case 'Cargo.toml': {
+        ecosystem = 'crates.io';
+        let inDependencyTable = false;
+        let dev = false;
+        // Requirement declared by a [dependencies.name] table, whose version follows on its own line
+        let tableRequirement: { name: string; version?: string; dev: boolean } | null = null;
+        for (const rawLine of content.split(/\r?\n/)) {
+          const line = rawLine.trim();
+          const table = line.match(/^\[(.+)\]$/);
+          if (table) {
+            // [dependencies], [dev-dependencies], [target.'cfg(unix)'.dependencies] or [dependencies.serde]
+            const dottedDependency = table[1].match(/(?:^|\.)(dev-|build-)?dependencies\.([A-Za-z0-9_-]+)$/);
+            const dependencyTable = table[1].match(/(?:^|\.)(dev-|build-)?dependencies$/);
+            dev = (dottedDependency || dependencyTable)?.[1] === 'dev-';
+            tableRequirement = dottedDependency ? { name: dottedDependency[2], dev } : null;
+            if (tableRequirement) requirements.push(tableRequirement);
+            inDependencyTable = Boolean(dependencyTable);
+            continue;
+          }
+
+          const tableVersion = tableRequirement && line.match(/^version\s*=\s*["']([^"']+)["']/);
+          if (tableRequirement && tableVersion) {
+            tableRequirement.version = tableVersion[1];
+            continue;
+          }
+          const key = inDependencyTable && line.match(/^([A-Za-z0-9_-]+)\s*=\s*(.*)$/);
+          if (key) {
+            // serde = "1" or serde = { version = "1", features = [...] }
+            const version = key[2].match(/^["']([^"']+)["']/) || key[2].match(/\bversion\s*=\s*["']([^"']+)["']/);
+            requirements.push({ name: key[1], version: version?.[1], dev });
+          }
+        }
+        break;
+      }
+      default:
+        return null;
+    }
+
+    return {
+      ecosystem,
+      names: new Set(requirements.map(requirement => requirement.name)),
+      packages: requirements
+        // Workspace, path, git and URL requirements have no registry version
+        .filter(requirement => typeof requirement.version === 'string' && /^[^:/\s]+(?:\s+[^:/\s]+)*$/.test(requirement.version))
+        .map(requirement => ({
+          name: requirement.name,
+          version: requirement.version!,
+          ecosystem,
+          direct: true,
+          dev: requirement.dev,
+          sourceFile: filePath,
+          declared: true
+        }))
+    };
+  }
+
+  /**
+   * Count packages overall, by directness and by ecosystem
+   */
+  static totals(packages: DependencyPackage[]): DependencyInventory['totals'] {
+    const byEcosystem: Partial<Record<DependencyEcosystem, number>> = {};
+    for (const pkg of packages) {
+      byEcosystem[pkg.ecosystem] = (byEcosystem[pkg.ecosystem] || 0) + 1;
+    }
+
+    return {
+      packages: packages.length,
+      direct: packages.filter(p => p.direct === true).length,
+      transitive: packages.filter(p => p.direct === false).length,
+      byEcosystem
+    };
+  }
+
+  /**
+   * package-lock.json: lockfileVersion 2/3 "packages" map, falling back to the v1 nested "dependencies" tree
+   */
+  static parsePackageLock(content: string, sourceFile: string): DependencyPackage[] {
+    const lock = JSON.parse(content);
+    const packages: DependencyPackage[] = [];
+
+    if (lock.packages && typeof lock.packages === 'object') {
+      const root = lock.packages[''] || {};
+      const directNames = new Set([
+        ...Object.keys(root.dependencies || {}),
+        ...Object.keys(root.devDependencies || {}),
+        ...Object.keys(root.optionalDependencies || {})
+      ]);
+
+      for (const [key, entry] of Object.entries<any>(lock.packages)) {
+        if (!key.includes('node_modules/') || !entry?.version || entry.link) continue;
+
+        const segments = key.split('node_modules/');
+        const name = entry.name || segments[segments.length - 1].replace(/\/$/, '');
+        const topLevel = segments.length === 2 && segments[0] === '';
+        packages.push({
+          name,
+          version: entry.version,
+          ecosystem: 'npm',
+          direct: topLevel && directNames.has(name),
+          dev: entry.dev === true,
+          sourceFile
+        });
+      }
+      return packages;
+    }
+
+    // lockfileVersion 1 has no root manifest, so a top-level entry nothing else requires is treated as direct
+    const required = new Set<string>();
+    const collectRequires = (deps: Record<string, any>) => {
+      for (const entry of Object.values<any>(deps)) {
+        Object.keys(entry?.requires || {}).forEach(name => required.add(name));
+        if (entry?.dependencies) collectRequires(entry.dependencies);
+      }
+    };
+    const walk = (deps: Record<string, any>, depth: number) => {
+      for (const [name, entry] of Object.entries<any>(deps)) {
+        if (entry?.version && !String(entry.version).startsWith('file:')) {
+          packages.push({
+            name,
+            version: entry.version,
+            ecosystem: 'npm',
+            direct: depth === 0 && !required.has(name),
+            dev: entry.dev === true,
+            sourceFile
+          });
+        }
+        if (entry?.dependencies) walk(entry.dependencies, depth + 1);
+      }
+    };
+
+    const dependencies = lock.dependencies || {};
+    collectRequires(dependencies);
+    walk(dependencies, 0);
+    return packages;
+  }
+
+  /**
+   * pnpm-lock.yaml: package keys (v5 "/name/1.0.0", v6 "/name@1.0.0", v9 "name@1.0.0") plus importer dependencies
+   */
+  static parsePnpmLock(content: string, sourceFile: string): DependencyPackage[] {
+    const directNames = new Set<string>();
+    const devNames = new Set<string>();
+    const keys: string[] = [];
+
+    let section = '';
+    let importerGroup = '';
+    for (const rawLine of content.split(/\r?\n/)) {
+      if (!rawLine.trim() || rawLine.trimStart().startsWith('#')) continue;
+      const indent = rawLine.length - rawLine.trimStart().length;
+      const line = rawLine.trim();
+
+      if (indent === 0) {
+        section = line.replace(/:.*$/, '');
+        importerGroup = '';
+        continue;
+      }
+
+      if (section === 'packages' && indent === 2 && line.endsWith(':')) {
+        keys.push(this.unquote(line.slice(0, -1)));
+      } else if (section === 'importers') {
+        // Every workspace importer declares direct dependencies of the repository
+        if (indent === 2) importerGroup = '';
+        else if (indent === 4) importerGroup = line.replace(/:$/, '');
+        else if (indent === 6 && PNPM_DEPENDENCY_GROUPS.includes(importerGroup)) {
+          const name = this.pnpmEntryName(line);
+          directNames.add(name);
+          if (importerGroup === 'devDependencies') devNames.add(name);
+        }
+      } else if (PNPM_DEPENDENCY_GROUPS.includes(section) && indent === 2) {
+        const name = this.pnpmEntryName(line);
+        directNames.add(name);
+        if (section === 'devDependencies') devNames.add(name);
+      }
+    }
+
+    const packages: DependencyPackage[] = [];
+    for (const key of keys) {
+      const parsed = this.parsePnpmKey(key);
+      if (!parsed) continue;
+      packages.push({
+        ...parsed,
+        ecosystem: 'npm',
+        direct: directNames.has(parsed.name),
+        dev: devNames.has(parsed.name),
+        sourceFile
+      });
+    }
+    return packages;
+  }
+
+  /**
+   * yarn.lock: classic (v1) and Berry entries, keyed by one or more "name@range" descriptors
+   */
+  static parseYarnLock(content: string, sourceFile: string): DependencyPackage[] {
+    const packages: DependencyPackage[] = [];
+    let currentName: string | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      if (!rawLine.trim() || rawLine.startsWith('#')) continue;
+
+      if (!rawLine.startsWith(' ')) {
+        const descriptor = this.unquote(rawLine.replace(/:$/, '').split(',')[0].trim());
+        currentName = descriptor === '__metadata' || descriptor.includes('@workspace:') || descriptor.includes('@link:')
+          ? null
+          : this.splitNameAndRange(descriptor).name;
+        continue;
+      }
+
+      const versionMatch = rawLine.match(/^\s{2}version:?\s+"?([^"\s]+)"?/);
+      if (currentName && versionMatch) {
+        packages.push({ name: currentName, version: versionMatch[1], ecosystem: 'npm', sourceFile });
+        currentName = null;
+      }
+    }
+
+    return packages;
+  }
+
+  /**
+   * requirements.txt: only exact pins (== / ===) resolve to a version; every listed requirement is direct
+   */
+  static parseRequirements(content: string, sourceFile: string): DependencyPackage[] {
+    const packages: DependencyPackage[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/\s+#.*$/, '').replace(/^#.*$/, '').trim();
+      if (!line || line.startsWith('-') || line.includes('://')) continue;
+
+      const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*===?\s*([^\s;,\\]+)/);
+      if (match) {
+        packages.push({
+          name: this.normalizePythonName(match[1]),
+          version: match[2],
+          ecosystem: 'PyPI',
+          direct: true,
+          sourceFile
+        });
+      }
+    }
+
+    return packages;
+  }
+
+  /**
+   * poetry.lock: TOML [[package]] tables
+   */
+  static parsePoetryLock(content: string, sourceFile: string): DependencyPackage[] {
+    return this.parseTomlPackageTables(content).map(table => ({
+      name: this.normalizePythonName(table.name),
+      version: table.version,
+      ecosystem: 'PyPI' as const,
+      ...(table.category && { dev: table.category === 'dev' }),
+      sourceFile
+    }));
+  }
+
+  /**
+   * go.sum: "module version hash" lines, with go.mod-only hashes folded into the module version
+   */
+  static parseGoSum(content: string, sourceFile: string): DependencyPackage[] {
+    const packages: DependencyPackage[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const [module, version] = line.trim().split(/\s+/);
+      if (!module || !version) continue;
+      packages.push({
+        name: module,
+        version: version.replace(/\/go\.mod$/, ''),
+        ecosystem: 'Go',
+        sourceFile
+      });
+    }
+
+    return packages;
+  }
+
+  /**
+   * Cargo.lock: TOML [[package]] tables; entries without a source are workspace crates
+   */
+  static parseCargoLock(content: string, sourceFile: string): DependencyPackage[] {
+    return this.parseTomlPackageTables(content)
+      .filter(table => table.source)
+      .map(table => ({
+        name: table.name,
+        version: table.version,
+        ecosystem: 'crates.io' as const,
+        sourceFile
+      }));
+  }
+
+  /**
+   * Gemfile.lock: specs under GEM/GIT/PATH, with DEPENDENCIES naming the direct gems
+   */
+  static parseGemfileLock(content: string, sourceFile: string): DependencyPackage[] {
+    const specs: { name: string; version: string }[] = [];
+    const directNames = new Set<string>();
+    let section = '';
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      if (!rawLine.trim()) continue;
+      if (!rawLine.startsWith(' ')) {
+        section = rawLine.trim();
+        continue;
+      }
+
+      const indent = rawLine.length - rawLine.trimStart().length;
+      const line = rawLine.trim();
+
+      if (['GEM', 'GIT', 'PATH'].includes(section) && indent === 4) {
+        const match = line.match(/^(\S+) \(([^)]+)\)$/);
+        if (match) {
+          // Platform-specific gems carry the platform after the version, e.g. 1.15.4-x86_64-linux
+          specs.push({ name: match[1], version: match[2].replace(/-(?:x86|x64|arm|aarch|universal|java|mingw|mswin|darwin|linux).*$/, '') });
+        }
+      } else if (section === 'DEPENDENCIES' && indent === 2) {
+        directNames.add(line.split(/[\s!]/)[0]);
+      }
+    }
+
+    return specs.map(spec => ({
+      ...spec,
+      ecosystem: 'RubyGems' as const,
+      direct: directNames.has(spec.name),
+      sourceFile
+    }));
+  }
+
+  /**
+   * composer.lock: "packages" and "packages-dev" arrays
+   */
+  static parseComposerLock(content: string, sourceFile: string): DependencyPackage[] {
+    const lock = JSON.parse(content);
+    const toPackage = (entry: any, dev: boolean): DependencyPackage | null => {
+      if (!entry?.name || !entry?.version) return null;
+      return { name: entry.name, version: String(entry.version), ecosystem: 'Packagist', dev, sourceFile };
+    };
+
+    return [
+      ...(lock.packages || []).map((entry: any) => toPackage(entry, false)),
+      ...(lock['packages-dev'] || []).map((entry: any) => toPackage(entry, true))
+    ].filter((pkg): pkg is DependencyPackage => pkg !== null);
+  }
+
+  /**
+   * PEP 503 normalized project name
+   */
+  static normalizePythonName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+
+  private static parseTomlPackageTables(content: string): Record<string, string>[] {
+    const tables: Record<string, string>[] = [];
+    let current: Record<string, string> | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (line.startsWith('[')) {
+        current = line === '[[package]]' ? {} : null;
+        if (current) tables.push(current);
+        continue;
+      }
+
+      const match = current && line.match(/^([A-Za-z0-9_-]+)\s*=\s*"([^"]*)"/);
+      if (current && match) current[match[1]] = match[2];
+    }
+
+    return tables.filter(table => table.name && table.version);
+  }
+
+  private static parsePnpmKey(key: string): { name: string; version: string } | null {
+    // Drop the leading slash and peer dependency suffixes: "(react@18.2.0)" (v6+) or "_react@18.2.0" (v5)
+    const cleaned = key.replace(/^\//, '').replace(/\(.*$/, '');
+
+    const slashForm = cleaned.match(/^((?:@[^/]+\/)?[^/@]+)\/([^/]+)$/);
+    if (slashForm) {
+      return { name: slashForm[1], version: slashForm[2].replace(/_.*$/, '') };
+    }
+
+    const at = cleaned.lastIndexOf('@');
+    if (at <= 0) return null;
+    return { name: cleaned.slice(0, at), version: cleaned.slice(at + 1) };
+  }
+
+  private static pnpmEntryName(line: string): string {
+    return this.unquote(line.replace(/:(\s.*)?$/, ''));
+  }
+
+  private static splitNameAndRange(descriptor: string): { name: string; range: string } {
+    const at = descriptor.indexOf('@', 1);
+    return at === -1
+      ? { name: descriptor, range: '' }
+      : { name: descriptor.slice(0, at), range: descriptor.slice(at + 1) };
+  }
+
+  private static unquote(value: string): string {
+    return value.replace(/^['"]|['"]$/g, '');
+  }
+
+  private static dedupe(packages: DependencyPackage[]): DependencyPackage[] {
+    const seen = new Map<string, DependencyPackage>();
+    for (const pkg of packages) {
+      const key = `${pkg.ecosystem}:${pkg.name}@${pkg.version}`;
+      const existing = seen.get(key);
+      if (!existing) {
+        seen.set(key, pkg);
+      } else if (pkg.direct) {
+        existing.direct = true;
+      }
+    }
+    return Array.from(seen.values());
+  }
+
+  private static directoryName(filePath: string): string {
+    const slash = filePath.lastIndexOf('/');
+    return slash === -1 ? '' : filePath.slice(0, slash);
+  }
+
+  private static fileName(filePath: string): string {
+    return filePath.split('/').pop() || filePath;
+  }
+}
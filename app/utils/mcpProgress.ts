@@ -0,0 +1,83 @@
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { StreamingCallbacks } from './streamingAnalyzer';
+
+// The parts of an MCP tool call's request context needed to report progress
+export interface ProgressRequestContext {
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+export class McpProgressNotifier {
+  private progressToken: string | number;
+  private sendNotification: ProgressRequestContext['sendNotification'];
+  private progress = 0;
+  // Highest total sent so far; repositories scanned side by side would otherwise make it jump back
+  private total = 0;
+  // AI chunks each analysis still waits for, keyed by its callbacks
+  private remainingAIChunks = new Map<StreamingCallbacks, number>();
+
+  constructor(progressToken: string | number, sendNotification: ProgressRequestContext['sendNotification']) {
+    this.progressToken = progressToken;
+    this.sendNotification = sendNotification;
+  }
+
+  /**
+   * Notifier for a tool call, or null when the client did not send a progress token
+   */
+  static fromRequest(context: ProgressRequestContext): McpProgressNotifier | null {
+    const progressToken = context._meta?.progressToken;
+    return progressToken === undefined ? null : new McpProgressNotifier(progressToken, context.sendNotification);
+  }
+
+  /**
+   * Send the next progress step; a failed notification is logged and never interrupts the scan.
+   * A total is raised to the progress and to any total sent before, so it never goes down.
+   */
+  notify(message: string, total?: number): void {
+    this.progress++;
+    if (total !== undefined) {
+      this.total = Math.max(this.total, total, this.progress);
+    }
+    this.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress: this.progress,
+        ...(total !== undefined && { total: this.total }),
+        message
+      }
+    }).catch(error => {
+      console.warn(`⚠️ Could not send progress notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+
+  /**
+   * Analysis callbacks that send a step when each chunk starts and completes the local pass, and when its AI analysis is done.
+   * Only AI steps carry a total: the steps sent so far plus the chunks every analysis still waits on.
+   */
+  streamingCallbacks(repository: string): StreamingCallbacks {
+    let totalChunks = 0;
+    let completedChunks = 0;
+
+    const callbacks: StreamingCallbacks = {
+      onProgress: progress => {
+        totalChunks = progress.totalChunks;
+        this.notify(`${repository}: analyzing ${progress.currentChunkType} chunk ${progress.currentChunk}/${progress.totalChunks}`);
+      },
+      onChunkComplete: result => {
+        completedChunks++;
+        this.notify(`${repository}: ${result.chunkType} chunk done with ${result.findings.length} findings (${completedChunks}/${totalChunks})`);
+      },
+      onAIChunkComplete: progress => {
+        const outcome = progress.failed ? 'failed' : 'done';
+        this.remainingAIChunks.set(callbacks, progress.total - progress.completed);
+        const remaining = Array.from(this.remainingAIChunks.values()).reduce((sum, count) => sum + count, 0);
+        this.notify(
+          `${repository}: AI analysis of ${progress.chunkType} chunk ${outcome} (${progress.completed}/${progress.total})`,
+          this.progress + 1 + remaining
+        );
+      }
+    };
+    return callbacks;
+  }
+}
@@ -0,0 +1,275 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+import { ChunkFinding } from './chunkProcessor';
+import { DependencyEcosystem, DependencyPackage, LockfileParser } from './lockfileParser';
+import { OsvRange, formatRange, matchRange } from './versionRange';
+
+export interface OsvAffected {
+  package: { ecosystem: string; name: string; purl?: string };
+  ranges?: OsvRange[];
+  versions?: string[];
+}
+
+// Subset of the OSV schema (https://ossf.github.io/osv-schema/) used for matching
+export interface OsvAdvisory {
+  id: string;
+  summary?: string;
+  details?: string;
+  aliases?: string[];
+  modified?: string;
+  published?: string;
+  withdrawn?: string;
+  affected?: OsvAffected[];
+  database_specific?: { severity?: string; [key: string]: unknown };
+  references?: { type: string; url: string }[];
+}
+
+export interface VulnerabilityMatch {
+  advisory: OsvAdvisory;
+  package: DependencyPackage;
+  affectedRange: string;
+  fixedVersion?: string;
+  severity: ChunkFinding['severity'];
+}
+
+const SUPPORTED_ECOSYSTEMS: DependencyEcosystem[] = ['npm', 'PyPI', 'Go', 'crates.io', 'RubyGems', 'Packagist'];
+
+const ADVISORY_SEVERITY: Record<string, ChunkFinding['severity']> = {
+  CRITICAL: 'critical',
+  HIGH: 'high',
+  MODERATE: 'medium',
+  MEDIUM: 'medium',
+  LOW: 'low'
+};
+
+export class OsvDatabase {
+  private advisories = new Map<string, OsvAdvisory[]>();
+  private count = 0;
+
+  constructor(advisories: OsvAdvisory[] = []) {
+    advisories.forEach(advisory => this.add(advisory));
+  }
+
+  /**
+   * Number of advisories indexed
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Index an advisory under every supported package it affects
+   */
+  add(advisory: OsvAdvisory): void {
+    if (!advisory?.id || advisory.withdrawn) return;
+
+    const keys = new Set<string>();
+    for (const affected of advisory.affected || []) {
+      const ecosystem = affected.package?.ecosystem?.split(':')[0] as DependencyEcosystem;
+      if (!SUPPORTED_ECOSYSTEMS.includes(ecosystem) || !affected.package.name) continue;
+      keys.add(OsvDatabase.key(ecosystem, affected.package.name));
+    }
+
+    for (const key of keys) {
+      const list = this.advisories.get(key) || [];
+      list.push(advisory);
+      this.advisories.set(key, list);
+    }
+    if (keys.size > 0) this.count++;
+  }
+
+  /**
+   * Find advisories whose affected ranges or versions include the package version
+   */
+  match(pkg: DependencyPackage): VulnerabilityMatch[] {
+    const matches: VulnerabilityMatch[] = [];
+
+    for (const advisory of this.advisories.get(OsvDatabase.key(pkg.ecosystem, pkg.name)) || []) {
+      const affectedEntries = (advisory.affected || []).filter(affected =>
+        affected.package.ecosystem.split(':')[0] === pkg.ecosystem &&
+        OsvDatabase.key(pkg.ecosystem, affected.package.name) === OsvDatabase.key(pkg.ecosystem, pkg.name)
+      );
+
+      for (const affected of affectedEntries) {
+        const rangeMatch = (affected.ranges || [])
+          .map(range => matchRange(pkg.ecosystem, pkg.version, range))
+          .find(result => result !== null);
+
+        if (rangeMatch) {
+          matches.push({
+            advisory,
+            package: pkg,
+            affectedRange: formatRange(rangeMatch),
+            ...(rangeMatch.fixed && { fixedVersion: rangeMatch.fixed }),
+            severity: OsvDatabase.severityOf(advisory)
+          });
+          break;
+        }
+
+        if (affected.versions?.includes(pkg.version)) {
+          matches.push({ advisory, package: pkg, affectedRange: `=${pkg.version}`, severity: OsvDatabase.severityOf(advisory) });
+          break;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Match every package of an inventory
+   */
+  matchAll(packages: DependencyPackage[]): VulnerabilityMatch[] {
+    return packages.flatMap(pkg => this.match(pkg));
+  }
+
+  /**
+   * Load a snapshot from a directory of OSV JSON files and/or zip archives (such as
+   * the per-ecosystem all.zip exports), a single zip archive, or a JSON file
+   */
+  static async load(snapshotPath: string): Promise<OsvDatabase> {
+    const database = new OsvDatabase();
+    const stat = await fs.stat(snapshotPath);
+
+    const files = stat.isDirectory() ? await this.listFiles(snapshotPath) : [snapshotPath];
+    for (const file of files) {
+      if (file.endsWith('.zip')) {
+        this.parseZip(await fs.readFile(file)).forEach(advisory => database.add(advisory));
+      } else if (file.endsWith('.json')) {
+        this.parseJson(await fs.readFile(file, 'utf8'), file).forEach(advisory => database.add(advisory));
+      }
+    }
+
+    console.log(`🛡️ Loaded ${database.size} OSV advisories from ${snapshotPath}`);
+    return database;
+  }
+
+  /**
+   * Read every .json entry of a zip archive (stored or deflated entries)
+   */
+  static parseZip(buffer: Buffer): OsvAdvisory[] {
+    const endOfCentralDirectory = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (endOfCentralDirectory === -1) {
+      throw new Error('Invalid zip archive: end of central directory not found');
+    }
+
+    const entryCount = buffer.readUInt16LE(endOfCentralDirectory + 10);
+    let offset = buffer.readUInt32LE(endOfCentralDirectory + 16);
+    if (offset === 0xffffffff) {
+      throw new Error('Zip64 archives are not supported');
+    }
+
+    const advisories: OsvAdvisory[] = [];
+    for (let i = 0; i < entryCount; i++) {
+      if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+        throw new Error('Invalid zip archive: corrupt central directory');
+      }
+
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localHeader = buffer.readUInt32LE(offset + 42);
+      const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (!name.endsWith('.json')) continue;
+
+      const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method !== 0 && method !== 8) {
+        console.warn(`⚠️ Skipping ${name}: unsupported zip compression method ${method}`);
+        continue;
+      }
+
+      const content = (method === 8 ? inflateRawSync(data) : data).toString('utf8');
+      advisories.push(...this.parseJson(content, name));
+    }
+
+    return advisories;
+  }
+
+  /**
+   * Map the advisory's database severity (GitHub advisory levels) to a finding severity
+   */
+  static severityOf(advisory: OsvAdvisory): ChunkFinding['severity'] {
+    const level = String(advisory.database_specific?.severity || '').toUpperCase();
+    return ADVISORY_SEVERITY[level] || 'medium';
+  }
+
+  /**
+   * Turn a match into a chunk finding carrying the advisory ids, affected range and fix
+   */
+  static toFinding(match: VulnerabilityMatch): ChunkFinding {
+    const { advisory, package: pkg, affectedRange, fixedVersion } = match;
+    const aliases = advisory.aliases || [];
+    const cve = aliases.find(alias => alias.startsWith('CVE-'));
+    const ids = [advisory.id, ...aliases.filter(alias => alias !== advisory.id)];
+    const summary = advisory.summary || advisory.details?.split('\n')[0] || 'Known vulnerability';
+
+    return {
+      type: 'vulnerability',
+      severity: match.severity,
+      title: `${pkg.name}@${pkg.version} is affected by ${cve || advisory.id}`,
+      description: `${summary} (${ids.join(', ')}). Affected versions: ${affectedRange}. ` +
+        (fixedVersion ? `Fixed in ${fixedVersion}.` : 'No fixed version is available.'),
+      filePath: pkg.sourceFile,
+      recommendation: fixedVersion
+        ? `Upgrade ${pkg.name} to ${fixedVersion} or later.`
+        : `No fix has been released for ${pkg.name}; consider removing it or mitigating ${advisory.id}.`,
+      ruleId: advisory.id,
+      vulnerability: {
+        id: advisory.id,
+        aliases,
+        package: pkg.name,
+        version: pkg.version,
+        ecosystem: pkg.ecosystem,
+        affectedRange,
+        ...(fixedVersion && { fixedVersion })
+      }
+    };
+  }
+
+  private static parseJson(content: string, source: string): OsvAdvisory[] {
+    try {
+      const parsed = JSON.parse(content);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch (error) {
+      console.warn(`⚠️ Skipping ${source}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+      return [];
+    }
+  }
+
+  private static async listFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) files.push(...await this.listFiles(fullPath));
+      else files.push(fullPath);
+    }
+    return files.sort();
+  }
+
+  private static key(ecosystem: DependencyEcosystem, name: string): string {
+    return `${ecosystem}:${ecosystem === 'PyPI' ? LockfileParser.normalizePythonName(name) : name}`;
+  }
+}
+
+const loadedDatabases = new Map<string, Promise<OsvDatabase>>();
+
+/**
+ * Load a snapshot once per path and share it between scans
+ */
+export function loadOsvDatabase(snapshotPath: string): Promise<OsvDatabase> {
+  let database = loadedDatabases.get(snapshotPath);
+  if (!database) {
+    database = OsvDatabase.load(snapshotPath);
+    // Forget failed loads so a corrected snapshot can be retried
+    database.catch(() => loadedDatabases.delete(snapshotPath));
+    loadedDatabases.set(snapshotPath, database);
+  }
+  return database;
+}
@@ -0,0 +1,48 @@
+// Regular expressions are written between slashes, e.g. /\.snap$/i
+const REGEX_LITERAL_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+export class PathPattern {
+  /**
+   * Compile a path glob or a /regular expression/ into an expression over repository paths
+   */
+  static compile(pattern: string, ignoreCase: boolean = false): RegExp {
+    const literal = pattern.match(REGEX_LITERAL_PATTERN);
+    if (literal) {
+      const flags = ignoreCase && !literal[2].includes('i') ? `${literal[2]}i` : literal[2];
+      return new RegExp(literal[1], flags);
+    }
+    return this.globToRegExp(pattern, ignoreCase);
+  }
+
+  /**
+   * Translate a path glob (*, **, ?, {a,b}) into an expression matching repository paths
+   */
+  static globToRegExp(glob: string, ignoreCase: boolean = false): RegExp {
+    const source = this.translate(glob);
+    // Globs without a slash match the file name in any directory, like .gitignore
+    return new RegExp(glob.includes('/') ? `^${source}$` : `(?:^|/)${source}$`, ignoreCase ? 'i' : '');
+  }
+
+  private static translate(glob: string): string {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        // "**/" also matches no directory at all
+        source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+        i += glob[i + 2] === '/' ? 2 : 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '{' && glob.indexOf('}', i) !== -1) {
+        const end = glob.indexOf('}', i);
+        source += `(?:${glob.slice(i + 1, end).split(',').map(part => this.translate(part)).join('|')})`;
+        i = end;
+      } else {
+        source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+      }
+    }
+    return source;
+  }
+}
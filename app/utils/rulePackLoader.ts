@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ChunkFinding } from './chunkProcessor';
+import { CodeLanguage, CodePatternRule } from './codePatternRules';
+import { PathPattern } from './pathPattern';
+import { YamlParser } from './yamlParser';
+
+export interface RulePack {
+  name: string;
+  // File the pack was read from, or a label for packs passed inline
+  source: string;
+  rules: CodePatternRule[];
+}
+
+export class RulePackError extends Error {
+  source: string;
+
+  constructor(message: string, source: string) {
+    super(`Invalid rule pack ${source}: ${message}`);
+    this.name = 'RulePackError';
+    this.source = source;
+  }
+}
+
+const SEVERITIES: ChunkFinding['severity'][] = ['critical', 'high', 'medium', 'low', 'info'];
+const CONFIDENCES: CodePatternRule['confidence'][] = ['high', 'medium', 'low'];
+const LANGUAGES: CodeLanguage[] = ['javascript', 'python', 'go', 'java', 'ruby', 'php'];
+const RULE_ID_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+// Metavariables such as $DB stand for an identifier, member chain, call or string literal
+const METAVARIABLE_PATTERN = /^\$[A-Z_][A-Z0-9_]*/;
+const METAVARIABLE_EXPRESSION = String.raw`(?:[\w$.]+|"[^"]*"|'[^']*'|\`[^\`]*\`)(?:\([^()]*\)|\[[^\[\]]*\])*`;
+
+export class RulePackLoader {
+  /**
+   * Parse and validate a YAML rule pack
+   */
+  static parse(content: string, source: string = 'inline'): RulePack {
+    let document: any;
+    try {
+      document = YamlParser.parse(content);
+    } catch (error) {
+      throw new RulePackError(error instanceof Error ? error.message : 'Unknown error', source);
+    }
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new RulePackError('expected a mapping with "name" and "rules"', source);
+    }
+    if (typeof document.name !== 'string' || !document.name.trim()) {
+      throw new RulePackError('"name" is required', source);
+    }
+    if (!Array.isArray(document.rules) || document.rules.length === 0) {
+      throw new RulePackError('"rules" must be a non-empty list', source);
+    }
+
+    const seen = new Set<string>();
+    const rules = document.rules.map((rule: any, index: number) => {
+      const where = `rules[${index}] (line ${YamlParser.lineOf(document.rules, index)})`;
+      const compiled = this.compileRule(rule, where, source);
+      if (seen.has(compiled.id)) throw new RulePackError(`${where}: duplicate rule id "${compiled.id}"`, source);
+      seen.add(compiled.id);
+      return compiled;
+    });
+
+    return { name: document.name.trim(), source, rules };
+  }
+
+  /**
+   * Read a rule pack file, or every .yml/.yaml file below a directory
+   */
+  static async load(packPath: string): Promise<RulePack[]> {
+    const stat = await fs.stat(packPath);
+    const files = stat.isDirectory() ? await this.listFiles(packPath) : [packPath];
+
+    const packs: RulePack[] = [];
+    for (const file of files) {
+      packs.push(this.parse(await fs.readFile(file, 'utf8'), file));
+    }
+    return packs;
+  }
+
+  /**
+   * Combine built-in and pack rules; a later rule with the same id replaces an earlier one
+   */
+  static mergeRules(builtIn: CodePatternRule[], packs: RulePack[]): CodePatternRule[] {
+    const rules = new Map<string, CodePatternRule>();
+    for (const rule of [...builtIn, ...packs.flatMap(pack => pack.rules)]) {
+      rules.delete(rule.id);
+      rules.set(rule.id, rule);
+    }
+    return [...rules.values()];
+  }
+
+  /**
+   * Compile a code-shaped pattern into a line expression.
+   * $NAME matches an expression (repeating the name requires the same text), ... matches anything
+   * and whitespace is optional except between two words.
+   */
+  static compilePattern(pattern: string): RegExp {
+    const metavariables = new Map<string, number>();
+    const tokens: { source: string; word: boolean; spaced: boolean }[] = [];
+    let rest = pattern.trim();
+
+    while (rest.length > 0) {
+      const whitespace = rest.match(/^\s+/);
+      if (whitespace) rest = rest.slice(whitespace[0].length);
+      const spaced = Boolean(whitespace);
+
+      const metavariable = rest.match(METAVARIABLE_PATTERN);
+      const word = rest.match(/^\w+/);
+      if (metavariable) {
+        const name = metavariable[0];
+        const group = metavariables.get(name);
+        if (!group) metavariables.set(name, metavariables.size + 1);
+        tokens.push({ source: group ? `\\${group}` : `(${METAVARIABLE_EXPRESSION})`, word: true, spaced });
+        rest = rest.slice(name.length);
+      } else if (rest.startsWith('...')) {
+        tokens.push({ source: '.*?', word: false, spaced });
+        rest = rest.slice(3);
+      } else if (word) {
+        tokens.push({ source: word[0], word: true, spaced });
+        rest = rest.slice(word[0].length);
+      } else {
+        tokens.push({ source: rest[0].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'), word: false, spaced });
+        rest = rest.slice(1);
+      }
+    }
+
+    // Words need the whitespace written between them; punctuation may be spaced freely
+    const source = tokens.map((token, index) => {
+      if (index === 0) return token.source;
+      const previous = tokens[index - 1];
+      return (previous.word && token.word ? (token.spaced ? '\\s+' : '') : '\\s*') + token.source;
+    }).join('');
+
+    return new RegExp(source);
+  }
+
+  private static compileRule(rule: any, where: string, source: string): CodePatternRule {
+    const fail = (message: string): never => {
+      throw new RulePackError(`${where}: ${message}`, source);
+    };
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) fail('expected a mapping');
+
+    const id = rule.id;
+    if (typeof id !== 'string' || !RULE_ID_PATTERN.test(id)) fail('"id" must be a word such as "acme-raw-query"');
+    if (typeof rule.message !== 'string' || !rule.message.trim()) fail('"message" is required');
+    if (!SEVERITIES.includes(rule.severity)) fail(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+    if (rule.confidence !== undefined && !CONFIDENCES.includes(rule.confidence)) {
+      fail(`"confidence" must be one of ${CONFIDENCES.join(', ')}`);
+    }
+    if ((rule.regex === undefined) === (rule.pattern === undefined)) fail('exactly one of "regex" or "pattern" is required');
+
+    const languages = this.stringList(rule.languages, '"languages"', fail);
+    const unknown = languages.find(language => !LANGUAGES.includes(language as CodeLanguage));
+    if (unknown) fail(`unknown language "${unknown}", expected one of ${LANGUAGES.join(', ')}`);
+
+    const globs = this.stringList(rule.files, '"files"', fail);
+    const includeGlobs = globs.filter(glob => !glob.startsWith('!'));
+    const excludeGlobs = globs.filter(glob => glob.startsWith('!')).map(glob => glob.slice(1));
+    const compileGlob = (glob: string): RegExp => {
+      try {
+        return PathPattern.compile(glob);
+      } catch (error) {
+        return fail(`"files" pattern ${glob} is not valid: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    const expression = (value: unknown, field: string): RegExp => {
+      if (typeof value !== 'string' || !value) return fail(`"${field}" must be a non-empty string`);
+      try {
+        return field === 'pattern' ? this.compilePattern(value) : new RegExp(value);
+      } catch (error) {
+        return fail(`"${field}" is not a valid expression: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    return {
+      id,
+      category: 'custom',
+      languages: languages as CodeLanguage[],
+      ...(includeGlobs.length > 0 && { files: includeGlobs.map(compileGlob) }),
+      ...(excludeGlobs.length > 0 && { excludeFiles: excludeGlobs.map(compileGlob) }),
+      title: typeof rule.title === 'string' && rule.title.trim() ? rule.title.trim() : rule.message.trim(),
+      pattern: rule.regex !== undefined ? expression(rule.regex, 'regex') : expression(rule.pattern, 'pattern'),
+      ...(rule.exclude !== undefined && { exclude: expression(rule.exclude, 'exclude') }),
+      severity: rule.severity,
+      confidence: rule.confidence || 'medium',
+      message: rule.message.trim(),
+      recommendation: typeof rule.remediation === 'string' ? rule.remediation.trim() : ''
+    };
+  }
+
+  private static stringList(value: unknown, field: string, fail: (message: string) => never): string[] {
+    if (value === undefined || value === null) return [];
+    const list = Array.isArray(value) ? value : [value];
+    if (!list.every(item => typeof item === 'string' && item)) fail(`${field} must be a string or a list of strings`);
+    return list as string[];
+  }
+
+  private static async listFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) files.push(...await this.listFiles(fullPath));
+      else if (/\.ya?ml$/.test(entry.name)) files.push(fullPath);
+    }
+    return files.sort();
+  }
+}
+
+const loadedPacks = new Map<string, Promise<RulePack[]>>();
+
+/**
+ * Load the packs at a path once and share them between scans
+ */
+export function loadRulePacks(packPath: string): Promise<RulePack[]> {
+  let packs = loadedPacks.get(packPath);
+  if (!packs) {
+    packs = RulePackLoader.load(packPath);
+    // Forget failed loads so corrected packs can be retried
+    packs.catch(() => loadedPacks.delete(packPath));
+    loadedPacks.set(packPath, packs);
+  }
+  return packs;
+}
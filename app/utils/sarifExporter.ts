@@ -0,0 +1,256 @@
+import { ChunkFinding, ChunkResult } from './chunkProcessor';
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri?: string;
+      version?: string;
+      rules: SarifRule[];
+    };
+  };
+  automationDetails?: { id: string };
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    'security-severity': string;
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: SarifLocation[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number };
+  };
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'daily-dev-mcp';
+const TOOL_URI = 'https://github.com/brentsWorks/daily-dev-mcp';
+
+export class SarifExporter {
+  /**
+   * Build a SARIF log from the result of analyzeRepositorySecurity, with one run
+   * for the local chunk findings and one for the AI critical findings
+   */
+  static fromAnalysisResult(result: any): SarifLog {
+    const repository: string = result?.repository || 'unknown';
+    const chunkResults: ChunkResult[] =
+      result?.ai_analysis?.chunked_analysis?.streaming_results?.chunkResults || [];
+    const chunkFindings = chunkResults.flatMap(chunkResult => chunkResult.findings || []);
+    const aiFindings = result?.ai_analysis?.ai_analysis?.critical_findings;
+
+    return this.createLog([
+      this.createChunkFindingsRun(chunkFindings, repository),
+      this.createAIFindingsRun(Array.isArray(aiFindings) ? aiFindings : [], repository)
+    ]);
+  }
+
+  /**
+   * Wrap runs in a SARIF 2.1.0 log
+   */
+  static createLog(runs: SarifRun[]): SarifLog {
+    return {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs
+    };
+  }
+
+  /**
+   * Map ChunkProcessor findings to a SARIF run
+   */
+  static createChunkFindingsRun(findings: ChunkFinding[], repository: string): SarifRun {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    for (const finding of findings) {
+      const ruleId = finding.ruleId
+        ? `${finding.type}/${finding.ruleId}`
+        : `${finding.type}/${this.slugify(finding.title)}`;
+      const level = this.toLevel(finding.severity);
+
+      if (!ruleIndexes.has(ruleId)) {
+        ruleIndexes.set(ruleId, rules.length);
+        rules.push({
+          id: ruleId,
+          name: finding.title,
+          shortDescription: { text: finding.title },
+          ...(finding.recommendation && { help: { text: finding.recommendation } }),
+          defaultConfiguration: { level },
+          properties: {
+            tags: ['security', finding.type],
+            'security-severity': this.toSecuritySeverity(finding.severity)
+          }
+        });
+      }
+
+      results.push({
+        ruleId,
+        ruleIndex: ruleIndexes.get(ruleId)!,
+        level,
+        message: { text: finding.description },
+        ...(finding.filePath && { locations: [this.createLocation(finding.filePath, finding.lineNumber)] }),
+        properties: {
+          severity: finding.severity,
+          ...(finding.confidence && { confidence: finding.confidence }),
+          ...(finding.resource && { resource: finding.resource }),
+          ...(finding.recommendation && { recommendation: finding.recommendation })
+        }
+      });
+    }
+
+    return this.createRun(TOOL_NAME, rules, results, `${TOOL_NAME}/chunk/${repository}`);
+  }
+
+  /**
+   * Map AI critical_findings to a SARIF run
+   */
+  static createAIFindingsRun(findings: any[], repository: string): SarifRun {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    for (const finding of findings) {
+      const title: string = finding?.finding || finding?.title;
+      if (!title) continue;
+
+      const severity = String(finding.severity || 'medium').toLowerCase();
+      const level = this.toLevel(severity);
+      const category = finding.type ? this.slugify(String(finding.type)) : 'finding';
+      const ruleId = `ai/${category}/${this.slugify(title)}`;
+
+      if (!ruleIndexes.has(ruleId)) {
+        ruleIndexes.set(ruleId, rules.length);
+        rules.push({
+          id: ruleId,
+          name: title,
+          shortDescription: { text: title },
+          ...(finding.impact && { fullDescription: { text: String(finding.impact) } }),
+          ...(finding.recommendation && { help: { text: String(finding.recommendation) } }),
+          defaultConfiguration: { level },
+          properties: {
+            tags: ['security', 'ai-analysis'],
+            'security-severity': this.toSecuritySeverity(severity)
+          }
+        });
+      }
+
+      const location = this.parseLocation(finding.location);
+      const message = finding.impact ? `${title}: ${finding.impact}` : title;
+
+      results.push({
+        ruleId,
+        ruleIndex: ruleIndexes.get(ruleId)!,
+        level,
+        message: { text: location ? message : this.appendLocation(message, finding.location) },
+        ...(location && { locations: [location] }),
+        properties: {
+          severity,
+          ...(finding.chunk_type && { chunk_type: finding.chunk_type })
+        }
+      });
+    }
+
+    return this.createRun(`${TOOL_NAME}-ai`, rules, results, `${TOOL_NAME}/ai/${repository}`);
+  }
+
+  private static createRun(name: string, rules: SarifRule[], results: SarifResult[], automationId: string): SarifRun {
+    return {
+      tool: {
+        driver: {
+          name,
+          informationUri: TOOL_URI,
+          rules
+        }
+      },
+      automationDetails: { id: automationId },
+      results
+    };
+  }
+
+  private static createLocation(filePath: string, lineNumber?: number): SarifLocation {
+    return {
+      physicalLocation: {
+        artifactLocation: { uri: filePath.replace(/^\.?\//, '') },
+        ...(lineNumber && lineNumber > 0 && { region: { startLine: lineNumber } })
+      }
+    };
+  }
+
+  /**
+   * AI locations are free text; only treat them as file locations when they look like a path
+   */
+  private static parseLocation(location: unknown): SarifLocation | null {
+    if (typeof location !== 'string') return null;
+    const match = location.trim().match(/^([\w.\-\/]+\.[\w]+|[\w.\-]*\/[\w.\-\/]+)(?::(\d+))?$/);
+    if (!match) return null;
+    return this.createLocation(match[1], match[2] ? Number(match[2]) : undefined);
+  }
+
+  private static appendLocation(message: string, location: unknown): string {
+    return typeof location === 'string' && location.trim() ? `${message} (location: ${location.trim()})` : message;
+  }
+
+  private static toLevel(severity: string): SarifLevel {
+    switch (severity.toLowerCase()) {
+      case 'critical':
+      case 'high':
+        return 'error';
+      case 'medium':
+        return 'warning';
+      case 'low':
+        return 'note';
+      default:
+        return 'none';
+    }
+  }
+
+  /**
+   * Numeric severity used by GitHub code scanning to bucket security results
+   */
+  private static toSecuritySeverity(severity: string): string {
+    switch (severity.toLowerCase()) {
+      case 'critical': return '9.5';
+      case 'high': return '7.5';
+      case 'medium': return '5.0';
+      case 'low': return '2.0';
+      default: return '0.0';
+    }
+  }
+
+  private static slugify(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 64) || 'unnamed';
+  }
+}
@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto';
+import { DependencyEcosystem, DependencyInventory, DependencyPackage } from './lockfileParser';
+
+export type SbomFormat = 'cyclonedx' | 'spdx';
+
+export interface SbomMetadata {
+  // "owner/repo"
+  repository: string;
+  timestamp?: string;
+  // Dependency files that could not be read or parsed, so their packages are missing
+  skippedFiles?: { path: string; reason: string }[];
+}
+
+const TOOL_NAME = 'daily-dev-mcp';
+const TOOL_URI = 'https://github.com/brentsWorks/daily-dev-mcp';
+
+// Package URL types, see https://github.com/package-url/purl-spec
+const PURL_TYPES: Record<DependencyEcosystem, string> = {
+  npm: 'npm',
+  PyPI: 'pypi',
+  Go: 'golang',
+  'crates.io': 'cargo',
+  RubyGems: 'gem',
+  Packagist: 'composer'
+};
+
+// A declared requirement that pins one version, e.g. 1.2.3, =1.2.3 or v1.2.3-rc.1
+const EXACT_VERSION = /^=?\s*(v?\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?)$/;
+const EXACT_CARGO_VERSION = /^=\s*(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?)$/;
+
+export class SbomGenerator {
+  /**
+   * Render an inventory in the requested SBOM format
+   */
+  static generate(inventory: DependencyInventory, metadata: SbomMetadata, format: SbomFormat = 'cyclonedx'): any {
+    return format === 'spdx'
+      ? this.generateSpdx(inventory, metadata)
+      : this.generateCycloneDX(inventory, metadata);
+  }
+
+  /**
+   * CycloneDX 1.5 JSON document with the repository as the root component
+   */
+  static generateCycloneDX(inventory: DependencyInventory, metadata: SbomMetadata): any {
+    const packages = this.uniquePackages(inventory.packages);
+    const rootRef = `repository:${metadata.repository}`;
+    const skippedFiles = metadata.skippedFiles || [];
+
+    return {
+      bomFormat: 'CycloneDX',
+      specVersion: '1.5',
+      serialNumber: `urn:uuid:${randomUUID()}`,
+      version: 1,
+      metadata: {
+        timestamp: metadata.timestamp || new Date().toISOString(),
+        tools: {
+          components: [{ type: 'application', name: TOOL_NAME, externalReferences: [{ type: 'website', url: TOOL_URI }] }]
+        },
+        component: {
+          type: 'application',
+          'bom-ref': rootRef,
+          name: metadata.repository,
+          externalReferences: [{ type: 'vcs', url: `https://github.com/${metadata.repository}` }]
+        },
+        ...(skippedFiles.length > 0 && {
+          properties: skippedFiles.map(file => ({ name: `${TOOL_NAME}:skipped-file`, value: `${file.path} (${file.reason})` }))
+        })
+      },
+      components: packages.map(({ pkg, sourceFiles }) => {
+        const version = this.resolvedVersion(pkg);
+        return {
+          type: 'library',
+          'bom-ref': this.componentRef(pkg),
+          name: pkg.name,
+          ...(version && { version }),
+          purl: this.packageUrl(pkg),
+          scope: pkg.dev ? 'optional' : 'required',
+          properties: [
+            ...(pkg.direct !== undefined ? [{ name: `${TOOL_NAME}:dependency`, value: pkg.direct ? 'direct' : 'transitive' }] : []),
+            ...(pkg.declared ? [{ name: `${TOOL_NAME}:version`, value: 'declared' }] : []),
+            ...(!version ? [{ name: `${TOOL_NAME}:version-range`, value: pkg.version }] : []),
+            ...sourceFiles.map(file => ({ name: `${TOOL_NAME}:source-file`, value: file }))
+          ]
+        };
+      }),
+      dependencies: [{
+        ref: rootRef,
+        // Without a resolved graph, every package that is not known to be transitive hangs off the root
+        dependsOn: packages.filter(({ pkg }) => pkg.direct !== false).map(({ pkg }) => this.componentRef(pkg))
+      }]
+    };
+  }
+
+  /**
+   * SPDX 2.3 JSON document describing the repository and the packages it depends on
+   */
+  static generateSpdx(inventory: DependencyInventory, metadata: SbomMetadata): any {
+    const packages = this.uniquePackages(inventory.packages);
+    const rootId = 'SPDXRef-Repository';
+    const created = (metadata.timestamp || new Date().toISOString()).replace(/\.\d{3}Z$/, 'Z');
+
+    const spdxPackages = packages.map(({ pkg, sourceFiles }, index) => {
+      const version = this.resolvedVersion(pkg);
+      return {
+        SPDXID: `SPDXRef-Package-${index + 1}-${pkg.name.replace(/[^A-Za-z0-9.-]/g, '-')}`,
+        name: pkg.name,
+        ...(version && { versionInfo: version }),
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: 'NOASSERTION',
+        copyrightText: 'NOASSERTION',
+        externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: this.packageUrl(pkg) }],
+        comment: `${pkg.direct === false ? 'Transitive dependency' : pkg.direct ? 'Direct dependency' : 'Dependency'} ${!version ? `declared as ${pkg.version} in` : pkg.declared ? 'declared in' : 'resolved from'} ${sourceFiles.join(', ')}`
+      };
+    });
+    const skippedFiles = metadata.skippedFiles || [];
+
+    return {
+      spdxVersion: 'SPDX-2.3',
+      dataLicense: 'CC0-1.0',
+      SPDXID: 'SPDXRef-DOCUMENT',
+      name: `${metadata.repository} dependencies`,
+      documentNamespace: `${TOOL_URI}/spdx/${metadata.repository}/${randomUUID()}`,
+      creationInfo: {
+        created,
+        creators: [`Tool: ${TOOL_NAME}`]
+      },
+      ...(skippedFiles.length > 0 && {
+        comment: `Dependency files left out: ${skippedFiles.map(file => `${file.path} (${file.reason})`).join(', ')}`
+      }),
+      packages: [
+        {
+          SPDXID: rootId,
+          name: metadata.repository,
+          downloadLocation: `git+https://github.com/${metadata.repository}.git`,
+          filesAnalyzed: false,
+          licenseConcluded: 'NOASSERTION',
+          licenseDeclared: 'NOASSERTION',
+          copyrightText: 'NOASSERTION'
+        },
+        ...spdxPackages
+      ],
+      relationships: [
+        { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: rootId },
+        // Without a resolved graph only packages not known to be transitive are related to the repository
+        ...packages.flatMap(({ pkg }, index) => {
+          if (pkg.direct === false) return [];
+          return pkg.dev
+            ? [{ spdxElementId: spdxPackages[index].SPDXID, relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: rootId }]
+            : [{ spdxElementId: rootId, relationshipType: 'DEPENDS_ON', relatedSpdxElement: spdxPackages[index].SPDXID }];
+        })
+      ]
+    };
+  }
+
+  /**
+   * Package URL for a dependency, e.g. pkg:npm/%40types/node@20.11.0; versionless for declared ranges
+   */
+  static packageUrl(pkg: DependencyPackage): string {
+    const name = pkg.ecosystem === 'PyPI' ? pkg.name.toLowerCase().replace(/[-_.]+/g, '-') : pkg.name;
+    const path = name.split('/').map(segment => encodeURIComponent(segment)).join('/');
+    const version = this.resolvedVersion(pkg);
+    return `pkg:${PURL_TYPES[pkg.ecosystem]}/${path}${version ? `@${encodeURIComponent(version)}` : ''}`;
+  }
+
+  /**
+   * The exact version of a package, or undefined when a manifest only declares a range such as ^1.2.3
+   */
+  static resolvedVersion(pkg: DependencyPackage): string | undefined {
+    if (!pkg.declared) return pkg.version;
+    // Cargo reads a bare "1.2.3" as ^1.2.3, so only "=1.2.3" pins a crate
+    const exact = pkg.ecosystem === 'crates.io' ? EXACT_CARGO_VERSION : EXACT_VERSION;
+    return pkg.version.trim().match(exact)?.[1];
+  }
+
+  /**
+   * Reference unique within the document; declared ranges share a versionless purl, so the range tells them apart
+   */
+  private static componentRef(pkg: DependencyPackage): string {
+    const purl = this.packageUrl(pkg);
+    return this.resolvedVersion(pkg) ? purl : `${purl} ${pkg.version}`;
+  }
+
+  /**
+   * Collapse packages resolved by several lockfiles into one entry per package URL
+   */
+  private static uniquePackages(packages: DependencyPackage[]): { pkg: DependencyPackage; sourceFiles: string[] }[] {
+    const unique = new Map<string, { pkg: DependencyPackage; sourceFiles: string[] }>();
+
+    for (const pkg of packages) {
+      const ref = this.componentRef(pkg);
+      const existing = unique.get(ref);
+      if (!existing) {
+        unique.set(ref, { pkg: { ...pkg }, sourceFiles: [pkg.sourceFile] });
+        continue;
+      }
+
+      if (!existing.sourceFiles.includes(pkg.sourceFile)) existing.sourceFiles.push(pkg.sourceFile);
+      if (pkg.direct) existing.pkg.direct = true;
+      // A package needed at runtime anywhere is not a dev-only dependency
+      if (!pkg.dev) existing.pkg.dev = false;
+    }
+
+    return Array.from(unique.values());
+  }
+}
@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+import { createClient } from 'redis';
+import { env } from '../config/env';
+import { AnalysisType, OrganizationRepositoryFilters } from './githubSecurityClient';
+
+// Jobs waiting for a worker, pushed on the left and claimed from the right
+const QUEUED_JOBS_KEY = 'scan-jobs:queued';
+// Claimed jobs until they finish, so jobs of a worker that died can be requeued
+const PROCESSING_JOBS_KEY = 'scan-jobs:processing';
+const JOB_KEY_PREFIX = 'scan-job:';
+
+// Overwrite a job record only while it still has the expected status, so a worker claiming a job
+// and a client cancelling it cannot both win. KEYS[1] job key, ARGV expected status, new record, TTL.
+const SAVE_IF_STATUS_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current).status ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`;
+
+// The Redis commands the queue uses, so tests can run against an in-memory store
+export interface ScanJobStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { EX?: number }): Promise<unknown>;
+  lPush(key: string, value: string): Promise<number>;
+  lMove(source: string, destination: string, sourceSide: 'LEFT' | 'RIGHT', destinationSide: 'LEFT' | 'RIGHT'): Promise<string | null>;
+  lRem(key: string, count: number, value: string): Promise<number>;
+  lRange(key: string, start: number, stop: number): Promise<string[]>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+}
+
+export type ScanJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Arguments of the start-security-scan tool
+export interface ScanJobRequest {
+  organizations: string[];
+  repositories: string[];
+  scanTypes: AnalysisType[];
+  filters: OrganizationRepositoryFilters;
+  concurrency: number;
+  rulePacks?: string[];
+}
+
+export interface ScanJobProgress {
+  repositories_total: number | null;
+  repositories_scanned: number;
+  chunks_analyzed: number;
+  findings: number;
+  message: string;
+  updated_at: string;
+}
+
+export interface ScanJob {
+  id: string;
+  status: ScanJobStatus;
+  request: ScanJobRequest;
+  progress: ScanJobProgress;
+  created_at: string;
+  started_at?: string;
+  // Refreshed by the worker while it runs the job
+  heartbeat_at?: string;
+  finished_at?: string;
+  error?: string;
+}
+
+export class ScanJobQueue {
+  private store: ScanJobStore;
+  private ttlSeconds: number;
+
+  constructor(store: ScanJobStore, ttlSeconds: number = env.SCAN_JOB_TTL_SECONDS) {
+    this.store = store;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Record a new job and queue it for the next free worker
+   */
+  async enqueue(request: ScanJobRequest): Promise<ScanJob> {
+    const now = new Date().toISOString();
+    const job: ScanJob = {
+      id: randomUUID(),
+      status: 'queued',
+      request,
+      progress: {
+        repositories_total: null,
+        repositories_scanned: 0,
+        chunks_analyzed: 0,
+        findings: 0,
+        message: 'Waiting for a scan worker',
+        updated_at: now
+      },
+      created_at: now
+    };
+
+    await this.save(job);
+    await this.store.lPush(QUEUED_JOBS_KEY, job.id);
+    return job;
+  }
+
+  /**
+   * Job record by id, or null when it is unknown or has expired
+   */
+  async getJob(id: string): Promise<ScanJob | null> {
+    const value = await this.store.get(this.jobKey(id));
+    return value ? JSON.parse(value) : null;
+  }
+
+  /**
+   * Final scan result of a finished job, or null when there is none (yet)
+   */
+  async getResult(id: string): Promise<any | null> {
+    const value = await this.store.get(this.resultKey(id));
+    return value ? JSON.parse(value) : null;
+  }
+
+  /**
+   * Move the oldest queued job onto the processing list and mark it running; jobs that expired or were cancelled while queued are dropped
+   */
+  async claimNext(): Promise<ScanJob | null> {
+    const claim = () => this.store.lMove(QUEUED_JOBS_KEY, PROCESSING_JOBS_KEY, 'RIGHT', 'LEFT');
+    for (let id = await claim(); id; id = await claim()) {
+      const job = await this.getJob(id);
+      if (job?.status === 'queued') {
+        const now = new Date().toISOString();
+        job.status = 'running';
+        job.started_at = now;
+        job.heartbeat_at = now;
+        job.progress = { ...job.progress, message: 'Scan started', updated_at: now };
+        // A job cancelled since it was read is dropped like any other that is no longer queued
+        if (await this.saveIfStatus(job, 'queued')) return job;
+      }
+
+      await this.store.lRem(PROCESSING_JOBS_KEY, 0, id);
+    }
+    return null;
+  }
+
+  /**
+   * Merge a progress update into a running job; updates arriving after it finished are dropped
+   */
+  async updateProgress(job: ScanJob, progress: Partial<Omit<ScanJobProgress, 'updated_at'>>): Promise<void> {
+    if (job.status !== 'running') return;
+    job.progress = { ...job.progress, ...progress, updated_at: new Date().toISOString() };
+    await this.save(job);
+  }
+
+  /**
+   * Record that the worker running the job is still alive; resolves true when cancellation was requested
+   */
+  async heartbeat(job: ScanJob): Promise<boolean> {
+    if (job.status !== 'running') return false;
+    job.heartbeat_at = new Date().toISOString();
+    await this.save(job);
+    return (await this.store.get(this.cancelKey(job.id))) !== null;
+  }
+
+  /**
+   * Cancel a job: queued jobs are finished right away, running jobs are stopped by their worker's next heartbeat.
+   * Resolves the job as it is now, or null when it is unknown or has expired.
+   */
+  async cancel(id: string): Promise<ScanJob | null> {
+    const job = await this.getJob(id);
+    if (!job) return null;
+
+    if (job.status === 'queued') {
+      // A worker that claimed the job since it was read has it running, so it is stopped like any running job
+      if (!await this.finish(job, 'cancelled', 'Scan cancelled before it started', 'queued')) return this.cancel(id);
+      await this.store.lRem(QUEUED_JOBS_KEY, 0, id);
+    } else if (job.status === 'running') {
+      await this.store.set(this.cancelKey(id), new Date().toISOString(), { EX: this.ttlSeconds });
+    }
+    return job;
+  }
+
+  /**
+   * Put running jobs whose worker stopped sending heartbeats back on the queue; resolves the number requeued
+   */
+  async requeueStale(staleAfterMs: number): Promise<number> {
+    let requeued = 0;
+    for (const id of await this.store.lRange(PROCESSING_JOBS_KEY, 0, -1)) {
+      const job = await this.getJob(id);
+      if (job?.status === 'running') {
+        const lastSeen = Date.parse(job.heartbeat_at || job.started_at || job.created_at);
+        if (Date.now() - lastSeen < staleAfterMs) continue;
+      }
+
+      // Only the worker that takes the id off the list requeues it
+      if (await this.store.lRem(PROCESSING_JOBS_KEY, 1, id) === 0 || job?.status !== 'running') continue;
+      job.status = 'queued';
+      job.progress = { ...job.progress, message: 'Requeued after its scan worker stopped responding', updated_at: new Date().toISOString() };
+      await this.save(job);
+      await this.store.lPush(QUEUED_JOBS_KEY, id);
+      requeued++;
+    }
+    return requeued;
+  }
+
+  /**
+   * Store the final result and mark the job completed, or cancelled when it was stopped mid-scan
+   */
+  async complete(job: ScanJob, result: any, status: 'completed' | 'cancelled' = 'completed'): Promise<void> {
+    await this.store.set(this.resultKey(job.id), JSON.stringify(result), { EX: this.ttlSeconds });
+    await this.finish(job, status, status === 'completed' ? 'Scan completed' : 'Scan cancelled before it finished');
+  }
+
+  /**
+   * Mark the job failed with the error that stopped it
+   */
+  async fail(job: ScanJob, error: string): Promise<void> {
+    job.error = error;
+    await this.finish(job, 'failed', 'Scan failed');
+  }
+
+  /**
+   * Record the final status; with expectedStatus set, resolves false without a change when the stored job moved on
+   */
+  private async finish(job: ScanJob, status: ScanJobStatus, message: string, expectedStatus?: ScanJobStatus): Promise<boolean> {
+    const now = new Date().toISOString();
+    const finished: ScanJob = { ...job, status, finished_at: now, progress: { ...job.progress, message, updated_at: now } };
+    if (expectedStatus) {
+      if (!await this.saveIfStatus(finished, expectedStatus)) return false;
+    } else {
+      await this.save(finished);
+    }
+
+    Object.assign(job, finished);
+    await this.store.lRem(PROCESSING_JOBS_KEY, 0, job.id);
+    return true;
+  }
+
+  private async save(job: ScanJob): Promise<void> {
+    await this.store.set(this.jobKey(job.id), JSON.stringify(job), { EX: this.ttlSeconds });
+  }
+
+  private async saveIfStatus(job: ScanJob, expectedStatus: ScanJobStatus): Promise<boolean> {
+    const saved = await this.store.eval(SAVE_IF_STATUS_SCRIPT, {
+      keys: [this.jobKey(job.id)],
+      arguments: [expectedStatus, JSON.stringify(job), String(this.ttlSeconds)]
+    });
+    return saved === 1;
+  }
+
+  private jobKey(id: string): string {
+    return `${JOB_KEY_PREFIX}${id}`;
+  }
+
+  private resultKey(id: string): string {
+    return `${JOB_KEY_PREFIX}${id}:result`;
+  }
+
+  private cancelKey(id: string): string {
+    return `${JOB_KEY_PREFIX}${id}:cancel`;
+  }
+}
+
+let defaultQueue: Promise<ScanJobQueue> | null = null;
+
+/**
+ * Queue backed by the Redis instance at REDIS_URL, connected on first use
+ */
+export function getScanJobQueue(): Promise<ScanJobQueue> {
+  if (!defaultQueue) {
+    const client = createClient({ url: env.REDIS_URL });
+    client.on('error', error => {
+      console.warn(`⚠️ Redis client error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+    defaultQueue = client.connect().then(() => new ScanJobQueue(client));
+    // Retry the connection on the next call instead of caching the failure
+    defaultQueue.catch(() => {
+      defaultQueue = null;
+    });
+  }
+  return defaultQueue;
+}
@@ -0,0 +1,184 @@
+import { env } from '../config/env';
+import { isAbortError, delay } from './concurrency';
+import { listOrganizationRepositories, scanMultipleRepositories } from './githubSecurityClient';
+import { StreamingCallbacks } from './streamingAnalyzer';
+import { ScanJob, ScanJobQueue, ScanJobRequest, getScanJobQueue } from './scanJobQueue';
+
+// Same GitHub MCP server the route's tools use
+const GITHUB_SERVER_URL = 'https://server.smithery.ai/@smithery-ai/github';
+const GITHUB_PROFILE = 'radical-hawk-AyMmPj';
+
+// Jobs run outside the route's time limit, so repositories get far more time than in scan-github-repos
+const JOB_REPO_TIMEOUT_MS = 10 * 60 * 1000;
+const JOB_DEADLINE_MS = 2 * 60 * 60 * 1000;
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+// Running jobs whose worker missed heartbeats for STALE_JOB_MS are requeued for another worker
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// What a job runner reports back while it scans
+export interface ScanJobRunOptions {
+  onRepositoriesResolved?: (total: number) => void;
+  onRepositoryScanned?: (repository: string, completed: number, total: number) => void;
+  progress?: (repository: string) => StreamingCallbacks;
+  signal?: AbortSignal;
+}
+
+export type ScanJobRunner = (request: ScanJobRequest, options: ScanJobRunOptions) => Promise<any>;
+
+/**
+ * Runner that expands organizations and scans every repository through the GitHub MCP server
+ */
+export function createScanJobRunner(serverUrl: string, apiKey: string, profile: string): ScanJobRunner {
+  return async (request, options) => {
+    const orgRepositories = request.organizations.length > 0
+      ? await listOrganizationRepositories(serverUrl, apiKey, profile, request.organizations, request.filters)
+      : undefined;
+    const repositories = [...new Set([...request.repositories, ...(orgRepositories?.repositories || [])])];
+    if (repositories.length === 0) {
+      throw new Error(request.organizations.length > 0
+        ? 'No repositories in the given organizations matched the filters'
+        : 'No repositories provided for scanning');
+    }
+    options.onRepositoriesResolved?.(repositories.length);
+
+    const result = await scanMultipleRepositories(serverUrl, apiKey, profile, repositories, request.scanTypes, {
+      concurrency: request.concurrency,
+      repoTimeoutMs: JOB_REPO_TIMEOUT_MS,
+      deadlineMs: JOB_DEADLINE_MS,
+      rulePacks: request.rulePacks,
+      onRepositoryScanned: options.onRepositoryScanned,
+      progress: options.progress,
+      signal: options.signal
+    });
+    return {
+      ...result,
+      ...(orgRepositories?.note && {
+        truncated_organizations: orgRepositories.truncatedOrganizations,
+        organizations_note: orgRepositories.note
+      })
+    };
+  };
+}
+
+export class ScanJobWorker {
+  private queue: ScanJobQueue;
+  private runner: ScanJobRunner;
+  private heartbeatIntervalMs: number;
+
+  constructor(queue: ScanJobQueue, runner: ScanJobRunner, heartbeatIntervalMs: number = HEARTBEAT_INTERVAL_MS) {
+    this.queue = queue;
+    this.runner = runner;
+    this.heartbeatIntervalMs = heartbeatIntervalMs;
+  }
+
+  /**
+   * Claim and run the next queued job; resolves false when the queue was empty
+   */
+  async runNext(signal?: AbortSignal): Promise<boolean> {
+    const job = await this.queue.claimNext();
+    if (!job) return false;
+
+    // Stopped by the worker shutting down or by cancel-security-scan
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    if (signal?.aborted) stop();
+    signal?.addEventListener('abort', stop, { once: true });
+    let cancelRequested = false;
+    const heartbeat = setInterval(() => {
+      this.queue.heartbeat(job).then(cancel => {
+        if (cancel && !cancelRequested) {
+          cancelRequested = true;
+          stop();
+        }
+      }).catch(error => {
+        console.warn(`⚠️ Could not record heartbeat of scan job ${job.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    }, this.heartbeatIntervalMs);
+
+    const writes = new Set<Promise<void>>();
+    try {
+      const result = await this.runner(job.request, { ...this.progressCallbacks(job, writes), signal: controller.signal });
+      await Promise.all(writes);
+      await this.queue.complete(job, result, controller.signal.aborted ? 'cancelled' : 'completed');
+    } catch (error) {
+      await Promise.all(writes);
+      await this.queue.fail(job, isAbortError(error, controller.signal)
+        ? cancelRequested ? 'The scan was cancelled before it finished' : 'The scan worker stopped before the scan finished'
+        : error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      clearInterval(heartbeat);
+      signal?.removeEventListener('abort', stop);
+    }
+    return true;
+  }
+
+  /**
+   * Run queued jobs one at a time, polling while the queue is empty, until the signal is aborted
+   */
+  async run(signal: AbortSignal, pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        await this.queue.requeueStale(STALE_JOB_MS);
+        if (await this.runNext(signal)) continue;
+      } catch (error) {
+        // Redis being unreachable should not stop the loop for good
+        console.warn(`⚠️ Scan worker could not process the queue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      try {
+        await delay(pollIntervalMs, signal);
+      } catch (error) {
+        if (!isAbortError(error)) throw error;
+      }
+    }
+  }
+
+  /**
+   * Runner callbacks that record repository and chunk progress on the job
+   */
+  private progressCallbacks(job: ScanJob, writes: Set<Promise<void>>): ScanJobRunOptions {
+    // Progress is best effort; a failed write is retried with the next update.
+    // Pending writes are tracked so the job is only finished once they have landed.
+    const record = (update: Parameters<ScanJobQueue['updateProgress']>[1]) => {
+      const write = this.queue.updateProgress(job, update).catch(error => {
+        console.warn(`⚠️ Could not record progress of scan job ${job.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }).then(() => {
+        writes.delete(write);
+      });
+      writes.add(write);
+    };
+
+    return {
+      onRepositoriesResolved: total =>
+        record({ repositories_total: total, message: `Scanning ${total} repositories` }),
+      onRepositoryScanned: (repository, completed, total) =>
+        record({ repositories_scanned: completed, message: `Scanned ${repository} (${completed}/${total})` }),
+      progress: repository => ({
+        onProgress: progress =>
+          record({ message: `${repository}: analyzing ${progress.currentChunkType} chunk ${progress.currentChunk}/${progress.totalChunks}` }),
+        onChunkComplete: result =>
+          record({
+            chunks_analyzed: job.progress.chunks_analyzed + 1,
+            findings: job.progress.findings + result.findings.length,
+            message: `${repository}: ${result.chunkType} chunk done with ${result.findings.length} findings`
+          }),
+        onAIChunkComplete: progress =>
+          record({ message: `${repository}: AI analysis of ${progress.chunkType} chunk ${progress.failed ? 'failed' : 'done'} (${progress.completed}/${progress.total})` })
+      })
+    };
+  }
+}
+
+/**
+ * Start a worker on the Redis queue that runs until the signal is aborted
+ */
+export async function startScanJobWorker(signal: AbortSignal): Promise<void> {
+  const queue = await getScanJobQueue();
+  const runner = createScanJobRunner(GITHUB_SERVER_URL, env.SMITHERY_GITHUB_API_KEY, GITHUB_PROFILE);
+  console.log('🔄 Scan job worker started');
+  await new ScanJobWorker(queue, runner).run(signal);
+  console.log('🛑 Scan job worker stopped');
+}
@@ -0,0 +1,208 @@
+import { ChunkFinding } from './chunkProcessor';
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  severity: ChunkFinding['severity'];
+  confidence: 'high' | 'medium' | 'low';
+  // Capture group holding the secret itself; defaults to the whole match
+  secretGroup?: number;
+  // Minimum Shannon entropy (bits per character) the secret must reach
+  minEntropy?: number;
+}
+
+export interface SecretMatch {
+  ruleId: string;
+  description: string;
+  severity: ChunkFinding['severity'];
+  confidence: 'high' | 'medium' | 'low';
+  lineNumber: number;
+  maskedMatch: string;
+  entropy: number;
+}
+
+// Values that are clearly placeholders rather than real credentials
+const PLACEHOLDER_PATTERN = /(example|sample|dummy|placeholder|changeme|your[_-]?|xxxx|\*{3}|<[^>]+>|\$\{|\{\{|process\.env|os\.environ|getenv)/i;
+
+// Variable names that usually hold credentials
+const SECRET_NAME_PATTERN = /(passw(?:or)?d|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)/i;
+
+export class SecretDetector {
+  static readonly RULES: SecretRule[] = [
+    {
+      id: 'aws-access-key-id',
+      description: 'AWS access key ID',
+      pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/g,
+      severity: 'critical',
+      confidence: 'high',
+      secretGroup: 1
+    },
+    {
+      id: 'aws-secret-access-key',
+      description: 'AWS secret access key',
+      pattern: /aws.{0,20}?(?:secret|sk).{0,20}?['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+      severity: 'critical',
+      confidence: 'high',
+      secretGroup: 1,
+      minEntropy: 3.5
+    },
+    {
+      id: 'github-token',
+      description: 'GitHub token',
+      pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{82})\b/g,
+      severity: 'critical',
+      confidence: 'high',
+      secretGroup: 1
+    },
+    {
+      id: 'slack-token',
+      description: 'Slack token',
+      pattern: /\b(xox[abposr]-[A-Za-z0-9-]{10,})\b/g,
+      severity: 'high',
+      confidence: 'high',
+      secretGroup: 1
+    },
+    {
+      id: 'slack-webhook',
+      description: 'Slack webhook URL',
+      pattern: /(https:\/\/hooks\.slack\.com\/services\/T[A-Za-z0-9_]+\/B[A-Za-z0-9_]+\/[A-Za-z0-9_]+)/g,
+      severity: 'high',
+      confidence: 'high',
+      secretGroup: 1
+    },
+    {
+      id: 'private-key',
+      description: 'Private key block',
+      pattern: /(-----BEGIN (?:RSA |DSA |EC |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----)/g,
+      severity: 'critical',
+      confidence: 'high',
+      secretGroup: 1
+    },
+    {
+      id: 'google-api-key',
+      description: 'Google API key',
+      pattern: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/g,
+      severity: 'high',
+      confidence: 'high',
+      secretGroup: 1
+    },
+    {
+      id: 'jwt',
+      description: 'JSON Web Token',
+      pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/g,
+      severity: 'high',
+      confidence: 'medium',
+      secretGroup: 1
+    },
+    {
+      id: 'generic-high-entropy-assignment',
+      description: 'High-entropy secret assignment',
+      pattern: /\b[\w.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential|auth[_-]?key|access[_-]?key|private[_-]?key)[\w.-]*['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+_\-=.!@#$%^&*]{16,})['"]?/gi,
+      severity: 'high',
+      confidence: 'medium',
+      secretGroup: 1,
+      minEntropy: 3.5
+    }
+  ];
+
+  /**
+   * Scan file contents line by line and return every credential match
+   */
+  static scan(content: string): SecretMatch[] {
+    const matches: SecretMatch[] = [];
+    const lines = content.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+      const lineMatches: SecretMatch[] = [];
+
+      for (const rule of this.RULES) {
+        // The generic rule only reports lines no specific rule already explains
+        if (rule.id === 'generic-high-entropy-assignment' && lineMatches.length > 0) continue;
+
+        rule.pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = rule.pattern.exec(line)) !== null) {
+          const secret = match[rule.secretGroup ?? 0] ?? match[0];
+          const entropy = this.shannonEntropy(secret);
+
+          if (rule.id !== 'private-key' && PLACEHOLDER_PATTERN.test(secret)) continue;
+          if (rule.minEntropy !== undefined && entropy < rule.minEntropy) continue;
+          if (lineMatches.some(m => m.ruleId === rule.id)) continue;
+
+          lineMatches.push({
+            ruleId: rule.id,
+            description: rule.description,
+            severity: rule.severity,
+            confidence: this.adjustConfidence(rule, entropy),
+            lineNumber: index + 1,
+            maskedMatch: rule.id === 'private-key' ? secret : this.mask(secret),
+            entropy: Math.round(entropy * 100) / 100
+          });
+        }
+      }
+
+      matches.push(...lineMatches);
+    });
+
+    return matches;
+  }
+
+  /**
+   * Scan a file and report matches as chunk findings
+   */
+  static detect(content: string, filePath: string): ChunkFinding[] {
+    return this.scan(content).map(match => ({
+      type: 'secret',
+      severity: match.severity,
+      title: `${match.description} detected`,
+      description: `${match.description} found in ${filePath} at line ${match.lineNumber}: ${match.maskedMatch}`,
+      filePath,
+      lineNumber: match.lineNumber,
+      recommendation: 'Revoke and rotate this credential, remove it from the repository history, and load it from a secrets manager.',
+      ruleId: match.ruleId,
+      confidence: match.confidence,
+      match: match.maskedMatch
+    }));
+  }
+
+  /**
+   * Whether an environment or build variable name looks like it holds a credential
+   */
+  static isSecretName(name: string): boolean {
+    return SECRET_NAME_PATTERN.test(name);
+  }
+
+  /**
+   * Keep the first 4 and last 2 characters so the secret can be identified but not reused
+   */
+  static mask(secret: string): string {
+    if (secret.length <= 8) return '*'.repeat(secret.length);
+    return `${secret.slice(0, 4)}${'*'.repeat(secret.length - 6)}${secret.slice(-2)}`;
+  }
+
+  /**
+   * Shannon entropy in bits per character
+   */
+  static shannonEntropy(value: string): number {
+    if (value.length === 0) return 0;
+    const counts = new Map<string, number>();
+    for (const char of value) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / value.length;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy;
+  }
+
+  private static adjustConfidence(rule: SecretRule, entropy: number): SecretMatch['confidence'] {
+    if (rule.id !== 'generic-high-entropy-assignment') return rule.confidence;
+    if (entropy >= 4.5) return 'high';
+    if (entropy >= 3.5) return 'medium';
+    return 'low';
+  }
+}
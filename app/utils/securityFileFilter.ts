@@ -1,8 +1,26 @@
+import { PathPattern } from './pathPattern';
+import { YamlParser } from './yamlParser';
+
 export interface SecurityFile {
   path: string;
-  type: 'config' | 'dependency' | 'secret' | 'security' | 'deployment';
+  type: 'config' | 'dependency' | 'secret' | 'security' | 'deployment' | 'workflow' | 'source';
   priority: 'high' | 'medium' | 'low';
   reason: string;
+  // File body, present once fetched from the repository
+  content?: string;
+  size?: number;
+  contentSkipped?: 'too-large' | 'binary' | 'unavailable' | 'budget-exceeded';
+  // Set on the pieces of a file too large for one analysis chunk; lines are 1-based in the whole file
+  part?: FilePart;
+}
+
+export interface FilePart {
+  index: number;
+  total: number;
+  startLine: number;
+  endLine: number;
+  // Leading lines repeated from the previous piece so code spanning the boundary stays intact
+  overlapLines: number;
 }
 
 export interface FileFilterOptions {
@@ -11,102 +29,171 @@ export interface FileFilterOptions {
   includeSecretFiles?: boolean;
   includeSecurityFiles?: boolean;
   includeDeploymentFiles?: boolean;
+  includeWorkflowFiles?: boolean;
+  // Application source is only scanned when asked for, it is the bulk of most repositories
+  includeSourceFiles?: boolean;
   maxFiles?: number;
+  // Per-repository overrides, usually read from .daily-dev-mcp.yml
+  patterns?: FilePatternConfig;
+}
+
+export interface FilePatternConfig {
+  // Extra globs or /regexes/ per category, checked before the built-in patterns
+  include?: Partial<Record<SecurityFile['type'], string[]>>;
+  exclude?: string[];
+  // Set to false to also scan vendored code, fixtures and tests
+  defaultExcludes?: boolean;
+  // Where the overrides came from, used in SecurityFile.reason
+  source?: string;
+}
+
+interface CompiledPattern {
+  pattern: string;
+  expression: RegExp;
 }
 
+interface CompiledIncludePattern extends CompiledPattern {
+  category: SecurityFile['type'];
+  source?: string;
+}
+
+interface CompiledPatternSet {
+  include: CompiledIncludePattern[];
+  exclude: CompiledPattern[];
+  defaultExcludes: boolean;
+}
+
+const FILE_TYPES: SecurityFile['type'][] = ['workflow', 'secret', 'dependency', 'security', 'deployment', 'config', 'source'];
+
+export const REPOSITORY_CONFIG_FILE = '.daily-dev-mcp.yml';
+
 export class SecurityFileFilter {
-  private static readonly SECURITY_PATTERNS = {
-    // Order matters! More specific patterns should come first
-    secret: [
-      '.env', '.env.local', '.env.production', '.env.staging',
-      'secrets.json', 'credentials.json', 'keys.json',
-      'secret', 'key', 'token', 'credential', 'password', 'auth'
-    ],
-    dependency: [
-      'package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml',
-      'requirements.txt', 'Pipfile', 'poetry.lock', 'pom.xml', 'build.gradle',
-      'Gemfile', 'Gemfile.lock', 'composer.json', 'composer.lock',
-      'Cargo.toml', 'Cargo.lock', 'go.mod', 'go.sum'
-    ],
-    security: [
-      'security', 'auth', 'authentication', 'authorization', 'permission',
-      'firewall', 'cors', 'csp', 'security.json', 'auth.json'
-    ],
-    deployment: [
-      'dockerfile', 'docker-compose', 'kubernetes', 'k8s', 'helm',
-      'terraform', 'ansible', 'deployment', 'infrastructure',
-      '.dockerignore', 'docker-compose.yml', 'docker-compose.yaml'
-    ],
-    config: [
-      'config', 'settings', 'properties', 'ini', 'yaml', 'yml',
-      'xml', 'conf', 'cfg'
-      // Removed 'toml' from config to avoid conflicts with Cargo.toml
-    ]
+  // Order matters! More specific patterns should come first.
+  // Secret words are matched as whole parts of the file name, so "key" matches api_keys.txt but not monkey.ts or keys/index.ts
+  private static readonly DEFAULT_PATTERNS: { category: SecurityFile['type']; pattern: string }[] = [
+    { category: 'workflow', pattern: '**/.github/workflows/*.{yml,yaml}' },
+
+    { category: 'secret', pattern: '/(^|\\/)\\.env(\\.[^/]+)?$/' },
+    { category: 'secret', pattern: '{secrets,credentials,keys}.json' },
+    { category: 'secret', pattern: '*.{pem,key,p12,pfx}' },
+    { category: 'secret', pattern: 'id_{rsa,dsa,ecdsa,ed25519}' },
+    { category: 'secret', pattern: '/(^|[/._-])(secrets?|keys?|tokens?|credentials?|passwords?|auth)([._-][^/]*)?$/' },
+
+    { category: 'dependency', pattern: '{package.json,package-lock.json,yarn.lock,pnpm-lock.yaml}' },
+    { category: 'dependency', pattern: '{requirements.txt,Pipfile,poetry.lock,pom.xml,build.gradle}' },
+    { category: 'dependency', pattern: '{Gemfile,Gemfile.lock,composer.json,composer.lock}' },
+    { category: 'dependency', pattern: '{Cargo.toml,Cargo.lock,go.mod,go.sum}' },
+
+    { category: 'security', pattern: '/(^|[/._-])(security|authentication|authorization|permissions?|firewall|cors|csp)([/._-]|$)/' },
+
+    { category: 'deployment', pattern: '{Dockerfile,Dockerfile.*,*.Dockerfile,.dockerignore}' },
+    { category: 'deployment', pattern: '{docker-compose,compose}*.{yml,yaml}' },
+    { category: 'deployment', pattern: '*.tf' },
+    { category: 'deployment', pattern: '/(^|[/._-])(kubernetes|k8s|helm|terraform|ansible|deployments?|infrastructure)([/._-]|$)/' },
+
+    // Removed *.toml from config to avoid conflicts with Cargo.toml
+    { category: 'config', pattern: '/(^|[/._-])(config|settings|properties)/' },
+    { category: 'config', pattern: '*.{yaml,yml,xml,ini,conf,cfg}' },
+
+    { category: 'source', pattern: '*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,py,go,java,rb,php}' }
+  ];
+
+  // Code nobody in the repository maintains, and test data full of deliberate fake secrets
+  private static readonly DEFAULT_EXCLUDES = [
+    '**/{node_modules,vendor,third_party,bower_components}/**',
+    '**/{dist,build,out,coverage}/**',
+    '**/*.min.js',
+    '**/{fixtures,__fixtures__,testdata,test-data}/**',
+    '**/{test,tests,__tests__,spec,__mocks__}/**',
+    '**/*.{test,spec}.*'
+  ];
+
+  private static readonly defaultPatternSet: CompiledPatternSet = {
+    include: SecurityFileFilter.DEFAULT_PATTERNS.map(({ category, pattern }) => ({
+      category,
+      pattern,
+      expression: PathPattern.compile(pattern, true)
+    })),
+    exclude: SecurityFileFilter.DEFAULT_EXCLUDES.map(pattern => ({ pattern, expression: PathPattern.compile(pattern, true) })),
+    defaultExcludes: true
   };
 
+  private static readonly compiledConfigs = new WeakMap<FilePatternConfig, CompiledPatternSet>();
+
   /**
    * Determines if a file is security-relevant based on its path
    */
   static isSecurityRelevant(filePath: string, options: FileFilterOptions = {}): SecurityFile | null {
-    const normalizedPath = filePath.toLowerCase();
-    const fileName = normalizedPath.split('/').pop() || '';
-    const fileExtension = fileName.includes('.') ? fileName.split('.').pop() : '';
+    const normalizedPath = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    const custom = options.patterns ? this.compileConfig(options.patterns) : null;
 
-    // Check each security category
-    for (const [category, patterns] of Object.entries(this.SECURITY_PATTERNS)) {
-      if (!this.shouldIncludeCategory(category, options)) continue;
+    const customMatch = custom?.include.find(pattern =>
+      this.shouldIncludeCategory(pattern.category, options) && pattern.expression.test(normalizedPath));
 
-      const isMatch = patterns.some(pattern => {
-        // Make pattern matching case-insensitive
-        const normalizedPattern = pattern.toLowerCase();
-        
-        // Exact filename match (highest priority)
-        if (fileName === normalizedPattern) return true;
-        
-        // For dependency files, only exact matches
-        if (category === 'dependency') {
-          return fileName === normalizedPattern;
-        }
-        
-        // For secret files, check for exact matches or specific patterns
-        if (category === 'secret') {
-          if (fileName === normalizedPattern) return true;
-          if (normalizedPattern.startsWith('.') && fileName.startsWith(normalizedPattern)) return true;
-          if (normalizedPath.includes(normalizedPattern) && !normalizedPath.includes('node_modules')) return true;
-        }
-        
-        // For other categories, check pattern in path but be more specific
-        if (normalizedPath.includes(normalizedPattern)) {
-          // Avoid matching in node_modules or other common non-relevant paths
-          if (normalizedPath.includes('node_modules')) return false;
-          if (normalizedPath.includes('dist/')) return false;
-          if (normalizedPath.includes('build/')) return false;
-          return true;
-        }
-        
-        // Extension match only for config files (and not for specific named files)
-        if (category === 'config' && fileExtension && ['yaml', 'yml', 'xml', 'ini', 'conf'].includes(fileExtension)) {
-          // Don't match .toml files as config if they're already matched as dependencies
-          if (fileExtension === 'toml' && fileName !== 'config.toml') return false;
-          // Don't match .json files as config if they're already matched as dependencies
-          if (fileExtension === 'json' && fileName !== 'config.json') return false;
-          return true;
+    // Explicit excludes always win; the built-in ones yield to an explicit include
+    if (custom?.exclude.some(pattern => pattern.expression.test(normalizedPath))) return null;
+    const useDefaultExcludes = custom ? custom.defaultExcludes : true;
+    if (!customMatch && useDefaultExcludes && this.defaultPatternSet.exclude.some(pattern => pattern.expression.test(normalizedPath))) {
+      return null;
+    }
+
+    const match = customMatch || this.defaultPatternSet.include.find(pattern =>
+      this.shouldIncludeCategory(pattern.category, options) && pattern.expression.test(normalizedPath));
+    if (!match) return null;
+
+    return {
+      path: filePath,
+      type: match.category,
+      priority: this.getPriority(match.category, normalizedPath.toLowerCase()),
+      reason: `Matched ${match.category} pattern${match.source ? ` from ${match.source}` : ''}: ${match.pattern}`
+    };
+  }
+
+  /**
+   * Read per-repository pattern overrides from the "files" section of a .daily-dev-mcp.yml
+   */
+  static parseRepositoryConfig(content: string, source: string = REPOSITORY_CONFIG_FILE): FilePatternConfig {
+    const document = YamlParser.parse(content);
+    const files = document && typeof document === 'object' ? (document as any).files : undefined;
+    if (files === undefined || files === null) return { source };
+    if (typeof files !== 'object' || Array.isArray(files)) throw new Error(`${source}: "files" must be a mapping`);
+
+    const patternList = (value: unknown, field: string): string[] => {
+      const list = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+      if (!list.every(item => typeof item === 'string' && item)) throw new Error(`${source}: ${field} must be a list of patterns`);
+      list.forEach(pattern => {
+        try {
+          PathPattern.compile(pattern);
+        } catch (error) {
+          throw new Error(`${source}: ${field} pattern ${pattern} is invalid: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-        
-        return false;
       });
+      return list;
+    };
 
-      if (isMatch) {
-        return {
-          path: filePath,
-          type: category as SecurityFile['type'],
-          priority: this.getPriority(category, normalizedPath),
-          reason: `Matched ${category} pattern: ${patterns.find(p => normalizedPath.includes(p.toLowerCase())) || 'exact match'}`
-        };
+    const include: FilePatternConfig['include'] = {};
+    if (files.include !== undefined && files.include !== null) {
+      if (typeof files.include !== 'object' || Array.isArray(files.include)) {
+        throw new Error(`${source}: files.include must map file types to patterns`);
+      }
+      for (const [type, patterns] of Object.entries(files.include)) {
+        if (!FILE_TYPES.includes(type as SecurityFile['type'])) {
+          throw new Error(`${source}: unknown file type "${type}", expected one of ${FILE_TYPES.join(', ')}`);
+        }
+        include[type as SecurityFile['type']] = patternList(patterns, `files.include.${type}`);
       }
     }
 
-    return null;
+    if (files.defaultExcludes !== undefined && typeof files.defaultExcludes !== 'boolean') {
+      throw new Error(`${source}: files.defaultExcludes must be true or false`);
+    }
+
+    return {
+      include,
+      exclude: patternList(files.exclude, 'files.exclude'),
+      ...(files.defaultExcludes !== undefined && { defaultExcludes: files.defaultExcludes }),
+      source
+    };
   }
 
   /**
@@ -121,8 +208,8 @@ export class SecurityFileFilter {
         const priorityDiff = this.getPriorityScore(b.priority) - this.getPriorityScore(a.priority);
         if (priorityDiff !== 0) return priorityDiff;
         
-        // Secondary sort: by type (secret > dependency > security > deployment > config)
-        const typeOrder = { secret: 5, dependency: 4, security: 3, deployment: 2, config: 1 };
+        // Secondary sort: by type (secret > workflow > dependency > security > deployment > config > source)
+        const typeOrder = { secret: 6, workflow: 5, dependency: 4, security: 3, deployment: 2, config: 1, source: 0 };
         return typeOrder[b.type] - typeOrder[a.type];
       });
 
@@ -148,45 +235,56 @@ export class SecurityFileFilter {
   }
 
   /**
-   * Gets analysis-specific file filters
+   * Gets analysis-specific file filters; categories an analysis does not name are left out
    */
   static getAnalysisFilters(analysisType: string): FileFilterOptions {
     switch (analysisType) {
       case 'secrets':
-        return {
-          includeSecretFiles: true,
-          includeConfigFiles: true,
-          maxFiles: 20
-        };
+        return { ...this.categoryFilters(['secret', 'config']), maxFiles: 20 };
       case 'vulnerabilities':
-        return {
-          includeSecurityFiles: true,
-          includeDependencyFiles: true,
-          maxFiles: 15
-        };
+        return { ...this.categoryFilters(['security', 'dependency', 'workflow']), maxFiles: 15 };
       case 'dependencies':
-        return {
-          includeDependencyFiles: true,
-          maxFiles: 10
-        };
+        return { ...this.categoryFilters(['dependency']), maxFiles: 10 };
       case 'code-patterns':
-        return {
-          includeSecurityFiles: true,
-          includeConfigFiles: true,
-          maxFiles: 25
-        };
+        return { ...this.categoryFilters(['security', 'config', 'source']), maxFiles: 25 };
       default:
         return {
-          includeConfigFiles: true,
-          includeDependencyFiles: true,
-          includeSecretFiles: true,
-          includeSecurityFiles: true,
-          includeDeploymentFiles: true,
+          ...this.categoryFilters(['config', 'dependency', 'secret', 'security', 'deployment', 'workflow']),
           maxFiles: 30
         };
     }
   }
 
+  private static categoryFilters(categories: SecurityFile['type'][]): FileFilterOptions {
+    return {
+      includeConfigFiles: categories.includes('config'),
+      includeDependencyFiles: categories.includes('dependency'),
+      includeSecretFiles: categories.includes('secret'),
+      includeSecurityFiles: categories.includes('security'),
+      includeDeploymentFiles: categories.includes('deployment'),
+      includeWorkflowFiles: categories.includes('workflow'),
+      includeSourceFiles: categories.includes('source')
+    };
+  }
+
+  private static compileConfig(config: FilePatternConfig): CompiledPatternSet {
+    let compiled = this.compiledConfigs.get(config);
+    if (!compiled) {
+      compiled = {
+        include: Object.entries(config.include || {}).flatMap(([category, patterns]) => (patterns || []).map(pattern => ({
+          category: category as SecurityFile['type'],
+          pattern,
+          expression: PathPattern.compile(pattern, true),
+          source: config.source
+        }))),
+        exclude: (config.exclude || []).map(pattern => ({ pattern, expression: PathPattern.compile(pattern, true) })),
+        defaultExcludes: config.defaultExcludes !== false
+      };
+      this.compiledConfigs.set(config, compiled);
+    }
+    return compiled;
+  }
+
   private static shouldIncludeCategory(category: string, options: FileFilterOptions): boolean {
     switch (category) {
       case 'config': return options.includeConfigFiles !== false;
@@ -194,6 +292,8 @@ export class SecurityFileFilter {
       case 'secret': return options.includeSecretFiles !== false;
       case 'security': return options.includeSecurityFiles !== false;
       case 'deployment': return options.includeDeploymentFiles !== false;
+      case 'workflow': return options.includeWorkflowFiles !== false;
+      case 'source': return options.includeSourceFiles === true;
       default: return true;
     }
   }
@@ -201,6 +301,7 @@ export class SecurityFileFilter {
   private static getPriority(category: string, filePath: string): 'high' | 'medium' | 'low' {
     // High priority: secrets, root-level configs, main dependency files
     if (category === 'secret') return 'high';
+    if (category === 'workflow') return 'high';
     if (category === 'dependency' && !filePath.includes('/')) return 'high';
     if (category === 'config' && filePath.includes('.env')) return 'high';
 
@@ -1,5 +1,9 @@
 import { AnalysisChunk } from './analysisChunker';
 import { ChunkProcessor, ChunkResult } from './chunkProcessor';
+import { DependencyInventory } from './lockfileParser';
+import { mapWithConcurrency } from './concurrency';
+import { OsvDatabase } from './osvDatabase';
+import { RulePack } from './rulePackLoader';
 
 export interface StreamingProgress {
   currentChunk: number;
@@ -34,8 +38,29 @@ export interface StreamingOptions {
   onChunkComplete?: (result: ChunkResult) => void;
   onError?: (error: Error, chunk: AnalysisChunk) => void;
   maxConcurrentChunks?: number;
+  // Offline advisory snapshot used to match dependency chunks
+  vulnerabilityDatabase?: OsvDatabase | null;
+  // Custom detection rules applied to every chunk
+  rulePacks?: RulePack[];
+  // Lockfiles parsed before chunking, since pieces of a split lockfile cannot be parsed
+  dependencyInventory?: DependencyInventory;
+  // Chunks not started when this is aborted are skipped
+  signal?: AbortSignal;
 }
 
+// AI analysis of one chunk finished, after the analyzer's local pass over all chunks
+export interface AIChunkProgress {
+  chunkType: string;
+  completed: number;
+  total: number;
+  failed: boolean;
+}
+
+// Callbacks callers outside the analyzer subscribe to, e.g. to forward progress to an MCP client
+export type StreamingCallbacks = Pick<StreamingOptions, 'onProgress' | 'onChunkComplete'> & {
+  onAIChunkComplete?: (progress: AIChunkProgress) => void;
+};
+
 export class StreamingAnalyzer {
   private analysisType: string;
   private repository: string;
@@ -48,25 +73,23 @@ export class StreamingAnalyzer {
       onProgress: () => {},
       onChunkComplete: () => {},
       onError: () => {},
-      maxConcurrentChunks: 1, // Sequential processing for now
+      maxConcurrentChunks: 1,
       ...options
     };
   }
 
   /**
-   * Process chunks sequentially with real-time feedback
+   * Process up to maxConcurrentChunks chunks at once with real-time feedback.
+   * Results keep the order of the chunks however the work interleaves.
    */
   async processChunks(chunks: AnalysisChunk[]): Promise<AggregatedAnalysis> {
     const startTime = Date.now();
     console.log(`🚀 Starting streaming analysis of ${chunks.length} chunks...`);
 
-    const chunkResults: ChunkResult[] = [];
     let totalFindings = 0;
     let failedChunks = 0;
 
-    // Process chunks sequentially
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
+    const results = await mapWithConcurrency(chunks, this.options.maxConcurrentChunks || 1, async (chunk, i): Promise<ChunkResult | null> => {
       const currentChunk = i + 1;
 
       try {
@@ -77,24 +100,32 @@ export class StreamingAnalyzer {
         console.log(`📊 Progress: ${progress.percentage}% (${currentChunk}/${chunks.length})`);
 
         // Process the chunk
-        const processor = new ChunkProcessor(this.analysisType, this.repository);
+        const processor = new ChunkProcessor(
+          this.analysisType,
+          this.repository,
+          this.options.vulnerabilityDatabase,
+          this.options.rulePacks,
+          this.options.dependencyInventory
+        );
         const result = await processor.processChunk(chunk);
 
         // Update totals
         totalFindings += result.findings.length;
-        chunkResults.push(result);
 
         // Notify chunk completion
         this.options.onChunkComplete!(result);
 
         console.log(`✅ ${processor.getProcessingStats(chunk, result)}`);
+        return result;
 
       } catch (error) {
         failedChunks++;
         console.error(`❌ Failed to process chunk ${chunk.type}:`, error);
         this.options.onError!(error as Error, chunk);
+        return null;
       }
-    }
+    }, () => !this.options.signal?.aborted);
+    const chunkResults = results.filter((result): result is ChunkResult => Boolean(result));
 
     // Generate aggregated results
     const aggregatedAnalysis = this.aggregateResults(
@@ -0,0 +1,396 @@
+import { ChunkFinding } from './chunkProcessor';
+import { HclBlock, HclBody, HclParser } from './hclParser';
+import { SecretDetector } from './secretDetector';
+
+interface EncryptionSetting {
+  resourceType: string;
+  attribute: string;
+}
+
+interface PolicyStatement {
+  effect: string;
+  actions: string[];
+  resources: string[];
+  principals: string[];
+}
+
+// Ports that should never be reachable from the whole internet
+const SENSITIVE_PORTS: Record<number, string> = {
+  21: 'FTP', 22: 'SSH', 23: 'Telnet', 445: 'SMB', 1433: 'SQL Server', 1521: 'Oracle', 2375: 'Docker',
+  2379: 'etcd', 3306: 'MySQL', 3389: 'RDP', 5432: 'PostgreSQL', 5601: 'Kibana', 6379: 'Redis',
+  9200: 'Elasticsearch', 11211: 'Memcached', 27017: 'MongoDB'
+};
+
+const PUBLIC_CIDRS = ['0.0.0.0/0', '::/0'];
+const PUBLIC_AZURE_SOURCES = ['*', '0.0.0.0/0', 'internet', 'any'];
+const PUBLIC_S3_ACLS = ['public-read', 'public-read-write', 'authenticated-read'];
+const PUBLIC_GCS_MEMBERS = ['allUsers', 'allAuthenticatedUsers'];
+const PUBLIC_ACCESS_BLOCK_FLAGS = ['block_public_acls', 'block_public_policy', 'ignore_public_acls', 'restrict_public_buckets'];
+const IAM_POLICY_RESOURCES = ['aws_iam_policy', 'aws_iam_role_policy', 'aws_iam_user_policy', 'aws_iam_group_policy'];
+
+// Storage resources and the attribute that must be true for encryption at rest
+const ENCRYPTION_SETTINGS: EncryptionSetting[] = [
+  { resourceType: 'aws_db_instance', attribute: 'storage_encrypted' },
+  { resourceType: 'aws_rds_cluster', attribute: 'storage_encrypted' },
+  { resourceType: 'aws_docdb_cluster', attribute: 'storage_encrypted' },
+  { resourceType: 'aws_neptune_cluster', attribute: 'storage_encrypted' },
+  { resourceType: 'aws_ebs_volume', attribute: 'encrypted' },
+  { resourceType: 'aws_efs_file_system', attribute: 'encrypted' },
+  { resourceType: 'aws_redshift_cluster', attribute: 'encrypted' },
+  { resourceType: 'aws_elasticache_replication_group', attribute: 'at_rest_encryption_enabled' }
+];
+
+type FindingFactory = (
+  ruleId: string,
+  severity: ChunkFinding['severity'],
+  title: string,
+  description: string,
+  lineNumber: number,
+  recommendation: string
+) => ChunkFinding;
+
+export class TerraformAnalyzer {
+  /**
+   * Check a Terraform file for common cloud misconfigurations
+   */
+  static analyze(content: string, filePath: string): ChunkFinding[] {
+    let body: HclBody;
+    try {
+      body = HclParser.parse(content);
+    } catch (error) {
+      console.warn(`⚠️ Could not parse Terraform file ${filePath}:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+
+    const findings: ChunkFinding[] = [];
+    for (const block of body.blocks) {
+      const address = this.addressOf(block);
+      if (!address) continue;
+
+      const finding: FindingFactory = (ruleId, severity, title, description, lineNumber, recommendation) => ({
+        type: 'security',
+        severity,
+        title,
+        description: `${description} in ${address} (${filePath}:${lineNumber})`,
+        filePath,
+        lineNumber,
+        recommendation,
+        ruleId,
+        resource: address
+      });
+
+      if (block.type === 'provider') {
+        findings.push(...this.checkProviderCredentials(block, finding));
+        continue;
+      }
+
+      findings.push(
+        ...this.checkPublicBuckets(block, finding),
+        ...this.checkOpenIngress(block, finding),
+        ...this.checkEncryption(block, finding),
+        ...this.checkIamWildcards(block, finding)
+      );
+    }
+
+    return findings;
+  }
+
+  private static checkProviderCredentials(block: HclBlock, finding: FindingFactory): ChunkFinding[] {
+    const findings: ChunkFinding[] = [];
+    const visit = (body: HclBody) => {
+      for (const [name, value] of Object.entries(body.attributes)) {
+        if (typeof value !== 'string' || !value || value.includes('${')) continue;
+        const knownFormat = SecretDetector.scan(value)[0];
+        if (!SecretDetector.isSecretName(name) && !knownFormat) continue;
+
+        findings.push(finding(
+          'tf-provider-hardcoded-credentials', 'critical', 'Hard-coded provider credentials',
+          `${name} = "${SecretDetector.mask(value)}" is committed in the provider configuration`,
+          body.attributeLines[name],
+          'Remove the credential, rotate it, and supply it through environment variables, a credentials file or a secrets manager.'
+        ));
+      }
+      body.blocks.forEach(visit);
+    };
+
+    visit(block);
+    return findings;
+  }
+
+  private static checkPublicBuckets(block: HclBlock, finding: FindingFactory): ChunkFinding[] {
+    const findings: ChunkFinding[] = [];
+    const resourceType = block.labels[0];
+    if (block.type !== 'resource') return findings;
+
+    if ((resourceType === 'aws_s3_bucket' || resourceType === 'aws_s3_bucket_acl') && PUBLIC_S3_ACLS.includes(block.attributes.acl)) {
+      findings.push(finding(
+        'tf-s3-public-bucket', 'high', 'Publicly readable S3 bucket',
+        `acl = "${block.attributes.acl}" grants access to everyone`, block.attributeLines.acl,
+        'Use a private ACL and enable an S3 public access block.'
+      ));
+    }
+
+    if (resourceType === 'aws_s3_bucket_public_access_block') {
+      const disabled = PUBLIC_ACCESS_BLOCK_FLAGS.filter(flag => block.attributes[flag] !== true);
+      if (disabled.length > 0) {
+        const line = disabled.map(flag => block.attributeLines[flag]).find(Boolean) ?? block.lineNumber;
+        findings.push(finding(
+          'tf-s3-public-access-block-disabled', 'medium', 'S3 public access block not fully enabled',
+          `${disabled.join(', ')} ${disabled.length === 1 ? 'is' : 'are'} not set to true`, line,
+          'Set block_public_acls, block_public_policy, ignore_public_acls and restrict_public_buckets to true.'
+        ));
+      }
+    }
+
+    if (resourceType === 'aws_s3_bucket_policy') {
+      const publicStatement = this.policyStatements(block.attributes.policy)
+        .find(statement => statement.effect === 'Allow' && statement.principals.includes('*'));
+      if (publicStatement) {
+        findings.push(finding(
+          'tf-s3-public-bucket', 'high', 'S3 bucket policy allows public access',
+          `The bucket policy allows ${publicStatement.actions.join(', ') || 'actions'} for Principal "*"`,
+          block.attributeLines.policy ?? block.lineNumber,
+          'Restrict the policy principal to specific accounts or roles.'
+        ));
+      }
+    }
+
+    if (resourceType === 'google_storage_bucket_iam_member' || resourceType === 'google_storage_bucket_iam_binding') {
+      const members = ([] as unknown[]).concat(block.attributes.member ?? [], block.attributes.members ?? []);
+      const publicMembers = members.filter((member): member is string => typeof member === 'string' && PUBLIC_GCS_MEMBERS.includes(member));
+      if (publicMembers.length > 0) {
+        findings.push(finding(
+          'tf-gcs-public-bucket', 'high', 'Publicly accessible storage bucket',
+          `${block.attributes.role || 'A role'} is granted to ${publicMembers.join(', ')}`,
+          block.attributeLines.member ?? block.attributeLines.members ?? block.lineNumber,
+          'Grant bucket roles to specific users, groups or service accounts instead of allUsers.'
+        ));
+      }
+    }
+
+    return findings;
+  }
+
+  private static checkOpenIngress(block: HclBlock, finding: FindingFactory): ChunkFinding[] {
+    if (block.type !== 'resource') return [];
+    const resourceType = block.labels[0];
+    const rules: { body: HclBody; line: number; exposed: string | null }[] = [];
+
+    if (resourceType === 'aws_security_group') {
+      for (const ingress of block.blocks.filter(b => b.type === 'ingress')) {
+        rules.push({ body: ingress, line: ingress.lineNumber, exposed: this.awsExposure(ingress, 'cidr_blocks', 'ipv6_cidr_blocks', 'protocol') });
+      }
+    }
+    if (resourceType === 'aws_security_group_rule' && block.attributes.type === 'ingress') {
+      rules.push({ body: block, line: block.lineNumber, exposed: this.awsExposure(block, 'cidr_blocks', 'ipv6_cidr_blocks', 'protocol') });
+    }
+    if (resourceType === 'aws_vpc_security_group_ingress_rule') {
+      rules.push({ body: block, line: block.lineNumber, exposed: this.awsExposure(block, 'cidr_ipv4', 'cidr_ipv6', 'ip_protocol') });
+    }
+    if (resourceType === 'google_compute_firewall') {
+      rules.push({ body: block, line: block.lineNumber, exposed: this.gcpExposure(block) });
+    }
+    if (resourceType === 'azurerm_network_security_rule') {
+      rules.push({ body: block, line: block.lineNumber, exposed: this.azureExposure(block) });
+    }
+    if (resourceType === 'azurerm_network_security_group') {
+      for (const rule of block.blocks.filter(b => b.type === 'security_rule')) {
+        rules.push({ body: rule, line: rule.lineNumber, exposed: this.azureExposure(rule) });
+      }
+    }
+
+    return rules
+      .filter(rule => rule.exposed)
+      .map(rule => finding(
+        'tf-open-ingress', 'high', 'Sensitive port open to the internet',
+        `Ingress from anywhere is allowed on ${rule.exposed}`, rule.line,
+        'Restrict the source range to known networks, or reach the service through a bastion, VPN or private endpoint.'
+      ));
+  }
+
+  private static checkEncryption(block: HclBlock, finding: FindingFactory): ChunkFinding[] {
+    if (block.type !== 'resource') return [];
+    const findings: ChunkFinding[] = [];
+
+    const setting = ENCRYPTION_SETTINGS.find(s => s.resourceType === block.labels[0]);
+    // Values computed from variables cannot be judged here
+    if (setting && block.attributes[setting.attribute] !== true && !HclParser.isExpression(block.attributes[setting.attribute])) {
+      findings.push(finding(
+        'tf-unencrypted-storage', 'medium', 'Storage not encrypted at rest',
+        `${setting.attribute} is ${block.attributes[setting.attribute] === false ? 'disabled' : 'not enabled'}`,
+        block.attributeLines[setting.attribute] ?? block.lineNumber,
+        `Set ${setting.attribute} = true, optionally with a customer-managed KMS key.`
+      ));
+    }
+
+    if (block.labels[0] === 'aws_instance' || block.labels[0] === 'aws_launch_template') {
+      for (const device of HclParser.findBlocks(block, 'root_block_device').concat(HclParser.findBlocks(block, 'ebs_block_device'), HclParser.findBlocks(block, 'ebs'))) {
+        if (device.attributes.encrypted === false) {
+          findings.push(finding(
+            'tf-unencrypted-storage', 'medium', 'Storage not encrypted at rest',
+            `${device.type} sets encrypted = false`, device.attributeLines.encrypted,
+            'Set encrypted = true on every block device.'
+          ));
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private static checkIamWildcards(block: HclBlock, finding: FindingFactory): ChunkFinding[] {
+    let statements: { statement: PolicyStatement; line: number }[] = [];
+
+    if (block.type === 'resource' && IAM_POLICY_RESOURCES.includes(block.labels[0])) {
+      statements = this.policyStatements(block.attributes.policy)
+        .map(statement => ({ statement, line: block.attributeLines.policy ?? block.lineNumber }));
+    } else if (block.type === 'data' && block.labels[0] === 'aws_iam_policy_document') {
+      statements = block.blocks
+        .filter(b => b.type === 'statement')
+        .map(b => ({
+          statement: {
+            effect: typeof b.attributes.effect === 'string' ? b.attributes.effect : 'Allow',
+            actions: this.stringList(b.attributes.actions),
+            resources: this.stringList(b.attributes.resources),
+            principals: []
+          },
+          line: b.attributeLines.actions ?? b.lineNumber
+        }));
+    }
+
+    return statements
+      .filter(({ statement }) => statement.effect === 'Allow')
+      .map(({ statement, line }) => {
+        const fullWildcard = statement.actions.includes('*');
+        const serviceWildcards = statement.actions.filter(action => /^[\w-]+:\*$/.test(action));
+        if (!fullWildcard && serviceWildcards.length === 0) return null;
+
+        const allResources = statement.resources.includes('*');
+        return finding(
+          'tf-iam-wildcard',
+          fullWildcard ? (allResources ? 'critical' : 'high') : 'medium',
+          fullWildcard ? 'IAM policy allows all actions' : 'IAM policy uses service-wide wildcards',
+          `The policy allows ${fullWildcard ? '"*"' : serviceWildcards.join(', ')} on ${allResources ? 'all resources' : statement.resources.join(', ') || 'its resources'}`,
+          line,
+          'Grant only the specific actions and resources the principal needs.'
+        );
+      })
+      .filter((f): f is ChunkFinding => f !== null);
+  }
+
+  /**
+   * Which sensitive ports an AWS ingress rule exposes to 0.0.0.0/0 or ::/0, if any
+   */
+  private static awsExposure(body: HclBody, ipv4: string, ipv6: string, protocolAttribute: string): string | null {
+    const sources = this.stringList(body.attributes[ipv4]).concat(this.stringList(body.attributes[ipv6]));
+    if (!sources.some(source => PUBLIC_CIDRS.includes(source))) return null;
+
+    const protocol = String(body.attributes[protocolAttribute] ?? '').toLowerCase();
+    if (protocol === '-1' || protocol === 'all') return 'all ports';
+    return this.exposedPorts([[this.toPort(body.attributes.from_port), this.toPort(body.attributes.to_port)]]);
+  }
+
+  private static gcpExposure(block: HclBlock): string | null {
+    const direction = typeof block.attributes.direction === 'string' ? block.attributes.direction.toUpperCase() : 'INGRESS';
+    if (direction !== 'INGRESS') return null;
+    if (!this.stringList(block.attributes.source_ranges).some(range => PUBLIC_CIDRS.includes(range))) return null;
+
+    const ranges: [number | null, number | null][] = [];
+    for (const allow of block.blocks.filter(b => b.type === 'allow')) {
+      const ports = this.stringList(allow.attributes.ports);
+      if (allow.attributes.protocol === 'all' || ports.length === 0) return 'all ports';
+      ports.forEach(port => ranges.push(this.parsePortRange(port)));
+    }
+    return this.exposedPorts(ranges);
+  }
+
+  private static azureExposure(body: HclBody): string | null {
+    const { direction, access } = body.attributes;
+    if (typeof direction !== 'string' || direction.toLowerCase() !== 'inbound') return null;
+    if (typeof access !== 'string' || access.toLowerCase() !== 'allow') return null;
+
+    const sources = this.stringList(body.attributes.source_address_prefix).concat(this.stringList(body.attributes.source_address_prefixes));
+    if (!sources.some(source => PUBLIC_AZURE_SOURCES.includes(source.toLowerCase()))) return null;
+
+    const ports = this.stringList(body.attributes.destination_port_range).concat(this.stringList(body.attributes.destination_port_ranges));
+    if (ports.includes('*')) return 'all ports';
+    return this.exposedPorts(ports.map(port => this.parsePortRange(port)));
+  }
+
+  /**
+   * Describe the sensitive ports covered by a set of port ranges, e.g. "port 22 (SSH)"
+   */
+  private static exposedPorts(ranges: [number | null, number | null][]): string | null {
+    const exposed = new Set<number>();
+    for (const [from, to] of ranges) {
+      if (from === null || to === null) continue;
+      if (from <= 0 && to >= 65535) return 'all ports';
+      Object.keys(SENSITIVE_PORTS).map(Number).filter(port => port >= from && port <= to).forEach(port => exposed.add(port));
+    }
+
+    if (exposed.size === 0) return null;
+    const ports = Array.from(exposed).sort((a, b) => a - b).map(port => `${port} (${SENSITIVE_PORTS[port]})`);
+    return `${ports.length === 1 ? 'port' : 'ports'} ${ports.join(', ')}`;
+  }
+
+  private static parsePortRange(port: string): [number | null, number | null] {
+    const [from, to = from] = port.split('-');
+    return [this.toPort(from), this.toPort(to)];
+  }
+
+  private static toPort(value: unknown): number | null {
+    const port = typeof value === 'number' ? value : typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+    return Number.isFinite(port) ? port : null;
+  }
+
+  /**
+   * Read policy statements from a JSON string, a heredoc or a literal jsonencode({...}) call
+   */
+  private static policyStatements(policy: unknown): PolicyStatement[] {
+    let document: any = null;
+    if (typeof policy === 'string') {
+      try {
+        document = JSON.parse(policy);
+      } catch {
+        return [];
+      }
+    } else if (HclParser.isExpression(policy)) {
+      const match = policy.expression.match(/^jsonencode\(([\s\S]*)\)$/);
+      if (!match) return [];
+      try {
+        document = HclParser.parseExpression(match[1]);
+      } catch {
+        return [];
+      }
+    }
+
+    const statements = document?.Statement;
+    return ([] as any[]).concat(statements ?? []).filter(s => s && typeof s === 'object').map(statement => ({
+      effect: typeof statement.Effect === 'string' ? statement.Effect : 'Allow',
+      actions: this.stringList(statement.Action),
+      resources: this.stringList(statement.Resource),
+      principals: this.principals(statement.Principal)
+    }));
+  }
+
+  private static principals(principal: unknown): string[] {
+    if (principal && typeof principal === 'object' && !Array.isArray(principal)) {
+      return Object.values(principal).flatMap(value => this.stringList(value));
+    }
+    return this.stringList(principal);
+  }
+
+  private static stringList(value: unknown): string[] {
+    return ([] as unknown[]).concat(value ?? []).filter((item): item is string => typeof item === 'string');
+  }
+
+  /**
+   * Terraform address of a block, e.g. aws_s3_bucket.logs, data.aws_iam_policy_document.admin or provider.aws
+   */
+  private static addressOf(block: HclBlock): string | null {
+    if (block.type === 'resource' && block.labels.length === 2) return `${block.labels[0]}.${block.labels[1]}`;
+    if (block.type === 'data' && block.labels.length === 2) return `data.${block.labels[0]}.${block.labels[1]}`;
+    if (block.type === 'provider' && block.labels.length >= 1) return `provider.${block.labels[0]}`;
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+// Pre-tokenization used by GPT-style BPE tokenizers: contractions, words, short digit runs,
+// punctuation runs and whitespace each become at least one token
+const PRE_TOKEN_PATTERN = /'(?:s|t|re|ve|m|ll|d)\b| ?[A-Za-z]+| ?\d{1,3}| ?[^\sA-Za-z\d]+|\s+(?!\S)|\s+/g;
+
+// Merges rarely cover more than four letters of identifiers, hashes and encoded secrets
+const CHARACTERS_PER_WORD_TOKEN = 4;
+const CHARACTERS_PER_SYMBOL_TOKEN = 2;
+
+export type Tokenizer = (text: string) => number;
+
+export class TokenCounter {
+  /**
+   * Count the tokens a BPE model uses for text, rounding up so budgets stay safe across models
+   */
+  static count(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(PRE_TOKEN_PATTERN)) {
+      tokens += this.countPiece(piece);
+    }
+    return tokens;
+  }
+
+  private static countPiece(piece: string): number {
+    const body = piece.length > 1 && piece[0] === ' ' ? piece.slice(1) : piece;
+    if (/^\s+$/.test(body) || /^\d+$/.test(body) || body[0] === "'") return 1;
+    if (/^[A-Za-z]+$/.test(body)) return Math.ceil(body.length / CHARACTERS_PER_WORD_TOKEN);
+
+    // Characters outside ASCII are split into byte-level tokens
+    let tokens = 0;
+    let ascii = 0;
+    for (const char of body) {
+      if (char.charCodeAt(0) < 0x80) ascii++;
+      else tokens += 2;
+    }
+    return tokens + Math.ceil(ascii / CHARACTERS_PER_SYMBOL_TOKEN);
+  }
+}
@@ -0,0 +1,196 @@
+import { DependencyEcosystem } from './lockfileParser';
+
+// OSV range event: exactly one key is set
+export interface OsvRangeEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+export interface OsvRange {
+  type: 'SEMVER' | 'ECOSYSTEM' | 'GIT';
+  events: OsvRangeEvent[];
+}
+
+export interface RangeMatch {
+  introduced?: string;
+  fixed?: string;
+  lastAffected?: string;
+  limit?: string;
+}
+
+const SEMVER_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PEP440_PATTERN = /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\d+)?)?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d+)?)?(?:[-_.]?(dev)[-_.]?(\d+)?)?(?:\+[a-z0-9]+(?:[-_.][a-z0-9]+)*)?$/i;
+const PEP440_PRE_RANK: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 };
+
+/**
+ * Compare two versions using the ordering rules of the package ecosystem
+ */
+export function compareVersions(ecosystem: DependencyEcosystem, a: string, b: string): number {
+  switch (ecosystem) {
+    case 'PyPI':
+      return comparePep440(a, b);
+    case 'Go':
+      return compareSemver(a.replace(/\+incompatible$/, ''), b.replace(/\+incompatible$/, ''));
+    case 'npm':
+    case 'crates.io':
+      return compareSemver(a, b);
+    case 'RubyGems':
+    case 'Packagist':
+    default:
+      return compareSegments(a, b);
+  }
+}
+
+/**
+ * Evaluate an OSV SEMVER or ECOSYSTEM range; returns the interval containing the version, or null
+ */
+export function matchRange(ecosystem: DependencyEcosystem, version: string, range: OsvRange): RangeMatch | null {
+  if (range.type === 'GIT') return null;
+
+  const eventVersion = (event: OsvRangeEvent) =>
+    event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+  const compareToVersion = (value: string) => (value === '0' ? 1 : compareVersions(ecosystem, version, value));
+  const sorted = [...range.events].sort((x, y) => {
+    const vx = eventVersion(x);
+    const vy = eventVersion(y);
+    if (vx === '0' || vy === '0') return vx === vy ? 0 : vx === '0' ? -1 : 1;
+    return compareVersions(ecosystem, vx, vy);
+  });
+
+  let current: RangeMatch | null = null;
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      if (compareToVersion(event.introduced) >= 0) current = { introduced: event.introduced };
+    } else if (event.fixed !== undefined) {
+      if (compareToVersion(event.fixed) >= 0) current = null;
+      else if (current) return { ...current, fixed: event.fixed };
+    } else if (event.last_affected !== undefined) {
+      if (compareToVersion(event.last_affected) > 0) current = null;
+      else if (current) return { ...current, lastAffected: event.last_affected };
+    } else if (event.limit !== undefined) {
+      if (compareToVersion(event.limit) >= 0) current = null;
+      else if (current) return { ...current, limit: event.limit };
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Render a matched interval as a readable range, e.g. ">=1.0.0, <1.2.3"
+ */
+export function formatRange(match: RangeMatch): string {
+  const parts: string[] = [];
+  if (match.introduced && match.introduced !== '0') parts.push(`>=${match.introduced}`);
+  if (match.fixed) parts.push(`<${match.fixed}`);
+  if (match.lastAffected) parts.push(`<=${match.lastAffected}`);
+  if (match.limit) parts.push(`<${match.limit}`);
+  return parts.length > 0 ? parts.join(', ') : '*';
+}
+
+/**
+ * Semantic Versioning 2.0.0 precedence, tolerating a leading "v" and missing minor/patch
+ */
+export function compareSemver(a: string, b: string): number {
+  const pa = a.trim().match(SEMVER_PATTERN);
+  const pb = b.trim().match(SEMVER_PATTERN);
+  if (!pa || !pb) return compareSegments(a, b);
+
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(pa[i] || 0) - Number(pb[i] || 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+
+  const preA = pa[4];
+  const preB = pb[4];
+  if (!preA || !preB) return preA ? -1 : preB ? 1 : 0;
+
+  const idsA = preA.split('.');
+  const idsB = preB.split('.');
+  for (let i = 0; i < Math.max(idsA.length, idsB.length); i++) {
+    if (idsA[i] === undefined) return -1;
+    if (idsB[i] === undefined) return 1;
+    const numA = /^\d+$/.test(idsA[i]);
+    const numB = /^\d+$/.test(idsB[i]);
+    if (numA && numB) {
+      const diff = Number(idsA[i]) - Number(idsB[i]);
+      if (diff !== 0) return Math.sign(diff);
+    } else if (numA !== numB) {
+      return numA ? -1 : 1;
+    } else if (idsA[i] !== idsB[i]) {
+      return idsA[i] < idsB[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * PEP 440 ordering: epoch, release, then dev/pre/post segments; local labels are ignored
+ */
+export function comparePep440(a: string, b: string): number {
+  const ka = pep440Key(a);
+  const kb = pep440Key(b);
+  if (!ka || !kb) return compareSegments(a, b);
+
+  for (let i = 0; i < Math.max(ka.length, kb.length); i++) {
+    const x = ka[i] ?? 0;
+    const y = kb[i] ?? 0;
+    if (x !== y) return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Fallback ordering used by RubyGems and Composer style versions: dot/letter segments,
+ * numeric segments compared numerically, and a letter segment marks a pre-release
+ */
+export function compareSegments(a: string, b: string): number {
+  const split = (value: string) =>
+    value.trim().replace(/^v/i, '').toLowerCase().match(/\d+|[a-z]+/g) || [];
+  const sa = split(a);
+  const sb = split(b);
+
+  for (let i = 0; i < Math.max(sa.length, sb.length); i++) {
+    // A missing segment counts as zero, so "1.0" equals "1.0.0" but is newer than "1.0.rc1"
+    const x = sa[i] ?? '0';
+    const y = sb[i] ?? '0';
+    if (x === y) continue;
+
+    const numX = /^\d+$/.test(x);
+    const numY = /^\d+$/.test(y);
+    if (numX && numY) {
+      const diff = Number(x) - Number(y);
+      if (diff !== 0) return Math.sign(diff);
+    } else if (numX !== numY) {
+      return numX ? 1 : -1;
+    } else {
+      return x < y ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+function pep440Key(version: string): number[] | null {
+  const match = version.trim().match(PEP440_PATTERN);
+  if (!match) return null;
+
+  const [, epoch, release, preLabel, preNumber, postImplicit, postLabel, postNumber, devLabel, devNumber] = match;
+  const releaseParts = release.split('.').map(Number);
+  while (releaseParts.length > 1 && releaseParts[releaseParts.length - 1] === 0) releaseParts.pop();
+
+  const hasPost = postImplicit !== undefined || postLabel !== undefined;
+  // A dev release of a final version sorts before its pre-releases
+  const pre = preLabel
+    ? [PEP440_PRE_RANK[preLabel.toLowerCase()], Number(preNumber || 0)]
+    : !hasPost && devLabel
+      ? [-Infinity, 0]
+      : [Infinity, 0];
+  const post = hasPost ? Number(postImplicit ?? postNumber ?? 0) : -Infinity;
+  const dev = devLabel ? Number(devNumber || 0) : Infinity;
+
+  // Pad the release so keys of different lengths line up segment by segment
+  const paddedRelease = [...releaseParts, ...Array(Math.max(0, 10 - releaseParts.length)).fill(0)];
+  return [Number(epoch || 0), ...paddedRelease, ...pre, post, dev];
+}
@@ -0,0 +1,248 @@
+import { ChunkFinding } from './chunkProcessor';
+import { YamlParser } from './yamlParser';
+
+// Event fields an outside contributor controls, e.g. github.event.pull_request.title
+const UNTRUSTED_INPUT_PATTERN = new RegExp(
+  '\\bgithub\\.(?:head_ref|event\\.(?:' + [
+    'issue\\.(?:title|body)',
+    'pull_request\\.(?:title|body|head\\.(?:ref|label|repo\\.default_branch))',
+    '(?:comment|review|review_comment)\\.body',
+    'discussion\\.(?:title|body)',
+    'pages\\.[^.\\s]+\\.page_name',
+    '(?:commits\\.[^.\\s]+|head_commit)\\.(?:message|author\\.(?:email|name))',
+    'workflow_run\\.(?:head_branch|display_title|head_commit\\.(?:message|author\\.(?:email|name)))'
+  ].join('|') + '))'
+);
+
+const EXPRESSION_PATTERN = /\$\{\{([\s\S]*?)\}\}/g;
+const PR_HEAD_REF_PATTERN = /github\.event\.pull_request\.head\.(?:sha|ref)|github\.head_ref|refs\/pull\//;
+const PRINT_COMMAND_PATTERN = /(?:^|[;&|]\s*|\s)(?:echo|printf|print|cat\s+<<|Write-(?:Host|Output)|console\.log)\b/;
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+// Owners whose actions are maintained by GitHub itself
+const FIRST_PARTY_OWNERS = ['actions', 'github'];
+
+type FindingFactory = (
+  ruleId: string,
+  severity: ChunkFinding['severity'],
+  title: string,
+  description: string,
+  lineNumber: number | undefined,
+  recommendation: string,
+  resource?: string
+) => ChunkFinding;
+
+export class WorkflowAnalyzer {
+  /**
+   * Check a workflow for CI supply-chain and injection issues
+   */
+  static analyze(content: string, filePath: string): ChunkFinding[] {
+    let workflow: any;
+    try {
+      workflow = YamlParser.parse(content);
+    } catch (error) {
+      console.warn(`⚠️ Could not parse workflow ${filePath}:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+    if (!workflow || typeof workflow !== 'object' || !workflow.jobs || typeof workflow.jobs !== 'object') return [];
+
+    const finding: FindingFactory = (ruleId, severity, title, description, lineNumber, recommendation, resource) => ({
+      type: 'security',
+      severity,
+      title,
+      description: `${description}${resource ? ` in ${resource}` : ''} (${filePath}${lineNumber ? `:${lineNumber}` : ''})`,
+      filePath,
+      lineNumber,
+      recommendation,
+      ruleId,
+      ...(resource && { resource })
+    });
+
+    const findings: ChunkFinding[] = [];
+    const triggers = this.triggers(workflow.on);
+    const isPullRequestTarget = triggers.includes('pull_request_target');
+    const workflowSecrets = this.secretEnvNames(workflow.env);
+
+    findings.push(...this.checkPermissions(workflow, finding));
+
+    for (const [jobId, job] of Object.entries<any>(workflow.jobs)) {
+      if (!job || typeof job !== 'object') continue;
+      const resource = `jobs.${jobId}`;
+
+      // Reusable workflow calls
+      if (typeof job.uses === 'string') {
+        const unpinned = this.checkActionReference(job.uses, YamlParser.lineOf(job, 'uses'), resource, finding);
+        if (unpinned) findings.push(unpinned);
+      }
+
+      const steps: any[] = Array.isArray(job.steps) ? job.steps : [];
+      const jobSecrets = new Set([...workflowSecrets, ...this.secretEnvNames(job.env)]);
+
+      steps.forEach((step, index) => {
+        if (!step || typeof step !== 'object') return;
+        const stepResource = `${resource}.steps[${step.id || step.name || index}]`;
+
+        if (typeof step.uses === 'string') {
+          const unpinned = this.checkActionReference(step.uses, YamlParser.lineOf(step, 'uses'), stepResource, finding);
+          if (unpinned) findings.push(unpinned);
+
+          const ref = step.with?.ref;
+          if (isPullRequestTarget && /^actions\/checkout@/.test(step.uses) && typeof ref === 'string' && PR_HEAD_REF_PATTERN.test(ref)) {
+            findings.push(finding(
+              'gha-pull-request-target-checkout', 'critical', 'pull_request_target checks out untrusted code',
+              `The workflow runs on pull_request_target and checks out the pull request head (${ref})`,
+              YamlParser.lineOf(step.with, 'ref') ?? YamlParser.lineOf(steps, index),
+              'Use the pull_request trigger for untrusted code, or never build or run the checked-out head in a privileged workflow.',
+              stepResource
+            ));
+          }
+
+          if (/^actions\/github-script@/.test(step.uses) && typeof step.with?.script === 'string') {
+            findings.push(...this.checkScript(step.with.script, YamlParser.lineOf(step.with, 'script'), new Set(), stepResource, finding));
+          }
+        }
+
+        if (typeof step.run === 'string') {
+          const runLine = YamlParser.lineOf(step, 'run');
+          const secrets = new Set([...jobSecrets, ...this.secretEnvNames(step.env)]);
+          findings.push(...this.checkScript(step.run, runLine, secrets, stepResource, finding));
+
+          if (isPullRequestTarget && /\b(gh\s+pr\s+checkout|git\s+(?:fetch|checkout)\b.*(?:refs\/pull\/|head_ref|pull_request\.head))/.test(step.run)) {
+            findings.push(finding(
+              'gha-pull-request-target-checkout', 'critical', 'pull_request_target checks out untrusted code',
+              'The workflow runs on pull_request_target and fetches the pull request head in a script',
+              runLine,
+              'Use the pull_request trigger for untrusted code, or never build or run the checked-out head in a privileged workflow.',
+              stepResource
+            ));
+          }
+        }
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Script injection through ${{ }} expressions and secrets printed to the log
+   */
+  private static checkScript(
+    script: string,
+    startLine: number | undefined,
+    secretEnvNames: Set<string>,
+    resource: string,
+    finding: FindingFactory
+  ): ChunkFinding[] {
+    const findings: ChunkFinding[] = [];
+    const lines = script.split('\n');
+    // Block scalars start on the line after the key
+    const lineOf = (index: number) => (startLine === undefined ? undefined : startLine + (lines.length > 1 ? index + 1 : 0));
+
+    lines.forEach((line, index) => {
+      for (const match of line.matchAll(EXPRESSION_PATTERN)) {
+        const untrusted = match[1].match(UNTRUSTED_INPUT_PATTERN);
+        if (!untrusted) continue;
+        findings.push(finding(
+          'gha-script-injection', 'high', 'Untrusted input interpolated into a script',
+          `${untrusted[0]} is expanded directly into the script, so its content can inject commands`,
+          lineOf(index),
+          'Pass the value through an environment variable (env: TITLE: ${{ ... }}) and reference it as "$TITLE" in the script.',
+          resource
+        ));
+      }
+
+      if (!PRINT_COMMAND_PATTERN.test(line) || /::add-mask::/.test(line)) return;
+      // Piping or redirecting the value (e.g. docker login --password-stdin) keeps it out of the log
+      if (/[|>]/.test(line.replace(EXPRESSION_PATTERN, '').replace(/\|\|/g, ''))) return;
+
+      const printsSecret = /\$\{\{\s*secrets\./.test(line)
+        || Array.from(secretEnvNames).some(name => new RegExp(`\\$(?:\\{${name}\\}|${name}\\b|env:${name}\\b)`).test(line));
+      if (printsSecret) {
+        findings.push(finding(
+          'gha-secret-echo', 'high', 'Secret printed to the workflow log',
+          'A secret is written to standard output, where masking can be bypassed by encoding or splitting it',
+          lineOf(index),
+          'Do not print secrets; pass them to tools through environment variables or stdin.',
+          resource
+        ));
+      }
+    });
+
+    return findings;
+  }
+
+  private static checkActionReference(
+    uses: string,
+    lineNumber: number | undefined,
+    resource: string,
+    finding: FindingFactory
+  ): ChunkFinding | null {
+    if (uses.startsWith('./') || uses.startsWith('docker://')) return null;
+
+    const [action, ref] = uses.split('@');
+    const owner = action.split('/')[0].toLowerCase();
+    if (FIRST_PARTY_OWNERS.includes(owner) || (ref && FULL_SHA_PATTERN.test(ref))) return null;
+
+    return finding(
+      'gha-unpinned-action', 'medium', 'Third-party action not pinned to a commit',
+      `${uses} is referenced by ${ref ? `the mutable ref "${ref}"` : 'no ref at all'}`,
+      lineNumber,
+      'Pin third-party actions to a full commit SHA and let Dependabot or Renovate propose updates.',
+      resource
+    );
+  }
+
+  private static checkPermissions(workflow: any, finding: FindingFactory): ChunkFinding[] {
+    const findings: ChunkFinding[] = [];
+    const scopes: { permissions: unknown; line: number | undefined; resource?: string }[] = [
+      { permissions: workflow.permissions, line: YamlParser.lineOf(workflow, 'permissions') }
+    ];
+    for (const [jobId, job] of Object.entries<any>(workflow.jobs)) {
+      if (job && typeof job === 'object' && 'permissions' in job) {
+        scopes.push({ permissions: job.permissions, line: YamlParser.lineOf(job, 'permissions'), resource: `jobs.${jobId}` });
+      }
+    }
+
+    for (const { permissions, line, resource } of scopes) {
+      if (permissions === 'write-all') {
+        findings.push(finding(
+          'gha-broad-permissions', 'high', 'Workflow token has write access to everything',
+          'permissions: write-all grants the GITHUB_TOKEN write access to every scope',
+          line,
+          'Grant only the scopes the job needs, e.g. permissions: { contents: read }.',
+          resource
+        ));
+      }
+    }
+
+    const jobs = Object.values<any>(workflow.jobs).filter(job => job && typeof job === 'object');
+    const everyJobScoped = jobs.length > 0 && jobs.every(job => 'permissions' in job);
+    if (workflow.permissions === undefined && !everyJobScoped) {
+      findings.push(finding(
+        'gha-missing-permissions', 'low', 'Workflow token permissions not restricted',
+        'No permissions block is set, so the GITHUB_TOKEN gets the repository default, which may include write access',
+        undefined,
+        'Add a top-level permissions block (e.g. contents: read) and widen it per job only where needed.'
+      ));
+    }
+
+    return findings;
+  }
+
+  /**
+   * Names of environment variables whose value comes from a secret
+   */
+  private static secretEnvNames(env: unknown): string[] {
+    if (!env || typeof env !== 'object') return [];
+    return Object.entries(env as Record<string, unknown>)
+      .filter(([, value]) => typeof value === 'string' && /\$\{\{\s*secrets\./.test(value))
+      .map(([name]) => name);
+  }
+
+  private static triggers(on: unknown): string[] {
+    if (typeof on === 'string') return [on];
+    if (Array.isArray(on)) return on.filter((event): event is string => typeof event === 'string');
+    if (on && typeof on === 'object') return Object.keys(on);
+    return [];
+  }
+}
@@ -0,0 +1,390 @@
+export interface YamlDocument {
+  value: any;
+  // 1-based line where the document content starts
+  lineNumber: number;
+}
+
+export class YamlParseError extends Error {
+  lineNumber: number;
+
+  constructor(message: string, lineNumber: number) {
+    super(`${message} at line ${lineNumber}`);
+    this.name = 'YamlParseError';
+    this.lineNumber = lineNumber;
+  }
+}
+
+// Line numbers of mapping keys and sequence items, keyed by the parsed container
+const LINE_NUMBERS = new WeakMap<object, Map<string | number, number>>();
+
+/**
+ * Parser for the block-style YAML subset used by manifests, workflows and config files:
+ * mappings, sequences, quoted and plain scalars, block scalars and single-line flow collections.
+ * Anchors, aliases, tags and multi-line flow collections are not supported.
+ */
+export class YamlParser {
+  private lines: string[];
+  private pos: number;
+  private end: number;
+
+  private constructor(lines: string[], start: number, end: number) {
+    this.lines = lines;
+    this.pos = start;
+    this.end = end;
+  }
+
+  /**
+   * Parse the first document in a YAML file
+   */
+  static parse(content: string): any {
+    const documents = this.parseDocuments(content);
+    return documents.length > 0 ? documents[0].value : null;
+  }
+
+  /**
+   * Parse every "---" separated document in a YAML file, skipping empty ones
+   */
+  static parseDocuments(content: string): YamlDocument[] {
+    const lines = content.split(/\r?\n/).map(line => line.replace(/\t/g, '  '));
+    const documents: YamlDocument[] = [];
+
+    let start = 0;
+    for (let i = 0; i <= lines.length; i++) {
+      const isSeparator = i < lines.length && (/^---(\s|$)/.test(lines[i]) || /^\.\.\.\s*$/.test(lines[i]));
+      if (i < lines.length && !isSeparator) continue;
+
+      const parser = new YamlParser(lines, start, i);
+      const first = parser.nextSignificant();
+      if (first !== -1) {
+        documents.push({ value: parser.parseNode(0), lineNumber: first + 1 });
+      }
+      start = i + 1;
+    }
+
+    return documents;
+  }
+
+  /**
+   * Line number of a mapping key or sequence item in a parsed container
+   */
+  static lineOf(container: unknown, key: string | number): number | undefined {
+    if (!container || typeof container !== 'object') return undefined;
+    return LINE_NUMBERS.get(container as object)?.get(key);
+  }
+
+  private parseNode(minIndent: number): any {
+    const index = this.nextSignificant();
+    if (index === -1) return null;
+
+    const indent = this.indentOf(index);
+    if (indent < minIndent) return null;
+
+    const text = this.textOf(index);
+    if (this.isSequenceItem(text)) return this.parseSequence(indent);
+    if (this.splitMappingEntry(text)) return this.parseMapping(indent);
+
+    this.pos = index + 1;
+    return this.parseInline(text, index + 1);
+  }
+
+  private parseMapping(indent: number): Record<string, any> {
+    const mapping: Record<string, any> = {};
+    const lineNumbers = new Map<string | number, number>();
+    LINE_NUMBERS.set(mapping, lineNumbers);
+    let lastKey: string | undefined;
+
+    while (true) {
+      const index = this.nextSignificant();
+      if (index === -1) break;
+
+      const lineIndent = this.indentOf(index);
+      const text = this.textOf(index);
+      if (lineIndent < indent) break;
+      if (lineIndent > indent) {
+        // Continuation of a multi-line plain scalar
+        if (lastKey !== undefined && typeof mapping[lastKey] === 'string') {
+          mapping[lastKey] += ' ' + text;
+        }
+        this.pos = index + 1;
+        continue;
+      }
+      if (this.isSequenceItem(text)) break;
+
+      const entry = this.splitMappingEntry(text);
+      if (!entry) {
+        throw new YamlParseError('Expected a mapping entry', index + 1);
+      }
+
+      this.pos = index + 1;
+      const key = entry.key;
+      lineNumbers.set(key, index + 1);
+      mapping[key] = this.parseValue(entry.value, indent, index + 1);
+      lastKey = key;
+    }
+
+    return mapping;
+  }
+
+  private parseSequence(indent: number): any[] {
+    const sequence: any[] = [];
+    const lineNumbers = new Map<string | number, number>();
+    LINE_NUMBERS.set(sequence, lineNumbers);
+
+    while (true) {
+      const index = this.nextSignificant();
+      if (index === -1 || this.indentOf(index) !== indent) break;
+
+      const text = this.textOf(index);
+      if (!this.isSequenceItem(text)) break;
+
+      lineNumbers.set(sequence.length, index + 1);
+      const rest = text.slice(1).trimStart();
+
+      if (!rest || /^[|>]/.test(rest)) {
+        this.pos = index + 1;
+        sequence.push(this.parseValue(rest, indent, index + 1));
+        continue;
+      }
+
+      // Re-read the item content as if it started on its own line at its own indentation
+      const itemIndent = indent + text.length - rest.length;
+      this.lines[index] = ' '.repeat(itemIndent) + this.lines[index].trimStart().slice(1).trimStart();
+      sequence.push(this.parseNode(itemIndent));
+    }
+
+    return sequence;
+  }
+
+  private parseValue(value: string, parentIndent: number, lineNumber: number): any {
+    if (/^[|>][-+0-9]*$/.test(value)) {
+      return this.parseBlockScalar(value, parentIndent);
+    }
+    if (value) {
+      return this.parseInline(value, lineNumber);
+    }
+
+    const index = this.nextSignificant();
+    if (index === -1) return null;
+    const indent = this.indentOf(index);
+    // Sequences may sit at the same indentation as their parent key
+    if (indent > parentIndent || (indent === parentIndent && this.isSequenceItem(this.textOf(index)))) {
+      return this.parseNode(indent);
+    }
+    return null;
+  }
+
+  private parseBlockScalar(header: string, parentIndent: number): string {
+    const folded = header.startsWith('>');
+    const chomping = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const collected: string[] = [];
+    let contentIndent = -1;
+
+    while (this.pos < this.end) {
+      const line = this.lines[this.pos];
+      if (line.trim() === '') {
+        collected.push('');
+        this.pos++;
+        continue;
+      }
+
+      const indent = line.length - line.trimStart().length;
+      if (indent <= parentIndent) break;
+      if (contentIndent === -1) contentIndent = indent;
+      if (indent < contentIndent) break;
+
+      collected.push(line.slice(contentIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the chomping indicator, not the content
+    let trailing = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+      trailing++;
+    }
+
+    const body = folded
+      ? collected.reduce((text, line, i) => {
+          if (i === 0) return line;
+          if (line === '') return text + '\n';
+          return text + (collected[i - 1] === '' ? '' : ' ') + line;
+        }, '')
+      : collected.join('\n');
+
+    if (collected.length === 0 || chomping === 'strip') return body;
+    return chomping === 'keep' ? body + '\n'.repeat(trailing + 1) : body + '\n';
+  }
+
+  private parseInline(text: string, lineNumber: number): any {
+    const value = text.replace(/^(?:![^\s]*|&[^\s]+)\s+/, '').trim();
+    // Go/Helm template expressions are kept as text rather than read as flow mappings
+    if (value.startsWith('{{')) return value;
+    if (value.startsWith('[') || value.startsWith('{')) {
+      return this.parseFlow({ text: value, pos: 0 }, lineNumber);
+    }
+    return this.parseScalar(value, lineNumber);
+  }
+
+  private parseFlow(flow: { text: string; pos: number }, lineNumber: number): any {
+    const skipSpace = () => {
+      while (flow.pos < flow.text.length && /\s/.test(flow.text[flow.pos])) flow.pos++;
+    };
+    skipSpace();
+
+    const open = flow.text[flow.pos];
+    if (open === '[' || open === '{') {
+      const close = open === '[' ? ']' : '}';
+      const result: any = open === '[' ? [] : {};
+      flow.pos++;
+
+      while (true) {
+        skipSpace();
+        if (flow.pos >= flow.text.length) throw new YamlParseError('Unterminated flow collection', lineNumber);
+        if (flow.text[flow.pos] === close) {
+          flow.pos++;
+          return result;
+        }
+
+        const item = this.parseFlow(flow, lineNumber);
+        skipSpace();
+        if (open === '{') {
+          if (flow.text[flow.pos] === ':') {
+            flow.pos++;
+            result[String(item)] = this.parseFlow(flow, lineNumber);
+          } else {
+            result[String(item)] = null;
+          }
+        } else {
+          result.push(item);
+        }
+
+        skipSpace();
+        if (flow.text[flow.pos] === ',') flow.pos++;
+      }
+    }
+
+    if (open === '"' || open === "'") {
+      const end = this.findQuoteEnd(flow.text, flow.pos);
+      const quoted = flow.text.slice(flow.pos, end + 1);
+      flow.pos = end + 1;
+      return this.parseScalar(quoted, lineNumber);
+    }
+
+    const start = flow.pos;
+    while (flow.pos < flow.text.length && !/[,\]}]/.test(flow.text[flow.pos])) {
+      if (flow.text[flow.pos] === ':' && /[\s,\]}]/.test(flow.text[flow.pos + 1] || ' ')) break;
+      flow.pos++;
+    }
+    return this.parseScalar(flow.text.slice(start, flow.pos).trim(), lineNumber);
+  }
+
+  private parseScalar(value: string, lineNumber: number): any {
+    if (value.startsWith('"')) {
+      if (!value.endsWith('"') || value.length < 2) throw new YamlParseError('Unterminated double-quoted string', lineNumber);
+      return value.slice(1, -1).replace(/\\(["\\/nrt0]|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4})/g, (_, escape: string) => {
+        switch (escape[0]) {
+          case 'n': return '\n';
+          case 'r': return '\r';
+          case 't': return '\t';
+          case '0': return '\0';
+          case 'x':
+          case 'u': return String.fromCharCode(parseInt(escape.slice(1), 16));
+          default: return escape;
+        }
+      });
+    }
+    if (value.startsWith("'")) {
+      if (!value.endsWith("'") || value.length < 2) throw new YamlParseError('Unterminated single-quoted string', lineNumber);
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+
+    if (value === '' || value === '~' || /^null$/i.test(value)) return null;
+    if (/^true$/i.test(value)) return true;
+    if (/^false$/i.test(value)) return false;
+    if (/^[-+]?\d+$/.test(value)) return parseInt(value, 10);
+    if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value, 16);
+    if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(value)) return parseFloat(value);
+    return value;
+  }
+
+  /**
+   * Split "key: value" at the first unquoted colon followed by whitespace or end of line
+   */
+  private splitMappingEntry(text: string): { key: string; value: string } | null {
+    let i = 0;
+    if (text.startsWith('"') || text.startsWith("'")) {
+      i = this.findQuoteEnd(text, 0) + 1;
+    }
+    // Flow collections and template expressions are values, not keys
+    if (i === 0 && /^[[{]/.test(text)) return null;
+
+    for (; i < text.length; i++) {
+      if (text[i] === ':' && (i + 1 === text.length || text[i + 1] === ' ')) {
+        const rawKey = text.slice(0, i).trim();
+        const key = /^["']/.test(rawKey) ? String(this.parseScalar(rawKey, 0)) : rawKey;
+        return { key, value: text.slice(i + 1).trim() };
+      }
+    }
+    return null;
+  }
+
+  private isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+  }
+
+  private findQuoteEnd(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+      if (quote === '"' && text[i] === '\\') {
+        i++;
+        continue;
+      }
+      if (text[i] === quote) {
+        if (quote === "'" && text[i + 1] === "'") {
+          i++;
+          continue;
+        }
+        return i;
+      }
+    }
+    return text.length - 1;
+  }
+
+  /**
+   * Advance past blank and comment lines and return the index of the next content line, or -1
+   */
+  private nextSignificant(): number {
+    while (this.pos < this.end) {
+      const text = this.textOf(this.pos);
+      if (text !== '') return this.pos;
+      this.pos++;
+    }
+    return -1;
+  }
+
+  private indentOf(index: number): number {
+    const line = this.lines[index];
+    return line.length - line.trimStart().length;
+  }
+
+  /**
+   * Line content without indentation or trailing comment
+   */
+  private textOf(index: number): string {
+    const line = this.lines[index].trim();
+    let quote: string | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        if (char === '\\' && quote === '"') i++;
+        else if (char === quote) quote = null;
+      } else if ((char === '"' || char === "'") && (i === 0 || /[\s:,[{-]/.test(line[i - 1]))) {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i).trimEnd();
+      }
+    }
+    return line;
+  }
+}
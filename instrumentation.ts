@@ -0,0 +1,23 @@
+/**
+ * Start the scan job worker when the server boots with SCAN_WORKER_ENABLED=true.
+ * The worker needs a long-running Node.js server (next start), not a serverless function.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { env } = await import('./app/config/env');
+  if (!env.SCAN_WORKER_ENABLED) {
+    return;
+  }
+
+  const { startScanJobWorker } = await import('./app/utils/scanJobWorker');
+  const controller = new AbortController();
+  // Cancel the running job on shutdown so it is recorded as cancelled when there is time left
+  process.once('SIGTERM', () => controller.abort());
+
+  startScanJobWorker(controller.signal).catch(error => {
+    console.error(`❌ Scan job worker failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  });
+}
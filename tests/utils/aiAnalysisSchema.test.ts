@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createEmptyAIAnalysis, validateAIAnalysis } from '../../app/utils/aiAnalysisSchema';
+
+function createResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    executive_summary: {
+      overall_risk: 'Medium',
+      security_posture: 'Reasonable',
+      key_concerns: []
+    },
+    critical_findings: [
+      { finding: 'Hard-coded token', severity: 'High', impact: 'Account takeover', location: 'src/api.ts' }
+    ],
+    vulnerability_assessment: [],
+    risk_analysis: {
+      high_risk_items: ['Hard-coded token'],
+      medium_risk_items: [],
+      low_risk_items: [],
+      risk_factors: []
+    },
+    recommendations: [
+      { recommendation: 'Rotate the token', priority: 'Immediate', effort: 'Low', impact: 'Removes exposure' }
+    ],
+    security_score: { score: 6, justification: 'One exposed token', factors: [] },
+    ...overrides
+  };
+}
+
+describe('aiAnalysisSchema', () => {
+  describe('validateAIAnalysis', () => {
+    it('should accept a well-formed response', () => {
+      const result = validateAIAnalysis(createResponse());
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should normalize severity casing', () => {
+      const result = validateAIAnalysis(createResponse({
+        critical_findings: [{ finding: 'Weak hash', severity: 'CRITICAL' }],
+        executive_summary: { overall_risk: 'high' }
+      }));
+
+      expect(result.success && result.data.critical_findings[0].severity).toBe('Critical');
+      expect(result.success && result.data.executive_summary.overall_risk).toBe('High');
+    });
+
+    it('should map common severity synonyms', () => {
+      const result = validateAIAnalysis(createResponse({
+        critical_findings: [{ finding: 'Verbose errors', severity: 'Moderate' }]
+      }));
+
+      expect(result.success && result.data.critical_findings[0].severity).toBe('Medium');
+    });
+
+    it('should fill defaults for optional fields', () => {
+      const result = validateAIAnalysis(createResponse({
+        critical_findings: [{ finding: 'Weak hash', severity: 'Low' }],
+        risk_analysis: undefined
+      }));
+
+      expect(result.success && result.data.critical_findings[0].impact).toBe('');
+      expect(result.success && result.data.risk_analysis.high_risk_items).toEqual([]);
+    });
+
+    it('should coerce numeric score strings', () => {
+      const result = validateAIAnalysis(createResponse({ security_score: { score: '7' } }));
+
+      expect(result.success && result.data.security_score.score).toBe(7);
+    });
+
+    it('should keep extra finding fields', () => {
+      const result = validateAIAnalysis(createResponse({
+        critical_findings: [{ finding: 'Weak hash', severity: 'Low', chunk_type: 'config' }]
+      }));
+
+      expect(result.success && result.data.critical_findings[0].chunk_type).toBe('config');
+    });
+
+    it('should report the path of invalid fields', () => {
+      const result = validateAIAnalysis(createResponse({
+        critical_findings: [{ finding: 'Weak hash', severity: 'Severe' }]
+      }));
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.errors[0]).toMatch(/^critical_findings\.0\.severity:/);
+    });
+
+    it('should report missing required sections', () => {
+      const result = validateAIAnalysis({ critical_findings: [] });
+
+      expect(!result.success && result.errors.some(e => e.startsWith('security_score'))).toBe(true);
+    });
+
+    it('should reject non-object responses', () => {
+      expect(validateAIAnalysis('Error performing AI analysis').success).toBe(false);
+    });
+  });
+
+  describe('createEmptyAIAnalysis', () => {
+    it('should produce a valid analysis without findings', () => {
+      const result = validateAIAnalysis(createEmptyAIAnalysis());
+
+      expect(result.success && result.data.critical_findings).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../app/config/env', () => ({
+  env: {
+    REDIS_URL: 'redis://localhost:6379',
+    SMITHERY_GITHUB_API_KEY: 'test-key',
+    AI_PROVIDER: 'openai',
+    OPENAI_API_KEY: 'test-openai-key'
+  }
+}));
+
+const createCompletion = vi.fn();
+
+vi.mock('openai', () => ({
+  OpenAI: vi.fn().mockImplementation(() => ({
+    chat: {
+      completions: {
+        create: createCompletion
+      }
+    }
+  }))
+}));
+
+import { OpenAI } from 'openai';
+import {
+  AIProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  RateLimitError,
+  completeWithBackoff,
+  createAIProvider,
+  getAIProviderConfigFromEnv,
+  parseRetryAfter
+} from '../../app/utils/aiProvider';
+import { analyzeSecurityWithAI } from '../../app/utils/githubSecurityClient';
+
+describe('AI providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    createCompletion.mockResolvedValue({
+      choices: [{ message: { content: '{"critical_findings":[]}' } }],
+      usage: { total_tokens: 42 }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('createAIProvider', () => {
+    it('should point gemini at the OpenAI-compatible Gemini endpoint', () => {
+      const provider = createAIProvider({ provider: 'gemini', apiKey: 'key' });
+
+      expect(provider.model).toBe('gemini-2.0-flash');
+      expect(vi.mocked(OpenAI)).toHaveBeenCalledWith({
+        apiKey: 'key',
+        maxRetries: 0,
+        baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/'
+      });
+    });
+
+    it('should use the default OpenAI endpoint for openai', () => {
+      createAIProvider({ provider: 'openai', apiKey: 'key' });
+
+      expect(vi.mocked(OpenAI)).toHaveBeenCalledWith({ apiKey: 'key', maxRetries: 0 });
+    });
+
+    it('should allow a local server without an API key', () => {
+      const provider = createAIProvider({ provider: 'local', baseURL: 'http://127.0.0.1:8080/v1', model: 'qwen2.5' });
+
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(provider.model).toBe('qwen2.5');
+      expect(vi.mocked(OpenAI)).toHaveBeenCalledWith({ apiKey: 'local', maxRetries: 0, baseURL: 'http://127.0.0.1:8080/v1' });
+    });
+
+    it('should create an Anthropic provider', () => {
+      expect(createAIProvider({ provider: 'anthropic', apiKey: 'key' })).toBeInstanceOf(AnthropicProvider);
+    });
+
+    it('should require an API key for hosted providers', () => {
+      expect(() => createAIProvider({ provider: 'anthropic' })).toThrow('Missing API key');
+    });
+  });
+
+  describe('getAIProviderConfigFromEnv', () => {
+    it('should pick the key of the selected provider', () => {
+      expect(getAIProviderConfigFromEnv()).toEqual({
+        provider: 'openai',
+        model: undefined,
+        apiKey: 'test-openai-key',
+        baseURL: undefined
+      });
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should request JSON output and report token usage', async () => {
+      const provider = createAIProvider({ provider: 'openai', apiKey: 'key', model: 'gpt-test' });
+
+      const response = await provider.complete({ prompt: 'hi', jsonMode: true, maxTokens: 10 });
+
+      expect(createCompletion).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'gpt-test',
+        max_tokens: 10,
+        response_format: { type: 'json_object' }
+      }), undefined);
+      expect(response).toEqual({ content: '{"critical_findings":[]}', model: 'gpt-test', tokensUsed: 42 });
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should call the Messages API', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          content: [{ type: 'text', text: '{"ok":true}' }],
+          usage: { input_tokens: 10, output_tokens: 5 }
+        })
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = new AnthropicProvider('claude-test', 'secret');
+      const response = await provider.complete({ prompt: 'hi', jsonMode: true });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers['x-api-key']).toBe('secret');
+      expect(JSON.parse(init.body).system).toBeDefined();
+      expect(response).toEqual({ content: '{"ok":true}', model: 'claude-test', tokensUsed: 15 });
+    });
+
+    it('should surface API errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401, text: async () => 'unauthorized' }));
+
+      const provider = new AnthropicProvider('claude-test', 'secret');
+
+      await expect(provider.complete({ prompt: 'hi' })).rejects.toThrow('status 401');
+    });
+
+    it('should report rate limits with the requested wait', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'retry-after': '12' }),
+        text: async () => 'rate_limit_error'
+      }));
+
+      const provider = new AnthropicProvider('claude-test', 'secret');
+      const error = await provider.complete({ prompt: 'hi' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(12000);
+    });
+  });
+
+  describe('completeWithBackoff', () => {
+    const response = { content: '{}', model: 'stand-in' };
+    const providerWith = (complete: AIProvider['complete']) => ({ name: 'local' as const, model: 'stand-in', complete });
+
+    it('should retry rate-limited requests with exponential backoff', async () => {
+      const complete = vi.fn()
+        .mockRejectedValueOnce(new RateLimitError('slow down'))
+        .mockRejectedValueOnce(Object.assign(new Error('429 Too Many Requests'), { status: 429, headers: {} }))
+        .mockResolvedValueOnce(response);
+      const startedAt = Date.now();
+
+      await expect(completeWithBackoff(providerWith(complete), { prompt: 'hi' }, { baseDelayMs: 20 })).resolves.toEqual(response);
+      expect(complete).toHaveBeenCalledTimes(3);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(55);
+    });
+
+    it('should make concurrent requests wait for the same cool-down', async () => {
+      const complete = vi.fn()
+        .mockRejectedValueOnce(new RateLimitError('slow down', 50))
+        .mockResolvedValue(response);
+      const provider = providerWith(complete);
+      const first = completeWithBackoff(provider, { prompt: 'first' });
+      await Promise.resolve();
+      await Promise.resolve();
+      const startedAt = Date.now();
+
+      await Promise.all([first, completeWithBackoff(provider, { prompt: 'second' })]);
+
+      expect(complete).toHaveBeenCalledTimes(3);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should stop waiting for a rate limit when the request is cancelled', async () => {
+      const controller = new AbortController();
+      const complete = vi.fn().mockRejectedValue(new RateLimitError('slow down', 10000));
+      const request = completeWithBackoff(providerWith(complete), { prompt: 'hi', signal: controller.signal });
+
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(request).rejects.toThrow('cancelled');
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the retry limit and not retry other errors', async () => {
+      const limited = vi.fn().mockRejectedValue(new RateLimitError('slow down'));
+      const failing = vi.fn().mockRejectedValue(new Error('status 500'));
+
+      await expect(completeWithBackoff(providerWith(limited), { prompt: 'hi' }, { maxRetries: 2, baseDelayMs: 1 })).rejects.toThrow(RateLimitError);
+      expect(limited).toHaveBeenCalledTimes(3);
+      await expect(completeWithBackoff(providerWith(failing), { prompt: 'hi' })).rejects.toThrow('status 500');
+      expect(failing).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read Retry-After in seconds or as a date', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(null)).toBeUndefined();
+    });
+  });
+
+  describe('analyzeSecurityWithAI', () => {
+    it('should use the given provider', async () => {
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockResolvedValue({
+          content: '```json\n{"executive_summary":{"overall_risk":"Low"},"security_score":{"score":8}}\n```',
+          model: 'stand-in',
+          tokensUsed: 7
+        })
+      };
+
+      const result = await analyzeSecurityWithAI({}, 'secrets', 'owner/repo', provider);
+
+      expect(result.model_used).toBe('stand-in');
+      expect(result.provider).toBe('local');
+      expect(result.tokens_used).toBe(7);
+      expect(result.ai_analysis.security_score.score).toBe(8);
+    });
+
+    it('should re-prompt until the response matches the schema', async () => {
+      const valid = {
+        executive_summary: { overall_risk: 'low' },
+        security_score: { score: 9 }
+      };
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn()
+          .mockResolvedValueOnce({ content: 'not json', model: 'stand-in' })
+          .mockResolvedValueOnce({ content: '{"critical_findings":[]}', model: 'stand-in' })
+          .mockResolvedValueOnce({ content: JSON.stringify(valid), model: 'stand-in' })
+      };
+
+      const result = await analyzeSecurityWithAI({}, 'secrets', 'owner/repo', provider);
+
+      expect(provider.complete).toHaveBeenCalledTimes(3);
+      expect(provider.complete.mock.calls[2][0].prompt).toContain('Validation errors:');
+      expect(result.validation).toEqual({ valid: true, attempts: 3, errors: [] });
+      expect(result.ai_analysis.executive_summary.overall_risk).toBe('Low');
+    });
+
+    it('should surface validation errors when repair attempts are exhausted', async () => {
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockResolvedValue({ content: '{"critical_findings":"none"}', model: 'stand-in' })
+      };
+
+      const result = await analyzeSecurityWithAI({}, 'secrets', 'owner/repo', provider);
+
+      expect(result.validation.valid).toBe(false);
+      expect(result.validation.errors.some((e: string) => e.startsWith('critical_findings'))).toBe(true);
+      expect(result.raw_response).toBe('{"critical_findings":"none"}');
+      expect(result.ai_analysis.critical_findings).toEqual([]);
+    });
+
+    it('should default to the provider selected by the environment', async () => {
+      const result = await analyzeSecurityWithAI({}, 'secrets', 'owner/repo');
+
+      expect(result.provider).toBe('openai');
+      expect(result.model_used).toBe('gpt-4o-mini');
+    });
+  });
+});
@@ -141,6 +141,97 @@ describe('AnalysisChunker', () => {
     });
   });
 
+  describe('chunkByBudget', () => {
+    const lines = (count: number) => Array.from({ length: count }, (_, i) => `const value${i} = process.env.SETTING_${i};`).join('\n');
+
+    it('should pack groups that fit one chunk together', () => {
+      const securityFiles: SecurityFile[] = [
+        { path: '.env', type: 'secret', priority: 'high', reason: 'Environment file', content: 'API_KEY=abc' },
+        { path: 'package.json', type: 'dependency', priority: 'high', reason: 'Dependencies', content: '{}' },
+        { path: 'config.json', type: 'config', priority: 'low', reason: 'Configuration' }
+      ];
+
+      const chunks = chunker.chunkByBudget(securityFiles);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ type: 'mixed', priority: 'high', description: '3 files (1 secret, 1 dependency, 1 config)' });
+    });
+
+    it('should split groups that exceed the budget and never exceed it', () => {
+      const securityFiles: SecurityFile[] = Array.from({ length: 12 }, (_, i) => (
+        { path: `src/module${i}.ts`, type: 'source', priority: 'low', reason: 'Source file', content: lines(20) } as SecurityFile
+      ));
+
+      const chunks = chunker.chunkByBudget(securityFiles, { contextWindow: 5000, reservedTokens: 1000 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(chunk => chunk.type === 'source' && chunk.estimatedTokens <= 4000)).toBe(true);
+      expect(chunks.flatMap(chunk => chunk.files.map(f => f.path))).toHaveLength(12);
+      expect(new Set(chunks.map(chunk => chunk.id)).size).toBe(chunks.length);
+    });
+
+    it('should split large files by lines with overlap', () => {
+      const content = lines(400);
+      const securityFiles: SecurityFile[] = [
+        { path: 'src/settings.ts', type: 'config', priority: 'medium', reason: 'Settings', content }
+      ];
+
+      const chunks = chunker.chunkByBudget(securityFiles, { contextWindow: 4000, reservedTokens: 1000, overlapLines: 5 });
+      const parts = chunks.map(chunk => chunk.files[0].part!);
+
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(chunks.every(chunk => chunk.estimatedTokens <= 3000)).toBe(true);
+      expect(parts[0]).toMatchObject({ index: 1, total: chunks.length, startLine: 1, overlapLines: 0 });
+      expect(parts[parts.length - 1].endLine).toBe(400);
+      for (let i = 1; i < parts.length; i++) {
+        expect(parts[i]).toMatchObject({ index: i + 1, startLine: parts[i - 1].endLine - 4, overlapLines: 5 });
+      }
+      expect(chunks[1].files[0].content!.split('\n')[0]).toBe(content.split('\n')[parts[1].startLine - 1]);
+    });
+
+    it('should cut single lines larger than the budget', () => {
+      const securityFiles: SecurityFile[] = [
+        { path: 'dist/app.js', type: 'source', priority: 'low', reason: 'Bundle', content: 'var a=1;'.repeat(2000) }
+      ];
+
+      const chunks = chunker.chunkByBudget(securityFiles, { contextWindow: 2000, reservedTokens: 500 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(chunk => chunk.estimatedTokens <= 1500 && chunk.files[0].part!.startLine === 1)).toBe(true);
+      expect(chunks.map(chunk => chunk.files[0].content).join('')).toBe('var a=1;'.repeat(2000));
+    });
+
+    it('should use the provided tokenizer and reject budgets without room for files', () => {
+      const securityFiles: SecurityFile[] = [
+        { path: '.env', type: 'secret', priority: 'high', reason: 'Environment file' },
+        { path: 'secrets.json', type: 'secret', priority: 'high', reason: 'Secrets file' }
+      ];
+
+      expect(chunker.chunkByBudget(securityFiles, { contextWindow: 150, reservedTokens: 50, tokenizer: () => 60 })).toHaveLength(2);
+      expect(() => chunker.chunkByBudget(securityFiles, { contextWindow: 4000, reservedTokens: 4000 })).toThrow('leaves no room');
+    });
+
+    it('should leave out files that cannot fit a chunk when asked to', () => {
+      const securityFiles: SecurityFile[] = [
+        { path: `${'deep/'.repeat(2000)}config.json`, type: 'config', priority: 'low', reason: 'Configuration' },
+        { path: '.env', type: 'secret', priority: 'high', reason: 'Environment file', content: 'NODE_ENV=production' }
+      ];
+      const oversized: string[] = [];
+
+      expect(() => chunker.chunkByBudget(securityFiles, { contextWindow: 2000, reservedTokens: 500 })).toThrow('more than the 1500 token chunk budget');
+
+      const chunks = chunker.chunkByBudget(securityFiles, {
+        contextWindow: 2000,
+        reservedTokens: 500,
+        onOversizedFile: (file, error) => oversized.push(`${file.path.slice(-11)}: ${error.message.includes('chunk budget')}`)
+      });
+
+      expect(oversized).toEqual(['config.json: true']);
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].files.map(file => file.path)).toEqual(['.env']);
+    });
+  });
+
   describe('getChunkSummary', () => {
     it('should include total chunk count in summary', () => {
       const securityFiles: SecurityFile[] = [
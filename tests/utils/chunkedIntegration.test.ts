@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { analyzeSecurityWithAIChunked } from '../../app/utils/githubSecurityClient';
 import { SecurityFile } from '../../app/utils/securityFileFilter';
+import { env } from '../../app/config/env';
 
 // Mock environment variables
 vi.mock('../../app/config/env', () => ({
@@ -209,6 +213,191 @@ describe('Chunked Integration', () => {
       expect(result.model_used).toBe('gemini-2.0-flash');
     });
 
+    it('should analyze chunks concurrently and keep results in chunk order', async () => {
+      const content = Array.from({ length: 150 }, (_, i) => `export const handler${i} = () => callService(${i});`).join('\n');
+      const githubData = {
+        repository: 'test-owner/test-repo',
+        analysis_type: 'code-patterns',
+        targeted_files: ['a', 'b', 'c', 'd', 'e'].map(name => (
+          { path: `src/${name}.ts`, type: 'source', priority: 'low', reason: 'Source file', content }
+        ))
+      };
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockImplementation(async ({ prompt }: { prompt: string }) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          // Earlier chunks answer last
+          await new Promise(resolve => setTimeout(resolve, prompt.includes('src/a.ts') ? 30 : 5));
+          inFlight--;
+          return { content: '{"executive_summary":{"overall_risk":"Low"},"security_score":{"score":8}}', model: 'stand-in', tokensUsed: 10 };
+        })
+      };
+
+      const result = await analyzeSecurityWithAIChunked(githubData, 'code-patterns', 'test-owner/test-repo', provider);
+      const chunkResults = result.chunked_analysis.chunk_results;
+
+      expect(chunkResults).toHaveLength(5);
+      expect(maxInFlight).toBe(3);
+      expect(chunkResults.map((r: any) => r.ai_analysis.original_data.files[0].path)).toEqual(
+        ['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts', 'src/e.ts']
+      );
+      expect(chunkResults.every((r: any) => r.processing_stats.chunkId === r.chunk_id)).toBe(true);
+      expect(result.chunked_analysis.total_tokens_used).toBe(50);
+    });
+
+    it('should return the chunks analyzed before a cancellation', async () => {
+      const content = Array.from({ length: 150 }, (_, i) => `export const handler${i} = () => callService(${i});`).join('\n');
+      const githubData = {
+        repository: 'test-owner/test-repo',
+        analysis_type: 'code-patterns',
+        targeted_files: ['a', 'b', 'c', 'd'].map(name => (
+          { path: `src/${name}.ts`, type: 'source', priority: 'low', reason: 'Source file', content }
+        ))
+      };
+      const controller = new AbortController();
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockImplementation(async ({ prompt, signal }: { prompt: string; signal?: AbortSignal }) => {
+          if (!prompt.includes('src/a.ts')) {
+            controller.abort();
+            throw new DOMException('This operation was aborted', 'AbortError');
+          }
+          expect(signal).toBe(controller.signal);
+          return { content: '{"executive_summary":{"overall_risk":"Low"},"security_score":{"score":8}}', model: 'stand-in' };
+        })
+      };
+
+      const result = await analyzeSecurityWithAIChunked(
+        githubData, 'code-patterns', 'test-owner/test-repo', provider, [], { signal: controller.signal }
+      );
+
+      expect(result.chunked_analysis.total_chunks).toBe(4);
+      expect(result.chunked_analysis.cancelled).toBe(true);
+      expect(result.chunked_analysis.chunk_results.map((r: any) => r.ai_analysis.original_data.files[0].path)).toEqual(['src/a.ts']);
+    });
+
+    it('should inventory and match lockfiles split across chunks', async () => {
+      const snapshot = mkdtempSync(join(tmpdir(), 'osv-chunked-'));
+      writeFileSync(join(snapshot, 'GHSA-35jh-r3h4-6jhm.json'), JSON.stringify({
+        id: 'GHSA-35jh-r3h4-6jhm',
+        aliases: ['CVE-2021-23337'],
+        affected: [{ package: { ecosystem: 'npm', name: 'lodash' }, ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }] }]
+      }));
+      const packages: Record<string, any> = { '': { dependencies: { lodash: '^4.17.0' } } };
+      for (let i = 0; i < 400; i++) {
+        packages[`node_modules/package-${i}`] = { version: `1.0.${i}`, resolved: `https://registry.npmjs.org/package-${i}/-/package-${i}-1.0.${i}.tgz` };
+      }
+      packages['node_modules/lodash'] = { version: '4.17.20' };
+      const githubData = {
+        repository: 'test-owner/test-repo',
+        analysis_type: 'dependencies',
+        targeted_files: [{
+          path: 'package-lock.json', type: 'dependency', priority: 'high', reason: 'Lockfile',
+          content: JSON.stringify({ lockfileVersion: 3, packages }, null, 2)
+        }]
+      };
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockResolvedValue({ content: '{"executive_summary":{"overall_risk":"Low"},"security_score":{"score":8}}', model: 'stand-in' })
+      };
+
+      (env as any).OSV_DATABASE_PATH = snapshot;
+      try {
+        const result = await analyzeSecurityWithAIChunked(githubData, 'dependencies', 'test-owner/test-repo', provider);
+        const chunkResults = result.chunked_analysis.streaming_results.chunkResults;
+        const findings = chunkResults.flatMap((r: any) => r.findings);
+
+        expect(result.chunked_analysis.total_chunks).toBeGreaterThan(1);
+        expect(findings.some((f: any) => f.title === 'Lockfile could not be parsed')).toBe(false);
+        expect(findings.filter((f: any) => f.title === 'Dependency inventory')).toEqual([
+          expect.objectContaining({ description: 'package-lock.json resolves 401 packages (1 direct, 400 transitive).' })
+        ]);
+        expect(findings.filter((f: any) => f.ruleId === 'GHSA-35jh-r3h4-6jhm')).toHaveLength(1);
+        expect(chunkResults.flatMap((r: any) => r.dependencies || [])).toHaveLength(401);
+      } finally {
+        delete (env as any).OSV_DATABASE_PATH;
+        rmSync(snapshot, { recursive: true, force: true });
+      }
+    });
+
+    it('should report files too large for any chunk instead of failing', async () => {
+      const oversizedPath = `generated/${'nested/'.repeat(5000)}schema.json`;
+      const githubData = {
+        repository: 'test-owner/test-repo',
+        analysis_type: 'secrets',
+        targeted_files: [
+          { path: oversizedPath, type: 'config', priority: 'low', reason: 'Configuration' },
+          { path: '.env', type: 'secret', priority: 'high', reason: 'Environment file', content: 'NODE_ENV=production' }
+        ]
+      };
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockResolvedValue({ content: '{"executive_summary":{"overall_risk":"Low"},"security_score":{"score":8}}', model: 'stand-in' })
+      };
+
+      const result = await analyzeSecurityWithAIChunked(githubData, 'secrets', 'test-owner/test-repo', provider);
+      const streaming = result.chunked_analysis.streaming_results;
+
+      expect(result.chunked_analysis.total_chunks).toBe(1);
+      expect(provider.complete).toHaveBeenCalledTimes(1);
+      expect(provider.complete.mock.calls[0][0].prompt).not.toContain('nested/nested/');
+      expect(streaming.chunkResults.flatMap((r: any) => r.findings)).toContainEqual(expect.objectContaining({
+        severity: 'info',
+        title: `${oversizedPath} was not analyzed`,
+        filePath: oversizedPath,
+        ruleId: 'unanalyzed-file'
+      }));
+      expect(streaming.infoFindings).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should leave out chunks whose AI request was cancelled with a non-Error reason', async () => {
+      const githubData = {
+        repository: 'test-owner/test-repo',
+        analysis_type: 'secrets',
+        targeted_files: [{ path: '.env', type: 'secret', priority: 'high', reason: 'Environment file', content: 'NODE_ENV=production' }]
+      };
+      const controller = new AbortController();
+      const provider = {
+        name: 'local' as const,
+        model: 'stand-in',
+        complete: vi.fn().mockImplementation(async () => {
+          controller.abort('Client cancelled the request');
+          throw controller.signal.reason;
+        })
+      };
+
+      const result = await analyzeSecurityWithAIChunked(
+        githubData, 'secrets', 'test-owner/test-repo', provider, [], { signal: controller.signal }
+      );
+
+      expect(result.chunked_analysis.cancelled).toBe(true);
+      expect(result.chunked_analysis.chunk_results).toEqual([]);
+    });
+
+    it('should forward chunk progress to the caller', async () => {
+      const githubData = {
+        repository: 'test-owner/test-repo',
+        analysis_type: 'secrets',
+        targeted_files: [
+          { path: '.env', type: 'secret', priority: 'high', reason: 'Environment file' }
+        ]
+      };
+      const onProgress = vi.fn();
+      const onChunkComplete = vi.fn();
+
+      await analyzeSecurityWithAIChunked(githubData, 'secrets', 'test-owner/test-repo', undefined, [], { progress: { onProgress, onChunkComplete } });
+
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ currentChunk: 1, totalChunks: 1 }));
+      expect(onChunkComplete).toHaveBeenCalledWith(expect.objectContaining({ chunkType: 'secret' }));
+    });
+
     it('should include timestamp in results', async () => {
       const githubData = {
         repository: 'test-owner/test-repo',
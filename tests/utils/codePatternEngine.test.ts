@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { CodePatternEngine } from '../../app/utils/codePatternEngine';
+
+function ruleHits(filePath: string, lines: string[]) {
+  return CodePatternEngine.analyze(lines.join('\n'), filePath).map(f => [f.ruleId, f.lineNumber]);
+}
+
+describe('CodePatternEngine', () => {
+  describe('languageOf', () => {
+    it('should map extensions to languages', () => {
+      expect(CodePatternEngine.languageOf('src/App.tsx')).toBe('javascript');
+      expect(CodePatternEngine.languageOf('app/models/user.rb')).toBe('ruby');
+      expect(CodePatternEngine.languageOf('cmd/server/main.go')).toBe('go');
+      expect(CodePatternEngine.languageOf('public/vendor.min.js')).toBeNull();
+      expect(CodePatternEngine.languageOf('README.md')).toBeNull();
+    });
+  });
+
+  describe('analyze', () => {
+    it('should flag JavaScript and TypeScript sinks with line numbers', () => {
+      expect(ruleHits('src/api/users.ts', [
+        'const rows = await db.query("SELECT * FROM users WHERE id = " + req.params.id);',
+        'const safe = await db.query("SELECT * FROM users WHERE id = $1", [id]);',
+        'await sql.unsafe(`DELETE FROM sessions WHERE token = \'${token}\'`);',
+        'exec(`git log ${req.query.branch}`);',
+        'execFile("git", ["log", branch]);',
+        'const digest = crypto.createHash("md5").update(body).digest("hex");',
+        'const cipher = crypto.createCipheriv("aes-128-ecb", key, null);',
+        'const agent = new https.Agent({ rejectUnauthorized: false });',
+        'return <div dangerouslySetInnerHTML={{ __html: comment.body }} />;',
+        'return <div dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(comment.body) }} />;'
+      ])).toEqual([
+        ['js-sql-injection', 1],
+        ['js-sql-injection', 3],
+        ['js-command-injection', 4],
+        ['js-weak-crypto', 6],
+        ['js-weak-crypto', 7],
+        ['js-tls-verification-disabled', 8],
+        ['js-dangerously-set-inner-html', 9]
+      ]);
+    });
+
+    it('should flag Python sinks', () => {
+      expect(ruleHits('app/views.py', [
+        'cursor.execute(f"SELECT * FROM users WHERE name = \'{name}\'")',
+        'cursor.execute("SELECT * FROM users WHERE name = %s", (name,))',
+        'cursor.execute("SELECT * FROM users WHERE name = \'%s\'" % name)',
+        'subprocess.run(cmd, shell=True)',
+        'os.system("ping " + host)',
+        'data = pickle.loads(request.body)',
+        'config = yaml.load(stream)',
+        'config = yaml.load(stream, Loader=yaml.SafeLoader)',
+        'token = hashlib.md5(seed).hexdigest()',
+        'etag = hashlib.md5(body, usedforsecurity=False).hexdigest()',
+        'requests.get(url, verify=False)'
+      ])).toEqual([
+        ['python-sql-injection', 1],
+        ['python-sql-injection', 3],
+        ['python-command-injection', 4],
+        ['python-command-injection', 5],
+        ['python-unsafe-deserialization', 6],
+        ['python-unsafe-deserialization', 7],
+        ['python-weak-crypto', 9],
+        ['python-tls-verification-disabled', 11]
+      ]);
+    });
+
+    it('should flag Go and Java sinks', () => {
+      expect(ruleHits('internal/store/store.go', [
+        'rows, err := db.Query(fmt.Sprintf("SELECT * FROM users WHERE id = %s", id))',
+        'rows, err := db.Query("SELECT * FROM users WHERE id = $1", id)',
+        'out, err := exec.Command("sh", "-c", "git log "+branch).Output()',
+        'sum := md5.Sum(data)',
+        'tlsConfig := &tls.Config{InsecureSkipVerify: true}'
+      ])).toEqual([
+        ['go-sql-injection', 1],
+        ['go-command-injection', 3],
+        ['go-weak-crypto', 4],
+        ['go-tls-verification-disabled', 5]
+      ]);
+
+      expect(ruleHits('src/main/java/Repo.java', [
+        'ResultSet rs = stmt.executeQuery("SELECT * FROM users WHERE id = " + id);',
+        'Process p = Runtime.getRuntime().exec("sh -c " + cmd);',
+        'ObjectInputStream in = new ObjectInputStream(socket.getInputStream());',
+        'MessageDigest md = MessageDigest.getInstance("SHA-1");',
+        'Cipher cipher = Cipher.getInstance("AES");',
+        'Cipher gcm = Cipher.getInstance("AES/GCM/NoPadding");',
+        'builder.setSSLHostnameVerifier(NoopHostnameVerifier.INSTANCE);'
+      ])).toEqual([
+        ['java-sql-injection', 1],
+        ['java-command-injection', 2],
+        ['java-unsafe-deserialization', 3],
+        ['java-weak-crypto', 4],
+        ['java-weak-crypto', 5],
+        ['java-tls-verification-disabled', 7]
+      ]);
+    });
+
+    it('should flag Ruby and PHP sinks', () => {
+      expect(ruleHits('app/models/report.rb', [
+        'User.where("name = \'#{params[:name]}\'")',
+        'User.where(name: params[:name])',
+        'system("convert #{params[:file]} out.png")',
+        'obj = Marshal.load(cookies[:session])',
+        'digest = Digest::MD5.hexdigest(password)',
+        'http.verify_mode = OpenSSL::SSL::VERIFY_NONE'
+      ])).toEqual([
+        ['ruby-sql-injection', 1],
+        ['ruby-command-injection', 3],
+        ['ruby-unsafe-deserialization', 4],
+        ['ruby-weak-crypto', 5],
+        ['ruby-tls-verification-disabled', 6]
+      ]);
+
+      expect(ruleHits('public/index.php', [
+        '<?php',
+        '$result = mysqli_query($conn, "SELECT * FROM users WHERE id = $id");',
+        'shell_exec("ls " . $dir);',
+        'system("ls " . escapeshellarg($dir));',
+        '$prefs = unserialize($_COOKIE["prefs"]);',
+        '$hash = md5($password);',
+        'curl_setopt($ch, CURLOPT_SSL_VERIFYPEER, false);'
+      ])).toEqual([
+        ['php-sql-injection', 2],
+        ['php-command-injection', 3],
+        ['php-unsafe-deserialization', 5],
+        ['php-weak-crypto', 6],
+        ['php-tls-verification-disabled', 7]
+      ]);
+    });
+
+    it('should skip commented-out code', () => {
+      expect(ruleHits('src/legacy.js', [
+        '// exec(`rm -rf ${dir}`);',
+        '/*',
+        ' * const agent = new https.Agent({ rejectUnauthorized: false });',
+        ' */',
+        'const hash = createHash("sha1"); /* legacy */'
+      ])).toEqual([['js-weak-crypto', 5]]);
+
+      expect(ruleHits('scripts/deploy.py', ['# requests.get(url, verify=False)'])).toEqual([]);
+    });
+
+    it('should describe findings with the rule and location', () => {
+      const [finding] = CodePatternEngine.analyze('requests.post(url, verify=False)\n', 'client.py');
+
+      expect(finding).toMatchObject({
+        type: 'security',
+        severity: 'high',
+        confidence: 'high',
+        title: 'TLS certificate verification disabled',
+        filePath: 'client.py',
+        lineNumber: 1,
+        match: 'requests.post(url, verify=False)'
+      });
+      expect(finding.description).toContain('(client.py:1)');
+    });
+
+    it('should ignore files in languages without rules', () => {
+      expect(CodePatternEngine.analyze('SELECT * FROM users', 'schema.sql')).toEqual([]);
+    });
+  });
+});
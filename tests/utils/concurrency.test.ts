@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { APIUserAbortError } from 'openai';
+import {
+  AbortError,
+  delay as abortableDelay,
+  isAbortError,
+  mapWithConcurrency,
+  throwIfAborted,
+  withTimeout,
+  TimeoutError
+} from '../../app/utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('concurrency', () => {
+  describe('withTimeout', () => {
+    it('should resolve when the promise settles in time', async () => {
+      await expect(withTimeout(Promise.resolve('done'), 50, 'too slow')).resolves.toBe('done');
+    });
+
+    it('should reject with TimeoutError when the promise is too slow', async () => {
+      await expect(withTimeout(delay(50), 5, 'too slow')).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should propagate rejections', async () => {
+      await expect(withTimeout(Promise.reject(new Error('boom')), 50, 'too slow')).rejects.toThrow('boom');
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should keep results in input order', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async ms => {
+        await delay(ms);
+        return ms;
+      });
+
+      expect(results).toEqual([30, 10, 20]);
+    });
+
+    it('should limit the number of items in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should stop starting items once shouldContinue returns false', async () => {
+      let started = 0;
+
+      const results = await mapWithConcurrency(
+        [1, 2, 3, 4],
+        1,
+        async item => {
+          started++;
+          return item;
+        },
+        () => started < 2
+      );
+
+      expect(results).toEqual([1, 2, undefined, undefined]);
+    });
+
+    it('should handle empty input', async () => {
+      expect(await mapWithConcurrency([], 4, async item => item)).toEqual([]);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop waiting as soon as the signal is aborted', async () => {
+      const controller = new AbortController();
+      const startedAt = Date.now();
+      const waiting = abortableDelay(10000, controller.signal);
+
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(waiting).rejects.toBeInstanceOf(AbortError);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      await expect(abortableDelay(1, controller.signal)).rejects.toThrow('cancelled');
+      await expect(abortableDelay(1)).resolves.toBeUndefined();
+    });
+
+    it('should recognise abort errors from any source', () => {
+      const controller = new AbortController();
+      expect(() => throwIfAborted(controller.signal)).not.toThrow();
+      expect(() => throwIfAborted(undefined)).not.toThrow();
+
+      controller.abort();
+
+      expect(() => throwIfAborted(controller.signal)).toThrow(AbortError);
+      expect(isAbortError(new AbortError())).toBe(true);
+      expect(isAbortError(new DOMException('The operation was aborted', 'AbortError'))).toBe(true);
+      expect(isAbortError(new TimeoutError('too slow'))).toBe(false);
+    });
+
+    it('should recognize the OpenAI SDK abort error', () => {
+      const error = new APIUserAbortError();
+
+      expect(error.name).toBe('Error');
+      expect(isAbortError(error)).toBe(true);
+    });
+
+    it('should treat anything thrown after the signal was aborted as cancellation', () => {
+      const controller = new AbortController();
+      controller.abort('Client cancelled the request');
+      let thrown: unknown;
+      try {
+        (controller.signal as any).throwIfAborted();
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBe('Client cancelled the request');
+      expect(isAbortError(thrown)).toBe(false);
+      expect(isAbortError(thrown, controller.signal)).toBe(true);
+      expect(isAbortError(new Error('connection reset'), new AbortController().signal)).toBe(false);
+    });
+  });
+});
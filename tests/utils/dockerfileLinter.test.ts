@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { DockerfileLinter } from '../../app/utils/dockerfileLinter';
+
+const HARDENED = [
+  'FROM node:20.11-alpine AS build',
+  'WORKDIR /app',
+  'RUN npm ci',
+  '',
+  'FROM node:20.11-alpine@sha256:4e5b9a1c2d3f',
+  'COPY --from=build /app /app',
+  'USER node',
+  'HEALTHCHECK CMD wget -q -O /dev/null http://localhost:3000/health || exit 1',
+  'CMD ["node", "server.js"]'
+].join('\n');
+
+describe('DockerfileLinter', () => {
+  describe('parse', () => {
+    it('should split stages and join continuation lines', () => {
+      const stages = DockerfileLinter.parse([
+        '# syntax=docker/dockerfile:1',
+        'ARG BASE=alpine:3.19',
+        'FROM --platform=$BUILDPLATFORM golang:1.22 AS builder',
+        'RUN apt-get update && \\',
+        '    # refresh first',
+        '    apt-get install -y git',
+        'FROM builder'
+      ].join('\n'));
+
+      expect(stages).toHaveLength(2);
+      expect(stages[0]).toMatchObject({ image: 'golang:1.22', alias: 'builder', lineNumber: 3 });
+      expect(stages[0].instructions).toEqual([
+        { instruction: 'RUN', args: 'apt-get update &&  apt-get install -y git', lineNumber: 4, stage: 0 }
+      ]);
+      expect(stages[1].image).toBe('builder');
+    });
+
+    it('should honour the escape directive and keep heredoc bodies', () => {
+      const stages = DockerfileLinter.parse([
+        '# escape=`',
+        'FROM alpine:3.19',
+        'RUN echo one `',
+        '    two',
+        'RUN <<EOF',
+        'curl -fsSL https://example.com/install.sh | sh',
+        'EOF',
+        'USER app'
+      ].join('\n'));
+
+      expect(stages[0].instructions.map(i => [i.instruction, i.lineNumber])).toEqual([['RUN', 3], ['RUN', 5], ['USER', 8]]);
+      expect(stages[0].instructions[1].args).toContain('| sh');
+    });
+
+    it('should not treat here-strings as heredocs', () => {
+      const stages = DockerfileLinter.parse([
+        'FROM alpine:3.19',
+        'RUN cat <<<"EOF"',
+        'RUN grep -q ok <<< status',
+        'USER app'
+      ].join('\n'));
+
+      expect(stages[0].instructions.map(i => [i.instruction, i.lineNumber])).toEqual([['RUN', 2], ['RUN', 3], ['USER', 4]]);
+    });
+
+    it('should not treat shifts in shell arithmetic as heredocs', () => {
+      const stages = DockerfileLinter.parse([
+        'FROM alpine:3.19',
+        'RUN echo $((1<<2)) $((flags << mask))',
+        'USER app',
+        'RUN <<-"SCRIPT"',
+        '  echo hi',
+        'SCRIPT',
+        'HEALTHCHECK CMD true'
+      ].join('\n'));
+
+      expect(stages[0].instructions.map(i => [i.instruction, i.lineNumber])).toEqual([
+        ['RUN', 2], ['USER', 3], ['RUN', 4], ['HEALTHCHECK', 7]
+      ]);
+      expect(stages[0].instructions[2].args).toContain('echo hi');
+    });
+  });
+
+  describe('lint', () => {
+    it('should not flag a hardened multi-stage Dockerfile', () => {
+      expect(DockerfileLinter.lint(HARDENED, 'Dockerfile')).toEqual([]);
+    });
+
+    it('should flag a missing USER and HEALTHCHECK on the final stage', () => {
+      const findings = DockerfileLinter.lint('FROM alpine:3.19\nCMD ["sh"]', 'Dockerfile');
+
+      expect(findings.map(f => [f.ruleId, f.lineNumber])).toEqual([
+        ['dockerfile-runs-as-root', 1],
+        ['dockerfile-missing-healthcheck', 1]
+      ]);
+    });
+
+    it('should flag switching back to root', () => {
+      const findings = DockerfileLinter.lint(HARDENED + '\nUSER root', 'Dockerfile');
+
+      expect(findings).toEqual([expect.objectContaining({ ruleId: 'dockerfile-runs-as-root', lineNumber: 10, filePath: 'Dockerfile' })]);
+    });
+
+    it('should flag latest and untagged base images but not stage aliases or scratch', () => {
+      const content = [
+        'FROM node:latest AS build',
+        'FROM registry.example.com:5000/team/ubuntu',
+        'FROM build',
+        'FROM scratch',
+        'USER 1000',
+        'HEALTHCHECK NONE'
+      ].join('\n');
+
+      expect(DockerfileLinter.lint(content, 'Dockerfile').map(f => [f.ruleId, f.lineNumber])).toEqual([
+        ['dockerfile-latest-base-image', 1],
+        ['dockerfile-unpinned-base-image', 2]
+      ]);
+    });
+
+    it('should flag ADD from a URL and remote scripts piped to a shell', () => {
+      const content = HARDENED + [
+        '',
+        'ADD https://example.com/tool.tar.gz /opt/',
+        'ADD --chown=node ./local /app',
+        'RUN curl -fsSL https://example.com/install.sh | bash',
+        'RUN wget -qO- https://example.com/setup | sudo sh -'
+      ].join('\n');
+
+      const findings = DockerfileLinter.lint(content, 'Dockerfile');
+
+      expect(findings.map(f => [f.ruleId, f.lineNumber, f.severity])).toEqual([
+        ['dockerfile-add-remote-url', 10, 'high'],
+        ['dockerfile-curl-pipe-shell', 12, 'high'],
+        ['dockerfile-curl-pipe-shell', 13, 'high']
+      ]);
+    });
+
+    it('should flag secrets in ENV and ARG without revealing the value', () => {
+      const content = HARDENED + [
+        '',
+        'ENV DB_PASSWORD=hunter2-super-secret NODE_ENV=production',
+        'ARG NPM_TOKEN',
+        'ENV API_KEY ${API_KEY}',
+        'ARG GITHUB_REF'
+      ].join('\n');
+
+      const findings = DockerfileLinter.lint(content, 'Dockerfile');
+
+      expect(findings.map(f => [f.ruleId, f.lineNumber, f.severity])).toEqual([
+        ['dockerfile-secret-in-env', 10, 'high'],
+        ['dockerfile-secret-in-arg', 11, 'medium']
+      ]);
+      expect(findings[0].description).not.toContain('hunter2-super-secret');
+    });
+
+    it('should flag package installs without version pins', () => {
+      const content = HARDENED + [
+        '',
+        'RUN apt-get update && apt-get install -y --no-install-recommends curl=7.88.1-10 git \\',
+        '    && rm -rf /var/lib/apt/lists/*',
+        'RUN apk add --no-cache bash=5.2.21-r0',
+        'RUN pip install --no-cache-dir -r requirements.txt requests flask==3.0.0',
+        'RUN npm install -g pnpm@8.15.0 typescript',
+        'RUN npm install',
+        'RUN npm install -g @angular/cli@17.3.1 serve@latest express@^4 @nestjs/cli@10'
+      ].join('\n');
+
+      const findings = DockerfileLinter.lint(content, 'Dockerfile');
+
+      expect(findings.map(f => [f.lineNumber, f.description.split(' (')[0]])).toEqual([
+        [10, 'apt-get installs git without pinned versions'],
+        [13, 'pip installs requests without pinned versions'],
+        [14, 'npm installs typescript without pinned versions'],
+        [16, 'npm installs serve@latest, express@^4, @nestjs/cli@10 without pinned versions']
+      ]);
+      expect(findings.every(f => f.ruleId === 'dockerfile-unpinned-package')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FileContentFetcher, ToolCaller } from '../../app/utils/fileContentFetcher';
+import { SecurityFile } from '../../app/utils/securityFileFilter';
+
+function file(path: string): SecurityFile {
+  return { path, type: 'config', priority: 'low', reason: 'test' };
+}
+
+function base64Response(text: string) {
+  return { type: 'file', encoding: 'base64', size: Buffer.byteLength(text), content: Buffer.from(text).toString('base64') };
+}
+
+function createClient(responses: Record<string, any>): ToolCaller & { callTool: ReturnType<typeof vi.fn> } {
+  return {
+    callTool: vi.fn().mockImplementation(async (_name: string, args: any) => {
+      const response = responses[args.path];
+      if (response instanceof Error) throw response;
+      return response;
+    })
+  };
+}
+
+describe('FileContentFetcher', () => {
+  describe('fetchFile', () => {
+    it('should decode base64 file contents', async () => {
+      const client = createClient({ 'config.yml': base64Response('debug: true\n') });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo');
+
+      const result = await fetcher.fetchFile(file('config.yml'));
+
+      expect(result.content).toBe('debug: true\n');
+      expect(result.size).toBe(12);
+    });
+
+    it('should call get_file_contents with the repository and path', async () => {
+      const client = createClient({ 'config.yml': base64Response('a') });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo', { ref: 'main' });
+
+      await fetcher.fetchFile(file('config.yml'));
+
+      expect(client.callTool).toHaveBeenCalledWith('get_file_contents', {
+        owner: 'owner',
+        repo: 'repo',
+        path: 'config.yml',
+        branch: 'main'
+      });
+    });
+
+    it('should unwrap MCP text content', async () => {
+      const client = createClient({
+        'config.yml': { content: [{ type: 'text', text: JSON.stringify(base64Response('key: value')) }] }
+      });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo');
+
+      expect((await fetcher.fetchFile(file('config.yml'))).content).toBe('key: value');
+    });
+
+    it('should keep JSON file bodies returned as plain text', async () => {
+      const body = '{"name":"app"}';
+      const client = createClient({ 'package.json': { content: [{ type: 'text', text: body }] } });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo');
+
+      expect((await fetcher.fetchFile(file('package.json'))).content).toBe(body);
+    });
+
+    it('should unwrap MCP embedded resources', async () => {
+      const client = createClient({
+        'Dockerfile': { content: [{ type: 'resource', resource: { uri: 'repo://Dockerfile', text: 'FROM node:20' } }] }
+      });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo');
+
+      expect((await fetcher.fetchFile(file('Dockerfile'))).content).toBe('FROM node:20');
+    });
+
+    it('should skip files over the size limit', async () => {
+      const client = createClient({ 'big.yml': base64Response('x'.repeat(200)) });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo', { maxFileBytes: 100 });
+
+      const result = await fetcher.fetchFile(file('big.yml'));
+
+      expect(result.content).toBeUndefined();
+      expect(result.contentSkipped).toBe('too-large');
+    });
+
+    it('should skip binary files', async () => {
+      const client = createClient({
+        'keystore.jks': { type: 'file', encoding: 'base64', content: Buffer.from([0xfe, 0xed, 0x00, 0x02]).toString('base64') }
+      });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo');
+
+      expect((await fetcher.fetchFile(file('keystore.jks'))).contentSkipped).toBe('binary');
+    });
+
+    it('should mark directories and failed calls as unavailable', async () => {
+      const client = createClient({ 'config': [{ name: 'a.yml' }], 'missing.yml': new Error('Not Found') });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo');
+
+      expect((await fetcher.fetchFile(file('config'))).contentSkipped).toBe('unavailable');
+      expect((await fetcher.fetchFile(file('missing.yml'))).contentSkipped).toBe('unavailable');
+    });
+
+    it('should read lockfiles up to the lockfile limit', async () => {
+      const client = createClient({
+        'package-lock.json': base64Response('x'.repeat(200)),
+        'yarn.lock': base64Response('x'.repeat(600))
+      });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo', { maxFileBytes: 100, maxLockfileBytes: 500 });
+
+      expect((await fetcher.fetchFile(file('package-lock.json'))).content).toHaveLength(200);
+      expect((await fetcher.fetchFile(file('yarn.lock'))).contentSkipped).toBe('too-large');
+    });
+  });
+
+  describe('fetchAll', () => {
+    it('should stop fetching once the total budget is spent', async () => {
+      const client = createClient({
+        'a.yml': base64Response('a'.repeat(60)),
+        'b.yml': base64Response('b'.repeat(60)),
+        'c.yml': base64Response('c'.repeat(10))
+      });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo', { maxTotalBytes: 100 });
+
+      const results = await fetcher.fetchAll([file('a.yml'), file('b.yml'), file('c.yml')]);
+
+      expect(results.map(r => r.contentSkipped)).toEqual([undefined, 'budget-exceeded', undefined]);
+    });
+
+    it('should leave lockfiles out of the total budget', async () => {
+      const client = createClient({
+        'package-lock.json': base64Response('l'.repeat(150)),
+        'a.yml': base64Response('a'.repeat(60)),
+        'c.yml': base64Response('c'.repeat(30))
+      });
+      const fetcher = new FileContentFetcher(client, 'owner', 'repo', { maxTotalBytes: 100 });
+
+      const results = await fetcher.fetchAll([file('package-lock.json'), file('a.yml'), file('c.yml')]);
+
+      expect(results.map(r => r.contentSkipped)).toEqual([undefined, undefined, undefined]);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should count fetched and skipped files', () => {
+      const summary = FileContentFetcher.summarize([
+        { ...file('a'), content: 'abc', size: 3 },
+        { ...file('b'), contentSkipped: 'binary' },
+        { ...file('c'), contentSkipped: 'too-large' }
+      ]);
+
+      expect(summary.fetched).toBe(1);
+      expect(summary.totalBytes).toBe(3);
+      expect(summary.skipped.binary).toBe(1);
+      expect(summary.skipped['too-large']).toBe(1);
+    });
+  });
+
+  describe('isBinary', () => {
+    it('should treat text with newlines and tabs as text', () => {
+      expect(FileContentFetcher.isBinary(Buffer.from('a\tb\r\nc\n'))).toBe(false);
+    });
+
+    it('should detect NUL bytes', () => {
+      expect(FileContentFetcher.isBinary(Buffer.from([0x41, 0x00, 0x42]))).toBe(true);
+    });
+  });
+});
@@ -55,7 +55,34 @@ vi.mock('@smithery/sdk', () => ({
 }));
 
 // Now import the actual module
-import { GitHubSecurityClient, analyzeRepositorySecurity } from '../../app/utils/githubSecurityClient';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { env } from '../../app/config/env';
+import {
+  AnalysisType,
+  GitHubSecurityClient,
+  analyzeRepositorySecurity,
+  generateRepositorySbom,
+  getTimeframeStart,
+  listOrganizationRepositories,
+  matchesRepositoryFilters,
+  scanMultipleRepositories,
+  summarizeScanSeverity
+} from '../../app/utils/githubSecurityClient';
+
+function mockMcpClient(callTool: (request: { name: string; arguments: any }, options?: { signal?: AbortSignal }) => any) {
+  vi.mocked(Client).mockImplementationOnce(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn(),
+    callTool: vi.fn().mockImplementation(async (request: any, _schema: any, options: any) => callTool(request, options))
+  }) as any);
+}
+
+function toolText(data: any) {
+  return { content: [{ type: 'text', text: JSON.stringify(data) }] };
+}
 
 describe('GitHub Security Client - Targeted Data Collection', () => {
   let mockClient: any;
@@ -210,4 +237,915 @@ describe('GitHub Security Client - Targeted Data Collection', () => {
       expect(Array.isArray(result.findings)).toBe(true);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('cancellation', () => {
+    it('should pass the signal to tool calls and refuse calls once aborted', async () => {
+      const controller = new AbortController();
+      mockMcpClient(() => ({ items: [] }));
+      const client = new GitHubSecurityClient('test-url', 'test-key', 'test-profile', controller.signal);
+      await client.connect();
+      const mcpClient = vi.mocked(Client).mock.results[vi.mocked(Client).mock.results.length - 1].value;
+
+      await client.callTool('search_code', { q: 'repo:o/r' });
+      controller.abort();
+
+      expect(mcpClient.callTool).toHaveBeenCalledWith({ name: 'search_code', arguments: { q: 'repo:o/r' } }, undefined, { signal: controller.signal });
+      await expect(client.callTool('search_code', { q: 'repo:o/r' })).rejects.toThrow('cancelled');
+      expect(mcpClient.callTool).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeframe', () => {
+    it('should compute the start of the window', () => {
+      const now = new Date('2024-01-31T00:00:00.000Z');
+
+      expect(getTimeframeStart('day', now)?.toISOString()).toBe('2024-01-30T00:00:00.000Z');
+      expect(getTimeframeStart('week', now)?.toISOString()).toBe('2024-01-24T00:00:00.000Z');
+      expect(getTimeframeStart('month', now)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should not constrain the window for all', () => {
+      expect(getTimeframeStart('all')).toBeNull();
+    });
+
+    it('should only target security files changed within the timeframe', async () => {
+      const recent = new Date().toISOString();
+      const old = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString();
+      const requests: Array<{ name: string; arguments: any }> = [];
+
+      mockMcpClient(request => {
+        requests.push(request);
+        switch (request.name) {
+          case 'list_commits':
+            return toolText([
+              { sha: 'new', commit: { author: { date: recent } } },
+              { sha: 'old', commit: { author: { date: old } } }
+            ]);
+          case 'get_commit':
+            return toolText({ files: [{ filename: 'package.json' }, { filename: 'src/index.ts' }] });
+          default:
+            return { items: [] };
+        }
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url',
+        'test-key',
+        'test-profile',
+        'test-owner',
+        'test-repo',
+        'vulnerabilities',
+        { timeframe: 'week' }
+      );
+
+      expect(requests.filter(r => r.name === 'get_commit').map(r => r.arguments.sha)).toEqual(['new']);
+      expect(requests.find(r => r.name === 'list_commits')?.arguments).toMatchObject({ since: result.since, page: 1 });
+      expect(result.targeted_files.map((f: any) => f.path)).toEqual(['package.json']);
+      expect(result.timeframe).toBe('week');
+      expect(result.scope).toBe('changed_files');
+      expect(result.scope_note).toBeUndefined();
+    });
+
+    it.each<[AnalysisType, string[]]>([
+      ['secrets', ['.env', '.github/workflows/ci.yml', 'config/app.yml']],
+      ['vulnerabilities', ['.github/workflows/ci.yml', 'package.json', 'src/security.ts']],
+      ['dependencies', ['package.json']],
+      ['code-patterns', ['.github/workflows/ci.yml', 'config/app.yml', 'src/app.ts', 'src/security.ts']]
+    ])('should only keep changed files a %s analysis looks at', async (analysisType, expected) => {
+      const recent = new Date().toISOString();
+      const changed = ['.env', 'config/app.yml', 'package.json', 'src/security.ts', '.github/workflows/ci.yml', 'Dockerfile', 'src/app.ts'];
+
+      mockMcpClient(request => {
+        switch (request.name) {
+          case 'list_commits':
+            return toolText([{ sha: 'new', commit: { author: { date: recent } } }]);
+          case 'get_commit':
+            return toolText({ files: changed.map(filename => ({ filename })) });
+          default:
+            return { items: [] };
+        }
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', analysisType, { timeframe: 'week', fetchContents: false }
+      );
+
+      expect(result.targeted_files.map((f: any) => f.path).sort()).toEqual(expected);
+    });
+
+    it('should page through commits and skip removed files', async () => {
+      const recent = new Date().toISOString();
+      const pages: number[] = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      mockMcpClient(async request => {
+        switch (request.name) {
+          case 'list_commits':
+            pages.push(request.arguments.page);
+            return toolText(request.arguments.page === 1
+              ? Array.from({ length: 100 }, (_, i) => ({ sha: `c${i}`, commit: { committer: { date: recent } } }))
+              : [{ sha: 'c100', commit: { committer: { date: recent } } }]);
+          case 'get_commit':
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 1));
+            inFlight--;
+            return toolText({ files: request.arguments.sha === 'c0'
+              ? [{ filename: 'package.json', status: 'modified' }, { filename: 'yarn.lock', status: 'removed' }]
+              : [] });
+          default:
+            return { items: [] };
+        }
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'vulnerabilities', { timeframe: 'week' }
+      );
+
+      expect(pages).toEqual([1, 2]);
+      expect(maxInFlight).toBeGreaterThan(1);
+      expect(result.findings.find((f: any) => f.type === 'RECENT_CHANGED_FILES').data).toEqual(['package.json']);
+      expect(result.scope_note).toMatch(/^Only files changed in the latest 100 of 101 commits since /);
+    });
+
+    it('should say when a failed commit lookup widened the scan to the whole repository', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'list_commits') throw new Error('rate limited');
+        return { items: [] };
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'vulnerabilities', { timeframe: 'week' }
+      );
+
+      expect(result.scope).toBe('repository');
+      expect(result.scope_note).toMatch(/could not be listed \(rate limited\), so the whole repository was analyzed$/);
+    });
+
+    it('should restrict issue searches to the timeframe', async () => {
+      const requests: Array<{ name: string; arguments: any }> = [];
+
+      mockMcpClient(request => {
+        requests.push(request);
+        return request.name === 'list_commits' ? toolText([]) : { items: [] };
+      });
+
+      await analyzeRepositorySecurity(
+        'test-url',
+        'test-key',
+        'test-profile',
+        'test-owner',
+        'test-repo',
+        'vulnerabilities',
+        { timeframe: 'day' }
+      );
+
+      const issueSearch = requests.find(r => r.name === 'search_issues');
+      expect(issueSearch?.arguments.q).toMatch(/updated:>=\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should not look up commits when analyzing all history', async () => {
+      const requests: Array<{ name: string; arguments: any }> = [];
+
+      mockMcpClient(request => {
+        requests.push(request);
+        return { items: [] };
+      });
+
+      await analyzeRepositorySecurity('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'secrets');
+
+      expect(requests.some(r => r.name === 'list_commits')).toBe(false);
+    });
+
+    it('should target GitHub Actions workflows when looking for vulnerabilities', async () => {
+      mockMcpClient(request => {
+        if (request.name !== 'search_code') return { items: [] };
+        return request.arguments.q.includes('path:.github/workflows')
+          ? toolText({ items: [{ path: '.github/workflows/ci.yml' }, { path: '.github/workflows/README.md' }] })
+          : toolText({ items: [{ path: 'package.json' }] });
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'vulnerabilities', { fetchContents: false }
+      );
+
+      expect(result.targeted_files.map((f: any) => [f.path, f.type])).toEqual([
+        ['package.json', 'dependency'],
+        ['.github/workflows/ci.yml', 'workflow']
+      ]);
+    });
+
+    it('should target lockfiles anywhere in the repository for dependency and vulnerability analysis', async () => {
+      for (const analysisType of ['dependencies', 'vulnerabilities'] as const) {
+        const queries: string[] = [];
+        mockMcpClient(request => {
+          if (request.name === 'get_file_contents' && request.arguments.path === '') {
+            return toolText([{ type: 'file', path: 'package.json' }, { type: 'file', path: 'package-lock.json' }, { type: 'file', path: 'README.md' }]);
+          }
+          if (request.name !== 'search_code') return {};
+          queries.push(request.arguments.q);
+          return toolText({ items: request.arguments.q.includes('filename:poetry.lock') ? [{ path: 'services/api/poetry.lock' }] : [] });
+        });
+
+        const result = await analyzeRepositorySecurity(
+          'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', analysisType, { fetchContents: false }
+        );
+
+        expect(result.targeted_files.map((f: any) => f.path)).toEqual(['package.json', 'package-lock.json', 'services/api/poetry.lock']);
+        queries.forEach(query => expect(query.split(' OR ').length - 1).toBeLessThanOrEqual(5));
+      }
+    });
+
+    it('should report OSV advisories for packages resolved by discovered lockfiles', async () => {
+      const snapshot = mkdtempSync(join(tmpdir(), 'osv-client-'));
+      writeFileSync(join(snapshot, 'GHSA-35jh-r3h4-6jhm.json'), JSON.stringify({
+        id: 'GHSA-35jh-r3h4-6jhm',
+        summary: 'Command Injection in lodash',
+        aliases: ['CVE-2021-23337'],
+        affected: [{ package: { ecosystem: 'npm', name: 'lodash' }, ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }] }]
+      }));
+      const packageLock = JSON.stringify({
+        lockfileVersion: 3,
+        packages: { '': { dependencies: { lodash: '^4.17.0' } }, 'node_modules/lodash': { version: '4.17.20' } }
+      });
+      mockMcpClient(request => {
+        if (request.name === 'search_code') {
+          return toolText({ items: request.arguments.q.includes('filename:package-lock.json') ? [{ path: 'web/package-lock.json' }] : [] });
+        }
+        if (request.name === 'get_file_contents' && request.arguments.path === 'web/package-lock.json') {
+          return toolText({ type: 'file', encoding: 'utf8', content: packageLock });
+        }
+        return {};
+      });
+
+      (env as any).OSV_DATABASE_PATH = snapshot;
+      try {
+        const result = await analyzeRepositorySecurity('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'vulnerabilities');
+        const findings = result.ai_analysis.chunked_analysis.streaming_results.chunkResults.flatMap((r: any) => r.findings);
+
+        expect(result.targeted_files.map((f: any) => f.path)).toEqual(['web/package-lock.json']);
+        expect(findings.find((f: any) => f.type === 'vulnerability')).toMatchObject({
+          title: 'lodash@4.17.20 is affected by CVE-2021-23337',
+          filePath: 'web/package-lock.json',
+          ruleId: 'GHSA-35jh-r3h4-6jhm'
+        });
+      } finally {
+        delete (env as any).OSV_DATABASE_PATH;
+        rmSync(snapshot, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject invalid rule packs before scanning', async () => {
+      const connections = vi.mocked(Client).mock.calls.length;
+
+      await expect(analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'code-patterns',
+        { rulePacks: ['name: broken\nrules:\n  - { id: a, message: m, severity: urgent, regex: x }'] }
+      )).rejects.toThrow('Invalid rule pack rulePacks[0]');
+      expect(vi.mocked(Client).mock.calls.length).toBe(connections);
+    });
+
+    it('should apply file patterns from the repository configuration', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'get_file_contents' && request.arguments.path === '.daily-dev-mcp.yml') {
+          return toolText({ type: 'file', encoding: 'utf8', content: 'files:\n  exclude: ["legacy/**"]\n' });
+        }
+        if (request.name === 'search_code') {
+          return toolText({ items: [{ path: 'package.json' }, { path: 'legacy/package.json' }] });
+        }
+        return {};
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'dependencies'
+      );
+
+      expect(result.targeted_files.map((f: any) => f.path)).toEqual(['package.json']);
+      expect(result.findings.find((f: any) => f.type === 'REPOSITORY_CONFIG')?.data.exclude).toEqual(['legacy/**']);
+    });
+
+    it('should target source files when looking for code patterns', async () => {
+      const queries: string[] = [];
+      mockMcpClient(request => {
+        if (request.name !== 'search_code') return { items: [] };
+        queries.push(request.arguments.q);
+        return queries.length === 1
+          ? toolText({ items: [{ path: 'src/db/users.ts' }, { path: 'dist/bundle.js' }, { path: 'docs/guide.md' }] })
+          : toolText({ items: [{ path: 'src/db/users.ts' }, { path: 'src/api/tls.go' }] });
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'code-patterns', { fetchContents: false }
+      );
+
+      // GitHub allows at most five boolean operators per code search query
+      expect(queries.length).toBeGreaterThan(1);
+      queries.forEach(query => expect(query.split(' OR ').length - 1).toBeLessThanOrEqual(5));
+      expect(queries.join(' ')).toContain('"rejectUnauthorized"');
+      expect(queries.join(' ')).toContain('"dangerouslySetInnerHTML"');
+      expect(result.targeted_files.map((f: any) => [f.path, f.type])).toEqual([
+        ['src/db/users.ts', 'source'],
+        ['src/api/tls.go', 'source']
+      ]);
+    });
+  });
+
+  describe('organization scanning', () => {
+    const repositories = [
+      { full_name: 'acme/api', language: 'TypeScript', topics: ['backend'], visibility: 'private' },
+      { full_name: 'acme/legacy', language: 'Ruby', archived: true, visibility: 'public' },
+      { full_name: 'acme/fork', language: 'Go', fork: true, visibility: 'public' },
+      { full_name: 'acme/site', language: 'JavaScript', topics: ['frontend'], visibility: 'public' }
+    ];
+
+    it('should exclude archived and forked repositories by default', () => {
+      const matched = repositories.filter(r => matchesRepositoryFilters(r)).map(r => r.full_name);
+
+      expect(matched).toEqual(['acme/api', 'acme/site']);
+    });
+
+    it('should filter by visibility', () => {
+      const matched = repositories
+        .filter(r => matchesRepositoryFilters(r, { visibility: 'private' }))
+        .map(r => r.full_name);
+
+      expect(matched).toEqual(['acme/api']);
+    });
+
+    it('should filter by topic and language case-insensitively', () => {
+      expect(matchesRepositoryFilters(repositories[0], { topics: ['Backend'] })).toBe(true);
+      expect(matchesRepositoryFilters(repositories[0], { languages: ['typescript'] })).toBe(true);
+      expect(matchesRepositoryFilters(repositories[3], { languages: ['typescript'] })).toBe(false);
+    });
+
+    it('should include archived and forked repositories when requested', () => {
+      const matched = repositories
+        .filter(r => matchesRepositoryFilters(r, { includeArchived: true, includeForks: true }))
+        .map(r => r.full_name);
+
+      expect(matched).toHaveLength(4);
+    });
+
+    it('should page through search results for each organization', async () => {
+      const requests: Array<{ name: string; arguments: any }> = [];
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({ full_name: `acme/repo-${i}` }));
+
+      mockMcpClient(request => {
+        requests.push(request);
+        if (request.arguments.query.startsWith('org:acme')) {
+          return toolText({
+            total_count: 101,
+            items: request.arguments.page === 1 ? firstPage : [{ full_name: 'acme/repo-100' }]
+          });
+        }
+        return toolText({ total_count: 1, items: [{ full_name: 'other/tool' }] });
+      });
+
+      const result = await listOrganizationRepositories('test-url', 'test-key', 'test-profile', ['acme', 'other']);
+
+      expect(result.repositories).toHaveLength(102);
+      expect(result.truncatedOrganizations).toEqual([]);
+      expect(result.note).toBeUndefined();
+      expect(requests.map(r => r.arguments.query)).toEqual([
+        'org:acme archived:false',
+        'org:acme archived:false',
+        'org:other archived:false'
+      ]);
+    });
+
+    it('should report organizations with more repositories than search can list', async () => {
+      const requests: Array<{ name: string; arguments: any }> = [];
+
+      mockMcpClient(request => {
+        requests.push(request);
+        const offset = (request.arguments.page - 1) * 100;
+        return toolText({
+          total_count: 1500,
+          items: Array.from({ length: 100 }, (_, i) => ({ full_name: `acme/repo-${offset + i}` }))
+        });
+      });
+
+      const result = await listOrganizationRepositories('test-url', 'test-key', 'test-profile', ['acme']);
+
+      expect(requests).toHaveLength(10);
+      expect(result.repositories).toHaveLength(1000);
+      expect(result.truncatedOrganizations).toEqual(['acme']);
+      expect(result.note).toContain('some repositories in acme were not scanned');
+    });
+
+    it('should pass visibility and fork qualifiers to the search', async () => {
+      const requests: Array<{ name: string; arguments: any }> = [];
+
+      mockMcpClient(request => {
+        requests.push(request);
+        return toolText({ total_count: 0, items: [] });
+      });
+
+      await listOrganizationRepositories('test-url', 'test-key', 'test-profile', ['acme'], {
+        includeForks: true,
+        visibility: 'public'
+      });
+
+      expect(requests[0].arguments.query).toBe('org:acme archived:false fork:true is:public');
+    });
+  });
+
+  describe('scanMultipleRepositories', () => {
+    it('should run every requested scan type for each repository', async () => {
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['test-owner/test-repo'],
+        ['secrets', 'dependencies', 'code-patterns']
+      );
+
+      const scans = result.results[0].scans;
+      expect(Object.keys(scans)).toEqual(['secrets', 'dependencies', 'code-patterns']);
+      expect(scans.dependencies.data.analysis_type).toBe('dependencies');
+      expect(result.results[0].status).toBe('success');
+    });
+
+    it('should report each repository as it finishes', async () => {
+      const onRepositoryScanned = vi.fn();
+
+      await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['test-owner/api', 'test-owner/web'],
+        ['secrets'],
+        { concurrency: 1, onRepositoryScanned }
+      );
+
+      expect(onRepositoryScanned.mock.calls).toEqual([
+        ['test-owner/api', 1, 2],
+        ['test-owner/web', 2, 2]
+      ]);
+    });
+
+    it('should forward chunk progress of each repository', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'search_code') {
+          return toolText({ items: [{ path: 'package.json' }] });
+        }
+        if (request.name === 'get_file_contents') {
+          return toolText({ type: 'file', encoding: 'base64', content: Buffer.from('{"name":"app"}').toString('base64') });
+        }
+        return {};
+      });
+      const completedChunks: string[] = [];
+      const aiChunks: any[] = [];
+
+      await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['test-owner/api', 'test-owner/web'],
+        ['dependencies'],
+        {
+          concurrency: 1,
+          progress: repository => ({
+            onChunkComplete: result => completedChunks.push(`${repository}:${result.chunkType}`),
+            onAIChunkComplete: progress => aiChunks.push({ repository, ...progress })
+          })
+        }
+      );
+
+      expect(completedChunks).toEqual(['test-owner/api:dependency', 'test-owner/web:dependency']);
+      expect(aiChunks).toEqual([
+        expect.objectContaining({ repository: 'test-owner/api', chunkType: 'dependency', completed: 1, total: 1 }),
+        expect.objectContaining({ repository: 'test-owner/web', chunkType: 'dependency', completed: 1, total: 1 })
+      ]);
+    });
+
+    it('should stop scanning and report partial results when cancelled', async () => {
+      const controller = new AbortController();
+      mockMcpClient(request => {
+        // Cancel while the first repository is collecting files
+        if (request.name === 'search_code') controller.abort();
+        return { items: [] };
+      });
+
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['test-owner/api', 'test-owner/web'],
+        ['secrets', 'dependencies'],
+        { concurrency: 1, signal: controller.signal }
+      );
+
+      expect(result.cancelled).toBe(true);
+      expect(result.results.map((r: any) => r.status)).toEqual(['cancelled', 'cancelled']);
+      expect(Object.keys(result.results[0].scans)).toEqual(['secrets']);
+      expect(result.results[0].scans.secrets.data).toMatchObject({ cancelled: true, ai_analysis: null });
+      expect(result.results[1].error).toBe('Not started before the scan was cancelled');
+      expect(result.cancelled_scans).toBe(2);
+    });
+
+    it('should report partial status when some scan types fail', async () => {
+      let repositoryLookups = 0;
+      mockMcpClient(request => {
+        if (request.name === 'get_repository' && ++repositoryLookups > 1) {
+          throw new Error('connection refused');
+        }
+        return { items: [] };
+      });
+
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['test-owner/test-repo'],
+        ['secrets', 'vulnerabilities']
+      );
+
+      expect(result.results[0].status).toBe('partial');
+      expect(result.results[0].scans.vulnerabilities.error).toBe('connection refused');
+      expect(result.partial_scans).toBe(1);
+    });
+
+    it('should include a merged severity summary', async () => {
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['test-owner/test-repo'],
+        ['secrets']
+      );
+
+      expect(result.results[0].severity_summary).toBeDefined();
+      expect(result.results[0].severity_summary.overall_risk).toBeDefined();
+    });
+  });
+
+  describe('summarizeScanSeverity', () => {
+    it('should merge local and AI findings across scan types', () => {
+      const summary = summarizeScanSeverity([
+        {
+          ai_analysis: {
+            chunked_analysis: { streaming_results: { criticalFindings: 1, highFindings: 0, mediumFindings: 2, lowFindings: 0, infoFindings: 0 } },
+            ai_analysis: { critical_findings: [{ severity: 'High' }] }
+          }
+        },
+        {
+          ai_analysis: {
+            chunked_analysis: { streaming_results: { criticalFindings: 0, highFindings: 1, mediumFindings: 0, lowFindings: 3, infoFindings: 1 } }
+          }
+        }
+      ]);
+
+      expect(summary).toEqual({
+        total_findings: 9,
+        critical: 1,
+        high: 2,
+        medium: 2,
+        low: 3,
+        info: 1,
+        overall_risk: 'critical'
+      });
+    });
+
+    it('should report safe when there are no findings', () => {
+      expect(summarizeScanSeverity([]).overall_risk).toBe('safe');
+    });
+  });
+
+  describe('scanMultipleRepositories concurrency', () => {
+    it('should share one connection across repositories', async () => {
+      vi.mocked(Client).mockClear();
+
+      await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['a/one', 'a/two', 'a/three'],
+        ['secrets']
+      );
+
+      expect(vi.mocked(Client)).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not exceed the concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      mockMcpClient(async request => {
+        if (request.name === 'get_repository') {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+        }
+        return { items: [] };
+      });
+
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['a/1', 'a/2', 'a/3', 'a/4', 'a/5'],
+        ['secrets'],
+        { concurrency: 2 }
+      );
+
+      expect(maxInFlight).toBe(2);
+      expect(result.results.map((r: any) => r.repository)).toEqual(['a/1', 'a/2', 'a/3', 'a/4', 'a/5']);
+    });
+
+    it('should time out slow repositories', async () => {
+      mockMcpClient(async request => {
+        if (request.name === 'get_repository' && request.arguments.repo === 'slow') {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        return { items: [] };
+      });
+
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['a/slow', 'a/fast'],
+        ['secrets'],
+        { repoTimeoutMs: 20 }
+      );
+
+      expect(result.results[0].status).toBe('timeout');
+      expect(result.results[1].status).toBe('success');
+      expect(result.partial).toBe(true);
+    });
+
+    it('should stop the calls and progress of repositories that time out', async () => {
+      const signals: AbortSignal[] = [];
+      mockMcpClient(async (request, options) => {
+        if (request.name === 'get_repository' && request.arguments.repo === 'slow') {
+          signals.push(options!.signal!);
+          await new Promise(resolve => setTimeout(resolve, 60));
+        }
+        return {};
+      });
+      const onChunkComplete = vi.fn();
+
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['a/slow'],
+        ['secrets'],
+        { repoTimeoutMs: 20, progress: () => ({ onChunkComplete }) }
+      );
+      const reported = onChunkComplete.mock.calls.length;
+      await new Promise(resolve => setTimeout(resolve, 80));
+
+      expect(result.results[0].status).toBe('timeout');
+      expect(signals[0].aborted).toBe(true);
+      expect(onChunkComplete).toHaveBeenCalledTimes(reported);
+    });
+
+    it('should return partial results when the deadline is reached', async () => {
+      mockMcpClient(async request => {
+        if (request.name === 'get_repository') {
+          await new Promise(resolve => setTimeout(resolve, 30));
+        }
+        return { items: [] };
+      });
+
+      const result = await scanMultipleRepositories(
+        'test-url',
+        'test-key',
+        'test-profile',
+        ['a/1', 'a/2', 'a/3'],
+        ['secrets'],
+        { concurrency: 1, deadlineMs: 40 }
+      );
+
+      expect(result.partial).toBe(true);
+      expect(result.results[result.results.length - 1].status).toBe('skipped');
+      expect(result.total_repos_scanned).toBe(3);
+    });
+  });
+
+  describe('file contents', () => {
+    it('should fetch targeted files without returning their contents', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'search_code') {
+          return toolText({ items: [{ path: 'package.json' }] });
+        }
+        if (request.name === 'get_file_contents') {
+          return toolText({ type: 'file', encoding: 'base64', content: Buffer.from('{"name":"app"}').toString('base64') });
+        }
+        return {};
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'dependencies'
+      );
+
+      expect(result.targeted_files[0]).toMatchObject({ path: 'package.json', size: 14 });
+      expect(result.targeted_files[0].content).toBeUndefined();
+      expect(result.findings.find((f: any) => f.type === 'FILE_CONTENTS').data.fetched).toBe(1);
+    });
+
+    it('should report lockfiles too large to fetch', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'search_code') {
+          return toolText({ items: [{ path: 'package-lock.json' }] });
+        }
+        if (request.name === 'get_file_contents') {
+          return toolText({ type: 'file', encoding: 'base64', size: 5 * 1024 * 1024, content: '' });
+        }
+        return {};
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'dependencies'
+      );
+
+      expect(result.findings.find((f: any) => f.type === 'LOCKFILES_NOT_FETCHED').data).toEqual([
+        { path: 'package-lock.json', size: 5 * 1024 * 1024, reason: 'too-large' }
+      ]);
+      expect(result.ai_analysis.chunked_analysis.streaming_results.chunkResults.flatMap((r: any) => r.findings)).toContainEqual(
+        expect.objectContaining({ title: 'Lockfile could not be read', filePath: 'package-lock.json' })
+      );
+    });
+
+    it('should not return or persist the contents of scanned files', async () => {
+      const secretFile = 'AWS_SECRET_ACCESS_KEY=wJalrXUtnFEMI/K7MDENG/bPxRfiCYEXAMPLEKEY\nDB_PASSWORD=hunter2-production\n';
+      mockMcpClient(request => {
+        if (request.name === 'search_code') {
+          return toolText({ items: [{ path: '.env' }, { path: 'config/settings.yml' }] });
+        }
+        if (request.name === 'get_file_contents' && request.arguments.path === '.env') {
+          return toolText({ type: 'file', encoding: 'base64', content: Buffer.from(secretFile).toString('base64') });
+        }
+        return {};
+      });
+
+      const result = await scanMultipleRepositories('test-url', 'test-key', 'test-profile', ['test-owner/api'], ['secrets']);
+      const serialized = JSON.stringify(result);
+
+      const analysis = result.results[0].scans.secrets.data;
+      expect(analysis.findings.find((f: any) => f.type === 'FILE_CONTENTS').data.fetched).toBe(1);
+      expect(analysis.ai_analysis.chunked_analysis.total_chunks).toBeGreaterThan(0);
+      expect(serialized).not.toContain('wJalrXUtnFEMI');
+      expect(serialized).not.toContain('hunter2-production');
+      expect(serialized).not.toContain('"content"');
+    });
+
+    it('should skip fetching when disabled', async () => {
+      const fetchedPaths: string[] = [];
+      mockMcpClient(request => {
+        if (request.name === 'get_file_contents') fetchedPaths.push(request.arguments.path);
+        return request.name === 'search_code' ? toolText({ items: [{ path: 'package.json' }] }) : {};
+      });
+
+      const result = await analyzeRepositorySecurity(
+        'test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', 'dependencies', { fetchContents: false }
+      );
+
+      // Only the root directory is listed to discover dependency files
+      expect(result.targeted_files.map((f: any) => f.path)).toEqual(['package.json']);
+      expect(fetchedPaths).toEqual(['']);
+    });
+  });
+
+  describe('generateRepositorySbom', () => {
+    const files: Record<string, string> = {
+      'package.json': JSON.stringify({ dependencies: { express: '^4.18.0' } }),
+      'yarn.lock': 'express@^4.18.0:\n  version "4.18.2"\n\ndebug@2.6.9:\n  version "2.6.9"\n',
+      'services/api/requirements.txt': 'flask==3.0.0\n'
+    };
+
+    function mockRepository(requests: any[] = []) {
+      mockMcpClient(request => {
+        requests.push(request);
+        if (request.name === 'get_file_contents' && request.arguments.path === '') {
+          return toolText([
+            { type: 'file', path: 'package.json' },
+            { type: 'file', path: 'yarn.lock' },
+            { type: 'file', path: 'README.md' },
+            { type: 'dir', path: 'services' }
+          ]);
+        }
+        if (request.name === 'get_file_contents') {
+          return toolText({ type: 'file', encoding: 'base64', content: Buffer.from(files[request.arguments.path]).toString('base64') });
+        }
+        if (request.name === 'search_code') {
+          return toolText({ items: [{ path: 'services/api/requirements.txt' }, { path: 'yarn.lock' }] });
+        }
+        return {};
+      });
+    }
+
+    it('should build a CycloneDX SBOM from root and nested dependency files', async () => {
+      const requests: any[] = [];
+      mockRepository(requests);
+
+      const sbom = await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo');
+
+      expect(sbom.bomFormat).toBe('CycloneDX');
+      expect(sbom.specVersion).toBe('1.5');
+      expect(sbom.components.map((c: any) => c.purl)).toEqual([
+        'pkg:npm/express@4.18.2',
+        'pkg:npm/debug@2.6.9',
+        'pkg:pypi/flask@3.0.0'
+      ]);
+      expect(sbom.dependencies[0].dependsOn).toEqual(['pkg:npm/express@4.18.2', 'pkg:pypi/flask@3.0.0']);
+      expect(requests.some(r => r.arguments.path === 'README.md')).toBe(false);
+    });
+
+    it('should search for every dependency file in queries GitHub accepts', async () => {
+      const requests: any[] = [];
+      mockRepository(requests);
+
+      await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo');
+
+      const queries: string[] = requests.filter(r => r.name === 'search_code').map(r => r.arguments.q);
+      expect(queries.length).toBeGreaterThan(1);
+      queries.forEach(query => expect(query.split(' OR ').length - 1).toBeLessThanOrEqual(5));
+      ['package-lock.json', 'Cargo.lock', 'composer.json'].forEach(name => expect(queries.join(' ')).toContain(`filename:${name}`));
+    });
+
+    it('should find lockfiles in subdirectories returned by later search queries', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'search_code') {
+          return toolText({ items: request.arguments.q.includes('filename:Cargo.lock') ? [{ path: 'crates/cli/Cargo.lock' }] : [] });
+        }
+        if (request.name === 'get_file_contents' && request.arguments.path === 'crates/cli/Cargo.lock') {
+          return toolText({ type: 'file', encoding: 'utf8', content: '[[package]]\nname = "serde"\nversion = "1.0.197"\nsource = "registry+https://github.com/rust-lang/crates.io-index"\n' });
+        }
+        return toolText([]);
+      });
+
+      const sbom = await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo');
+
+      expect(sbom.components.map((c: any) => c.purl)).toEqual(['pkg:cargo/serde@1.0.197']);
+    });
+
+    it('should fall back to the declared requirements of manifests without a lockfile', async () => {
+      mockMcpClient(request => {
+        if (request.name === 'get_file_contents' && request.arguments.path === '') {
+          return toolText([{ type: 'file', path: 'package.json' }]);
+        }
+        if (request.name === 'get_file_contents') {
+          return toolText({ type: 'file', encoding: 'utf8', content: JSON.stringify({ dependencies: { express: '^4.18.0' }, devDependencies: { vitest: '1.6.1' } }) });
+        }
+        return toolText({ items: [] });
+      });
+
+      const sbom = await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo');
+
+      expect(sbom.components.map((c: any) => [c.name, c.version, c.purl, c.scope])).toEqual([
+        ['express', undefined, 'pkg:npm/express', 'required'],
+        ['vitest', '1.6.1', 'pkg:npm/vitest@1.6.1', 'optional']
+      ]);
+      expect(sbom.components[0].properties).toContainEqual({ name: 'daily-dev-mcp:version', value: 'declared' });
+      expect(sbom.components[0].properties).toContainEqual({ name: 'daily-dev-mcp:version-range', value: '^4.18.0' });
+    });
+
+    it('should read lockfiles above the scan limits and record the files it could not read', async () => {
+      const lockfile = JSON.stringify({
+        lockfileVersion: 3,
+        packages: { '': {}, 'node_modules/left-pad': { version: '1.3.0', padding: 'x'.repeat(300 * 1024) } }
+      });
+      mockMcpClient(request => {
+        if (request.name === 'get_file_contents' && request.arguments.path === '') {
+          return toolText([{ type: 'file', path: 'package-lock.json' }, { type: 'file', path: 'Cargo.lock' }]);
+        }
+        if (request.name === 'get_file_contents' && request.arguments.path === 'package-lock.json') {
+          return toolText({ type: 'file', encoding: 'base64', content: Buffer.from(lockfile).toString('base64') });
+        }
+        if (request.name === 'get_file_contents' && request.arguments.path === 'Cargo.lock') {
+          return toolText({ type: 'file', encoding: 'base64', size: 5 * 1024 * 1024, content: '' });
+        }
+        return toolText({ items: [] });
+      });
+
+      const sbom = await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo');
+
+      expect(sbom.components.map((c: any) => c.purl)).toEqual(['pkg:npm/left-pad@1.3.0']);
+      expect(sbom.metadata.properties).toEqual([{ name: 'daily-dev-mcp:skipped-file', value: 'Cargo.lock (too-large)' }]);
+    });
+
+    it('should build an SPDX document when requested', async () => {
+      mockRepository();
+
+      const sbom = await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo', { format: 'spdx' });
+
+      expect(sbom.spdxVersion).toBe('SPDX-2.3');
+      expect(sbom.packages).toHaveLength(4);
+    });
+
+    it('should still produce an SBOM when discovery calls fail', async () => {
+      mockMcpClient(() => {
+        throw new Error('rate limited');
+      });
+
+      const sbom = await generateRepositorySbom('test-url', 'test-key', 'test-profile', 'test-owner', 'test-repo');
+
+      expect(sbom.components).toEqual([]);
+    });
+  });
+});
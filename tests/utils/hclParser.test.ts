@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { HclParseError, HclParser } from '../../app/utils/hclParser';
+
+describe('HclParser', () => {
+  describe('parse', () => {
+    it('should parse blocks, labels and literal attributes with line numbers', () => {
+      const body = HclParser.parse([
+        '# Storage',
+        'resource "aws_s3_bucket" "logs" {',
+        '  bucket        = "acme-logs" // inline comment',
+        '  force_destroy = true',
+        '  retention     = 30',
+        '  tags = {',
+        '    Team          = "platform"',
+        '    "cost-center" = "42"',
+        '  }',
+        '',
+        '  lifecycle_rule {',
+        '    enabled = false',
+        '  }',
+        '}',
+        'terraform { required_version = ">= 1.5" }'
+      ].join('\n'));
+
+      expect(body.blocks).toHaveLength(2);
+      const [bucket, terraform] = body.blocks;
+      expect(bucket).toMatchObject({
+        type: 'resource',
+        labels: ['aws_s3_bucket', 'logs'],
+        lineNumber: 2,
+        attributes: { bucket: 'acme-logs', force_destroy: true, retention: 30, tags: { Team: 'platform', 'cost-center': '42' } },
+        attributeLines: { bucket: 3, force_destroy: 4, retention: 5, tags: 6 }
+      });
+      expect(bucket.blocks[0]).toMatchObject({ type: 'lifecycle_rule', labels: [], lineNumber: 11, attributes: { enabled: false } });
+      expect(terraform.attributes.required_version).toBe('>= 1.5');
+    });
+
+    it('should parse lists and keep non-literal expressions as source text', () => {
+      const body = HclParser.parse([
+        'cidr_blocks = ["10.0.0.0/8", var.extra_cidr]',
+        'region      = var.region',
+        'name        = "${var.prefix}-app"',
+        'count       = var.enabled ? 1 : 0',
+        'policy      = jsonencode({',
+        '  Version = "2012-10-17"',
+        '})',
+        'ports = [',
+        '  22,',
+        '  443',
+        ']'
+      ].join('\n'));
+
+      expect(body.attributes).toEqual({
+        cidr_blocks: ['10.0.0.0/8', { expression: 'var.extra_cidr' }],
+        region: { expression: 'var.region' },
+        name: '${var.prefix}-app',
+        count: { expression: 'var.enabled ? 1 : 0' },
+        policy: { expression: 'jsonencode({\n  Version = "2012-10-17"\n})' },
+        ports: [22, 443]
+      });
+      expect(body.attributeLines.ports).toBe(8);
+    });
+
+    it('should read heredocs', () => {
+      const body = HclParser.parse([
+        'policy = <<EOF',
+        '{"Version": "2012-10-17"}',
+        'EOF',
+        'script = <<-EOT',
+        '    echo hi',
+        '      echo indented',
+        '  EOT',
+        'after = 1'
+      ].join('\n'));
+
+      expect(body.attributes).toEqual({
+        policy: '{"Version": "2012-10-17"}\n',
+        script: 'echo hi\n  echo indented\n',
+        after: 1
+      });
+    });
+
+    it('should throw HclParseError with a line number on invalid input', () => {
+      expect(() => HclParser.parse('resource "a" "b" {\n  x = 1\n')).toThrow(HclParseError);
+      expect(() => HclParser.parse('a = 1\nb = "unterminated\n')).toThrow(/line 2/);
+    });
+  });
+
+  describe('parseExpression', () => {
+    it('should parse a standalone object expression', () => {
+      expect(HclParser.parseExpression('{ Statement = [{ Effect = "Allow", Action = "*" }] }')).toEqual({
+        Statement: [{ Effect: 'Allow', Action: '*' }]
+      });
+    });
+  });
+
+  describe('findBlocks', () => {
+    it('should find nested blocks by type and label', () => {
+      const body = HclParser.parse('resource "aws_instance" "web" {\n  root_block_device {\n    encrypted = false\n  }\n}\nresource "aws_s3_bucket" "b" {}\n');
+
+      expect(HclParser.findBlocks(body, 'root_block_device').map(b => b.lineNumber)).toEqual([2]);
+      expect(HclParser.findBlocks(body, 'resource', 'aws_s3_bucket').map(b => b.labels[1])).toEqual(['b']);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { HtmlReportGenerator, SecurityReport } from '../../app/utils/htmlReportGenerator';
+
+function createReport(overrides: Partial<SecurityReport> = {}): SecurityReport {
+  return {
+    repository: 'test-owner/test-repo',
+    scan_date: '2024-01-01T00:00:00.000Z',
+    summary: {
+      total_issues: 2,
+      critical: 1,
+      high: 1,
+      medium: 0,
+      low: 0,
+      security_score: 4,
+      overall_risk: 'High'
+    },
+    findings: [
+      {
+        id: 'SEC-001',
+        type: 'secret',
+        severity: 'Critical',
+        title: 'Hard-coded AWS key',
+        description: 'An AWS access key is committed to the repository',
+        location: 'config/aws.js:12',
+        recommendation: 'Rotate the key and load it from a secrets manager'
+      },
+      {
+        id: 'SEC-002',
+        type: 'injection',
+        severity: 'High',
+        title: 'SQL built with <string> concatenation',
+        description: 'User input flows into a raw query',
+        location: 'src/db.ts:40',
+        recommendation: null
+      }
+    ],
+    recommendations: ['Enable secret scanning', 'Use parameterized queries'],
+    ai_analysis: {
+      executive_summary: { security_posture: 'Needs attention' },
+      risk_analysis: {
+        high_risk_items: ['Exposed credentials'],
+        medium_risk_items: [],
+        low_risk_items: ['Verbose logging']
+      }
+    },
+    ...overrides
+  };
+}
+
+describe('HtmlReportGenerator', () => {
+  describe('generate', () => {
+    it('should produce a complete HTML document', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('</html>');
+    });
+
+    it('should not reference external assets', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).not.toMatch(/<link[^>]+href=/);
+      expect(html).not.toMatch(/<script[^>]+src=/);
+    });
+
+    it('should render the severity summary', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).toContain('<span class="count">1</span><span class="label">Critical</span>');
+      expect(html).toContain('4/10');
+    });
+
+    it('should render a sortable findings table', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).toContain('<table class="sortable" id="findings-table">');
+      expect(html).toContain('data-sort="4"');
+    });
+
+    it('should render finding location and recommendation', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).toContain('config/aws.js:12');
+      expect(html).toContain('Rotate the key and load it from a secrets manager');
+    });
+
+    it('should fall back when a finding has no recommendation', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).toContain('No recommendation provided');
+    });
+
+    it('should escape finding content', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).toContain('SQL built with &lt;string&gt; concatenation');
+      expect(html).not.toContain('<string>');
+    });
+
+    it('should render risk analysis sections', () => {
+      const html = HtmlReportGenerator.generate(createReport());
+
+      expect(html).toContain('Exposed credentials');
+      expect(html).toContain('Verbose logging');
+      expect(html).toContain('None identified');
+    });
+
+    it('should omit recommendations when disabled', () => {
+      const html = HtmlReportGenerator.generate(createReport(), false);
+
+      expect(html).not.toContain('Enable secret scanning');
+    });
+
+    it('should list AI response validation errors', () => {
+      const html = HtmlReportGenerator.generate(createReport({ validation_errors: ['security_score: Required'] }));
+
+      expect(html).toContain('AI Response Validation');
+      expect(html).toContain('security_score: Required');
+    });
+
+    it('should handle reports without findings', () => {
+      const html = HtmlReportGenerator.generate(createReport({ findings: [] }));
+
+      expect(html).toContain('No critical findings identified in this analysis.');
+    });
+  });
+
+  describe('escape', () => {
+    it('should escape HTML special characters', () => {
+      expect(HtmlReportGenerator.escape(`<a href="x">'&'</a>`))
+        .toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    });
+
+    it('should return empty string for null values', () => {
+      expect(HtmlReportGenerator.escape(null)).toBe('');
+    });
+  });
+});
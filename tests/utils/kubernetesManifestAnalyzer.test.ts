@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { KubernetesManifestAnalyzer } from '../../app/utils/kubernetesManifestAnalyzer';
+
+const HARDENED_CONTAINER = [
+  '        - name: api',
+  '          image: ghcr.io/acme/api:1.4.2',
+  '          env:',
+  '            - name: DB_PASSWORD',
+  '              valueFrom:',
+  '                secretKeyRef: {name: db, key: password}',
+  '          resources:',
+  '            limits: {cpu: 500m, memory: 256Mi}',
+  '          securityContext:',
+  '            allowPrivilegeEscalation: false',
+  '            readOnlyRootFilesystem: true'
+];
+
+function deployment(containerLines: string[], podLines: string[] = []): string {
+  return [
+    'apiVersion: apps/v1',
+    'kind: Deployment',
+    'metadata:',
+    '  name: api',
+    '  namespace: prod',
+    'spec:',
+    '  template:',
+    '    spec:',
+    ...podLines,
+    '      containers:',
+    ...containerLines
+  ].join('\n');
+}
+
+describe('KubernetesManifestAnalyzer', () => {
+  describe('isManifest', () => {
+    it('should recognise manifests by apiVersion and kind', () => {
+      expect(KubernetesManifestAnalyzer.isManifest(deployment(HARDENED_CONTAINER))).toBe(true);
+      expect(KubernetesManifestAnalyzer.isManifest('name: ci\non: push\n')).toBe(false);
+    });
+  });
+
+  describe('analyze', () => {
+    it('should not flag a hardened deployment', () => {
+      expect(KubernetesManifestAnalyzer.analyze(deployment(HARDENED_CONTAINER), 'k8s/api.yaml')).toEqual([]);
+    });
+
+    it('should flag a container without a security context or limits', () => {
+      const findings = KubernetesManifestAnalyzer.analyze(deployment([
+        '        - name: api',
+        '          image: nginx'
+      ]), 'k8s/api.yaml');
+
+      expect(findings.map(f => [f.ruleId, f.severity, f.lineNumber])).toEqual([
+        ['k8s-allow-privilege-escalation', 'medium', 10],
+        ['k8s-writable-root-filesystem', 'low', 10],
+        ['k8s-missing-resource-limits', 'medium', 10],
+        ['k8s-latest-image', 'medium', 11]
+      ]);
+      expect(findings[0]).toMatchObject({ resource: 'Deployment/prod/api', filePath: 'k8s/api.yaml', type: 'security' });
+      expect(findings[0].description).toContain('Deployment/prod/api (k8s/api.yaml:10)');
+    });
+
+    it('should flag privileged containers, host namespaces and escalation', () => {
+      const findings = KubernetesManifestAnalyzer.analyze(deployment([
+        ...HARDENED_CONTAINER.slice(0, 8),
+        '          securityContext:',
+        '            privileged: true',
+        '            allowPrivilegeEscalation: true',
+        '            readOnlyRootFilesystem: true'
+      ], ['      hostNetwork: true', '      hostPID: true']), 'k8s/api.yaml');
+
+      expect(findings.map(f => [f.ruleId, f.severity, f.lineNumber])).toEqual([
+        ['k8s-host-namespace', 'high', 9],
+        ['k8s-host-namespace', 'high', 10],
+        ['k8s-privileged-container', 'critical', 21],
+        ['k8s-allow-privilege-escalation', 'high', 22]
+      ]);
+      expect(findings[0].title).toBe('Pod shares the host Network namespace');
+    });
+
+    it('should flag secrets passed as plain env values without revealing them', () => {
+      const findings = KubernetesManifestAnalyzer.analyze(deployment([
+        ...HARDENED_CONTAINER.slice(0, 3),
+        '            - name: API_TOKEN',
+        '              value: "s3cr3t-t0ken-value"',
+        '            - name: LOG_LEVEL',
+        '              value: debug',
+        '            - name: DB_PASSWORD',
+        '              value: $(FROM_ANOTHER_VAR)',
+        ...HARDENED_CONTAINER.slice(6)
+      ]), 'k8s/api.yaml');
+
+      expect(findings.map(f => [f.ruleId, f.lineNumber])).toEqual([['k8s-secret-in-env', 14]]);
+      expect(findings[0].description).not.toContain('s3cr3t-t0ken-value');
+    });
+
+    it('should check every workload kind and document in the file', () => {
+      const content = [
+        'apiVersion: v1',
+        'kind: Service',
+        'metadata: {name: api}',
+        '---',
+        'apiVersion: batch/v1',
+        'kind: CronJob',
+        'metadata: {name: cleanup}',
+        'spec:',
+        '  jobTemplate:',
+        '    spec:',
+        '      template:',
+        '        spec:',
+        '          initContainers:',
+        '            - name: init',
+        '              image: busybox:latest',
+        '              resources: {limits: {cpu: 100m, memory: 64Mi}}',
+        '              securityContext: {allowPrivilegeEscalation: false, readOnlyRootFilesystem: true}',
+        '          containers: []'
+      ].join('\n');
+
+      const findings = KubernetesManifestAnalyzer.analyze(content, 'jobs.yaml');
+
+      expect(findings.map(f => [f.ruleId, f.resource, f.lineNumber])).toEqual([['k8s-latest-image', 'CronJob/cleanup', 15]]);
+    });
+
+    it('should read Helm templates by skipping control lines', () => {
+      const content = [
+        'apiVersion: v1',
+        'kind: Pod',
+        'metadata:',
+        '  name: {{ include "chart.fullname" . }}',
+        'spec:',
+        '  {{- if .Values.hostNetwork }}',
+        '  hostNetwork: true',
+        '  {{- end }}',
+        '  containers:',
+        '    - name: app',
+        '      image: "{{ .Values.image.repository }}:{{ .Values.image.tag }}"',
+        '      resources:',
+        '        limits:',
+        '          {{- toYaml .Values.limits | nindent 10 }}',
+        '      securityContext: {allowPrivilegeEscalation: false, readOnlyRootFilesystem: true}'
+      ].join('\n');
+
+      const findings = KubernetesManifestAnalyzer.analyze(content, 'chart/templates/pod.yaml');
+
+      expect(findings.map(f => [f.ruleId, f.lineNumber])).toEqual([
+        ['k8s-host-namespace', 7],
+        ['k8s-missing-resource-limits', 12]
+      ]);
+      expect(findings[0].resource).toBe('Pod/{{ include "chart.fullname" . }}');
+    });
+
+    it('should return no findings when the manifest cannot be parsed', () => {
+      expect(KubernetesManifestAnalyzer.analyze('apiVersion: v1\nkind: Pod\nspec: "broken', 'bad.yaml')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { describe, it, expect } from 'vitest';
+import { LockfileParser } from '../../app/utils/lockfileParser';
+
+const summarize = (packages: { name: string; version: string; direct?: boolean }[]) =>
+  packages.map(p => `${p.name}@${p.version}${p.direct === undefined ? '' : p.direct ? ' direct' : ' transitive'}`);
+
+describe('LockfileParser', () => {
+  describe('canParse', () => {
+    it('should recognize supported lockfiles by file name', () => {
+      expect(LockfileParser.canParse('web/package-lock.json')).toBe(true);
+      expect(LockfileParser.canParse('Gemfile.lock')).toBe(true);
+      expect(LockfileParser.canParse('package.json')).toBe(false);
+    });
+  });
+
+  describe('parsePackageLock', () => {
+    it('should read the v2/v3 packages map including nested transitive copies', () => {
+      const lock = JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app', dependencies: { express: '^4.18.0' }, devDependencies: { vitest: '^1.0.0' } },
+          'node_modules/express': { version: '4.18.2' },
+          'node_modules/vitest': { version: '1.6.0', dev: true },
+          'node_modules/debug': { version: '2.6.9' },
+          'node_modules/express/node_modules/debug': { version: '4.3.4' },
+          'packages/local': { version: '1.0.0' },
+          'node_modules/local': { link: true, resolved: 'packages/local' }
+        }
+      });
+
+      const packages = LockfileParser.parsePackageLock(lock, 'package-lock.json');
+
+      expect(summarize(packages)).toEqual([
+        'express@4.18.2 direct',
+        'vitest@1.6.0 direct',
+        'debug@2.6.9 transitive',
+        'debug@4.3.4 transitive'
+      ]);
+      expect(packages.find(p => p.name === 'vitest')?.dev).toBe(true);
+    });
+
+    it('should read the v1 dependencies tree', () => {
+      const lock = JSON.stringify({
+        lockfileVersion: 1,
+        dependencies: {
+          lodash: { version: '4.17.20' },
+          request: { version: '2.88.2', requires: { qs: '~6.5.2' }, dependencies: { qs: { version: '6.5.3' } } },
+          qs: { version: '6.11.0' }
+        }
+      });
+
+      expect(summarize(LockfileParser.parsePackageLock(lock, 'package-lock.json'))).toEqual([
+        'lodash@4.17.20 direct',
+        'request@2.88.2 direct',
+        'qs@6.5.3 transitive',
+        'qs@6.11.0 transitive'
+      ]);
+    });
+  });
+
+  describe('parsePnpmLock', () => {
+    it('should parse v6 keys with peer suffixes and importer dependencies', () => {
+      const lock = [
+        "lockfileVersion: '6.0'",
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    dependencies:',
+        '      react-dom:',
+        '        specifier: ^18.2.0',
+        '        version: 18.2.0(react@18.2.0)',
+        '    devDependencies:',
+        "      '@types/node':",
+        '        specifier: ^20',
+        '        version: 20.11.0',
+        '',
+        'packages:',
+        '',
+        '  /@types/node@20.11.0:',
+        '    resolution: {integrity: sha512-abc}',
+        '    dev: true',
+        '',
+        '  /react-dom@18.2.0(react@18.2.0):',
+        '    resolution: {integrity: sha512-def}',
+        '',
+        '  /loose-envify@1.4.0:',
+        '    resolution: {integrity: sha512-ghi}'
+      ].join('\n');
+
+      const packages = LockfileParser.parsePnpmLock(lock, 'pnpm-lock.yaml');
+
+      expect(summarize(packages)).toEqual([
+        '@types/node@20.11.0 direct',
+        'react-dom@18.2.0 direct',
+        'loose-envify@1.4.0 transitive'
+      ]);
+      expect(packages[0].dev).toBe(true);
+    });
+
+    it('should parse v5 slash-separated keys', () => {
+      const lock = [
+        'lockfileVersion: 5.4',
+        'dependencies:',
+        '  zod: 3.22.4',
+        'packages:',
+        '  /zod/3.22.4:',
+        '    resolution: {integrity: sha512-abc}',
+        '  /@babel/core/7.23.0_supports-color@8.1.1:',
+        '    resolution: {integrity: sha512-def}'
+      ].join('\n');
+
+      expect(summarize(LockfileParser.parsePnpmLock(lock, 'pnpm-lock.yaml'))).toEqual([
+        'zod@3.22.4 direct',
+        '@babel/core@7.23.0 transitive'
+      ]);
+    });
+
+    it('should parse v9 keys without a leading slash', () => {
+      const lock = ["lockfileVersion: '9.0'", 'packages:', '  typescript@5.4.5:', '    resolution: {integrity: sha512-abc}'].join('\n');
+
+      expect(summarize(LockfileParser.parsePnpmLock(lock, 'pnpm-lock.yaml'))).toEqual(['typescript@5.4.5 transitive']);
+    });
+  });
+
+  describe('parseYarnLock', () => {
+    it('should parse classic entries with several descriptors', () => {
+      const lock = [
+        '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+        '# yarn lockfile v1',
+        '',
+        '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.22.13":',
+        '  version "7.22.13"',
+        '  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.22.13.tgz"',
+        '',
+        'left-pad@^1.3.0:',
+        '  version "1.3.0"'
+      ].join('\n');
+
+      expect(summarize(LockfileParser.parseYarnLock(lock, 'yarn.lock'))).toEqual([
+        '@babel/code-frame@7.22.13',
+        'left-pad@1.3.0'
+      ]);
+    });
+
+    it('should parse Berry entries and skip workspaces', () => {
+      const lock = [
+        '__metadata:',
+        '  version: 6',
+        '',
+        '"app@workspace:.":',
+        '  version: 0.0.0-use.local',
+        '',
+        '"chalk@npm:^5.0.0":',
+        '  version: 5.3.0',
+        '  resolution: "chalk@npm:5.3.0"'
+      ].join('\n');
+
+      expect(summarize(LockfileParser.parseYarnLock(lock, 'yarn.lock'))).toEqual(['chalk@5.3.0']);
+    });
+  });
+
+  describe('parseRequirements', () => {
+    it('should read exact pins and normalize names', () => {
+      const content = [
+        '# production deps',
+        '-r base.txt',
+        'Django==4.2.7  # web framework',
+        'requests[security]==2.31.0 ; python_version >= "3.8"',
+        'Flask_Cors===4.0.0',
+        'numpy>=1.24',
+        'git+https://github.com/org/lib.git#egg=lib'
+      ].join('\n');
+
+      expect(summarize(LockfileParser.parseRequirements(content, 'requirements.txt'))).toEqual([
+        'django@4.2.7 direct',
+        'requests@2.31.0 direct',
+        'flask-cors@4.0.0 direct'
+      ]);
+    });
+  });
+
+  describe('parsePoetryLock', () => {
+    it('should read package tables', () => {
+      const lock = [
+        '[[package]]',
+        'name = "PyYAML"',
+        'version = "6.0.1"',
+        'category = "main"',
+        '',
+        '[package.dependencies]',
+        'name = "ignored"',
+        '',
+        '[[package]]',
+        'name = "pytest"',
+        'version = "7.4.3"',
+        'category = "dev"',
+        '',
+        '[metadata]',
+        'lock-version = "2.0"'
+      ].join('\n');
+
+      const packages = LockfileParser.parsePoetryLock(lock, 'poetry.lock');
+
+      expect(summarize(packages)).toEqual(['pyyaml@6.0.1', 'pytest@7.4.3']);
+      expect(packages.map(p => p.dev)).toEqual([false, true]);
+    });
+  });
+
+  describe('parseGoSum', () => {
+    it('should fold go.mod hashes into one module version', () => {
+      const sum = [
+        'golang.org/x/text v0.3.7 h1:olpwvP2KacW1ZWvsR7uQhoyTYvKAupfQrRGBFM352Gk=',
+        'golang.org/x/text v0.3.7/go.mod h1:u+2+/6zg+i71rQMx5EYifcz6MCKuco9NR6JIITiCfzQ=',
+        'github.com/pkg/errors v0.9.1/go.mod h1:bwawxfHBFNV+L2hUp1rHADufV3IMtnDRdf1r5NINEl0='
+      ].join('\n');
+
+      const packages = LockfileParser.parse('go.sum', sum);
+
+      expect(summarize(packages)).toEqual(['golang.org/x/text@v0.3.7', 'github.com/pkg/errors@v0.9.1']);
+      expect(packages[0].ecosystem).toBe('Go');
+    });
+  });
+
+  describe('parseCargoLock', () => {
+    it('should skip workspace crates without a source', () => {
+      const lock = [
+        'version = 3',
+        '',
+        '[[package]]',
+        'name = "my-app"',
+        'version = "0.1.0"',
+        '',
+        '[[package]]',
+        'name = "serde"',
+        'version = "1.0.193"',
+        'source = "registry+https://github.com/rust-lang/crates.io-index"'
+      ].join('\n');
+
+      expect(summarize(LockfileParser.parseCargoLock(lock, 'Cargo.lock'))).toEqual(['serde@1.0.193']);
+    });
+  });
+
+  describe('parseGemfileLock', () => {
+    it('should read specs and mark gems listed under DEPENDENCIES as direct', () => {
+      const lock = [
+        'GEM',
+        '  remote: https://rubygems.org/',
+        '  specs:',
+        '    nokogiri (1.15.4-x86_64-linux)',
+        '      racc (~> 1.4)',
+        '    racc (1.7.3)',
+        '    rails (7.1.2)',
+        '',
+        'PLATFORMS',
+        '  x86_64-linux',
+        '',
+        'DEPENDENCIES',
+        '  nokogiri',
+        '  rails (~> 7.1)',
+        '',
+        'BUNDLED WITH',
+        '   2.4.22'
+      ].join('\n');
+
+      expect(summarize(LockfileParser.parseGemfileLock(lock, 'Gemfile.lock'))).toEqual([
+        'nokogiri@1.15.4 direct',
+        'racc@1.7.3 transitive',
+        'rails@7.1.2 direct'
+      ]);
+    });
+  });
+
+  describe('parseComposerLock', () => {
+    it('should read runtime and dev packages', () => {
+      const lock = JSON.stringify({
+        packages: [{ name: 'guzzlehttp/guzzle', version: '7.8.1' }],
+        'packages-dev': [{ name: 'phpunit/phpunit', version: '10.5.2' }]
+      });
+
+      const packages = LockfileParser.parseComposerLock(lock, 'composer.lock');
+
+      expect(summarize(packages)).toEqual(['guzzlehttp/guzzle@7.8.1', 'phpunit/phpunit@10.5.2']);
+      expect(packages.map(p => p.dev)).toEqual([false, true]);
+    });
+  });
+
+  describe('parseManifest', () => {
+    it('should read direct dependency names from go.mod, skipping indirect requirements', () => {
+      const goMod = [
+        'module example.com/app',
+        '',
+        'require github.com/pkg/errors v0.9.1',
+        '',
+        'require (',
+        '\tgolang.org/x/text v0.3.7',
+        '\tgithub.com/davecgh/go-spew v1.1.1 // indirect',
+        ')'
+      ].join('\n');
+
+      expect([...LockfileParser.parseManifest('go.mod', goMod)!.names]).toEqual(['github.com/pkg/errors', 'golang.org/x/text']);
+    });
+
+    it('should read Cargo.toml dependency tables', () => {
+      const cargoToml = [
+        '[package]',
+        'name = "my-app"',
+        '',
+        '[dependencies]',
+        'serde = { version = "1", features = ["derive"] }',
+        '',
+        "[target.'cfg(unix)'.dev-dependencies]",
+        'nix = "0.27"',
+        '',
+        '[dependencies.tokio]',
+        'version = "1"'
+      ].join('\n');
+
+      expect([...LockfileParser.parseManifest('Cargo.toml', cargoToml)!.names]).toEqual(['serde', 'nix', 'tokio']);
+    });
+
+    it('should ignore composer platform requirements', () => {
+      const composerJson = JSON.stringify({ require: { php: '>=8.1', 'ext-json': '*', 'guzzlehttp/guzzle': '^7.8' } });
+
+      expect([...LockfileParser.parseManifest('composer.json', composerJson)!.names]).toEqual(['guzzlehttp/guzzle']);
+    });
+
+    it('should read declared requirements with registry versions', () => {
+      const packageJson = JSON.stringify({
+        dependencies: { express: '^4.18.0', shared: 'workspace:*', fork: 'github:acme/fork' },
+        devDependencies: { vitest: '1.6.1' }
+      });
+      const cargoToml = [
+        '[dependencies]',
+        'serde = { version = "1", features = ["derive"] }',
+        'local = { path = "../local" }',
+        '',
+        '[dev-dependencies.tokio]',
+        'version = "1.36"'
+      ].join('\n');
+
+      expect(LockfileParser.parseManifest('web/package.json', packageJson)!.packages.map(p => [p.name, p.version, p.dev])).toEqual([
+        ['express', '^4.18.0', false],
+        ['vitest', '1.6.1', true]
+      ]);
+      expect(LockfileParser.parseManifest('Cargo.toml', cargoToml)!.packages.map(p => [p.name, p.version, p.dev])).toEqual([
+        ['serde', '1', false],
+        ['tokio', '1.36', true]
+      ]);
+      expect(LockfileParser.parseManifest('go.mod', 'require github.com/pkg/errors v0.9.1')!.packages[0])
+        .toMatchObject({ name: 'github.com/pkg/errors', version: 'v0.9.1', ecosystem: 'Go', direct: true, declared: true });
+    });
+
+    it('should return null for files that are not manifests', () => {
+      expect(LockfileParser.parseManifest('yarn.lock', '')).toBeNull();
+    });
+  });
+
+  describe('buildInventory', () => {
+    it('should mark direct dependencies from the manifest next to the lockfile', () => {
+      const inventory = LockfileParser.buildInventory([
+        { path: 'web/package.json', type: 'dependency', priority: 'high', reason: 'Dependencies', content: '{"dependencies":{"left-pad":"^1.3.0"}}' },
+        { path: 'web/yarn.lock', type: 'dependency', priority: 'high', reason: 'Dependencies', content: 'left-pad@^1.3.0:\n  version "1.3.0"\n\nis-odd@^3.0.0:\n  version "3.0.1"\n' },
+        { path: 'yarn.lock', type: 'dependency', priority: 'high', reason: 'Dependencies', content: 'left-pad@^1.0.0:\n  version "1.0.0"\n' }
+      ]);
+
+      expect(summarize(inventory.packages)).toEqual([
+        'left-pad@1.3.0 direct',
+        'is-odd@3.0.1 transitive',
+        'left-pad@1.0.0'
+      ]);
+    });
+
+    it('should only fall back to manifests without a lockfile when asked', () => {
+      const files = [
+        { path: 'package.json', type: 'dependency' as const, priority: 'high' as const, reason: 'Dependencies', content: '{"dependencies":{"left-pad":"^1.3.0"}}' },
+        { path: 'yarn.lock', type: 'dependency' as const, priority: 'high' as const, reason: 'Dependencies', content: 'left-pad@^1.3.0:\n  version "1.3.0"\n' },
+        { path: 'api/go.mod', type: 'dependency' as const, priority: 'high' as const, reason: 'Dependencies', content: 'require github.com/pkg/errors v0.9.1' }
+      ];
+
+      expect(summarize(LockfileParser.buildInventory(files).packages)).toEqual(['left-pad@1.3.0 direct']);
+
+      const inventory = LockfileParser.buildInventory(files, { manifestFallback: true });
+      expect(summarize(inventory.packages)).toEqual(['left-pad@1.3.0 direct', 'github.com/pkg/errors@v0.9.1 direct']);
+      expect(inventory.files).toEqual(['yarn.lock', 'api/go.mod']);
+    });
+
+    it('should combine lockfiles and record parse errors', () => {
+      const inventory = LockfileParser.buildInventory([
+        { path: 'requirements.txt', type: 'dependency', priority: 'high', reason: 'Dependencies', content: 'flask==3.0.0\nflask==3.0.0' },
+        { path: 'composer.lock', type: 'dependency', priority: 'high', reason: 'Dependencies', content: '{not json' },
+        { path: 'package.json', type: 'dependency', priority: 'high', reason: 'Dependencies', content: '{}' },
+        { path: 'go.sum', type: 'dependency', priority: 'high', reason: 'Dependencies' }
+      ]);
+
+      expect(inventory.files).toEqual(['requirements.txt']);
+      expect(summarize(inventory.packages)).toEqual(['flask@3.0.0 direct']);
+      expect(inventory.errors.map(e => e.file)).toEqual(['composer.lock']);
+      expect(inventory.totals).toEqual({ packages: 1, direct: 1, transitive: 0, byEcosystem: { PyPI: 1 } });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { McpProgressNotifier } from '../../app/utils/mcpProgress';
+import { StreamingAnalyzer } from '../../app/utils/streamingAnalyzer';
+import { AnalysisChunk } from '../../app/utils/analysisChunker';
+
+describe('McpProgressNotifier', () => {
+  it('should only report progress when the client sent a progress token', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    expect(McpProgressNotifier.fromRequest({ sendNotification })).toBeNull();
+    expect(McpProgressNotifier.fromRequest({ _meta: {}, sendNotification })).toBeNull();
+    expect(McpProgressNotifier.fromRequest({ _meta: { progressToken: 0 }, sendNotification })).toBeInstanceOf(McpProgressNotifier);
+  });
+
+  it('should send increasing progress notifications for the token', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const notifier = McpProgressNotifier.fromRequest({ _meta: { progressToken: 'scan-1' }, sendNotification })!;
+
+    notifier.notify('Scanned acme/api (1/2)', 2);
+    notifier.notify('Scanned acme/web (2/2)', 2);
+
+    expect(sendNotification.mock.calls.map(([notification]) => notification)).toEqual([
+      { method: 'notifications/progress', params: { progressToken: 'scan-1', progress: 1, total: 2, message: 'Scanned acme/api (1/2)' } },
+      { method: 'notifications/progress', params: { progressToken: 'scan-1', progress: 2, total: 2, message: 'Scanned acme/web (2/2)' } }
+    ]);
+  });
+
+  it('should forward StreamingAnalyzer progress and chunk completion', async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const notifier = new McpProgressNotifier(7, sendNotification);
+    const chunks: AnalysisChunk[] = [
+      { id: 'chunk-1', type: 'secret', files: [{ path: '.env', type: 'secret', priority: 'high', reason: 'Environment file' }], priority: 'high', description: '1 secret files', estimatedTokens: 100 },
+      { id: 'chunk-2', type: 'config', files: [{ path: 'config.json', type: 'config', priority: 'low', reason: 'Configuration' }], priority: 'low', description: '1 config files', estimatedTokens: 100 }
+    ];
+
+    await new StreamingAnalyzer('secrets', 'acme/api', notifier.streamingCallbacks('acme/api')).processChunks(chunks);
+
+    const params = sendNotification.mock.calls.map(([notification]) => notification.params);
+    expect(params.map(p => p.progress)).toEqual([1, 2, 3, 4]);
+    expect(params.map(p => p.message)).toEqual([
+      'acme/api: analyzing secret chunk 1/2',
+      'acme/api: secret chunk done with 1 findings (1/2)',
+      'acme/api: analyzing config chunk 2/2',
+      'acme/api: config chunk done with 1 findings (2/2)'
+    ]);
+  });
+
+  it('should send a total with each AI chunk that completes', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const notifier = new McpProgressNotifier(7, sendNotification);
+    const callbacks = notifier.streamingCallbacks('acme/api');
+
+    notifier.notify('Collecting security files from acme/api');
+    callbacks.onAIChunkComplete?.({ chunkType: 'secret', completed: 1, total: 2, failed: false });
+    callbacks.onAIChunkComplete?.({ chunkType: 'config', completed: 2, total: 2, failed: true });
+
+    const params = sendNotification.mock.calls.map(([notification]) => notification.params);
+    expect(params.slice(1)).toEqual([
+      { progressToken: 7, progress: 2, total: 3, message: 'acme/api: AI analysis of secret chunk done (1/2)' },
+      { progressToken: 7, progress: 3, total: 3, message: 'acme/api: AI analysis of config chunk failed (2/2)' }
+    ]);
+  });
+
+  it('should never lower the total while repositories are analyzed side by side', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const notifier = new McpProgressNotifier(7, sendNotification);
+    const api = notifier.streamingCallbacks('acme/api');
+    const web = notifier.streamingCallbacks('acme/web');
+
+    api.onAIChunkComplete?.({ chunkType: 'secret', completed: 1, total: 4, failed: false });
+    web.onAIChunkComplete?.({ chunkType: 'config', completed: 1, total: 1, failed: false });
+    api.onAIChunkComplete?.({ chunkType: 'secret', completed: 2, total: 4, failed: false });
+    notifier.notify('Scanned acme/web (1/2)');
+    notifier.notify('Scanned acme/api (2/2)', 2);
+
+    const params = sendNotification.mock.calls.map(([notification]) => notification.params);
+    expect(params.map(p => [p.progress, p.total])).toEqual([[1, 4], [2, 5], [3, 5], [4, undefined], [5, 5]]);
+  });
+
+  it('should not let a failed notification interrupt the scan', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const notifier = new McpProgressNotifier('scan-1', vi.fn().mockRejectedValue(new Error('stream closed')));
+
+    expect(() => notifier.notify('Collecting security files from acme/api')).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(warn).toHaveBeenCalledWith('⚠️ Could not send progress notification: stream closed');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateRawSync } from 'zlib';
+import { OsvAdvisory, OsvDatabase, loadOsvDatabase } from '../../app/utils/osvDatabase';
+import { DependencyPackage } from '../../app/utils/lockfileParser';
+
+const lodashAdvisory: OsvAdvisory = {
+  id: 'GHSA-35jh-r3h4-6jhm',
+  summary: 'Command Injection in lodash',
+  aliases: ['CVE-2021-23337'],
+  affected: [{
+    package: { ecosystem: 'npm', name: 'lodash' },
+    ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }]
+  }],
+  database_specific: { severity: 'HIGH' }
+};
+
+const djangoAdvisory: OsvAdvisory = {
+  id: 'PYSEC-2023-100',
+  details: 'SQL injection in Django\nMore details',
+  aliases: ['CVE-2023-36053'],
+  affected: [{
+    package: { ecosystem: 'PyPI', name: 'Django' },
+    ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '4.0' }, { fixed: '4.1.10' }, { introduced: '4.2a1' }, { fixed: '4.2.3' }] }]
+  }]
+};
+
+const withdrawnAdvisory: OsvAdvisory = {
+  id: 'GHSA-xxxx-withdrawn',
+  withdrawn: '2023-01-01T00:00:00Z',
+  affected: [{ package: { ecosystem: 'npm', name: 'lodash' }, versions: ['4.17.20'] }]
+};
+
+function pkg(overrides: Partial<DependencyPackage>): DependencyPackage {
+  return { name: 'lodash', version: '4.17.20', ecosystem: 'npm', sourceFile: 'package-lock.json', ...overrides };
+}
+
+// Minimal zip writer producing deflated entries, enough to exercise the reader
+function createZip(entries: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, data);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('OsvDatabase', () => {
+  describe('match', () => {
+    const database = new OsvDatabase([lodashAdvisory, djangoAdvisory, withdrawnAdvisory]);
+
+    it('should skip withdrawn advisories', () => {
+      expect(database.size).toBe(2);
+    });
+
+    it('should match an affected npm version', () => {
+      const matches = database.match(pkg({}));
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ affectedRange: '<4.17.21', fixedVersion: '4.17.21', severity: 'high' });
+    });
+
+    it('should not match a fixed version', () => {
+      expect(database.match(pkg({ version: '4.17.21' }))).toEqual([]);
+    });
+
+    it('should match PyPI names after normalization', () => {
+      const matches = database.match(pkg({ name: 'django', version: '4.2.1', ecosystem: 'PyPI' }));
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ affectedRange: '>=4.2a1, <4.2.3', fixedVersion: '4.2.3', severity: 'medium' });
+    });
+
+    it('should not match across ecosystems', () => {
+      expect(database.match(pkg({ ecosystem: 'Packagist' }))).toEqual([]);
+    });
+  });
+
+  describe('toFinding', () => {
+    it('should carry advisory ids, affected range and fixed version', () => {
+      const [match] = new OsvDatabase([lodashAdvisory]).match(pkg({}));
+
+      const finding = OsvDatabase.toFinding(match);
+
+      expect(finding).toMatchObject({
+        type: 'vulnerability',
+        severity: 'high',
+        title: 'lodash@4.17.20 is affected by CVE-2021-23337',
+        filePath: 'package-lock.json',
+        ruleId: 'GHSA-35jh-r3h4-6jhm',
+        recommendation: 'Upgrade lodash to 4.17.21 or later.',
+        vulnerability: {
+          id: 'GHSA-35jh-r3h4-6jhm',
+          aliases: ['CVE-2021-23337'],
+          affectedRange: '<4.17.21',
+          fixedVersion: '4.17.21'
+        }
+      });
+      expect(finding.description).toContain('GHSA-35jh-r3h4-6jhm, CVE-2021-23337');
+    });
+
+    it('should explain when no fix exists', () => {
+      const advisory: OsvAdvisory = {
+        id: 'GHSA-open',
+        affected: [{ package: { ecosystem: 'npm', name: 'lodash' }, versions: ['4.17.20'] }]
+      };
+      const [match] = new OsvDatabase([advisory]).match(pkg({}));
+
+      const finding = OsvDatabase.toFinding(match);
+
+      expect(finding.vulnerability?.affectedRange).toBe('=4.17.20');
+      expect(finding.vulnerability?.fixedVersion).toBeUndefined();
+      expect(finding.description).toContain('No fixed version is available.');
+    });
+  });
+
+  describe('parseZip', () => {
+    it('should read deflated JSON entries', () => {
+      const zip = createZip({
+        'GHSA-35jh-r3h4-6jhm.json': JSON.stringify(lodashAdvisory),
+        'README.txt': 'not an advisory'
+      });
+
+      expect(OsvDatabase.parseZip(zip).map(a => a.id)).toEqual(['GHSA-35jh-r3h4-6jhm']);
+    });
+
+    it('should reject data that is not a zip archive', () => {
+      expect(() => OsvDatabase.parseZip(Buffer.from('hello'))).toThrow('end of central directory');
+    });
+  });
+
+  describe('load', () => {
+    let directory: string;
+
+    beforeAll(() => {
+      directory = mkdtempSync(join(tmpdir(), 'osv-'));
+      mkdirSync(join(directory, 'PyPI'));
+      writeFileSync(join(directory, 'PyPI', 'PYSEC-2023-100.json'), JSON.stringify(djangoAdvisory));
+      writeFileSync(join(directory, 'npm.zip'), createZip({ 'GHSA-35jh-r3h4-6jhm.json': JSON.stringify(lodashAdvisory) }));
+      writeFileSync(join(directory, 'broken.json'), '{');
+    });
+
+    afterAll(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should load JSON files and zip archives from a directory tree', async () => {
+      const database = await OsvDatabase.load(directory);
+
+      expect(database.size).toBe(2);
+    });
+
+    it('should load a single zip archive', async () => {
+      const database = await OsvDatabase.load(join(directory, 'npm.zip'));
+
+      expect(database.match(pkg({}))).toHaveLength(1);
+    });
+
+    it('should cache snapshots by path', async () => {
+      expect(loadOsvDatabase(directory)).toBe(loadOsvDatabase(directory));
+      await loadOsvDatabase(directory);
+    });
+  });
+});
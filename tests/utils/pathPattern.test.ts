@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { PathPattern } from '../../app/utils/pathPattern';
+
+describe('PathPattern', () => {
+  describe('globToRegExp', () => {
+    it('should match paths like gitignore globs', () => {
+      expect(PathPattern.globToRegExp('services/**/*.ts').test('services/billing/api/charge.ts')).toBe(true);
+      expect(PathPattern.globToRegExp('services/**/*.ts').test('services/index.ts')).toBe(true);
+      expect(PathPattern.globToRegExp('services/**/*.ts').test('web/services/index.ts')).toBe(false);
+      expect(PathPattern.globToRegExp('*.{rb,erb}').test('app/views/show.erb')).toBe(true);
+      expect(PathPattern.globToRegExp('*.test.ts').test('src/a.test.tsx')).toBe(false);
+    });
+
+    it('should optionally ignore case', () => {
+      expect(PathPattern.globToRegExp('Dockerfile').test('docker/dockerfile')).toBe(false);
+      expect(PathPattern.globToRegExp('Dockerfile', true).test('docker/dockerfile')).toBe(true);
+    });
+  });
+
+  describe('compile', () => {
+    it('should treat slash-delimited patterns as regular expressions', () => {
+      expect(PathPattern.compile('/\\.snap$/').test('tests/__snapshots__/app.test.ts.snap')).toBe(true);
+      expect(PathPattern.compile('/^Legacy\\//', true).test('legacy/app.js')).toBe(true);
+      expect(PathPattern.compile('**/legacy/**').test('src/legacy/app.js')).toBe(true);
+      expect(() => PathPattern.compile('/(/')).toThrow(SyntaxError);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RulePackError, RulePackLoader } from '../../app/utils/rulePackLoader';
+import { CodePatternEngine } from '../../app/utils/codePatternEngine';
+
+const PACK = [
+  'name: acme-house-rules',
+  'rules:',
+  '  - id: acme-raw-query',
+  '    title: Raw query helper',
+  '    message: db.rawQuery bypasses the Acme query sanitiser',
+  '    severity: high',
+  '    languages: [javascript]',
+  '    files: ["services/**/*.ts", "!**/*.test.ts"]',
+  '    pattern: $DB.rawQuery($SQL + ...)',
+  '    remediation: Use db.query with placeholders.',
+  '  - id: acme-feature-flag-bypass',
+  '    message: Feature flags must not be forced on in code',
+  '    severity: low',
+  '    confidence: high',
+  '    regex: \'flags\\.force\\(.+,\\s*true\\)\'',
+  '    exclude: allow-force'
+].join('\n');
+
+describe('RulePackLoader', () => {
+  describe('parse', () => {
+    it('should compile rules with defaults', () => {
+      const pack = RulePackLoader.parse(PACK, 'acme.yml');
+
+      expect(pack.name).toBe('acme-house-rules');
+      expect(pack.rules.map(rule => [rule.id, rule.category, rule.severity, rule.confidence, rule.languages])).toEqual([
+        ['acme-raw-query', 'custom', 'high', 'medium', ['javascript']],
+        ['acme-feature-flag-bypass', 'custom', 'low', 'high', []]
+      ]);
+      expect(pack.rules[1].title).toBe('Feature flags must not be forced on in code');
+      expect(pack.rules[0].recommendation).toBe('Use db.query with placeholders.');
+    });
+
+    it('should report invalid rules with their position', () => {
+      const invalid = (lines: string[]) => () => RulePackLoader.parse(['name: broken', 'rules:', ...lines].join('\n'), 'broken.yml');
+
+      expect(invalid(['  - id: a', '    message: m', '    severity: urgent', '    regex: x'])).toThrow(RulePackError);
+      expect(invalid(['  - id: a', '    message: m', '    severity: urgent', '    regex: x']))
+        .toThrow('Invalid rule pack broken.yml: rules[0] (line 3): "severity" must be one of critical, high, medium, low, info');
+      expect(invalid(['  - id: a', '    message: m', '    severity: low'])).toThrow('exactly one of "regex" or "pattern"');
+      expect(invalid(['  - id: a', '    message: m', '    severity: low', '    regex: "("'])).toThrow('"regex" is not a valid expression');
+      expect(invalid(['  - id: a', '    message: m', '    severity: low', '    regex: x', '    languages: cobol'])).toThrow('unknown language "cobol"');
+      expect(invalid([
+        '  - { id: a, message: m, severity: low, regex: x }',
+        '  - { id: a, message: m, severity: low, regex: y }'
+      ])).toThrow('rules[1] (line 4): duplicate rule id "a"');
+      expect(() => RulePackLoader.parse('rules: []', 'empty.yml')).toThrow('"name" is required');
+    });
+  });
+
+  describe('compilePattern', () => {
+    it('should match code-shaped patterns with metavariables and ellipses', () => {
+      const pattern = RulePackLoader.compilePattern('$DB.rawQuery($SQL + ...)');
+
+      expect(pattern.test('const rows = await db.rawQuery("SELECT * FROM t WHERE id = " + id);')).toBe(true);
+      expect(pattern.test('await this.db.rawQuery( sql + suffix, params )')).toBe(true);
+      expect(pattern.test('await db.rawQuery(sql, [id])')).toBe(false);
+    });
+
+    it('should require repeated metavariables to match the same text', () => {
+      const pattern = RulePackLoader.compilePattern('if ($X == $X)');
+
+      expect(pattern.test('if (a == a) {')).toBe(true);
+      expect(pattern.test('if (a == b) {')).toBe(false);
+      expect(pattern.test('ifa == a')).toBe(false);
+    });
+  });
+
+  describe('mergeRules', () => {
+    it('should let pack rules replace built-in rules with the same id', () => {
+      const pack = RulePackLoader.parse([
+        'name: tuning',
+        'rules:',
+        '  - { id: go-weak-crypto, message: MD5 is banned, severity: critical, languages: [go], regex: "md5\\\\." }'
+      ].join('\n'));
+
+      const rules = RulePackLoader.mergeRules(CodePatternEngine.RULES, [pack]);
+
+      expect(rules).toHaveLength(CodePatternEngine.RULES.length);
+      expect(rules.filter(rule => rule.id === 'go-weak-crypto').map(rule => rule.severity)).toEqual(['critical']);
+    });
+  });
+
+  describe('applied by CodePatternEngine', () => {
+    it('should respect languages, file globs and exclusions', () => {
+      const rules = RulePackLoader.parse(PACK).rules;
+      const content = [
+        'const rows = await db.rawQuery("SELECT * FROM orders WHERE id = " + id);',
+        'flags.force("checkout-v2", true);',
+        'flags.force("checkout-v3", true); // allow-force'
+      ].join('\n');
+
+      expect(CodePatternEngine.analyze(content, 'services/orders/repo.ts', rules).map(f => [f.ruleId, f.lineNumber])).toEqual([
+        ['acme-raw-query', 1],
+        ['acme-feature-flag-bypass', 2]
+      ]);
+      expect(CodePatternEngine.analyze(content, 'services/orders/repo.test.ts', rules).map(f => f.ruleId))
+        .toEqual(['acme-feature-flag-bypass']);
+      expect(CodePatternEngine.analyze(content, 'config/flags.yml', rules).map(f => f.ruleId))
+        .toEqual(['acme-feature-flag-bypass']);
+    });
+  });
+
+  describe('load', () => {
+    let directory: string | undefined;
+
+    afterEach(async () => {
+      if (directory) await fs.rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    });
+
+    it('should read every YAML file below a directory', async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rule-packs-'));
+      await fs.mkdir(path.join(directory, 'team'));
+      await fs.writeFile(path.join(directory, 'acme.yml'), PACK);
+      await fs.writeFile(path.join(directory, 'team', 'extra.yaml'), 'name: extra\nrules:\n  - { id: x, message: m, severity: info, regex: TODO }\n');
+      await fs.writeFile(path.join(directory, 'README.md'), '# Rule packs');
+
+      const packs = await RulePackLoader.load(directory);
+
+      expect(packs.map(pack => [pack.name, path.relative(directory!, pack.source)])).toEqual([
+        ['acme-house-rules', 'acme.yml'],
+        ['extra', path.join('team', 'extra.yaml')]
+      ]);
+    });
+  });
+});
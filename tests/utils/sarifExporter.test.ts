@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { SarifExporter } from '../../app/utils/sarifExporter';
+import { ChunkFinding } from '../../app/utils/chunkProcessor';
+
+describe('SarifExporter', () => {
+  const chunkFindings: ChunkFinding[] = [
+    {
+      type: 'secret',
+      severity: 'critical',
+      title: 'Secrets file detected',
+      description: 'Secrets file found: config/secrets.json',
+      filePath: 'config/secrets.json',
+      lineNumber: 3,
+      recommendation: 'Use a secrets management service'
+    },
+    {
+      type: 'secret',
+      severity: 'critical',
+      title: 'Secrets file detected',
+      description: 'Secrets file found: credentials.json',
+      filePath: './credentials.json'
+    },
+    {
+      type: 'configuration',
+      severity: 'low',
+      title: 'Configuration file detected',
+      description: 'Configuration file found'
+    }
+  ];
+
+  describe('createLog', () => {
+    it('should produce a SARIF 2.1.0 log', () => {
+      const log = SarifExporter.createLog([]);
+
+      expect(log.version).toBe('2.1.0');
+      expect(log.$schema).toContain('sarif-2.1.0');
+    });
+  });
+
+  describe('createChunkFindingsRun', () => {
+    it('should create one result per finding', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.results).toHaveLength(3);
+    });
+
+    it('should deduplicate rules by type and title', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.tool.driver.rules.map(r => r.id)).toEqual([
+        'secret/secrets-file-detected',
+        'configuration/configuration-file-detected'
+      ]);
+    });
+
+    it('should map severity to SARIF level', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.results.map(r => r.level)).toEqual(['error', 'error', 'note']);
+    });
+
+    it('should include file path and line number in the location', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.results[0].locations?.[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'config/secrets.json' },
+        region: { startLine: 3 }
+      });
+    });
+
+    it('should strip leading ./ from paths', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.results[1].locations?.[0].physicalLocation.artifactLocation.uri).toBe('credentials.json');
+    });
+
+    it('should omit locations for findings without a file', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.results[2].locations).toBeUndefined();
+    });
+
+    it('should prefer a detector rule id and carry its confidence', () => {
+      const run = SarifExporter.createChunkFindingsRun([
+        {
+          type: 'secret',
+          severity: 'critical',
+          title: 'GitHub token detected',
+          description: 'GitHub token found in src/config.ts at line 4: ghp_****Yz',
+          filePath: 'src/config.ts',
+          lineNumber: 4,
+          ruleId: 'github-token',
+          confidence: 'high'
+        }
+      ], 'owner/repo');
+
+      expect(run.results[0].ruleId).toBe('secret/github-token');
+      expect(run.results[0].properties?.confidence).toBe('high');
+    });
+
+    it('should use recommendation as rule help', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.tool.driver.rules[0].help?.text).toBe('Use a secrets management service');
+    });
+
+    it('should set security-severity on rules', () => {
+      const run = SarifExporter.createChunkFindingsRun(chunkFindings, 'owner/repo');
+
+      expect(run.tool.driver.rules[0].properties['security-severity']).toBe('9.5');
+    });
+  });
+
+  describe('createAIFindingsRun', () => {
+    const aiFindings = [
+      { finding: 'Hard-coded token', severity: 'High', impact: 'Account takeover', location: 'src/api.ts:10' },
+      { finding: 'Weak CORS policy', severity: 'Medium', impact: 'Data exposure', location: 'Server configuration' },
+      { severity: 'Low' }
+    ];
+
+    it('should skip findings without a title', () => {
+      const run = SarifExporter.createAIFindingsRun(aiFindings, 'owner/repo');
+
+      expect(run.results).toHaveLength(2);
+    });
+
+    it('should normalize severity casing', () => {
+      const run = SarifExporter.createAIFindingsRun(aiFindings, 'owner/repo');
+
+      expect(run.results[0].level).toBe('error');
+      expect(run.results[1].level).toBe('warning');
+    });
+
+    it('should parse path-like locations', () => {
+      const run = SarifExporter.createAIFindingsRun(aiFindings, 'owner/repo');
+
+      expect(run.results[0].locations?.[0].physicalLocation.region?.startLine).toBe(10);
+    });
+
+    it('should keep free-text locations in the message', () => {
+      const run = SarifExporter.createAIFindingsRun(aiFindings, 'owner/repo');
+
+      expect(run.results[1].locations).toBeUndefined();
+      expect(run.results[1].message.text).toContain('Server configuration');
+    });
+  });
+
+  describe('fromAnalysisResult', () => {
+    it('should create runs for chunk and AI findings', () => {
+      const log = SarifExporter.fromAnalysisResult({
+        repository: 'owner/repo',
+        ai_analysis: {
+          ai_analysis: {
+            critical_findings: [{ finding: 'Exposed key', severity: 'Critical', location: '.env' }]
+          },
+          chunked_analysis: {
+            streaming_results: {
+              chunkResults: [{ findings: chunkFindings }]
+            }
+          }
+        }
+      });
+
+      expect(log.runs).toHaveLength(2);
+      expect(log.runs[0].results).toHaveLength(3);
+      expect(log.runs[1].results).toHaveLength(1);
+    });
+
+    it('should handle results without analysis data', () => {
+      const log = SarifExporter.fromAnalysisResult({ repository: 'owner/repo' });
+
+      expect(log.runs.every(run => run.results.length === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { SbomGenerator } from '../../app/utils/sbomGenerator';
+import { DependencyInventory, DependencyPackage, LockfileParser } from '../../app/utils/lockfileParser';
+
+function createInventory(packages: DependencyPackage[]): DependencyInventory {
+  return { packages, files: [...new Set(packages.map(p => p.sourceFile))], errors: [], totals: LockfileParser.totals(packages) };
+}
+
+const inventory = createInventory([
+  { name: '@types/node', version: '20.11.0', ecosystem: 'npm', direct: true, dev: true, sourceFile: 'package-lock.json' },
+  { name: 'express', version: '4.18.2', ecosystem: 'npm', direct: true, dev: false, sourceFile: 'package-lock.json' },
+  { name: 'debug', version: '2.6.9', ecosystem: 'npm', direct: false, dev: false, sourceFile: 'package-lock.json' },
+  { name: 'express', version: '4.18.2', ecosystem: 'npm', direct: true, dev: false, sourceFile: 'web/package-lock.json' },
+  { name: 'golang.org/x/text', version: 'v0.3.7', ecosystem: 'Go', sourceFile: 'go.sum' }
+]);
+
+const metadata = { repository: 'test-owner/test-repo', timestamp: '2024-01-01T00:00:00.000Z' };
+
+describe('SbomGenerator', () => {
+  describe('packageUrl', () => {
+    it('should build purls for each ecosystem', () => {
+      const base = { version: '1.0.0', sourceFile: 'lock' };
+
+      expect(SbomGenerator.packageUrl({ ...base, name: '@types/node', ecosystem: 'npm' })).toBe('pkg:npm/%40types/node@1.0.0');
+      expect(SbomGenerator.packageUrl({ ...base, name: 'Flask_Cors', ecosystem: 'PyPI' })).toBe('pkg:pypi/flask-cors@1.0.0');
+      expect(SbomGenerator.packageUrl({ ...base, name: 'github.com/pkg/errors', ecosystem: 'Go', version: 'v0.9.1' })).toBe('pkg:golang/github.com/pkg/errors@v0.9.1');
+      expect(SbomGenerator.packageUrl({ ...base, name: 'serde', ecosystem: 'crates.io' })).toBe('pkg:cargo/serde@1.0.0');
+      expect(SbomGenerator.packageUrl({ ...base, name: 'rails', ecosystem: 'RubyGems' })).toBe('pkg:gem/rails@1.0.0');
+      expect(SbomGenerator.packageUrl({ ...base, name: 'guzzlehttp/guzzle', ecosystem: 'Packagist' })).toBe('pkg:composer/guzzlehttp/guzzle@1.0.0');
+    });
+
+    it('should leave the version out of purls for declared ranges', () => {
+      const declared = { sourceFile: 'package.json', declared: true };
+
+      expect(SbomGenerator.packageUrl({ ...declared, name: 'express', version: '^4.18.0', ecosystem: 'npm' })).toBe('pkg:npm/express');
+      expect(SbomGenerator.packageUrl({ ...declared, name: 'express', version: '4.18.2', ecosystem: 'npm' })).toBe('pkg:npm/express@4.18.2');
+      expect(SbomGenerator.packageUrl({ ...declared, name: 'serde', version: '1.0.197', ecosystem: 'crates.io' })).toBe('pkg:cargo/serde');
+      expect(SbomGenerator.packageUrl({ ...declared, name: 'serde', version: '=1.0.197', ecosystem: 'crates.io' })).toBe('pkg:cargo/serde@1.0.197');
+    });
+  });
+
+  describe('resolvedVersion', () => {
+    it('should only treat declared requirements that pin one version as resolved', () => {
+      const declared = { name: 'pkg', ecosystem: 'npm' as const, sourceFile: 'package.json', declared: true };
+
+      expect(SbomGenerator.resolvedVersion({ ...declared, version: '=1.2.3' })).toBe('1.2.3');
+      expect(SbomGenerator.resolvedVersion({ ...declared, version: '1.2.3-rc.1' })).toBe('1.2.3-rc.1');
+      ['^1.2.3', '~1.2.3', '>=1.2.3 <2', '1.2', '1.x', '*'].forEach(range =>
+        expect(SbomGenerator.resolvedVersion({ ...declared, version: range })).toBeUndefined()
+      );
+      expect(SbomGenerator.resolvedVersion({ ...declared, declared: false, version: '1.2.3' })).toBe('1.2.3');
+    });
+  });
+
+  describe('generateCycloneDX', () => {
+    const bom = SbomGenerator.generateCycloneDX(inventory, metadata);
+
+    it('should produce a CycloneDX 1.5 document', () => {
+      expect(bom.bomFormat).toBe('CycloneDX');
+      expect(bom.specVersion).toBe('1.5');
+      expect(bom.serialNumber).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+      expect(bom.metadata.timestamp).toBe('2024-01-01T00:00:00.000Z');
+      expect(bom.metadata.component.name).toBe('test-owner/test-repo');
+    });
+
+    it('should list each package once with every lockfile that resolves it', () => {
+      const express = bom.components.find((c: any) => c.name === 'express');
+
+      expect(bom.components).toHaveLength(4);
+      expect(express.properties.filter((p: any) => p.name === 'daily-dev-mcp:source-file').map((p: any) => p.value))
+        .toEqual(['package-lock.json', 'web/package-lock.json']);
+    });
+
+    it('should mark dev dependencies as optional and record directness', () => {
+      const types = bom.components.find((c: any) => c.name === '@types/node');
+      const debug = bom.components.find((c: any) => c.name === 'debug');
+
+      expect(types.scope).toBe('optional');
+      expect(debug.scope).toBe('required');
+      expect(debug.properties).toContainEqual({ name: 'daily-dev-mcp:dependency', value: 'transitive' });
+    });
+
+    it('should hang packages that are not known to be transitive off the root component', () => {
+      expect(bom.dependencies).toEqual([{
+        ref: 'repository:test-owner/test-repo',
+        dependsOn: ['pkg:npm/%40types/node@20.11.0', 'pkg:npm/express@4.18.2', 'pkg:golang/golang.org/x/text@v0.3.7']
+      }]);
+    });
+  });
+
+  describe('generateSpdx', () => {
+    const doc = SbomGenerator.generateSpdx(inventory, metadata);
+
+    it('should produce an SPDX 2.3 document', () => {
+      expect(doc.spdxVersion).toBe('SPDX-2.3');
+      expect(doc.dataLicense).toBe('CC0-1.0');
+      expect(doc.creationInfo.created).toBe('2024-01-01T00:00:00Z');
+      expect(doc.documentNamespace).toContain('test-owner/test-repo');
+    });
+
+    it('should describe the repository and reference packages by purl', () => {
+      const express = doc.packages.find((p: any) => p.name === 'express');
+
+      expect(doc.packages[0].SPDXID).toBe('SPDXRef-Repository');
+      expect(express.externalRefs[0]).toEqual({
+        referenceCategory: 'PACKAGE-MANAGER',
+        referenceType: 'purl',
+        referenceLocator: 'pkg:npm/express@4.18.2'
+      });
+      expect(doc.relationships[0]).toEqual({ spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: 'SPDXRef-Repository' });
+    });
+
+    it('should use valid and unique SPDX identifiers', () => {
+      const ids = doc.packages.map((p: any) => p.SPDXID);
+
+      expect(new Set(ids).size).toBe(ids.length);
+      ids.forEach((id: string) => expect(id).toMatch(/^SPDXRef-[A-Za-z0-9.-]+$/));
+    });
+
+    it('should only relate packages not known to be transitive to the repository', () => {
+      const debug = doc.packages.find((p: any) => p.name === 'debug');
+      const express = doc.packages.find((p: any) => p.name === 'express');
+      const text = doc.packages.find((p: any) => p.name === 'golang.org/x/text');
+
+      expect(doc.relationships.filter((r: any) => r.spdxElementId === debug.SPDXID || r.relatedSpdxElement === debug.SPDXID)).toEqual([]);
+      expect(doc.relationships).toContainEqual({ spdxElementId: 'SPDXRef-Repository', relationshipType: 'DEPENDS_ON', relatedSpdxElement: express.SPDXID });
+      expect(doc.relationships).toContainEqual({ spdxElementId: 'SPDXRef-Repository', relationshipType: 'DEPENDS_ON', relatedSpdxElement: text.SPDXID });
+    });
+
+    it('should relate dev dependencies with DEV_DEPENDENCY_OF', () => {
+      const types = doc.packages.find((p: any) => p.name === '@types/node');
+
+      expect(doc.relationships).toContainEqual({ spdxElementId: types.SPDXID, relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-Repository' });
+    });
+  });
+
+  describe('declared ranges and skipped files', () => {
+    const declaredInventory = createInventory([
+      { name: 'express', version: '^4.18.0', ecosystem: 'npm', direct: true, dev: false, sourceFile: 'package.json', declared: true },
+      { name: 'express', version: '^4.17.0', ecosystem: 'npm', direct: true, dev: false, sourceFile: 'web/package.json', declared: true }
+    ]);
+    const skippedMetadata = { ...metadata, skippedFiles: [{ path: 'Cargo.lock', reason: 'too-large' }] };
+
+    it('should keep ranges out of CycloneDX versions and record the skipped files', () => {
+      const bom = SbomGenerator.generateCycloneDX(declaredInventory, skippedMetadata);
+      const refs = bom.components.map((c: any) => c['bom-ref']);
+
+      expect(bom.components.map((c: any) => [c.version, c.purl])).toEqual([[undefined, 'pkg:npm/express'], [undefined, 'pkg:npm/express']]);
+      expect(bom.components[1].properties).toContainEqual({ name: 'daily-dev-mcp:version-range', value: '^4.17.0' });
+      expect(new Set(refs).size).toBe(2);
+      expect(bom.dependencies[0].dependsOn).toEqual(refs);
+      expect(bom.metadata.properties).toEqual([{ name: 'daily-dev-mcp:skipped-file', value: 'Cargo.lock (too-large)' }]);
+    });
+
+    it('should keep ranges out of SPDX versions and record the skipped files', () => {
+      const doc = SbomGenerator.generateSpdx(declaredInventory, skippedMetadata);
+      const express = doc.packages.find((p: any) => p.name === 'express');
+
+      expect(express.versionInfo).toBeUndefined();
+      expect(express.externalRefs[0].referenceLocator).toBe('pkg:npm/express');
+      expect(express.comment).toBe('Direct dependency declared as ^4.18.0 in package.json');
+      expect(doc.comment).toBe('Dependency files left out: Cargo.lock (too-large)');
+    });
+
+    it('should not add skipped file metadata when every file was read', () => {
+      expect(SbomGenerator.generateCycloneDX(inventory, metadata).metadata.properties).toBeUndefined();
+      expect(SbomGenerator.generateSpdx(inventory, metadata).comment).toBeUndefined();
+    });
+  });
+
+  describe('generate', () => {
+    it('should default to CycloneDX', () => {
+      expect(SbomGenerator.generate(inventory, metadata).bomFormat).toBe('CycloneDX');
+      expect(SbomGenerator.generate(inventory, metadata, 'spdx').spdxVersion).toBe('SPDX-2.3');
+    });
+  });
+});
@@ -0,0 +1,421 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../app/config/env', () => ({
+  env: {
+    REDIS_URL: 'redis://localhost:6379',
+    SMITHERY_GITHUB_API_KEY: 'test-github-key',
+    SCAN_JOB_TTL_SECONDS: 86400
+  }
+}));
+
+import { ScanJob, ScanJobQueue, ScanJobRequest, ScanJobStore } from '../../app/utils/scanJobQueue';
+import { ScanJobRunner, ScanJobWorker, createScanJobRunner } from '../../app/utils/scanJobWorker';
+
+// In-memory stand-in for the Redis commands the queue uses
+class MemoryStore implements ScanJobStore {
+  values = new Map<string, string>();
+  ttls = new Map<string, number | undefined>();
+  lists = new Map<string, string[]>();
+
+  async get(key: string) {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, options?: { EX?: number }) {
+    this.values.set(key, value);
+    this.ttls.set(key, options?.EX);
+    return 'OK';
+  }
+
+  async lPush(key: string, value: string) {
+    const list = this.lists.get(key) || [];
+    list.unshift(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async lMove(source: string, destination: string, sourceSide: 'LEFT' | 'RIGHT', destinationSide: 'LEFT' | 'RIGHT') {
+    const from = this.lists.get(source) || [];
+    const value = (sourceSide === 'RIGHT' ? from.pop() : from.shift()) ?? null;
+    if (value !== null) {
+      const to = this.lists.get(destination) || [];
+      if (destinationSide === 'LEFT') to.unshift(value);
+      else to.push(value);
+      this.lists.set(destination, to);
+    }
+    return value;
+  }
+
+  async lRem(key: string, count: number, value: string) {
+    const list = this.lists.get(key) || [];
+    let removed = 0;
+    this.lists.set(key, list.filter(item => {
+      if (item !== value || (count > 0 && removed === count)) return true;
+      removed++;
+      return false;
+    }));
+    return removed;
+  }
+
+  async lRange(key: string, start: number, stop: number) {
+    const list = this.lists.get(key) || [];
+    return list.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  // The queue's only script: replace the job at KEYS[1] with ARGV[2] while its status is ARGV[1]
+  async eval(_script: string, options: { keys: string[]; arguments: string[] }) {
+    const [expectedStatus, value, ttl] = options.arguments;
+    const current = this.values.get(options.keys[0]);
+    if (!current || JSON.parse(current).status !== expectedStatus) return 0;
+    await this.set(options.keys[0], value, { EX: Number(ttl) });
+    return 1;
+  }
+}
+
+const request: ScanJobRequest = {
+  organizations: [],
+  repositories: ['acme/api'],
+  scanTypes: ['secrets'],
+  filters: {},
+  concurrency: 2
+};
+
+describe('ScanJobQueue', () => {
+  it('should record queued jobs with a TTL', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store, 3600);
+
+    const job = await queue.enqueue(request);
+
+    expect(job.status).toBe('queued');
+    expect(job.progress).toMatchObject({ repositories_total: null, repositories_scanned: 0, chunks_analyzed: 0 });
+    expect(await queue.getJob(job.id)).toEqual(job);
+    expect(store.ttls.get(`scan-job:${job.id}`)).toBe(3600);
+    expect(store.lists.get('scan-jobs:queued')).toEqual([job.id]);
+  });
+
+  it('should return null for unknown jobs and unfinished results', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const job = await queue.enqueue(request);
+
+    expect(await queue.getJob('missing')).toBeNull();
+    expect(await queue.getResult(job.id)).toBeNull();
+  });
+
+  it('should claim jobs in the order they were queued', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const first = await queue.enqueue(request);
+    const second = await queue.enqueue({ ...request, repositories: ['acme/web'] });
+
+    const claimed = await queue.claimNext();
+
+    expect(claimed?.id).toBe(first.id);
+    expect(claimed?.status).toBe('running');
+    expect(claimed?.started_at).toBeDefined();
+    expect((await queue.getJob(first.id))?.status).toBe('running');
+    expect((await queue.claimNext())?.id).toBe(second.id);
+    expect(await queue.claimNext()).toBeNull();
+  });
+
+  it('should keep claimed jobs on the processing list until they finish', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+
+    expect(store.lists.get('scan-jobs:queued')).toEqual([]);
+    expect(store.lists.get('scan-jobs:processing')).toEqual([job.id]);
+    expect(job.heartbeat_at).toBeDefined();
+
+    await queue.complete(job, {});
+
+    expect(store.lists.get('scan-jobs:processing')).toEqual([]);
+  });
+
+  it('should requeue running jobs whose worker stopped sending heartbeats', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    await queue.enqueue(request);
+    await queue.enqueue(request);
+    const stale = (await queue.claimNext())!;
+    const live = (await queue.claimNext())!;
+    stale.heartbeat_at = new Date(Date.now() - 60000).toISOString();
+    await store.set(`scan-job:${stale.id}`, JSON.stringify(stale));
+
+    expect(await queue.requeueStale(30000)).toBe(1);
+
+    expect(store.lists.get('scan-jobs:processing')).toEqual([live.id]);
+    expect(await queue.getJob(stale.id)).toMatchObject({ status: 'queued' });
+    expect((await queue.claimNext())?.id).toBe(stale.id);
+  });
+
+  it('should drop expired jobs from the processing list', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+    store.values.delete(`scan-job:${job.id}`);
+
+    expect(await queue.requeueStale(30000)).toBe(0);
+    expect(store.lists.get('scan-jobs:processing')).toEqual([]);
+    expect(store.lists.get('scan-jobs:queued')).toEqual([]);
+  });
+
+  it('should skip queued jobs whose record expired', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    const expired = await queue.enqueue(request);
+    const live = await queue.enqueue(request);
+    store.values.delete(`scan-job:${expired.id}`);
+
+    expect((await queue.claimNext())?.id).toBe(live.id);
+  });
+
+  it('should merge progress updates into the job', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+
+    await queue.updateProgress(job, { repositories_total: 2, message: 'Scanning 2 repositories' });
+    await queue.updateProgress(job, { repositories_scanned: 1 });
+
+    expect((await queue.getJob(job.id))?.progress).toMatchObject({
+      repositories_total: 2,
+      repositories_scanned: 1,
+      message: 'Scanning 2 repositories'
+    });
+  });
+
+  it('should ignore progress updates that arrive after the job finished', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+    await queue.complete(job, {});
+
+    await queue.updateProgress(job, { message: 'acme/api: secret chunk done with 0 findings' });
+
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'completed', progress: { message: 'Scan completed' } });
+  });
+
+  it('should cancel queued jobs right away', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    const job = await queue.enqueue(request);
+
+    expect(await queue.cancel(job.id)).toMatchObject({ status: 'cancelled' });
+    expect(store.lists.get('scan-jobs:queued')).toEqual([]);
+    expect(await queue.claimNext()).toBeNull();
+    expect(await queue.cancel('missing')).toBeNull();
+  });
+
+  it('should stop a job claimed while it was being cancelled instead of cancelling it as queued', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    const job = await queue.enqueue(request);
+    const get = store.get.bind(store);
+    let claimed: ScanJob | null | undefined;
+    // A worker claims the job right after cancel read it as queued
+    store.get = async (key: string) => {
+      const value = await get(key);
+      if (claimed === undefined) {
+        claimed = null;
+        claimed = await queue.claimNext();
+      }
+      return value;
+    };
+
+    expect(await queue.cancel(job.id)).toMatchObject({ status: 'running' });
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'running' });
+    expect(await queue.heartbeat(claimed!)).toBe(true);
+  });
+
+  it('should not run a job cancelled while it was being claimed', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    const job = await queue.enqueue(request);
+    const get = store.get.bind(store);
+    let cancelled = false;
+    // The job is cancelled right after the worker read it as queued
+    store.get = async (key: string) => {
+      const value = await get(key);
+      if (!cancelled) {
+        cancelled = true;
+        await queue.cancel(job.id);
+      }
+      return value;
+    };
+
+    expect(await queue.claimNext()).toBeNull();
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'cancelled' });
+    expect(store.lists.get('scan-jobs:processing')).toEqual([]);
+  });
+
+  it('should report cancellation of running jobs on their next heartbeat', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+
+    expect(await queue.heartbeat(job)).toBe(false);
+    expect(await queue.cancel(job.id)).toMatchObject({ status: 'running' });
+    expect(await queue.heartbeat(job)).toBe(true);
+  });
+
+  it('should store the result of completed jobs with a TTL', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store, 600);
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+
+    await queue.complete(job, { total_repos_scanned: 1 });
+
+    expect(await queue.getResult(job.id)).toEqual({ total_repos_scanned: 1 });
+    expect(store.ttls.get(`scan-job:${job.id}:result`)).toBe(600);
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'completed', progress: { message: 'Scan completed' } });
+    expect((await queue.getJob(job.id))?.finished_at).toBeDefined();
+  });
+
+  it('should record the error of failed jobs', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    await queue.enqueue(request);
+    const job = (await queue.claimNext())!;
+
+    await queue.fail(job, 'No repositories provided for scanning');
+
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'failed', error: 'No repositories provided for scanning' });
+    expect(await queue.getResult(job.id)).toBeNull();
+  });
+});
+
+describe('ScanJobWorker', () => {
+  it('should report an empty queue', async () => {
+    const runner = vi.fn();
+    const worker = new ScanJobWorker(new ScanJobQueue(new MemoryStore()), runner);
+
+    expect(await worker.runNext()).toBe(false);
+    expect(runner).not.toHaveBeenCalled();
+  });
+
+  it('should run the next job and store its result', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const job = await queue.enqueue(request);
+    const runner = vi.fn<Parameters<ScanJobRunner>, ReturnType<ScanJobRunner>>().mockResolvedValue({ total_repos_scanned: 1 });
+
+    expect(await new ScanJobWorker(queue, runner).runNext()).toBe(true);
+
+    expect(runner).toHaveBeenCalledWith(request, expect.any(Object));
+    expect((await queue.getJob(job.id))?.status).toBe('completed');
+    expect(await queue.getResult(job.id)).toEqual({ total_repos_scanned: 1 });
+  });
+
+  it('should record repository and chunk progress while the job runs', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const job = await queue.enqueue(request);
+    const snapshots: any[] = [];
+    const runner: ScanJobRunner = async (_request, options) => {
+      const snapshot = async () => snapshots.push((await queue.getJob(job.id))?.progress);
+      options.onRepositoriesResolved?.(2);
+      await snapshot();
+
+      const callbacks = options.progress?.('acme/api');
+      callbacks?.onProgress?.({ currentChunk: 1, totalChunks: 1, currentChunkType: 'secret' } as any);
+      callbacks?.onChunkComplete?.({ chunkType: 'secret', findings: [{}, {}] } as any);
+      await snapshot();
+
+      options.onRepositoryScanned?.('acme/api', 1, 2);
+      await snapshot();
+      return {};
+    };
+
+    await new ScanJobWorker(queue, runner).runNext();
+
+    expect(snapshots).toEqual([
+      expect.objectContaining({ repositories_total: 2, message: 'Scanning 2 repositories' }),
+      expect.objectContaining({ chunks_analyzed: 1, findings: 2, message: 'acme/api: secret chunk done with 2 findings' }),
+      expect.objectContaining({ repositories_scanned: 1, message: 'Scanned acme/api (1/2)' })
+    ]);
+  });
+
+  it('should mark the job failed when the runner throws', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const job = await queue.enqueue(request);
+    const runner = vi.fn().mockRejectedValue(new Error('connection refused'));
+
+    await new ScanJobWorker(queue, runner).runNext();
+
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'failed', error: 'connection refused' });
+  });
+
+  it('should keep the partial result of a job cancelled by the worker stopping', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const job = await queue.enqueue(request);
+    const controller = new AbortController();
+    const runner: ScanJobRunner = async () => {
+      controller.abort();
+      return { cancelled: true, results: [] };
+    };
+
+    await new ScanJobWorker(queue, runner).runNext(controller.signal);
+
+    expect((await queue.getJob(job.id))?.status).toBe('cancelled');
+    expect(await queue.getResult(job.id)).toEqual({ cancelled: true, results: [] });
+  });
+
+  it('should stop a running job cancelled through the queue', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const job = await queue.enqueue(request);
+    const runner: ScanJobRunner = async (_request, options) => {
+      await queue.cancel(job.id);
+      await new Promise<void>(resolve => options.signal?.addEventListener('abort', () => resolve()));
+      return { cancelled: true, results: [] };
+    };
+
+    await new ScanJobWorker(queue, runner, 5).runNext();
+
+    expect((await queue.getJob(job.id))?.status).toBe('cancelled');
+    expect(await queue.getResult(job.id)).toEqual({ cancelled: true, results: [] });
+  });
+
+  it('should finish the job only after pending progress writes have landed', async () => {
+    const store = new MemoryStore();
+    const queue = new ScanJobQueue(store);
+    const job = await queue.enqueue(request);
+    const set = store.set.bind(store);
+    // Progress writes land late, after the runner has already returned
+    store.set = async (key, value, options) => {
+      if (value.includes('chunk done')) await new Promise(resolve => setTimeout(resolve, 20));
+      return set(key, value, options);
+    };
+    const runner: ScanJobRunner = async (_request, options) => {
+      options.progress?.('acme/api').onChunkComplete?.({ chunkType: 'secret', findings: [] } as any);
+      return {};
+    };
+
+    await new ScanJobWorker(queue, runner).runNext();
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'completed', progress: { message: 'Scan completed' } });
+  });
+
+  it('should process queued jobs until stopped', async () => {
+    const queue = new ScanJobQueue(new MemoryStore());
+    const first = await queue.enqueue(request);
+    const second = await queue.enqueue(request);
+    const controller = new AbortController();
+    const runner = vi.fn().mockResolvedValue({});
+    const worker = new ScanJobWorker(queue, runner);
+
+    const running = worker.run(controller.signal, 10);
+    await vi.waitFor(() => expect(runner).toHaveBeenCalledTimes(2));
+    controller.abort();
+    await running;
+
+    expect((await queue.getJob(first.id))?.status).toBe('completed');
+    expect((await queue.getJob(second.id))?.status).toBe('completed');
+  });
+
+  it('should fail jobs without repositories to scan', async () => {
+    const runner = createScanJobRunner('test-url', 'test-key', 'test-profile');
+
+    await expect(runner({ ...request, repositories: [] }, {})).rejects.toThrow('No repositories provided for scanning');
+  });
+});
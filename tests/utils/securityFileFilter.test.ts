@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { SecurityFileFilter, SecurityFile, FileFilterOptions } from '../../app/utils/securityFileFilter';
+import { SecurityFileFilter, SecurityFile, FileFilterOptions, FilePatternConfig } from '../../app/utils/securityFileFilter';
 
 describe('SecurityFileFilter', () => {
   describe('isSecurityRelevant', () => {
@@ -84,6 +84,104 @@ describe('SecurityFileFilter', () => {
       });
     });
 
+    describe('deployment files', () => {
+      it('should identify Terraform files outside a terraform directory as deployment files', () => {
+        const result = SecurityFileFilter.isSecurityRelevant('infra/main.tf');
+        expect(result?.type).toBe('deployment');
+      });
+    });
+
+    describe('workflow files', () => {
+      it('should identify GitHub Actions workflows as high priority workflow files', () => {
+        const result = SecurityFileFilter.isSecurityRelevant('.github/workflows/deploy-token.yml');
+        expect(result).toMatchObject({ type: 'workflow', priority: 'high' });
+      });
+
+      it('should not treat other files under .github/workflows as workflows', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('.github/workflows/README.md')?.type).not.toBe('workflow');
+        expect(SecurityFileFilter.isSecurityRelevant('.github/workflows/scripts/build.yml')?.type).not.toBe('workflow');
+      });
+
+      it('should exclude workflows when workflow files are disabled', () => {
+        const result = SecurityFileFilter.isSecurityRelevant('.github/workflows/ci.yml', { includeWorkflowFiles: false });
+        expect(result?.type).not.toBe('workflow');
+      });
+    });
+
+    describe('source files', () => {
+      it('should only match source files when they are requested', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('src/db/users.ts')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('src/db/users.ts', { includeSourceFiles: true }))
+          .toMatchObject({ type: 'source', priority: 'low' });
+        expect(SecurityFileFilter.isSecurityRelevant('app/models/user.rb', { includeSourceFiles: true })?.type).toBe('source');
+      });
+
+      it('should skip vendored, built and minified code', () => {
+        const options: FileFilterOptions = { includeSourceFiles: true };
+        expect(SecurityFileFilter.isSecurityRelevant('vendor/github.com/pkg/errors/errors.go', options)).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('public/js/app.min.js', options)).toBeNull();
+      });
+    });
+
+    describe('pattern precision', () => {
+      it('should match secret words only as whole name parts', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('src/monkey.ts')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('src/keyboard.js')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('src/tokenizer.py')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('certs/server.key')?.type).toBe('secret');
+        expect(SecurityFileFilter.isSecurityRelevant('config/auth-tokens.yml')?.type).toBe('secret');
+      });
+
+      it('should not treat files in secret-sounding directories as secrets', () => {
+        const options: FileFilterOptions = { includeSourceFiles: true };
+        expect(SecurityFileFilter.isSecurityRelevant('packages/auth/package-lock.json')?.type).toBe('dependency');
+        expect(SecurityFileFilter.isSecurityRelevant('src/keys/index.ts', options)?.type).toBe('source');
+        expect(SecurityFileFilter.isSecurityRelevant('src/auth/session.ts', options)?.type).toBe('source');
+        expect(SecurityFileFilter.isSecurityRelevant('src/auth/session.ts')).toBeNull();
+      });
+
+      it('should record the pattern that matched', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('services/api/package.json')?.reason)
+          .toBe('Matched dependency pattern: {package.json,package-lock.json,yarn.lock,pnpm-lock.yaml}');
+        expect(SecurityFileFilter.isSecurityRelevant('deploy/Dockerfile.prod')?.reason)
+          .toBe('Matched deployment pattern: {Dockerfile,Dockerfile.*,*.Dockerfile,.dockerignore}');
+      });
+
+      it('should exclude vendored code, fixtures and tests by default', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('node_modules/left-pad/package.json')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('tests/fixtures/.env')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('spec/support/credentials.json')).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('src/db/users.test.ts', { includeSourceFiles: true })).toBeNull();
+      });
+    });
+
+    describe('pattern overrides', () => {
+      const patterns: FilePatternConfig = {
+        include: { secret: ['config/*.enc'], source: ['tests/e2e/**/*.ts'] },
+        exclude: ['legacy/**', '/\\.snap$/'],
+        source: '.daily-dev-mcp.yml'
+      };
+
+      it('should check repository patterns before the built-in ones', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('config/prod.enc', { patterns })).toMatchObject({
+          type: 'secret',
+          reason: 'Matched secret pattern from .daily-dev-mcp.yml: config/*.enc'
+        });
+      });
+
+      it('should let explicit includes bypass the default excludes but not explicit excludes', () => {
+        expect(SecurityFileFilter.isSecurityRelevant('tests/e2e/login.ts', { patterns, includeSourceFiles: true })?.type).toBe('source');
+        expect(SecurityFileFilter.isSecurityRelevant('tests/e2e/login.ts', { patterns })).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('legacy/.env', { patterns })).toBeNull();
+        expect(SecurityFileFilter.isSecurityRelevant('src/__snapshots__/secrets.snap', { patterns })).toBeNull();
+      });
+
+      it('should scan tests and vendored code when default excludes are off', () => {
+        const options: FileFilterOptions = { patterns: { defaultExcludes: false } };
+        expect(SecurityFileFilter.isSecurityRelevant('tests/fixtures/.env', options)?.type).toBe('secret');
+      });
+    });
+
     describe('non-security files', () => {
       it('should return null for README.md', () => {
         const result = SecurityFileFilter.isSecurityRelevant('README.md');
@@ -280,6 +378,34 @@ describe('SecurityFileFilter', () => {
     });
   });
 
+  describe('parseRepositoryConfig', () => {
+    it('should read the files section', () => {
+      const config = SecurityFileFilter.parseRepositoryConfig([
+        'files:',
+        '  include:',
+        '    deployment: ["ops/**/*.yml"]',
+        '  exclude:',
+        '    - "third-party/**"',
+        '  defaultExcludes: false'
+      ].join('\n'));
+
+      expect(config).toEqual({
+        include: { deployment: ['ops/**/*.yml'] },
+        exclude: ['third-party/**'],
+        defaultExcludes: false,
+        source: '.daily-dev-mcp.yml'
+      });
+      expect(SecurityFileFilter.parseRepositoryConfig('version: 1\n')).toEqual({ source: '.daily-dev-mcp.yml' });
+    });
+
+    it('should reject unknown file types and invalid patterns', () => {
+      expect(() => SecurityFileFilter.parseRepositoryConfig('files:\n  include:\n    docs: ["*.md"]\n'))
+        .toThrow('unknown file type "docs"');
+      expect(() => SecurityFileFilter.parseRepositoryConfig('files:\n  exclude: ["/(/"]\n'))
+        .toThrow('files.exclude pattern /(/ is invalid');
+    });
+  });
+
   describe('getAnalysisFilters', () => {
     describe('secrets analysis', () => {
       it('should include secret files for secrets analysis', () => {
@@ -325,6 +451,12 @@ describe('SecurityFileFilter', () => {
         const filters = SecurityFileFilter.getAnalysisFilters('dependencies');
         expect(filters.maxFiles).toBe(10);
       });
+
+      it('should leave out the categories dependencies analysis does not look at', () => {
+        const filters = SecurityFileFilter.getAnalysisFilters('dependencies');
+        expect(SecurityFileFilter.filterFiles(['.env', 'config.yml', 'package.json', 'Dockerfile'], filters).map(f => f.path))
+          .toEqual(['package.json']);
+      });
     });
 
     describe('unknown analysis type', () => {
@@ -241,6 +241,48 @@ describe('StreamingAnalyzer', () => {
     });
   });
 
+  describe('concurrent processing', () => {
+    it('should process chunks concurrently and keep results in chunk order', async () => {
+      const concurrent = new StreamingAnalyzer('secrets', 'test-owner/test-repo', { maxConcurrentChunks: 3 });
+      const chunks: AnalysisChunk[] = ['.env', 'secrets.json', 'credentials.json', 'id_rsa'].map((path, i) => ({
+        id: `chunk-${i + 1}`,
+        type: 'secret',
+        files: [{ path, type: 'secret', priority: 'high', reason: 'Secret file' }],
+        priority: 'high',
+        description: '1 secret files',
+        estimatedTokens: 200
+      }));
+
+      const result = await concurrent.processChunks(chunks);
+
+      expect(result.processedChunks).toBe(4);
+      expect(result.chunkResults.map(r => r.chunkId)).toEqual(['chunk-1', 'chunk-2', 'chunk-3', 'chunk-4']);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should not start chunks after the signal is aborted', async () => {
+      const controller = new AbortController();
+      const cancellable = new StreamingAnalyzer('secrets', 'test-owner/test-repo', {
+        signal: controller.signal,
+        onChunkComplete: () => controller.abort()
+      });
+      const chunks: AnalysisChunk[] = ['.env', 'secrets.json', 'credentials.json'].map((path, i) => ({
+        id: `chunk-${i + 1}`,
+        type: 'secret',
+        files: [{ path, type: 'secret', priority: 'high', reason: 'Secret file' }],
+        priority: 'high',
+        description: '1 secret files',
+        estimatedTokens: 200
+      }));
+
+      const result = await cancellable.processChunks(chunks);
+
+      expect(result.totalChunks).toBe(3);
+      expect(result.chunkResults.map(r => r.chunkId)).toEqual(['chunk-1']);
+    });
+  });
+
   describe('progress calculation', () => {
     it('should calculate correct percentage for single chunk', async () => {
       const chunks: AnalysisChunk[] = [
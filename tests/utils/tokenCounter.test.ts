@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { TokenCounter } from '../../app/utils/tokenCounter';
+
+describe('TokenCounter', () => {
+  it('should count common words and punctuation like a BPE tokenizer', () => {
+    expect(TokenCounter.count('')).toBe(0);
+    expect(TokenCounter.count('Hello world')).toBe(4);
+    expect(TokenCounter.count('x = 1;')).toBe(4);
+    expect(TokenCounter.count("don't")).toBe(2);
+  });
+
+  it('should count dense text such as secrets and non-ASCII characters generously', () => {
+    const secret = 'AKIAIOSFODNN7EXAMPLEwJalrXUtnFEMIK7MDENGbPxRfiCYEXAMPLEKEY';
+
+    expect(TokenCounter.count(secret)).toBeGreaterThan(secret.length / 4);
+    expect(TokenCounter.count('パスワード')).toBe(10);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { compareSemver, comparePep440, compareSegments, compareVersions, formatRange, matchRange } from '../../app/utils/versionRange';
+
+describe('versionRange', () => {
+  describe('compareSemver', () => {
+    it('should order by major, minor and patch', () => {
+      expect(compareSemver('1.2.3', '1.10.0')).toBe(-1);
+      expect(compareSemver('2.0.0', '1.99.99')).toBe(1);
+      expect(compareSemver('v1.2.3', '1.2.3')).toBe(0);
+    });
+
+    it('should order pre-releases before the release', () => {
+      const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0'];
+      const sorted = [...ordered].reverse().sort(compareSemver);
+
+      expect(sorted).toEqual(ordered);
+    });
+
+    it('should ignore build metadata', () => {
+      expect(compareSemver('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+    });
+  });
+
+  describe('comparePep440', () => {
+    it('should follow PEP 440 ordering', () => {
+      const ordered = ['1.0.dev1', '1.0a1', '1.0a2.dev1', '1.0a2', '1.0b1', '1.0rc1', '1.0', '1.0.post1', '1.1'];
+      const sorted = [...ordered].reverse().sort(comparePep440);
+
+      expect(sorted).toEqual(ordered);
+    });
+
+    it('should treat trailing zeros and spelling variants as equal', () => {
+      expect(comparePep440('2.0', '2.0.0')).toBe(0);
+      expect(comparePep440('1.0-alpha-1', '1.0a1')).toBe(0);
+      expect(comparePep440('1.0-1', '1.0.post1')).toBe(0);
+    });
+
+    it('should honour epochs', () => {
+      expect(comparePep440('1!1.0', '2024.1')).toBe(1);
+    });
+  });
+
+  describe('compareSegments', () => {
+    it('should treat letter segments as pre-releases', () => {
+      expect(compareSegments('7.1.0.rc1', '7.1.0')).toBe(-1);
+      expect(compareSegments('1.10', '1.9')).toBe(1);
+      expect(compareSegments('v2.0', '2.0.0')).toBe(0);
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should strip Go +incompatible suffixes', () => {
+      expect(compareVersions('Go', 'v2.0.0+incompatible', 'v2.0.0')).toBe(0);
+    });
+  });
+
+  describe('matchRange', () => {
+    const range = {
+      type: 'SEMVER' as const,
+      events: [{ introduced: '0' }, { fixed: '1.2.3' }, { introduced: '2.0.0' }, { fixed: '2.1.0' }]
+    };
+
+    it('should match versions inside an interval and report its fix', () => {
+      expect(matchRange('npm', '1.0.0', range)).toEqual({ introduced: '0', fixed: '1.2.3' });
+      expect(matchRange('npm', '2.0.5', range)).toEqual({ introduced: '2.0.0', fixed: '2.1.0' });
+    });
+
+    it('should not match fixed or unaffected versions', () => {
+      expect(matchRange('npm', '1.2.3', range)).toBeNull();
+      expect(matchRange('npm', '1.5.0', range)).toBeNull();
+      expect(matchRange('npm', '2.1.0', range)).toBeNull();
+    });
+
+    it('should include last_affected versions', () => {
+      const lastAffected = { type: 'ECOSYSTEM' as const, events: [{ introduced: '1.0' }, { last_affected: '1.4' }] };
+
+      expect(matchRange('PyPI', '1.4', lastAffected)).toEqual({ introduced: '1.0', lastAffected: '1.4' });
+      expect(matchRange('PyPI', '1.4.post1', lastAffected)).toBeNull();
+    });
+
+    it('should treat an open interval as affecting every later version', () => {
+      const open = { type: 'ECOSYSTEM' as const, events: [{ introduced: '3.0' }] };
+
+      expect(matchRange('PyPI', '9.0', open)).toEqual({ introduced: '3.0' });
+      expect(matchRange('PyPI', '3.0rc1', open)).toBeNull();
+    });
+
+    it('should skip GIT ranges', () => {
+      expect(matchRange('Go', 'v1.0.0', { type: 'GIT', events: [{ introduced: '0' }] })).toBeNull();
+    });
+  });
+
+  describe('formatRange', () => {
+    it('should render interval bounds', () => {
+      expect(formatRange({ introduced: '0', fixed: '1.2.3' })).toBe('<1.2.3');
+      expect(formatRange({ introduced: '1.0', lastAffected: '1.4' })).toBe('>=1.0, <=1.4');
+      expect(formatRange({ introduced: '0' })).toBe('*');
+    });
+  });
+});
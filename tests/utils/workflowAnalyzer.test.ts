@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { WorkflowAnalyzer } from '../../app/utils/workflowAnalyzer';
+
+const SHA = 'b4ffde65f46336ab88eb53be808477a3936bae11';
+
+function analyze(lines: string[]) {
+  return WorkflowAnalyzer.analyze(lines.join('\n'), '.github/workflows/ci.yml');
+}
+
+describe('WorkflowAnalyzer', () => {
+  it('should not flag a hardened workflow', () => {
+    const findings = analyze([
+      'name: CI',
+      'on: [push, pull_request]',
+      'permissions:',
+      '  contents: read',
+      'jobs:',
+      '  test:',
+      '    runs-on: ubuntu-latest',
+      '    env:',
+      '      NPM_TOKEN: ${{ secrets.NPM_TOKEN }}',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      `      - uses: pnpm/action-setup@${SHA} # v2`,
+      '      - name: Login',
+      '        run: echo "$NPM_TOKEN" | npm login --stdin',
+      '      - run: |',
+      '          echo "Building ${{ github.sha }}"',
+      '          npm test'
+    ]);
+
+    expect(findings).toEqual([]);
+  });
+
+  it('should flag pull_request_target workflows that check out the PR head', () => {
+    const findings = analyze([
+      'on:',
+      '  pull_request_target:',
+      '    types: [opened]',
+      'permissions: {}',
+      'jobs:',
+      '  build:',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '        with:',
+      '          ref: ${{ github.event.pull_request.head.sha }}',
+      '      - run: gh pr checkout ${{ github.event.number }}'
+    ]);
+
+    expect(findings.map(f => [f.ruleId, f.lineNumber, f.resource])).toEqual([
+      ['gha-pull-request-target-checkout', 10, 'jobs.build.steps[0]'],
+      ['gha-pull-request-target-checkout', 11, 'jobs.build.steps[1]']
+    ]);
+    expect(findings[0].severity).toBe('critical');
+  });
+
+  it('should flag untrusted event data interpolated into scripts', () => {
+    const findings = analyze([
+      'on: issues',
+      'permissions: read-all',
+      'jobs:',
+      '  triage:',
+      '    steps:',
+      '      - name: Greet',
+      '        run: |',
+      '          echo "Thanks for the report"',
+      '          echo "${{ github.event.issue.title }}" > title.txt',
+      '      - uses: actions/github-script@v7',
+      '        with:',
+      '          script: console.log("${{ github.event.comment.body }}")',
+      '      - run: echo "${{ github.event.issue.number }}"'
+    ]);
+
+    expect(findings.map(f => [f.ruleId, f.lineNumber, f.resource])).toEqual([
+      ['gha-script-injection', 9, 'jobs.triage.steps[Greet]'],
+      ['gha-script-injection', 12, 'jobs.triage.steps[1]']
+    ]);
+    expect(findings[0].description).toContain('github.event.issue.title');
+  });
+
+  it('should flag third-party actions not pinned to a commit SHA', () => {
+    const findings = analyze([
+      'on: push',
+      'permissions: {}',
+      'jobs:',
+      '  release:',
+      '    uses: acme/workflows/.github/workflows/release.yml@main',
+      '  build:',
+      '    steps:',
+      '      - uses: actions/setup-node@v4',
+      '      - uses: ./.github/actions/local',
+      '      - uses: docker://alpine:3.19',
+      '      - uses: softprops/action-gh-release@v1',
+      `      - uses: aquasecurity/trivy-action@${SHA}`
+    ]);
+
+    expect(findings.map(f => [f.ruleId, f.lineNumber, f.resource])).toEqual([
+      ['gha-unpinned-action', 5, 'jobs.release'],
+      ['gha-unpinned-action', 11, 'jobs.build.steps[3]']
+    ]);
+    expect(findings[1].description).toContain('softprops/action-gh-release@v1 is referenced by the mutable ref "v1"');
+  });
+
+  it('should flag write-all and missing permissions', () => {
+    const broad = analyze([
+      'on: push',
+      'permissions: write-all',
+      'jobs:',
+      '  deploy:',
+      '    permissions: write-all',
+      '    steps: []'
+    ]);
+    const missing = analyze(['on: push', 'jobs:', '  test:', '    steps: []']);
+    const perJob = analyze(['on: push', 'jobs:', '  test:', '    permissions:', '      contents: read', '    steps: []']);
+
+    expect(broad.map(f => [f.ruleId, f.lineNumber, f.resource])).toEqual([
+      ['gha-broad-permissions', 2, undefined],
+      ['gha-broad-permissions', 5, 'jobs.deploy']
+    ]);
+    expect(missing.map(f => f.ruleId)).toEqual(['gha-missing-permissions']);
+    expect(perJob).toEqual([]);
+  });
+
+  it('should flag secrets echoed to the log', () => {
+    const findings = analyze([
+      'on: push',
+      'permissions: {}',
+      'env:',
+      '  DEPLOY_KEY: ${{ secrets.DEPLOY_KEY }}',
+      'jobs:',
+      '  deploy:',
+      '    steps:',
+      '      - env:',
+      '          TOKEN: ${{ secrets.API_TOKEN }}',
+      '        run: |',
+      '          echo "token is $TOKEN"',
+      '          echo "::add-mask::$TOKEN"',
+      '          echo "$TOKEN" | docker login --password-stdin',
+      '          printf "%s" "${DEPLOY_KEY}" || true',
+      '          echo "TOKEN=${{ secrets.API_TOKEN }}" >> "$GITHUB_ENV"',
+      '      - run: echo ${{ secrets.API_TOKEN }}'
+    ]);
+
+    expect(findings.map(f => [f.ruleId, f.lineNumber])).toEqual([
+      ['gha-secret-echo', 11],
+      ['gha-secret-echo', 14],
+      ['gha-secret-echo', 16]
+    ]);
+  });
+
+  it('should ignore files that are not workflows or cannot be parsed', () => {
+    expect(WorkflowAnalyzer.analyze('name: not a workflow\n', 'ci.yml')).toEqual([]);
+    expect(WorkflowAnalyzer.analyze('on: push\njobs: "broken', 'ci.yml')).toEqual([]);
+  });
+});
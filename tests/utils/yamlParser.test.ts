@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { YamlParseError, YamlParser } from '../../app/utils/yamlParser';
+
+describe('YamlParser', () => {
+  describe('parse', () => {
+    it('should parse nested mappings, sequences and scalars', () => {
+      const value = YamlParser.parse([
+        '# comment',
+        'name: api   # trailing comment',
+        'replicas: 3',
+        'ratio: 0.5',
+        'enabled: true',
+        'empty:',
+        'nothing: ~',
+        'quoted: "a: b # not a comment"',
+        "single: 'it''s'",
+        'ports:',
+        '- 80',
+        '- 443',
+        'containers:',
+        '  - name: web',
+        '    args: ["--port", 8080]',
+        '    labels: {app: web, tier: "front"}',
+        '  - name: sidecar',
+        '    command:',
+        '      - sh',
+        '      - -c'
+      ].join('\n'));
+
+      expect(value).toEqual({
+        name: 'api',
+        replicas: 3,
+        ratio: 0.5,
+        enabled: true,
+        empty: null,
+        nothing: null,
+        quoted: 'a: b # not a comment',
+        single: "it's",
+        ports: [80, 443],
+        containers: [
+          { name: 'web', args: ['--port', 8080], labels: { app: 'web', tier: 'front' } },
+          { name: 'sidecar', command: ['sh', '-c'] }
+        ]
+      });
+    });
+
+    it('should parse literal and folded block scalars', () => {
+      const value = YamlParser.parse([
+        'script: |',
+        '  echo one',
+        '    indented',
+        '',
+        'folded: >-',
+        '  one',
+        '  two',
+        'steps:',
+        '  - run: |',
+        '      npm ci',
+        '      npm test',
+        'after: done'
+      ].join('\n'));
+
+      expect(value).toEqual({
+        script: 'echo one\n  indented\n',
+        folded: 'one two',
+        steps: [{ run: 'npm ci\nnpm test\n' }],
+        after: 'done'
+      });
+    });
+
+    it('should keep template expressions and URLs as plain strings', () => {
+      const value = YamlParser.parse('image: {{ .Values.image }}\nurl: https://example.com:8443/path\nkey: C:\\temp');
+
+      expect(value).toEqual({ image: '{{ .Values.image }}', url: 'https://example.com:8443/path', key: 'C:\\temp' });
+    });
+
+    it('should throw YamlParseError with a line number on invalid input', () => {
+      expect(() => YamlParser.parse('a: 1\njust text\n')).toThrow(YamlParseError);
+      expect(() => YamlParser.parse('a: "unterminated')).toThrow(/line 1/);
+    });
+  });
+
+  describe('parseDocuments', () => {
+    it('should split documents and skip empty ones', () => {
+      const documents = YamlParser.parseDocuments('---\nkind: A\n---\n# only a comment\n---\nkind: B\n...\n');
+
+      expect(documents).toEqual([
+        { value: { kind: 'A' }, lineNumber: 2 },
+        { value: { kind: 'B' }, lineNumber: 6 }
+      ]);
+    });
+  });
+
+  describe('lineOf', () => {
+    it('should report line numbers of keys and sequence items', () => {
+      const documents = YamlParser.parseDocuments('kind: A\n---\nspec:\n  items:\n    - name: x\n      value: 1\n');
+      const spec = documents[1].value.spec;
+
+      expect(YamlParser.lineOf(documents[1].value, 'spec')).toBe(3);
+      expect(YamlParser.lineOf(spec.items, 0)).toBe(5);
+      expect(YamlParser.lineOf(spec.items[0], 'value')).toBe(6);
+      expect(YamlParser.lineOf(spec, 'missing')).toBeUndefined();
+      expect(YamlParser.lineOf('scalar', 'x')).toBeUndefined();
+    });
+  });
+});